@@ -2,8 +2,12 @@
 import React from 'react';
 import Header from './components/Header';
 import ImageGenerator from './components/ImageGenerator';
+import { getProvider } from './services/providers';
+import { useTranslation } from './hooks/useTranslation';
 
 const App: React.FC = () => {
+  const { t } = useTranslation();
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 to-gray-800 text-gray-100 font-sans">
       <Header />
@@ -11,7 +15,10 @@ const App: React.FC = () => {
         <ImageGenerator />
       </main>
       <footer className="text-center py-4 text-gray-500 text-sm">
-        <p>Criado com a API Gemini</p>
+        <p>{t('app.footer')}</p>
+        {getProvider().id === 'mock' && (
+          <p className="text-amber-400/80 mt-1">{t('app.mockMode')}</p>
+        )}
       </footer>
     </div>
   );
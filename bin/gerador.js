@@ -0,0 +1,3 @@
+#!/usr/bin/env node
+// Entry point of the `gerador` command; run `npm run build:cli` first.
+import "../dist-ssr/gerador.js";
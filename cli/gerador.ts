@@ -0,0 +1,228 @@
+// Command-line batch generation: the scenes and narrations of a passage written to disk with a
+// manifest, using the same services as the app. Build with `npm run build:cli`.
+import { parseArgs } from 'node:util';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { generateImagePrompt, generateSpeech, getVerseText } from '../services/geminiService';
+import { generateSafeImageVariants } from '../services/safePrompt';
+import { formatBibleRef, parsePassage, toBookLanguage, type BibleRef } from '../services/bibleReference';
+import { detectCorpusFormat, parseCorpus } from '../services/bibleCorpus';
+import { buildSceneReferences, charactersInPrompt, parseCharacterBible } from '../services/characterBible';
+import { mergeCharacters } from '../services/passageService';
+import { createProject, createVerse, withDerivedMeta, type Project, type ProjectNarration, type ProjectVerse } from '../services/projectStore';
+import { buildPackageFiles } from '../services/sequencePackage';
+import { BUILT_IN_STYLE_PRESETS } from '../services/stylePresets';
+import { BUILT_IN_VOICE_PRESETS, PREBUILT_VOICES, defaultVoiceSettings, type VoiceSettings } from '../services/voiceCatalog';
+import { describeError } from '../services/errors';
+import { LOCALES, setLocale, t } from '../services/i18n';
+import type { AspectRatio } from '../services/providers';
+
+const ASPECT_RATIOS: AspectRatio[] = ['9:16', '3:4', '1:1', '4:3', '16:9'];
+
+interface SceneOptions {
+  passage: string;
+  style: string;
+  ratio: string;
+  voice?: string;
+  lang: string;
+  out: string;
+  characters?: string;
+  name?: string;
+  bible?: string;
+  skipAudio: boolean;
+}
+
+class UsageError extends Error {}
+
+/** A translation read from a file with `--bible`. */
+interface CliBible {
+  name: string;
+  /** Verse text keyed by "book.chapter.verse" (OSIS book id). */
+  verses: Map<string, string>;
+}
+
+const bibleKey = ({ book, chapter, verse }: BibleRef) => `${book}.${chapter}.${verse}`;
+
+/** Reads a translation in any format the app imports (OSIS, JSON or CSV). */
+const loadBible = async (file: string): Promise<CliBible> => {
+  const content = await readFile(file, 'utf8');
+  const verses = parseCorpus(content, detectCorpusFormat(file, content));
+  if (verses.length === 0) throw new UsageError(t('errors.corpusEmpty'));
+  return { name: path.basename(file), verses: new Map(verses.map((verse) => [bibleKey(verse), verse.text])) };
+};
+
+/** Messages follow the terminal's LANG (e.g. "en_US.UTF-8"), like the app follows the browser. */
+const applyTerminalLocale = () => {
+  const lang = (process.env.LC_ALL || process.env.LANG || '').replace('_', '-');
+  const locale = LOCALES.find(({ code }) => lang.startsWith(code)) ?? LOCALES.find(({ code }) => lang.startsWith(code.slice(0, 2)));
+  if (locale) setLocale(locale.code);
+};
+
+const resolveVoice = (voice: string | undefined, language: string): VoiceSettings => {
+  if (!voice) return defaultVoiceSettings(language);
+  const preset = BUILT_IN_VOICE_PRESETS.find(({ id }) => id === voice.toLowerCase());
+  if (preset) return { voiceName: preset.voiceName, style: preset.style, rate: preset.rate };
+  const prebuilt = PREBUILT_VOICES.find(({ name }) => name.toLowerCase() === voice.toLowerCase());
+  if (prebuilt) return { ...defaultVoiceSettings(language), voiceName: prebuilt.name };
+  throw new UsageError(t('cli.unknownVoice', {
+    voice,
+    voices: [...BUILT_IN_VOICE_PRESETS.map(({ id }) => id), ...PREBUILT_VOICES.map(({ name }) => name)].join(', '),
+  }));
+};
+
+/** Generates one verse in place: scene prompt, image and, unless skipped, narration. */
+const generateVerse = async (
+  project: Project,
+  verse: ProjectVerse,
+  ref: BibleRef,
+  previousFrame: string | null,
+  options: SceneOptions,
+  voice: VoiceSettings,
+  bible: CliBible | null
+) => {
+  const scene = await generateImagePrompt(verse.reference, project.characterDescriptions, project.lockedCharacters);
+  project.characterDescriptions = mergeCharacters(project.characterDescriptions, scene.characterDescriptions);
+  const referenceCharacters = charactersInPrompt(scene.scenePrompt, project.characterPortraits);
+  const references = buildSceneReferences(referenceCharacters, project.characterPortraits, previousFrame);
+  const { images: [image], prompt } = await generateSafeImageVariants(scene.scenePrompt, project.aspectRatio, 1, { references, style: project.style });
+  Object.assign(verse, {
+    scenePrompt: prompt,
+    image,
+    referenceCharacters,
+    aspectRatio: project.aspectRatio,
+    style: project.style,
+    updatedAt: Date.now(),
+  });
+
+  if (options.skipAudio) return;
+  const quoted = bible?.verses.get(bibleKey(ref));
+  let text: string;
+  let source: Pick<ProjectNarration, 'textSource' | 'translation'>;
+  if (bible && quoted) {
+    text = quoted;
+    source = { textSource: 'translation', translation: bible.name };
+  } else {
+    // AI text may paraphrase, so it is flagged here and in the manifest rather than passed off as scripture.
+    console.warn(bible
+      ? t('cli.verseNotInBible', { reference: verse.reference, file: bible.name })
+      : t('cli.aiText', { reference: verse.reference }));
+    // The verse is requested with the book name in the narration language, as in the app.
+    text = await getVerseText(formatBibleRef(ref, toBookLanguage(options.lang)), options.lang);
+    source = { textSource: 'ai' };
+  }
+  const audioBase64 = await generateSpeech(text, voice);
+  verse.narration = { text, ...source, audioBase64, language: options.lang, voiceType: voice.voiceName, voice };
+  verse.updatedAt = Date.now();
+};
+
+/**
+ * Generates every verse of a passage in order, carrying characters and the previous frame forward
+ * like the storyboard does, then writes the package files under `options.out`.
+ * @returns The number of verses that failed.
+ */
+const runScene = async (options: SceneOptions): Promise<number> => {
+  const parsed = parsePassage(options.passage, toBookLanguage(options.lang));
+  if ('error' in parsed) throw new UsageError(parsed.error);
+  const style = BUILT_IN_STYLE_PRESETS.find(({ id }) => id === options.style);
+  if (!style) {
+    throw new UsageError(t('cli.unknownStyle', { style: options.style, styles: BUILT_IN_STYLE_PRESETS.map(({ id }) => id).join(', ') }));
+  }
+  if (!ASPECT_RATIOS.includes(options.ratio as AspectRatio)) {
+    throw new UsageError(t('cli.invalidRatio', { ratio: options.ratio, ratios: ASPECT_RATIOS.join(', ') }));
+  }
+  const voice = resolveVoice(options.voice, options.lang);
+  const characters = options.characters
+    ? parseCharacterBible(await readFile(options.characters, 'utf8'))
+    : { descriptions: {}, locked: [], portraits: {} };
+  const bible = options.bible && !options.skipAudio ? await loadBible(options.bible) : null;
+
+  const references = parsed.refs.map((ref) => formatBibleRef(ref, parsed.language));
+  const project = createProject(options.name ?? options.passage.trim(), characters.descriptions, {
+    aspectRatio: options.ratio as AspectRatio,
+    style,
+    lockedCharacters: characters.locked,
+    characterPortraits: characters.portraits,
+    characterVoices: {},
+  });
+  project.verses = references.map((reference, index) => createVerse(project.id, reference, index));
+
+  let failed = 0;
+  let previousFrame: string | null = null;
+  for (const [index, verse] of project.verses.entries()) {
+    console.log(t('cli.verseStart', { index: index + 1, count: project.verses.length, reference: verse.reference }));
+    try {
+      await generateVerse(project, verse, parsed.refs[index], previousFrame, options, voice, bible);
+      previousFrame = verse.image;
+    } catch (err) {
+      failed++;
+      console.error(t('cli.verseFailed', { reference: verse.reference, error: describeError(err, t('passage.frameError')) }));
+    }
+  }
+
+  const files = await buildPackageFiles(withDerivedMeta(project));
+  for (const file of files) {
+    const target = path.join(options.out, ...file.name.split('/'));
+    await mkdir(path.dirname(target), { recursive: true });
+    await writeFile(target, file.data);
+  }
+  console.log(t('cli.done', { count: files.length, out: path.resolve(options.out) }));
+  return failed;
+};
+
+const main = async (args: string[]): Promise<number> => {
+  applyTerminalLocale();
+  // The browser build maps GEMINI_API_KEY at build time (vite.config.ts); here it is read at run time.
+  process.env.API_KEY ??= process.env.GEMINI_API_KEY;
+
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      style: { type: 'string', default: BUILT_IN_STYLE_PRESETS[0].id },
+      ratio: { type: 'string', default: '9:16' },
+      voice: { type: 'string' },
+      lang: { type: 'string', default: 'pt-BR' },
+      out: { type: 'string', default: './dist' },
+      characters: { type: 'string' },
+      name: { type: 'string' },
+      bible: { type: 'string' },
+      'skip-audio': { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+  const [command, ...rest] = positionals;
+  if (values.help || !command) {
+    console.log(t('cli.usage'));
+    return values.help ? 0 : 1;
+  }
+  if (command !== 'scene') throw new UsageError(t('cli.unknownCommand', { command }));
+  if (rest.length === 0) throw new UsageError(t('cli.missingPassage'));
+
+  const failed = await runScene({
+    passage: rest.join(' '),
+    style: values.style,
+    ratio: values.ratio,
+    voice: values.voice,
+    lang: values.lang,
+    out: values.out,
+    characters: values.characters,
+    name: values.name,
+    bible: values.bible,
+    skipAudio: values['skip-audio'],
+  });
+  if (failed > 0) console.error(t('cli.failedCount', { count: failed }));
+  return failed > 0 ? 1 : 0;
+};
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (err) => {
+    console.error(err instanceof UsageError ? err.message : describeError(err, String(err)));
+    // parseArgs reports unknown options, missing values, stray positionals and the like as ERR_PARSE_ARGS_*.
+    const isParseError = err instanceof Error && 'code' in err && String(err.code).startsWith('ERR_PARSE_ARGS_');
+    if (err instanceof UsageError || isParseError) console.error(t('cli.seeHelp'));
+    process.exitCode = 1;
+  }
+);
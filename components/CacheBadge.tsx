@@ -0,0 +1,30 @@
+import React from 'react';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface CacheBadgeProps {
+  /** Generates the result again, bypassing and replacing the cached one. */
+  onForceRegenerate: () => void;
+  disabled: boolean;
+}
+
+/** Marks a result that was read from the generation cache instead of requested from the API. */
+const CacheBadge: React.FC<CacheBadgeProps> = ({ onForceRegenerate, disabled }) => {
+  const { t } = useTranslation();
+
+  return (
+    <div className="flex items-center justify-center gap-3 text-xs">
+      <span className="text-emerald-300 bg-emerald-900/30 border border-emerald-700/60 rounded-full px-2 py-0.5">
+        {t('cache.fromCache')}
+      </span>
+      <button
+        onClick={onForceRegenerate}
+        disabled={disabled}
+        className="text-gray-400 hover:text-gray-200 underline disabled:opacity-50"
+      >
+        {t('cache.forceRegenerate')}
+      </button>
+    </div>
+  );
+};
+
+export default CacheBadge;
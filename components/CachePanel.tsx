@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { clearGenerationCache, getCacheLimit, getCacheStats, setCacheLimit } from '../services/generationCache';
+import { useTranslation } from '../hooks/useTranslation';
+
+const MEGABYTE = 1024 * 1024;
+
+const toMegabytes = (bytes: number) => Math.round((bytes / MEGABYTE) * 10) / 10;
+
+/** How much the generation cache holds, its size limit for this browser, and a way to empty it. */
+const CachePanel: React.FC = () => {
+  const { t } = useTranslation();
+  const [isOpen, setIsOpen] = useState(false);
+  const [stats, setStats] = useState<{ count: number; bytes: number } | null>(null);
+  const [limitMb, setLimitMb] = useState(() => String(toMegabytes(getCacheLimit())));
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setStats(await getCacheStats());
+      setError(null);
+    } catch (err) {
+      console.error("Error reading the generation cache:", err);
+      setError(t('cache.unavailable'));
+    }
+  };
+
+  const handleToggle = () => {
+    if (!isOpen) refresh();
+    setIsOpen(!isOpen);
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    try {
+      await action();
+      await refresh();
+    } catch (err) {
+      console.error("Error updating the generation cache:", err);
+      setError(t('cache.unavailable'));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleApplyLimit = () => {
+    const megabytes = Number(limitMb);
+    if (!Number.isFinite(megabytes) || megabytes < 0) {
+      setError(t('cache.invalidLimit'));
+      return;
+    }
+    run(() => setCacheLimit(megabytes * MEGABYTE));
+  };
+
+  const handleClear = () => {
+    if (window.confirm(t('cache.confirmClear'))) run(clearGenerationCache);
+  };
+
+  return (
+    <div className="w-full max-w-2xl flex flex-col gap-2 text-sm">
+      <button onClick={handleToggle} className="self-center text-xs text-gray-400 hover:text-gray-200 underline">
+        {isOpen ? t('cache.hide') : t('cache.show')}
+      </button>
+      {isOpen && (
+        <div className="flex flex-col gap-3 bg-slate-800/60 border border-slate-700 rounded-lg p-4">
+          <p className="text-gray-300">
+            {stats ? t('cache.stats', { count: stats.count, size: toMegabytes(stats.bytes) }) : t('cache.loading')}
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            <label htmlFor="cache-limit" className="text-gray-400">{t('cache.limitLabel')}</label>
+            <input
+              id="cache-limit"
+              type="number"
+              min={0}
+              value={limitMb}
+              onChange={(e) => setLimitMb(e.target.value)}
+              className="w-24 bg-slate-900 border border-slate-600 rounded-md px-2 py-1 text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:outline-none"
+            />
+            <button
+              onClick={handleApplyLimit}
+              disabled={isBusy}
+              className="text-xs text-gray-200 bg-slate-700 rounded-md px-3 py-1 hover:bg-slate-600 transition duration-300 disabled:opacity-50"
+            >
+              {t('cache.applyLimit')}
+            </button>
+            <button
+              onClick={handleClear}
+              disabled={isBusy || stats?.count === 0}
+              className="ml-auto text-xs text-red-300 bg-red-900/30 border border-red-700/60 rounded-md px-3 py-1 hover:bg-red-900/50 transition duration-300 disabled:opacity-50"
+            >
+              {t('cache.clear')}
+            </button>
+          </div>
+          {error && <p className="text-xs text-red-400">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CachePanel;
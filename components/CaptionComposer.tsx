@@ -0,0 +1,302 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  CAPTION_FONTS,
+  CAPTION_TEMPLATES,
+  EXPORT_SIZES,
+  createCaptionImage,
+  getCaptionSettings,
+  renderCaptionImage,
+  setCaptionSettings,
+  type CaptionSettings,
+  type Watermark,
+  type WatermarkCorner,
+} from '../services/captionOverlay';
+import { parseBibleRef, toBookLanguage } from '../services/bibleReference';
+import { fetchVerseText } from '../services/bibleCorpus';
+import { bytesToBase64 } from '../services/base64';
+import { downloadBlob } from '../services/download';
+import { describeError } from '../services/errors';
+import type { MessageKey } from '../services/i18n';
+import Spinner from './Spinner';
+import { DownloadIcon } from './icons/DownloadIcon';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface CaptionComposerProps {
+  /** The scene as a data URL. */
+  image: string;
+  reference: string;
+  /** The verse text already on screen (narration or fetched), if any. */
+  verseText: string;
+  /** Language and translation the verse text is fetched in. */
+  language: string;
+  translationId: string | null;
+  disabled: boolean;
+}
+
+const CORNERS: { value: WatermarkCorner; label: MessageKey }[] = [
+  { value: 'top-left', label: 'caption.corner.topLeft' },
+  { value: 'top-right', label: 'caption.corner.topRight' },
+  { value: 'bottom-left', label: 'caption.corner.bottomLeft' },
+  { value: 'bottom-right', label: 'caption.corner.bottomRight' },
+];
+
+/** Draws the verse and its reference over the scene, for posting; the preview updates as the options change. */
+const CaptionComposer: React.FC<CaptionComposerProps> = ({ image, reference, verseText, language, translationId, disabled }) => {
+  const { t, locale } = useTranslation();
+  const [settings, setSettings] = useState<CaptionSettings>(getCaptionSettings);
+  const [text, setText] = useState(verseText);
+  const [showSafeArea, setShowSafeArea] = useState(true);
+  const [isFetching, setIsFetching] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const template = CAPTION_TEMPLATES.find(({ id }) => id === settings.templateId) ?? CAPTION_TEMPLATES[0];
+  const font = CAPTION_FONTS.find(({ id }) => id === settings.fontId) ?? CAPTION_FONTS[0];
+  const size = EXPORT_SIZES.find(({ id }) => id === settings.sizeId) ?? EXPORT_SIZES[0];
+
+  // A new verse brings its own text; edits to the previous one are dropped.
+  useEffect(() => {
+    setText(verseText);
+  }, [reference, verseText]);
+
+  // Renders off screen and copies the result, so a slow earlier render can't overwrite a newer one.
+  useEffect(() => {
+    let isCurrent = true;
+    const offscreen = document.createElement('canvas');
+    renderCaptionImage(offscreen, { image, text, reference, template, font, size, watermark: settings.watermark, showSafeArea })
+      .then(() => {
+        const canvas = canvasRef.current;
+        if (!isCurrent || !canvas) return;
+        canvas.width = offscreen.width;
+        canvas.height = offscreen.height;
+        canvas.getContext('2d')?.drawImage(offscreen, 0, 0);
+        setError(null);
+      })
+      .catch((err) => isCurrent && setError(describeError(err, t('caption.exportError'))));
+    return () => {
+      isCurrent = false;
+    };
+  }, [image, text, reference, template, font, size, settings.watermark, showSafeArea]);
+
+  const updateSettings = (changes: Partial<CaptionSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    setCaptionSettings(next);
+  };
+
+  const updateWatermark = (changes: Partial<Watermark>) => updateSettings({ watermark: { ...settings.watermark, ...changes } });
+
+  const handleFetchText = async () => {
+    const parsed = parseBibleRef(reference, toBookLanguage(locale));
+    if ('error' in parsed) {
+      setError(parsed.error);
+      return;
+    }
+    setIsFetching(true);
+    setError(null);
+    try {
+      const { text: fetched } = await fetchVerseText(parsed.ref, language, translationId);
+      setText(fetched);
+    } catch (err) {
+      console.error(err);
+      setError(describeError(err, t('narration.fetchError')));
+    } finally {
+      setIsFetching(false);
+    }
+  };
+
+  const handleLogo = async (file: File | undefined) => {
+    if (!file) return;
+    const data = bytesToBase64(new Uint8Array(await file.arrayBuffer()));
+    updateWatermark({ logo: `data:${file.type || 'image/png'};base64,${data}` });
+  };
+
+  const handleDownload = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const blob = await createCaptionImage({ image, text, reference, template, font, size, watermark: settings.watermark });
+      downloadBlob(blob, `${reference.replace(/[: ]/g, '_').toLowerCase() || 'cena'}_${size.id}.jpg`);
+    } catch (err: any) {
+      console.error("Error exporting captioned image:", err);
+      setError(err.message || t('caption.exportError'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const selectClass = 'w-full bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-sm text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:outline-none disabled:opacity-50';
+  const labelClass = 'block text-xs font-medium text-gray-400 mb-1';
+
+  return (
+    <div className="w-full max-w-2xl bg-slate-800/60 rounded-xl p-6 shadow-2xl shadow-cyan-500/10 border border-slate-700 flex flex-col gap-4">
+      <div className="text-center">
+        <h2 className="text-xl font-semibold text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-blue-500">
+          {t('caption.title')}
+        </h2>
+        <p className="text-sm text-gray-400">{t('caption.description')}</p>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div className="sm:w-1/2 flex flex-col items-center gap-2">
+          <canvas
+            ref={canvasRef}
+            aria-label={t('caption.preview', { reference })}
+            className="w-full max-h-[28rem] object-contain rounded-lg border border-slate-700 bg-black"
+            style={{ aspectRatio: `${size.width} / ${size.height}` }}
+          />
+          <label className="flex items-center gap-2 text-xs text-gray-400" title={t('caption.safeAreaHint')}>
+            <input
+              type="checkbox"
+              checked={showSafeArea}
+              onChange={(e) => setShowSafeArea(e.target.checked)}
+              className="accent-cyan-500"
+            />
+            {t('caption.showSafeArea')}
+          </label>
+        </div>
+
+        <div className="sm:w-1/2 flex flex-col gap-3">
+          <div>
+            <label htmlFor="caption-text" className={labelClass}>{t('caption.textLabel')}</label>
+            <textarea
+              id="caption-text"
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder={t('caption.textPlaceholder')}
+              className="w-full bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-sm text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:outline-none resize-none h-24"
+              disabled={disabled}
+            />
+            <button
+              onClick={handleFetchText}
+              disabled={disabled || isFetching || !reference}
+              className="mt-1 text-xs text-gray-400 hover:text-gray-200 underline disabled:opacity-50"
+            >
+              {isFetching ? t('caption.fetching') : t('caption.fetchText')}
+            </button>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="caption-template" className={labelClass}>{t('caption.template')}</label>
+              <select
+                id="caption-template"
+                value={template.id}
+                onChange={(e) => updateSettings({ templateId: e.target.value })}
+                disabled={disabled}
+                className={selectClass}
+              >
+                {CAPTION_TEMPLATES.map(({ id, label }) => (
+                  <option key={id} value={id}>{t(label)}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="caption-font" className={labelClass}>{t('caption.font')}</label>
+              <select
+                id="caption-font"
+                value={font.id}
+                onChange={(e) => updateSettings({ fontId: e.target.value })}
+                disabled={disabled}
+                className={selectClass}
+                style={{ fontFamily: font.family }}
+              >
+                {CAPTION_FONTS.map(({ id, name, family }) => (
+                  <option key={id} value={id} style={{ fontFamily: family }}>{name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div>
+            <label htmlFor="caption-size" className={labelClass}>{t('caption.size')}</label>
+            <select
+              id="caption-size"
+              value={size.id}
+              onChange={(e) => updateSettings({ sizeId: e.target.value })}
+              disabled={disabled}
+              className={selectClass}
+            >
+              {EXPORT_SIZES.map(({ id, label, width, height }) => (
+                <option key={id} value={id}>{t(label, { width, height })}</option>
+              ))}
+            </select>
+          </div>
+
+          <fieldset className="flex flex-col gap-2 border border-slate-700 rounded-lg p-3">
+            <legend className="text-xs font-medium text-gray-400 px-1">{t('caption.watermark')}</legend>
+            <input
+              value={settings.watermark.text}
+              onChange={(e) => updateWatermark({ text: e.target.value })}
+              placeholder={t('caption.watermarkPlaceholder')}
+              aria-label={t('caption.watermarkText')}
+              className="w-full bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-sm text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:outline-none"
+              disabled={disabled}
+            />
+            <div className="flex items-center gap-2 text-xs text-gray-400">
+              {settings.watermark.logo && (
+                <img src={settings.watermark.logo} alt="" className="h-8 w-8 object-contain bg-slate-900 rounded" />
+              )}
+              <label className="cursor-pointer underline hover:text-gray-200">
+                {settings.watermark.logo ? t('caption.replaceLogo') : t('caption.addLogo')}
+                <input
+                  type="file"
+                  accept="image/png,image/jpeg,image/webp,image/svg+xml"
+                  onChange={(e) => {
+                    handleLogo(e.target.files?.[0]);
+                    e.target.value = '';
+                  }}
+                  disabled={disabled}
+                  className="sr-only"
+                />
+              </label>
+              {settings.watermark.logo && (
+                <button onClick={() => updateWatermark({ logo: null })} disabled={disabled} className="underline hover:text-gray-200">
+                  {t('common.remove')}
+                </button>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <select
+                value={settings.watermark.corner}
+                onChange={(e) => updateWatermark({ corner: e.target.value as WatermarkCorner })}
+                aria-label={t('caption.corner')}
+                disabled={disabled}
+                className={selectClass}
+              >
+                {CORNERS.map(({ value, label }) => (
+                  <option key={value} value={value}>{t(label)}</option>
+                ))}
+              </select>
+              <label className="flex items-center gap-2 text-xs text-gray-400">
+                {t('caption.opacity')}
+                <input
+                  type="range"
+                  min={0.2}
+                  max={1}
+                  step={0.1}
+                  value={settings.watermark.opacity}
+                  onChange={(e) => updateWatermark({ opacity: Number(e.target.value) })}
+                  disabled={disabled}
+                  className="flex-grow accent-cyan-500"
+                />
+              </label>
+            </div>
+          </fieldset>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-300 text-center">{error}</p>}
+
+      <button
+        onClick={handleDownload}
+        disabled={disabled || isExporting}
+        className="bg-gradient-to-r from-cyan-500 to-blue-600 text-white font-bold py-3 px-6 rounded-lg hover:from-cyan-600 hover:to-blue-700 transition duration-300 disabled:opacity-50 flex items-center justify-center gap-2"
+      >
+        {isExporting ? <Spinner /> : <DownloadIcon />}
+        {t('caption.download', { width: size.width, height: size.height })}
+      </button>
+    </div>
+  );
+};
+
+export default CaptionComposer;
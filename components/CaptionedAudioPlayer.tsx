@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { findActiveCue, toSrt, toWebVtt, type CaptionCue } from '../services/subtitles';
+import { downloadBlob } from '../services/download';
+import { DownloadIcon } from './icons/DownloadIcon';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface CaptionedAudioPlayerProps {
+  src: string;
+  captions: CaptionCue[];
+  /** File name for the caption downloads, without extension. */
+  fileBaseName: string;
+}
+
+const CaptionedAudioPlayer: React.FC<CaptionedAudioPlayerProps> = ({ src, captions, fileBaseName }) => {
+  const { t } = useTranslation();
+  const [currentTime, setCurrentTime] = useState(0);
+  const activeCue = findActiveCue(captions, currentTime);
+
+  return (
+    <div className="flex flex-col gap-3">
+      <audio
+        controls
+        src={src}
+        onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+        onEnded={() => setCurrentTime(0)}
+        className="w-full"
+      >
+        {t('narration.audioUnsupported')}
+      </audio>
+      <div className="min-h-[3.5rem] bg-black/60 rounded-lg px-4 py-2 flex flex-col items-center justify-center">
+        {activeCue?.lines.map((line, index) => (
+          <p key={index} className="text-white text-center text-sm leading-snug">{line}</p>
+        ))}
+      </div>
+      {captions.length > 0 && (
+        <div className="flex justify-center gap-3">
+          <button
+            onClick={() => downloadBlob(new Blob([toSrt(captions)], { type: 'application/x-subrip' }), `${fileBaseName}.srt`)}
+            className="text-sm text-gray-200 bg-slate-700 rounded-lg px-3 py-2 hover:bg-slate-600 transition duration-300 flex items-center gap-2"
+          >
+            <DownloadIcon />
+            {t('common.captionsSrt')}
+          </button>
+          <button
+            onClick={() => downloadBlob(new Blob([toWebVtt(captions)], { type: 'text/vtt' }), `${fileBaseName}.vtt`)}
+            className="text-sm text-gray-200 bg-slate-700 rounded-lg px-3 py-2 hover:bg-slate-600 transition duration-300 flex items-center gap-2"
+          >
+            <DownloadIcon />
+            {t('common.captionsVtt')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CaptionedAudioPlayer;
@@ -0,0 +1,240 @@
+import React, { useState, useEffect } from 'react';
+import type { Project } from '../services/projectStore';
+import {
+  assembleChapterAudio,
+  markersToCues,
+  toChapterList,
+  type ChapterMarker,
+} from '../services/chapterAudio';
+import { toWebVtt } from '../services/subtitles';
+import { downloadBlob } from '../services/download';
+import { DownloadIcon } from './icons/DownloadIcon';
+import Spinner from './Spinner';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface ChapterAudioPanelProps {
+  project: Project | null;
+  disabled: boolean;
+  onRunningChange: (isRunning: boolean) => void;
+}
+
+const formatDuration = (seconds: number) => {
+  const rounded = Math.round(seconds);
+  return `${Math.floor(rounded / 60)}:${String(rounded % 60).padStart(2, '0')}`;
+};
+
+const ChapterAudioPanel: React.FC<ChapterAudioPanelProps> = ({ project, disabled, onRunningChange }) => {
+  const { t } = useTranslation();
+  const narrated = (project?.verses ?? []).filter((verse) => verse.narration);
+  const [fromIndex, setFromIndex] = useState(0);
+  const [toIndex, setToIndex] = useState(Math.max(narrated.length - 1, 0));
+  const [pauseSeconds, setPauseSeconds] = useState(1);
+  const [normalize, setNormalize] = useState(true);
+  const [musicFile, setMusicFile] = useState<File | null>(null);
+  const [musicVolume, setMusicVolume] = useState(0.5);
+  const [duckedVolume, setDuckedVolume] = useState(0.12);
+  const [isAssembling, setIsAssembling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<{ url: string; wav: Blob; markers: ChapterMarker[]; duration: number } | null>(null);
+
+  // A different project, or new narrations, reset the range to all narrated verses.
+  useEffect(() => {
+    setFromIndex(0);
+    setToIndex(Math.max(narrated.length - 1, 0));
+  }, [project?.id, narrated.length]);
+
+  useEffect(() => {
+    return () => {
+      if (result) URL.revokeObjectURL(result.url);
+    };
+  }, [result]);
+
+  const range = narrated.slice(Math.min(fromIndex, toIndex), Math.max(fromIndex, toIndex) + 1);
+
+  const handleAssemble = async () => {
+    setIsAssembling(true);
+    onRunningChange(true);
+    setError(null);
+    setResult(null);
+    try {
+      const chapter = await assembleChapterAudio(
+        range.map((verse) => ({ reference: verse.reference, audioBase64: verse.narration!.audioBase64 })),
+        {
+          pauseSeconds,
+          paddingSeconds: musicFile ? 2 : 0.5,
+          normalize,
+          music: musicFile ? { file: musicFile, volume: musicVolume, duckedVolume } : undefined,
+        }
+      );
+      setResult({ ...chapter, url: URL.createObjectURL(chapter.wav) });
+    } catch (err: any) {
+      console.error("Error assembling chapter audio:", err);
+      setError(err.message || t('chapterAudio.error'));
+    } finally {
+      setIsAssembling(false);
+      onRunningChange(false);
+    }
+  };
+
+  const baseName = `${(project?.name ?? 'capitulo').replace(/[: ]/g, '_').toLowerCase()}_audio`;
+  const isLocked = disabled || isAssembling;
+
+  return (
+    <div className="w-full max-w-2xl bg-slate-800/60 rounded-xl p-6 shadow-2xl shadow-blue-500/10 border border-slate-700 flex flex-col gap-4">
+      <h2 className="text-xl font-semibold text-center text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-indigo-500">
+        {t('chapterAudio.title')}
+      </h2>
+      {narrated.length === 0 ? (
+        <p className="text-center text-gray-400 text-sm">{t('chapterAudio.empty')}</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center justify-center gap-x-6 gap-y-3 text-sm text-gray-300">
+            <label className="flex items-center gap-2">
+              {t('chapterAudio.from')}
+              <select
+                value={fromIndex}
+                onChange={(e) => setFromIndex(Number(e.target.value))}
+                disabled={isLocked}
+                className="bg-slate-900 border border-slate-600 rounded-lg px-2 py-1 text-gray-200"
+              >
+                {narrated.map((verse, index) => (
+                  <option key={verse.id} value={index}>{verse.reference}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              {t('chapterAudio.to')}
+              <select
+                value={toIndex}
+                onChange={(e) => setToIndex(Number(e.target.value))}
+                disabled={isLocked}
+                className="bg-slate-900 border border-slate-600 rounded-lg px-2 py-1 text-gray-200"
+              >
+                {narrated.map((verse, index) => (
+                  <option key={verse.id} value={index}>{verse.reference}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              {t('chapterAudio.pause')}
+              <input
+                type="number"
+                min={0}
+                max={10}
+                step={0.25}
+                value={pauseSeconds}
+                onChange={(e) => setPauseSeconds(Math.max(0, Number(e.target.value) || 0))}
+                disabled={isLocked}
+                className="w-16 bg-slate-900 border border-slate-600 rounded-lg px-2 py-1 text-gray-200"
+              />
+              s
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={normalize}
+                onChange={(e) => setNormalize(e.target.checked)}
+                disabled={isLocked}
+                className="accent-blue-500"
+              />
+              {t('chapterAudio.normalize')}
+            </label>
+          </div>
+
+          <div className="flex flex-col gap-2 bg-slate-900/50 border border-slate-700 rounded-lg p-3 text-sm text-gray-300">
+            <label className="flex flex-col gap-1">
+              {t('chapterAudio.music')}
+              <input
+                type="file"
+                accept="audio/*"
+                onChange={(e) => setMusicFile(e.target.files?.[0] ?? null)}
+                disabled={isLocked}
+                className="text-xs text-gray-400 file:mr-3 file:rounded-md file:border-0 file:bg-slate-700 file:px-3 file:py-1 file:text-gray-200"
+              />
+            </label>
+            {musicFile && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <label className="flex items-center gap-2">
+                  {t('chapterAudio.musicVolume')}
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={musicVolume}
+                    onChange={(e) => setMusicVolume(Number(e.target.value))}
+                    disabled={isLocked}
+                    className="flex-grow accent-blue-500"
+                  />
+                </label>
+                <label className="flex items-center gap-2">
+                  {t('chapterAudio.duckedVolume')}
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.02}
+                    value={duckedVolume}
+                    onChange={(e) => setDuckedVolume(Number(e.target.value))}
+                    disabled={isLocked}
+                    className="flex-grow accent-blue-500"
+                  />
+                </label>
+              </div>
+            )}
+          </div>
+
+          <button
+            onClick={handleAssemble}
+            disabled={isLocked || range.length === 0}
+            className="bg-gradient-to-r from-blue-500 to-indigo-600 text-white font-bold py-3 px-6 rounded-lg hover:from-blue-600 hover:to-indigo-700 transition duration-300 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center w-full"
+          >
+            {isAssembling ? <Spinner /> : t('chapterAudio.assemble', { count: range.length })}
+          </button>
+        </>
+      )}
+
+      {error && <p className="text-sm text-red-300 text-center">{error}</p>}
+
+      {result && (
+        <div className="flex flex-col gap-3">
+          <audio controls src={result.url} className="w-full" />
+          <p className="text-xs text-gray-400 text-center">{t('chapterAudio.duration', { duration: formatDuration(result.duration) })}</p>
+          <ol className="text-sm text-gray-300 flex flex-col gap-1 max-h-40 overflow-y-auto">
+            {result.markers.map((marker) => (
+              <li key={`${marker.reference}-${marker.start}`}>
+                <span className="text-xs text-blue-300 mr-2">{formatDuration(marker.start)}</span>
+                {marker.reference}
+              </li>
+            ))}
+          </ol>
+          <div className="flex flex-wrap justify-center gap-3">
+            <button
+              onClick={() => downloadBlob(result.wav, `${baseName}.wav`)}
+              className="text-sm text-gray-200 bg-slate-700 rounded-lg px-3 py-2 hover:bg-slate-600 transition duration-300 flex items-center gap-2"
+            >
+              <DownloadIcon />
+              {t('chapterAudio.downloadWav')}
+            </button>
+            <button
+              onClick={() => downloadBlob(new Blob([toChapterList(result.markers)], { type: 'text/plain' }), `${baseName}_capitulos.txt`)}
+              className="text-sm text-gray-200 bg-slate-700 rounded-lg px-3 py-2 hover:bg-slate-600 transition duration-300 flex items-center gap-2"
+            >
+              <DownloadIcon />
+              {t('chapterAudio.markersTxt')}
+            </button>
+            <button
+              onClick={() => downloadBlob(new Blob([toWebVtt(markersToCues(result.markers))], { type: 'text/vtt' }), `${baseName}_capitulos.vtt`)}
+              className="text-sm text-gray-200 bg-slate-700 rounded-lg px-3 py-2 hover:bg-slate-600 transition duration-300 flex items-center gap-2"
+            >
+              <DownloadIcon />
+              {t('chapterAudio.markersVtt')}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChapterAudioPanel;
@@ -0,0 +1,247 @@
+import React, { useState, useRef } from 'react';
+import { exportCharacterBible, parseCharacterBible, type CharacterBible } from '../services/characterBible';
+import { generateCharacterPortrait } from '../services/geminiService';
+import { describeError } from '../services/errors';
+import { downloadBlob } from '../services/download';
+import type { StylePreset } from '../services/stylePresets';
+import Spinner from './Spinner';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface CharacterBibleEditorProps {
+  bible: CharacterBible;
+  /** The current art style; portraits are drawn in it. */
+  style: StylePreset;
+  onChange: (bible: CharacterBible) => void;
+  disabled: boolean;
+  onRunningChange: (isRunning: boolean) => void;
+}
+
+const CharacterBibleEditor: React.FC<CharacterBibleEditorProps> = ({
+  bible,
+  style,
+  onChange,
+  disabled,
+  onRunningChange,
+}) => {
+  const { t } = useTranslation();
+  const [newName, setNewName] = useState('');
+  const [newDescription, setNewDescription] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const [portraitError, setPortraitError] = useState<string | null>(null);
+  const [generatingPortrait, setGeneratingPortrait] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { descriptions: characters, locked: lockedCharacters, portraits } = bible;
+  const names = Object.keys(characters);
+  const missingPortraits = names.filter((name) => !portraits[name]);
+  const isDisabled = disabled || generatingPortrait !== null;
+
+  const updateDescription = (name: string, description: string) => {
+    if (description.trim() === characters[name]) return;
+    onChange({ ...bible, descriptions: { ...characters, [name]: description.trim() } });
+  };
+
+  const toggleLock = (name: string) => {
+    const locked = lockedCharacters.includes(name)
+      ? lockedCharacters.filter((lockedName) => lockedName !== name)
+      : [...lockedCharacters, name];
+    onChange({ ...bible, locked });
+  };
+
+  const handleDelete = (name: string) => {
+    if (!window.confirm(t('characters.confirmRemove', { name }))) return;
+    const { [name]: _removed, ...rest } = characters;
+    const { [name]: _portrait, ...otherPortraits } = portraits;
+    onChange({
+      descriptions: rest,
+      locked: lockedCharacters.filter((lockedName) => lockedName !== name),
+      portraits: otherPortraits,
+    });
+  };
+
+  const handleAdd = () => {
+    const name = newName.trim();
+    if (!name || !newDescription.trim()) return;
+    if (characters[name] !== undefined && !window.confirm(t('characters.confirmReplace', { name }))) return;
+    onChange({ ...bible, descriptions: { ...characters, [name]: newDescription.trim() } });
+    setNewName('');
+    setNewDescription('');
+  };
+
+  // The character-sheet step: one reference portrait per character, generated in turn.
+  const handleGeneratePortraits = async (targets: string[]) => {
+    setPortraitError(null);
+    onRunningChange(true);
+    let updated = portraits;
+    try {
+      for (const name of targets) {
+        setGeneratingPortrait(name);
+        updated = { ...updated, [name]: await generateCharacterPortrait(name, characters[name], style) };
+        onChange({ ...bible, portraits: updated });
+      }
+    } catch (err: any) {
+      console.error("Error generating portrait:", err);
+      setPortraitError(describeError(err, t('characters.portraitError')));
+    } finally {
+      setGeneratingPortrait(null);
+      onRunningChange(false);
+    }
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([exportCharacterBible(bible)], { type: 'application/json' }), 'personagens.json');
+  };
+
+  // Imported characters are merged in; an imported description replaces one with the same name.
+  const handleImport = async (file: File) => {
+    setImportError(null);
+    try {
+      const imported = parseCharacterBible(await file.text());
+      onChange({
+        descriptions: { ...characters, ...imported.descriptions },
+        locked: Array.from(new Set([...lockedCharacters, ...imported.locked])),
+        portraits: { ...portraits, ...imported.portraits },
+      });
+    } catch (err: any) {
+      console.error("Error importing characters:", err);
+      setImportError(err.message || t('characters.importError'));
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="w-full max-w-2xl bg-slate-800/60 rounded-xl p-6 shadow-2xl shadow-cyan-500/10 border border-slate-700 flex flex-col gap-4">
+      <div className="flex items-center justify-between gap-4">
+        <h2 className="text-xl font-semibold text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-blue-500">
+          {t('characters.title')}
+        </h2>
+        <div className="flex gap-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isDisabled}
+            className="text-sm text-gray-200 bg-slate-700 rounded-lg px-3 py-2 hover:bg-slate-600 transition duration-300 disabled:opacity-50"
+          >
+            {t('characters.import')}
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isDisabled || names.length === 0}
+            className="text-sm text-gray-200 bg-slate-700 rounded-lg px-3 py-2 hover:bg-slate-600 transition duration-300 disabled:opacity-50"
+          >
+            {t('characters.export')}
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => e.target.files?.[0] && handleImport(e.target.files[0])}
+          />
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-400">
+        {t('characters.hint')}
+      </p>
+
+      {importError && <p className="text-sm text-red-300">{importError}</p>}
+      {portraitError && <p className="text-sm text-red-300">{portraitError}</p>}
+
+      {missingPortraits.length > 0 && (
+        <button
+          onClick={() => handleGeneratePortraits(missingPortraits)}
+          disabled={isDisabled}
+          className="self-start text-sm text-amber-300 border border-amber-600/60 rounded-lg px-4 py-2 hover:bg-amber-900/30 transition duration-300 disabled:opacity-50"
+        >
+          {t('characters.generateMissing', { count: missingPortraits.length })}
+        </button>
+      )}
+
+      {names.length === 0 && (
+        <p className="text-sm text-gray-500">{t('characters.empty')}</p>
+      )}
+
+      <ul className="flex flex-col gap-3">
+        {names.map((name) => {
+          const isLocked = lockedCharacters.includes(name);
+          return (
+            <li key={name} className={`bg-slate-900/50 border rounded-lg p-3 flex gap-3 ${isLocked ? 'border-amber-600/60' : 'border-slate-700'}`}>
+              <div className="w-16 flex-shrink-0 flex flex-col items-center gap-1">
+                <div className="w-16 aspect-[9/16] rounded-md bg-slate-800 overflow-hidden flex items-center justify-center">
+                  {generatingPortrait === name ? <Spinner /> : portraits[name] && (
+                    <img src={portraits[name]} alt={t('common.portraitAlt', { name })} className="w-full h-full object-cover" />
+                  )}
+                </div>
+                <button
+                  onClick={() => handleGeneratePortraits([name])}
+                  disabled={isDisabled}
+                  className="text-[10px] text-cyan-300 hover:text-cyan-200 disabled:opacity-50"
+                >
+                  {portraits[name] ? t('characters.redoPortrait') : t('characters.generatePortrait')}
+                </button>
+              </div>
+              <div className="flex-grow flex flex-col gap-2">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium text-gray-200">{name}</span>
+                  <div className="flex gap-3">
+                    <button
+                      onClick={() => toggleLock(name)}
+                      disabled={isDisabled}
+                      className={`text-xs disabled:opacity-50 ${isLocked ? 'text-amber-300 hover:text-amber-200' : 'text-gray-400 hover:text-gray-200'}`}
+                    >
+                      {isLocked ? t('characters.locked') : t('characters.lock')}
+                    </button>
+                    <button
+                      onClick={() => handleDelete(name)}
+                      disabled={isDisabled}
+                      className="text-xs text-red-300 hover:text-red-200 disabled:opacity-50"
+                    >
+                      {t('common.remove')}
+                    </button>
+                  </div>
+                </div>
+                <textarea
+                  // Remount when the description changes elsewhere (generation, import).
+                  key={characters[name]}
+                  defaultValue={characters[name]}
+                  onBlur={(e) => updateDescription(name, e.target.value)}
+                  readOnly={isLocked}
+                  aria-label={t('characters.descriptionLabel', { name })}
+                  className="w-full bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-sm text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:outline-none transition duration-300 resize-none h-20 read-only:text-gray-400"
+                  disabled={isDisabled}
+                />
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="flex flex-col gap-2 border-t border-slate-700 pt-4">
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder={t('characters.namePlaceholder')}
+          className="w-full bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-sm text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:outline-none"
+          disabled={isDisabled}
+        />
+        <textarea
+          value={newDescription}
+          onChange={(e) => setNewDescription(e.target.value)}
+          placeholder={t('characters.descriptionPlaceholder')}
+          className="w-full bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-sm text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:outline-none resize-none h-20"
+          disabled={isDisabled}
+        />
+        <button
+          onClick={handleAdd}
+          disabled={isDisabled || !newName.trim() || !newDescription.trim()}
+          className="text-sm text-white bg-gradient-to-r from-cyan-500 to-blue-600 rounded-lg px-3 py-2 hover:from-cyan-600 hover:to-blue-700 transition duration-300 disabled:opacity-50"
+        >
+          {t('characters.add')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CharacterBibleEditor;
@@ -0,0 +1,58 @@
+import React from 'react';
+import type { DramatizedLine } from '../services/dramatizedNarration';
+import { PREBUILT_VOICES } from '../services/voiceCatalog';
+import { NARRATOR_SPEAKER } from '../services/geminiService';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface DramatizedVoicesPanelProps {
+  /** The lines of the last dramatized narration. */
+  lines: DramatizedLine[];
+  /** Voice assignments, by speaker. */
+  voices: Record<string, string>;
+  onVoicesChange: (voices: Record<string, string>) => void;
+  disabled: boolean;
+}
+
+const DramatizedVoicesPanel: React.FC<DramatizedVoicesPanelProps> = ({ lines, voices, onVoicesChange, disabled }) => {
+  const { t } = useTranslation();
+  const speakers = Array.from(new Set<string>(lines.map((line) => line.speaker)));
+  // The script names the narrator in Portuguese; show it in the interface language.
+  const speakerName = (speaker: string) => (speaker === NARRATOR_SPEAKER ? t('dramatized.narrator') : speaker);
+  const isOutdated = lines.some((line) => voices[line.speaker] && voices[line.speaker] !== line.voiceName);
+
+  return (
+    <div className="flex flex-col gap-3 bg-slate-900/70 p-4 rounded-lg border border-slate-700">
+      <p className="text-sm font-medium text-gray-400">{t('dramatized.title')}</p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {speakers.map((speaker) => (
+          <label key={speaker} className="flex items-center justify-between gap-2 text-sm text-gray-300">
+            <span className={speaker === NARRATOR_SPEAKER ? 'italic' : 'font-medium'}>{speakerName(speaker)}</span>
+            <select
+              value={voices[speaker] ?? ''}
+              onChange={(e) => onVoicesChange({ ...voices, [speaker]: e.target.value })}
+              disabled={disabled}
+              className="bg-slate-900 border border-slate-600 rounded-lg px-2 py-1 text-gray-200 disabled:opacity-50"
+            >
+              {PREBUILT_VOICES.map((voice) => (
+                <option key={voice.name} value={voice.name}>{voice.name} ({t(voice.description)})</option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+      {isOutdated && (
+        <p className="text-xs text-amber-300">{t('dramatized.outdated')}</p>
+      )}
+      <ol className="flex flex-col gap-1 text-sm">
+        {lines.map((line, index) => (
+          <li key={index} className="text-gray-300">
+            <span className="text-xs text-cyan-300 mr-2">{speakerName(line.speaker)} ({line.voiceName})</span>
+            {line.text}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default DramatizedVoicesPanel;
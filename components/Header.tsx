@@ -1,15 +1,28 @@
-
 import React from 'react';
+import { LOCALES, type Locale } from '../services/i18n';
+import { useTranslation } from '../hooks/useTranslation';
 
 const Header: React.FC = () => {
+  const { t, locale, setLocale } = useTranslation();
+
   return (
     <header className="bg-slate-900/50 backdrop-blur-sm shadow-lg shadow-cyan-500/10 border-b border-slate-700">
-      <div className="container mx-auto px-4 py-5 text-center">
+      <div className="container mx-auto px-4 py-5 text-center relative">
+        <select
+          value={locale}
+          onChange={(e) => setLocale(e.target.value as Locale)}
+          aria-label={t('header.locale')}
+          className="absolute right-4 top-4 bg-slate-900 border border-slate-600 rounded-lg px-2 py-1 text-sm text-gray-300 focus:ring-2 focus:ring-cyan-500 focus:outline-none"
+        >
+          {LOCALES.map((option) => (
+            <option key={option.code} value={option.code}>{option.name}</option>
+          ))}
+        </select>
         <h1 className="text-3xl md:text-4xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-blue-500">
-          Gerador de Cenas Bíblicas
+          {t('header.title')}
         </h1>
         <p className="text-gray-400 mt-2 text-sm md:text-base">
-          Transforme capítulos da Bíblia em arte no estilo Pixar
+          {t('header.subtitle')}
         </p>
       </div>
     </header>
@@ -1,72 +1,96 @@
 import React, { useState, useCallback, useEffect } from 'react';
-import { generateImagePrompt, generateImage, generateSpeech, getVerseText } from '../services/geminiService';
+import { MAX_IMAGE_VARIANTS } from '../services/geminiService';
+import { parseBibleRef, formatBibleRef, getNextVerse, toBookLanguage } from '../services/bibleReference';
+import { fetchVerseText, type BibleTranslation } from '../services/bibleCorpus';
+import { mergeCharacters, type PassageFrame } from '../services/passageService';
+import { buildSceneReferences, charactersInPrompt, type CharacterBible } from '../services/characterBible';
+import type { ProjectNarration, ProjectVerse } from '../services/projectStore';
+import { createWavBlob, getPcmDuration } from '../services/audio';
+import { createCaptions } from '../services/subtitles';
+import { DEFAULT_STYLE_PRESET, type StylePreset } from '../services/stylePresets';
+import type { AspectRatio } from '../services/providers';
+import { classifyError, describeError } from '../services/errors';
+import type { PromptRewrite } from '../services/safePrompt';
+import { generateDramatizedNarration, type DramatizedLine } from '../services/dramatizedNarration';
+import { defaultVoiceSettings, type VoiceSettings } from '../services/voiceCatalog';
+import { cachedImagePrompt, cachedImageVariants, cachedSpeech, type CacheKind } from '../services/generationCache';
+import { cancelJob, enqueueJobs, getQueueState, startJobQueue, subscribeJobDone, type NewJob } from '../services/jobQueue';
+import { JOB_RUNNERS } from '../services/jobRunners';
+import { imagePromptVersions, unsavedPromptVersions, type PromptSource } from '../services/promptHistory';
+import { downloadDataUrl, imageExtension } from '../services/download';
+import { useProject } from '../hooks/useProject';
+import { useTranslation } from '../hooks/useTranslation';
+import { getLocale, type MessageKey } from '../services/i18n';
 import Spinner from './Spinner';
+import TranslationSelector from './TranslationSelector';
+import PassageStoryboard from './PassageStoryboard';
+import ProjectPanel from './ProjectPanel';
+import StoryboardTimeline from './StoryboardTimeline';
+import CharacterBibleEditor from './CharacterBibleEditor';
+import ReferencePicker from './ReferencePicker';
+import VideoExportPanel from './VideoExportPanel';
+import ChapterAudioPanel from './ChapterAudioPanel';
+import StylePresetPicker from './StylePresetPicker';
+import VariantPicker from './VariantPicker';
+import CaptionedAudioPlayer from './CaptionedAudioPlayer';
+import SafePromptPanel from './SafePromptPanel';
+import PromptHistoryPanel from './PromptHistoryPanel';
+import DramatizedVoicesPanel from './DramatizedVoicesPanel';
+import VoiceCatalog from './VoiceCatalog';
+import CacheBadge from './CacheBadge';
+import CaptionComposer from './CaptionComposer';
+import JobQueuePanel from './JobQueuePanel';
+import CachePanel from './CachePanel';
 import { DownloadIcon } from './icons/DownloadIcon';
 
-// Helper to write string to DataView
-const writeString = (view: DataView, offset: number, string: string) => {
-    for (let i = 0; i < string.length; i++) {
-        view.setUint8(offset + i, string.charCodeAt(i));
-    }
-};
-
-// Converts raw PCM data (from base64) to a WAV Blob that browsers can play
-const createWavBlob = (base64: string): Blob => {
-    const binaryString = atob(base64);
-    const len = binaryString.length;
-    const pcmData = new Uint8Array(len);
-    for (let i = 0; i < len; i++) {
-        pcmData[i] = binaryString.charCodeAt(i);
-    }
 
-    const sampleRate = 24000; // As per Gemini TTS documentation
-    const numChannels = 1;
-    const bitsPerSample = 16;
-    const dataSize = pcmData.length;
-
-    const buffer = new ArrayBuffer(44 + dataSize);
-    const view = new DataView(buffer);
-
-    // RIFF header
-    writeString(view, 0, 'RIFF');
-    view.setUint32(4, 36 + dataSize, true);
-    writeString(view, 8, 'WAVE');
-
-    // "fmt " sub-chunk
-    writeString(view, 12, 'fmt ');
-    view.setUint32(16, 16, true); // Sub-chunk size
-    view.setUint16(20, 1, true); // Audio format (1 for PCM)
-    view.setUint16(22, numChannels, true);
-    view.setUint32(24, sampleRate, true);
-    view.setUint32(28, sampleRate * numChannels * (bitsPerSample / 8), true); // Byte rate
-    view.setUint16(32, numChannels * (bitsPerSample / 8), true); // Block align
-    view.setUint16(34, bitsPerSample, true);
-
-    // "data" sub-chunk
-    writeString(view, 36, 'data');
-    view.setUint32(40, dataSize, true);
-    
-    // Write PCM data
-    for (let i = 0; i < dataSize; i++) {
-        view.setUint8(44 + i, pcmData[i]);
-    }
+// Narration languages; their names come from the message catalog.
+const LANGUAGE_CODES = ['pt-BR', 'en-US', 'es-ES', 'fr-FR', 'de-DE'] as const;
 
-    return new Blob([view], { type: 'audio/wav' });
-};
+const ASPECT_RATIOS: { value: AspectRatio; label: MessageKey; rect: { x: number; y: number; width: number; height: number } }[] = [
+    { value: '9:16', label: 'aspect.vertical', rect: { x: 7, y: 3, width: 10, height: 18 } },
+    { value: '3:4', label: 'aspect.portrait', rect: { x: 5.5, y: 4, width: 13, height: 16 } },
+    { value: '1:1', label: 'aspect.square', rect: { x: 4, y: 4, width: 16, height: 16 } },
+    { value: '4:3', label: 'aspect.landscape', rect: { x: 4, y: 5.5, width: 16, height: 13 } },
+    { value: '16:9', label: 'aspect.horizontal', rect: { x: 3, y: 7, width: 18, height: 10 } },
+];
 
+// Variants generated for a scene, waiting for the user to pick its image.
+interface PendingVariants {
+  images: string[];
+  /** The scene's image before this generation, if any. */
+  replaced: string | null;
+  reference: string;
+  /** The prompt the variants were requested with; `changes.scenePrompt` differs when it was rewritten. */
+  requestedPrompt: string;
+  requestedSource: PromptSource;
+  changes: Pick<ProjectVerse, 'scenePrompt' | 'referenceCharacters' | 'style' | 'aspectRatio'>;
+}
 
-const LANGUAGES = {
-    'pt-BR': 'Português',
-    'en-US': 'Inglês',
-    'es-ES': 'Espanhol',
-    'fr-FR': 'Francês',
-    'de-DE': 'Alemão',
-};
+const NOTHING_CACHED: Record<CacheKind, boolean> = { prompt: false, image: false, verse: false, script: false, speech: false };
 
 const ImageGenerator: React.FC = () => {
+  const { t, locale } = useTranslation();
+  // Ambiguous abbreviations ("Jn") are read in the interface language first.
+  const bookLanguage = toBookLanguage(locale);
   const [bibleReference, setBibleReference] = useState('');
   const [promptText, setPromptText] = useState('');
+  // Where the prompt in the editor came from, recorded with it in the verse's history.
+  const [promptSource, setPromptSource] = useState<PromptSource>('edited');
+  const [promptRewrite, setPromptRewrite] = useState<PromptRewrite | null>(null);
+  // Which of the results on screen were read from the generation cache.
+  const [fromCache, setFromCache] = useState<Record<CacheKind, boolean>>(NOTHING_CACHED);
   const [characterDescriptions, setCharacterDescriptions] = useState<Record<string, string> | null>(null);
+  const [lockedCharacters, setLockedCharacters] = useState<string[]>([]);
+  const [characterPortraits, setCharacterPortraits] = useState<Record<string, string>>({});
+  // Voices of the dramatized narration, by speaker; kept for the whole sequence.
+  const [characterVoices, setCharacterVoices] = useState<Record<string, string>>({});
+  // Portraits picked for the current scene; null follows the characters named in the prompt.
+  const [selectedReferences, setSelectedReferences] = useState<string[] | null>(null);
+  const [usePreviousFrame, setUsePreviousFrame] = useState(true);
+  const [isPortraitRunning, setIsPortraitRunning] = useState(false);
+  const [isVideoExporting, setIsVideoExporting] = useState(false);
+  const [isChapterAudioRunning, setIsChapterAudioRunning] = useState(false);
   const [isSequenceActive, setIsSequenceActive] = useState(false);
   
   const [isPromptLoading, setIsPromptLoading] = useState(false);
@@ -75,37 +99,87 @@ const ImageGenerator: React.FC = () => {
   const [isImageLoading, setIsImageLoading] = useState(false);
   const [generatedImage, setGeneratedImage] = useState<string | null>(null);
   const [imageError, setImageError] = useState<string | null>(null);
-  const [aspectRatio, setAspectRatio] = useState<'9:16' | '16:9'>('9:16');
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>('9:16');
+  const [stylePreset, setStylePreset] = useState<StylePreset>(DEFAULT_STYLE_PRESET);
+  const [variantCount, setVariantCount] = useState(1);
+  const [pendingVariants, setPendingVariants] = useState<PendingVariants | null>(null);
+  // Earlier and rejected images of the current scene.
+  const [imageHistory, setImageHistory] = useState<string[]>([]);
 
-  const [language, setLanguage] = useState('pt-BR');
-  const [voiceType, setVoiceType] = useState('adulta'); // 'adulta' | 'infantil'
+  // Narration starts in the interface language; the two can differ afterwards.
+  const [language, setLanguage] = useState<string>(getLocale);
+  const [voiceSettings, setVoiceSettings] = useState<VoiceSettings>(() => defaultVoiceSettings(getLocale()));
+  const [isDramatized, setIsDramatized] = useState(false);
+  const [dramatizedLines, setDramatizedLines] = useState<DramatizedLine[] | null>(null);
   const [isAudioLoading, setIsAudioLoading] = useState(false);
   const [audioError, setAudioError] = useState<string | null>(null);
   const [generatedAudioUrl, setGeneratedAudioUrl] = useState<string | null>(null);
   const [narratedText, setNarratedText] = useState<string | null>(null);
+  // Length of the current narration in seconds, used to time its captions.
+  const [narrationDuration, setNarrationDuration] = useState(0);
   const [textForNarration, setTextForNarration] = useState('');
   const [isFetchingVerse, setIsFetchingVerse] = useState(false);
+  const [isPassageRunning, setIsPassageRunning] = useState(false);
+  const [translationId, setTranslationId] = useState<string | null>(null);
+  // Where the narration text came from; null once the user edits it by hand.
+  const [verseSource, setVerseSource] = useState<{ translation: BibleTranslation | null; fromCache?: boolean } | null>(null);
 
-  // Bible Reference Parsers
-  const parseBibleRef = (ref: string): { book: string; chapter: number; verse: number } | null => {
-    const match = ref.trim().match(/^(.*\D)\s*(\d+):(\d+)$/);
-    if (!match) return null;
-    return {
-        book: match[1].trim(),
-        chapter: parseInt(match[2], 10),
-        verse: parseInt(match[3], 10),
-    };
-  };
+  const {
+    project,
+    projects,
+    saveError,
+    saveVerse,
+    addVerses,
+    insertVerse,
+    moveVerse,
+    removeVerse,
+    saveCharacters,
+    newProject,
+    openProject,
+    mergeSavedVerse,
+    closeProject,
+    renameProject,
+    removeProject,
+  } = useProject({ aspectRatio, style: stylePreset, lockedCharacters, characterPortraits, characterVoices });
 
-  const formatBibleRef = (parsed: { book: string; chapter: number; verse: number }): string => {
-      return `${parsed.book} ${parsed.chapter}:${parsed.verse}`;
-  };
+  const languages: Record<string, string> = Object.fromEntries(LANGUAGE_CODES.map((code) => [code, t(`language.${code}`)]));
+
+  const parsedReference = parseBibleRef(bibleReference, bookLanguage);
+  const canonicalReference = !('error' in parsedReference) ? formatBibleRef(parsedReference.ref, parsedReference.language) : '';
 
+  const currentVerse = project?.verses.find((verse) => verse.reference === canonicalReference) ?? null;
+  const sceneReferences = selectedReferences ?? charactersInPrompt(promptText, characterPortraits);
+  // The last scene before this one in the project, offered as a continuity reference.
+  const previousFrame = (() => {
+    if (!project) return null;
+    const index = project.verses.findIndex((verse) => verse.reference === canonicalReference);
+    const before = index === -1 ? project.verses : project.verses.slice(0, index);
+    return [...before].reverse().find((verse) => verse.image)?.image ?? null;
+  })();
+
+  // Rolls over into the next chapter and book; empty after the last verse of the Bible.
   const getNextVerseRef = useCallback(() => {
-    const parsed = parseBibleRef(bibleReference);
-    return parsed ? formatBibleRef({ ...parsed, verse: parsed.verse + 1 }) : '';
-  }, [bibleReference]);
+    const parsed = parseBibleRef(bibleReference, bookLanguage);
+    if ('error' in parsed) return '';
+    const next = getNextVerse(parsed.ref);
+    return next ? formatBibleRef(next, parsed.language) : '';
+  }, [bibleReference, bookLanguage]);
+
 
+  // Background jobs save into the project themselves; their verse is merged into the open project when one finishes.
+  useEffect(() => {
+    startJobQueue(JOB_RUNNERS);
+    return subscribeJobDone(async (job) => {
+      const loaded = await mergeSavedVerse(job.projectId, job.verseId);
+      if (loaded && job.kind === 'prompt') {
+        // Characters introduced by the job join the editor's; edits made meanwhile win.
+        setCharacterDescriptions((current) => {
+          const merged = mergeCharacters(loaded.characterDescriptions, current ?? {});
+          return Object.keys(merged).length > 0 ? merged : null;
+        });
+      }
+    });
+  }, [mergeSavedVerse]);
 
   // Cleanup object URL when component unmounts or URL changes
   useEffect(() => {
@@ -116,73 +190,307 @@ const ImageGenerator: React.FC = () => {
     };
   }, [generatedAudioUrl]);
 
-  const handleStartNew = () => {
+  const resetEditor = () => {
     setIsSequenceActive(false);
     setCharacterDescriptions(null);
+    setLockedCharacters([]);
+    setCharacterPortraits({});
+    setCharacterVoices({});
+    setSelectedReferences(null);
     setGeneratedImage(null);
+    setPendingVariants(null);
+    setImageHistory([]);
     setImageError(null);
     setPromptError(null);
     setPromptText('');
+    setPromptRewrite(null);
+    setFromCache(NOTHING_CACHED);
     setBibleReference('');
     setGeneratedAudioUrl(null);
     setTextForNarration('');
+    setVerseSource(null);
     setNarratedText(null);
   };
 
-  const handleGeneratePrompt = useCallback(async () => {
+  const handleStartNew = () => {
+    resetEditor();
+    closeProject();
+  };
+
+  // Loads a saved verse back into the editor so the sequence can continue from it.
+  const showVerse = (verse: ProjectVerse) => {
+    setBibleReference(verse.reference);
+    setPromptText(verse.scenePrompt);
+    setPromptSource('generated');
+    setPromptRewrite(null);
+    setFromCache(NOTHING_CACHED);
+    setGeneratedImage(verse.image);
+    setImageHistory(verse.imageHistory ?? []);
+    setPendingVariants(null);
+    if (verse.aspectRatio) setAspectRatio(verse.aspectRatio);
+    setSelectedReferences(verse.referenceCharacters ?? null);
+    // Continuing from a scene keeps the sequence in that scene's style.
+    if (verse.style) setStylePreset(verse.style);
+    setIsSequenceActive(!!verse.image);
+    setImageError(null);
+    setPromptError(null);
+    setAudioError(null);
+    setGeneratedAudioUrl(verse.narration ? URL.createObjectURL(createWavBlob(verse.narration.audioBase64)) : null);
+    setNarratedText(verse.narration?.text ?? null);
+    setDramatizedLines(verse.narration?.lines ?? null);
+    if (verse.narration?.voice) setVoiceSettings(verse.narration.voice);
+    setNarrationDuration(verse.narration ? getPcmDuration(verse.narration.audioBase64) : 0);
+    setTextForNarration(verse.narration?.text ?? '');
+    setVerseSource(null);
+  };
+
+  const handleOpenProject = async (id: string) => {
+    const loaded = await openProject(id);
+    if (!loaded) return;
+    resetEditor();
+    const hasCharacters = Object.keys(loaded.characterDescriptions).length > 0;
+    setCharacterDescriptions(hasCharacters ? loaded.characterDescriptions : null);
+    setLockedCharacters(loaded.lockedCharacters);
+    setCharacterPortraits(loaded.characterPortraits);
+    setCharacterVoices(loaded.characterVoices);
+    setAspectRatio(loaded.aspectRatio);
+    setStylePreset(loaded.style);
+    const lastVerse = [...loaded.verses].reverse().find((verse) => verse.image) ?? loaded.verses[loaded.verses.length - 1];
+    if (lastVerse) {
+      showVerse(lastVerse);
+    }
+  };
+
+  const handleNewProject = (name: string) => {
+    handleStartNew();
+    newProject(name);
+  };
+
+  const handleCharactersEdit = (bible: CharacterBible) => {
+    setCharacterDescriptions(Object.keys(bible.descriptions).length > 0 ? bible.descriptions : null);
+    setLockedCharacters(bible.locked);
+    setCharacterPortraits(bible.portraits);
+    saveCharacters(bible.descriptions, { lockedCharacters: bible.locked, characterPortraits: bible.portraits });
+  };
+
+  const handlePassageStart = (references: string[]) => {
+    addVerses(references, characterDescriptions);
+  };
+
+  const handlePassageFrameDone = (frame: PassageFrame, updatedChars: Record<string, string>) => {
+    saveVerse(
+      frame.reference,
+      {
+        scenePrompt: frame.scenePrompt,
+        image: frame.image,
+        referenceCharacters: frame.referenceCharacters,
+        style: stylePreset,
+        aspectRatio,
+      },
+      updatedChars,
+      imagePromptVersions(frame.originalPrompt ?? frame.scenePrompt ?? '', 'auto', frame.scenePrompt ?? '', frame.image ?? null)
+    );
+  };
+
+  /**
+   * Adds the passage to the project and queues what its verses still lack: prompt, then image, and narration if asked.
+   * @returns The number of jobs queued.
+   */
+  const handleQueuePassage = async (references: string[], withNarration: boolean): Promise<number> => {
+    const updated = await addVerses(references, characterDescriptions);
+    const jobs: NewJob[] = [];
+    for (const verse of updated.verses.filter((candidate) => references.includes(candidate.reference))) {
+      const target = { projectId: updated.id, verseId: verse.id, reference: verse.reference };
+      const promptJobId = verse.scenePrompt.trim() ? undefined : crypto.randomUUID();
+      if (promptJobId) jobs.push({ ...target, id: promptJobId, kind: 'prompt' });
+      if (!verse.image) jobs.push({ ...target, kind: 'image', dependsOn: promptJobId });
+      if (withNarration && !verse.narration) {
+        jobs.push({ ...target, kind: 'audio', options: { language, translationId, voice: voiceSettings } });
+      }
+    }
+    enqueueJobs(jobs);
+    return jobs.length;
+  };
+
+  // Edits a frame from the timeline; the editor follows when it shows the same verse.
+  const handleSaveFramePrompt = (verse: ProjectVerse, scenePrompt: string, source: PromptSource) => {
+    saveVerse(
+      verse.reference,
+      { scenePrompt, referenceCharacters: charactersInPrompt(scenePrompt, characterPortraits) },
+      undefined,
+      [{ prompt: scenePrompt, source }]
+    );
+    if (verse.reference === canonicalReference) {
+      setPromptText(scenePrompt);
+      setPromptSource(source);
+      setSelectedReferences(null);
+    }
+  };
+
+  /** Queues a new image for a timeline frame, after its prompt if it has none, or a new narration with the current voice. */
+  const handleRegenerateFrame = (verse: ProjectVerse, kind: 'image' | 'audio') => {
+    if (!project) return;
+    const target = { projectId: project.id, verseId: verse.id, reference: verse.reference };
+    if (kind === 'audio') {
+      enqueueJobs([{ ...target, kind: 'audio', options: { language, translationId, voice: voiceSettings, force: true } }]);
+      return;
+    }
+    const promptJobId = verse.scenePrompt.trim() ? undefined : crypto.randomUUID();
+    enqueueJobs([
+      ...(promptJobId ? [{ ...target, id: promptJobId, kind: 'prompt' as const }] : []),
+      { ...target, kind: 'image', dependsOn: promptJobId, options: { force: true } },
+    ]);
+  };
+
+  // Jobs still waiting for a deleted frame would only fail; they are cancelled with it.
+  const handleDeleteFrame = (verse: ProjectVerse) => {
+    getQueueState().jobs
+      .filter((job) => job.verseId === verse.id && ['queued', 'running', 'paused'].includes(job.status))
+      .forEach((job) => cancelJob(job.id));
+    removeVerse(verse.id);
+  };
+
+  // Each language starts with its own default voice; style and rate carry over.
+  const handleLanguageChange = (code: string) => {
+    setLanguage(code);
+    setVoiceSettings((current) => ({ ...current, voiceName: defaultVoiceSettings(code).voiceName }));
+  };
+
+  const handleVoicesChange = (voices: Record<string, string>) => {
+    setCharacterVoices(voices);
+    saveCharacters(characterDescriptions ?? {}, { characterVoices: voices });
+  };
+
+  // Keeps a hand-edited or restored prompt in the verse's history, so generating a new one doesn't lose it.
+  const recordUnsavedPrompt = useCallback(() => {
+    if (!currentVerse) return;
+    const versions = unsavedPromptVersions(currentVerse.promptHistory, promptText, promptSource);
+    if (versions.length > 0) saveVerse(currentVerse.reference, { scenePrompt: promptText }, characterDescriptions, versions);
+  }, [currentVerse, promptText, promptSource, characterDescriptions, saveVerse]);
+
+  const handleGeneratePrompt = useCallback(async (force = false) => {
     if (!bibleReference.trim()) return;
+    recordUnsavedPrompt();
+
+    const parsed = parseBibleRef(bibleReference, bookLanguage);
+    if ('error' in parsed) {
+      setPromptError(parsed.error);
+      return;
+    }
+    const reference = formatBibleRef(parsed.ref, parsed.language);
+
+    // Characters from the open project or the character bible keep new scenes consistent with earlier ones.
+    const knownCharacters = characterDescriptions && Object.keys(characterDescriptions).length > 0
+      ? characterDescriptions
+      : undefined;
 
     // Reset states but keep bibleReference
     setIsSequenceActive(false);
-    setCharacterDescriptions(null);
     setGeneratedImage(null);
+    setPendingVariants(null);
+    setImageHistory([]);
+    setSelectedReferences(null);
     setImageError(null);
     setPromptError(null);
     setPromptText('');
+    setPromptRewrite(null);
+    setFromCache(NOTHING_CACHED);
     setGeneratedAudioUrl(null);
     setTextForNarration('');
     setNarratedText(null);
 
+    setBibleReference(reference);
     setIsPromptLoading(true);
 
     try {
-      const { scenePrompt, characterDescriptions: newChars } = await generateImagePrompt(bibleReference);
+      const { value, fromCache: cached } = await cachedImagePrompt(reference, knownCharacters, lockedCharacters, { force });
+      const { scenePrompt, characterDescriptions: newChars } = value;
+      setFromCache((current) => ({ ...current, prompt: cached }));
+      const chars = knownCharacters ? mergeCharacters(knownCharacters, newChars) : newChars;
       setPromptText(scenePrompt);
-      setCharacterDescriptions(newChars);
+      setPromptSource('auto');
+      setCharacterDescriptions(chars);
+      saveVerse(reference, { scenePrompt }, chars, [{ prompt: scenePrompt, source: 'auto' }]);
     } catch (err: any) {
       console.error(err);
-      if (err.toString().includes('500') || err.toString().includes('Rpc failed')) {
-        setPromptError('Ocorreu um erro de comunicação com o servidor. Por favor, tente novamente em alguns instantes.');
-      } else {
-        setPromptError(err.message || 'Ocorreu um erro ao gerar o prompt. Tente um versículo diferente.');
-      }
+      setPromptError(describeError(err, t('generator.promptError')));
     } finally {
       setIsPromptLoading(false);
     }
-  }, [bibleReference]);
+  }, [bibleReference, bookLanguage, characterDescriptions, lockedCharacters, saveVerse, recordUnsavedPrompt]);
+
+  // Makes one variant the scene's image; the other variants and the replaced image go to its history.
+  const chooseVariant = (pending: PendingVariants, index: number) => {
+    const image = pending.images[index];
+    const history = [
+      ...imageHistory,
+      ...(pending.replaced ? [pending.replaced] : []),
+      ...pending.images.filter((_, i) => i !== index),
+    ];
+    setGeneratedImage(image);
+    setImageHistory(history);
+    setPendingVariants(null);
+    setIsSequenceActive(true);
+    saveVerse(
+      pending.reference,
+      { ...pending.changes, image, imageHistory: history },
+      characterDescriptions,
+      imagePromptVersions(pending.requestedPrompt, pending.requestedSource, pending.changes.scenePrompt, image)
+    );
+  };
+
+  // Brings back an earlier version of the scene; the current image takes its place in the history.
+  const handleRestoreFromHistory = (index: number) => {
+    if (!generatedImage) return;
+    const image = imageHistory[index];
+    const history = [...imageHistory.filter((_, i) => i !== index), generatedImage];
+    setGeneratedImage(image);
+    setImageHistory(history);
+    saveVerse(canonicalReference || bibleReference.trim() || t('generator.untitledScene'), { image, imageHistory: history });
+  };
 
-  const handleGenerateImage = useCallback(async () => {
+  const handleGenerateImage = useCallback(async (force = false) => {
     if (!promptText.trim() || isImageLoading) return;
 
+    const replaced = generatedImage;
     setIsImageLoading(true);
     setImageError(null);
     setGeneratedImage(null);
+    setPendingVariants(null);
+    setIsSequenceActive(false);
 
     try {
-      const imageBase64 = await generateImage(promptText, aspectRatio);
-      setGeneratedImage(`data:image/jpeg;base64,${imageBase64}`);
-      setIsSequenceActive(true);
+      const references = buildSceneReferences(sceneReferences, characterPortraits, usePreviousFrame ? previousFrame : null);
+      const { value, fromCache: cached } = await cachedImageVariants(promptText, aspectRatio, variantCount, { references, style: stylePreset }, { force });
+      const { images, prompt, rewrite } = value;
+      setFromCache((current) => ({ ...current, image: cached }));
+      setPromptText(prompt);
+      if (prompt.trim() !== promptText.trim()) setPromptSource('safety-rewrite');
+      setPromptRewrite(rewrite);
+      const pending: PendingVariants = {
+        images,
+        replaced,
+        reference: canonicalReference || bibleReference.trim() || t('generator.untitledScene'),
+        requestedPrompt: promptText,
+        requestedSource: promptSource,
+        changes: { scenePrompt: prompt, referenceCharacters: sceneReferences, style: stylePreset, aspectRatio },
+      };
+      if (pending.images.length === 1) {
+        chooseVariant(pending, 0);
+      } else {
+        setPendingVariants(pending);
+      }
     } catch (err: any) {
       console.error(err);
-      if (err.toString().includes('500') || err.toString().includes('Rpc failed')) {
-        setImageError('Ocorreu um erro de comunicação com o servidor. Por favor, tente novamente em alguns instantes.');
-      } else {
-        setImageError(err.message || 'Ocorreu um erro ao gerar a imagem. Por favor, tente novamente.');
+      if (replaced) {
+        setGeneratedImage(replaced);
+        setIsSequenceActive(true);
       }
+      setImageError(describeError(err, t('generator.imageError')));
     } finally {
       setIsImageLoading(false);
     }
-  }, [promptText, isImageLoading, aspectRatio]);
+  }, [promptText, promptSource, isImageLoading, generatedImage, imageHistory, aspectRatio, variantCount, canonicalReference, bibleReference, characterDescriptions, sceneReferences, characterPortraits, usePreviousFrame, previousFrame, stylePreset, saveVerse]);
 
   const handleGenerateNextVerse = useCallback(async () => {
     const nextVerseRef = getNextVerseRef();
@@ -193,71 +501,82 @@ const ImageGenerator: React.FC = () => {
     // Keep the last image visible during loading for a better UX
     // setGeneratedImage(null); 
     setPromptError(null);
+    setPromptRewrite(null);
     const lastValidRef = bibleReference;
     
     try {
       setBibleReference(nextVerseRef);
       
-      const { scenePrompt, characterDescriptions: updatedChars } = await generateImagePrompt(nextVerseRef, characterDescriptions);
-      setPromptText(scenePrompt);
+      const { value: scene, fromCache: promptCached } = await cachedImagePrompt(nextVerseRef, characterDescriptions, lockedCharacters);
+      const updatedChars = mergeCharacters(characterDescriptions, scene.characterDescriptions);
+      setPromptText(scene.scenePrompt);
       setCharacterDescriptions(updatedChars);
-      
-      const imageBase64 = await generateImage(scenePrompt, aspectRatio);
-      setGeneratedImage(`data:image/jpeg;base64,${imageBase64}`);
+      setSelectedReferences(null);
+
+      // The frame on screen is the previous one for the new verse.
+      const referenceCharacters = charactersInPrompt(scene.scenePrompt, characterPortraits);
+      const references = buildSceneReferences(referenceCharacters, characterPortraits, usePreviousFrame ? generatedImage : null);
+      const { value, fromCache: imageCached } = await cachedImageVariants(scene.scenePrompt, aspectRatio, 1, { references, style: stylePreset });
+      const { images: [image], prompt: scenePrompt, rewrite } = value;
+      setFromCache((current) => ({ ...current, prompt: promptCached, image: imageCached }));
+      setPromptText(scenePrompt);
+      setPromptSource(scenePrompt.trim() === scene.scenePrompt.trim() ? 'auto' : 'safety-rewrite');
+      setPromptRewrite(rewrite);
+      setGeneratedImage(image);
+      setImageHistory([]);
       setIsSequenceActive(true); // Ensure sequence continues
+      saveVerse(
+        nextVerseRef,
+        { scenePrompt, image, referenceCharacters, style: stylePreset, aspectRatio },
+        updatedChars,
+        imagePromptVersions(scene.scenePrompt, 'auto', scenePrompt, image)
+      );
       
     // FIX: Added curly braces to the catch block to fix a syntax error that was causing cascading scope issues.
     } catch (err: any) {
-      if (err instanceof Error && err.message.includes('VERSE_NOT_FOUND')) {
-        setImageError("Fim do capítulo. Inicie uma nova cena.");
-        setIsSequenceActive(false); // End the sequence
-        setBibleReference(lastValidRef); // Revert to the last valid reference
-      } else if (err.toString().includes('500') || err.toString().includes('Rpc failed')) {
-        setImageError('Ocorreu um erro de comunicação com o servidor. Por favor, tente novamente em alguns instantes.');
-        setBibleReference(lastValidRef);
+      if (classifyError(err).kind === 'verse-not-found') {
+        setImageError(t('generator.nextVerseNotFound', { reference: nextVerseRef }));
       } else {
-        setImageError((err as Error).message || 'Falha ao gerar o próximo versículo.');
-        setBibleReference(lastValidRef);
+        setImageError(describeError(err, t('generator.nextVerseError')));
       }
+      setBibleReference(lastValidRef); // Revert to the last valid reference
     } finally {
       setIsImageLoading(false);
     }
-  }, [characterDescriptions, aspectRatio, getNextVerseRef, bibleReference]);
-
-  const handleDownload = (base64Image: string, fileNameSuffix: string) => {
-    if (!base64Image) return;
-    const link = document.createElement('a');
-    link.href = base64Image;
-    const fileName = `${bibleReference.replace(/[: ]/g, '_').toLowerCase()}_${fileNameSuffix}.jpg`;
-    link.download = fileName;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  }, [characterDescriptions, lockedCharacters, characterPortraits, usePreviousFrame, generatedImage, aspectRatio, stylePreset, getNextVerseRef, bibleReference, saveVerse]);
+
+  const handleDownload = (image: string, fileNameSuffix: string) => {
+    if (!image) return;
+    downloadDataUrl(image, `${bibleReference.replace(/[: ]/g, '_').toLowerCase()}_${fileNameSuffix}.${imageExtension(image)}`);
   };
 
-  const handleFetchVerseText = useCallback(async () => {
+  const handleFetchVerseText = useCallback(async (force = false) => {
     if (!bibleReference.trim() || isFetchingVerse) return;
 
+    const parsed = parseBibleRef(bibleReference, bookLanguage);
+    if ('error' in parsed) {
+        setAudioError(parsed.error);
+        return;
+    }
+
     setIsFetchingVerse(true);
     setAudioError(null);
     setTextForNarration('');
+    setVerseSource(null);
 
     try {
-        const verseText = await getVerseText(bibleReference, language);
-        setTextForNarration(verseText);
+        const { text, translation, fromCache: cached } = await fetchVerseText(parsed.ref, language, translationId, { force });
+        setTextForNarration(text);
+        setVerseSource({ translation, fromCache: cached });
     } catch (err: any) {
         console.error(err);
-        if (err.toString().includes('500') || err.toString().includes('Rpc failed')) {
-            setAudioError('Ocorreu um erro de comunicação com o servidor. Por favor, tente novamente.');
-        } else {
-            setAudioError('Ocorreu um erro ao buscar o texto. Verifique a referência ou tente novamente.');
-        }
+        setAudioError(describeError(err, t('narration.fetchError')));
     } finally {
         setIsFetchingVerse(false);
     }
-  }, [bibleReference, language, isFetchingVerse]);
+  }, [bibleReference, bookLanguage, language, translationId, isFetchingVerse]);
 
-  const handleGenerateAudioClick = useCallback(async () => {
+  const handleGenerateAudioClick = useCallback(async (force = false) => {
     if (!textForNarration.trim() || isAudioLoading) return;
 
     setIsAudioLoading(true);
@@ -267,51 +586,116 @@ const ImageGenerator: React.FC = () => {
     }
     setGeneratedAudioUrl(null);
     setNarratedText(null);
+    setDramatizedLines(null);
 
     try {
-        const audioBase64 = await generateSpeech(textForNarration, voiceType as 'adulta' | 'infantil');
+        let audioBase64: string;
+        let lines: DramatizedLine[] | undefined;
+        if (isDramatized) {
+            const { narration, voices } = await generateDramatizedNarration(
+                textForNarration, Object.keys(characterDescriptions ?? {}), characterVoices, voiceSettings, { force }
+            );
+            audioBase64 = narration.audioBase64;
+            lines = narration.lines;
+            setDramatizedLines(lines);
+            setFromCache((current) => ({ ...current, speech: narration.fromCache }));
+            handleVoicesChange(voices);
+        } else {
+            const speech = await cachedSpeech(textForNarration, voiceSettings, { force });
+            audioBase64 = speech.value;
+            setFromCache((current) => ({ ...current, speech: speech.fromCache }));
+        }
         const audioBlob = createWavBlob(audioBase64);
         const url = URL.createObjectURL(audioBlob);
         setGeneratedAudioUrl(url);
         setNarratedText(textForNarration);
+        setNarrationDuration(getPcmDuration(audioBase64));
+        if (canonicalReference) {
+            // Text loaded with a saved verse keeps the source it was saved with.
+            const saved = currentVerse?.narration;
+            const source: Pick<ProjectNarration, 'textSource' | 'translation'> = verseSource
+                ? { textSource: verseSource.translation ? 'translation' : 'ai', translation: verseSource.translation?.name }
+                : saved?.text === textForNarration
+                    ? { textSource: saved.textSource, translation: saved.translation }
+                    : { textSource: 'edited' };
+            saveVerse(canonicalReference, {
+                narration: { text: textForNarration, ...source, audioBase64, language, voiceType: isDramatized ? 'dramatizada' : voiceSettings.voiceName, voice: voiceSettings, lines },
+            });
+        }
     } catch (err: any) {
         console.error(err);
-        if (err.toString().includes('500') || err.toString().includes('Rpc failed')) {
-            setAudioError('Ocorreu um erro de comunicação com o servidor. Por favor, tente novamente.');
-        } else {
-            setAudioError('Ocorreu um erro ao gerar o áudio. Por favor, tente novamente.');
-        }
+        setAudioError(describeError(err, t('narration.error')));
     } finally {
         setIsAudioLoading(false);
     }
-  }, [textForNarration, voiceType, isAudioLoading, generatedAudioUrl]);
+  }, [textForNarration, verseSource, currentVerse, voiceSettings, isDramatized, characterDescriptions, characterVoices, language, isAudioLoading, generatedAudioUrl, canonicalReference, saveVerse]);
 
-  const isAnyLoading = isPromptLoading || isImageLoading || isAudioLoading || isFetchingVerse;
+  // Each control waits only for the work that touches what it changes.
+  // The scene (prompt and image) and the narration of the verse open in the editor:
+  const isSceneBusy = isPromptLoading || isImageLoading;
+  const isNarrationBusy = isAudioLoading || isFetchingVerse;
+  // Switching to another verse waits for both.
+  const isEditorBusy = isSceneBusy || isNarrationBusy;
+  // Switching project waits for everything that reads or saves the open one.
+  const isProjectBusy = isEditorBusy || isPassageRunning || isPortraitRunning || isVideoExporting || isChapterAudioRunning;
 
   return (
     <div className="flex flex-col items-center gap-8">
+      <ProjectPanel
+        project={project}
+        projects={projects}
+        saveError={saveError}
+        onOpen={handleOpenProject}
+        onNew={handleNewProject}
+        onRename={renameProject}
+        onDelete={removeProject}
+        disabled={isProjectBusy}
+      />
+
+      <StoryboardTimeline
+        project={project}
+        currentReference={canonicalReference}
+        onOpen={showVerse}
+        onSavePrompt={handleSaveFramePrompt}
+        onRegenerate={handleRegenerateFrame}
+        onMove={(verse, toIndex) => moveVerse(verse.id, toIndex)}
+        onDelete={handleDeleteFrame}
+        onInsert={insertVerse}
+        isEditorBusy={isEditorBusy}
+        disabled={isPassageRunning}
+      />
+
       {/* Input Section */}
       <div className="w-full max-w-2xl bg-slate-800/60 rounded-xl p-6 shadow-2xl shadow-cyan-500/10 border border-slate-700">
         <div className="flex items-end gap-4">
           <div className="flex-grow">
-            <label htmlFor="bible-ref" className="block text-lg font-medium text-gray-300 mb-2">Capítulo e Versículo da Bíblia</label>
+            <label htmlFor="bible-ref" className="block text-lg font-medium text-gray-300 mb-2">{t('generator.referenceLabel')}</label>
             <input
               id="bible-ref"
               type="text"
               value={bibleReference}
               onChange={(e) => setBibleReference(e.target.value)}
-              placeholder="Ex: Gênesis 1:1"
+              placeholder={t('generator.referencePlaceholder')}
               className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-3 text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:outline-none transition duration-300 disabled:bg-slate-800 disabled:cursor-not-allowed"
-              disabled={isAnyLoading || isSequenceActive}
+              disabled={isEditorBusy || isSequenceActive}
             />
+            {bibleReference.trim() && !isSequenceActive && (
+              !('error' in parsedReference) ? (
+                canonicalReference !== bibleReference.trim() && (
+                  <p className="text-xs text-gray-400 mt-1">{t('generator.referenceRecognized', { reference: canonicalReference })}</p>
+                )
+              ) : (
+                <p className="text-xs text-red-400 mt-1">{parsedReference.error}</p>
+              )
+            )}
           </div>
           {isSequenceActive && (
             <button
               onClick={handleStartNew}
-              disabled={isAnyLoading}
+              disabled={isEditorBusy}
               className="bg-red-600/80 text-white font-bold py-3 px-5 rounded-lg hover:bg-red-700 transition duration-300 disabled:opacity-50"
             >
-              Nova Cena
+              {t('generator.newScene')}
             </button>
           )}
         </div>
@@ -320,23 +704,51 @@ const ImageGenerator: React.FC = () => {
       {/* Prompt Generator Section */}
       <div className="w-full max-w-2xl bg-slate-800/60 rounded-xl p-6 shadow-2xl shadow-cyan-500/10 border border-slate-700">
         <h2 className="text-xl font-semibold text-center text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-blue-500 mb-2">
-            Passo 1: Crie o Prompt da Cena
+            {t('generator.step1')}
         </h2>
         <div className="flex flex-col gap-4">
           <button
-            onClick={handleGeneratePrompt}
-            disabled={!bibleReference.trim() || isAnyLoading || isSequenceActive}
+            onClick={() => handleGeneratePrompt()}
+            disabled={!bibleReference.trim() || isSceneBusy || isPassageRunning || isSequenceActive}
             className="bg-gradient-to-r from-slate-600 to-slate-700 text-white font-bold py-3 px-6 rounded-lg hover:from-slate-700 hover:to-slate-800 transition duration-300 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center w-full"
           >
-            {isPromptLoading ? <Spinner /> : 'Gerar Prompt Automaticamente'}
+            {isPromptLoading ? <Spinner /> : t('generator.generatePrompt')}
           </button>
           <textarea
             value={promptText}
-            onChange={(e) => setPromptText(e.target.value)}
-            placeholder="Clique no botão acima para gerar um prompt, ou escreva sua própria descrição da cena aqui..."
+            onChange={(e) => {
+              setPromptText(e.target.value);
+              setPromptSource('edited');
+            }}
+            onBlur={recordUnsavedPrompt}
+            placeholder={t('generator.promptPlaceholder')}
             className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-3 text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:outline-none transition duration-300 resize-none h-32"
-            disabled={isAnyLoading}
+            disabled={isSceneBusy}
+          />
+          <SafePromptPanel
+            prompt={promptText}
+            rewrite={promptRewrite}
+            onRestoreOriginal={(original) => {
+              setPromptText(original);
+              setPromptSource('restored');
+              setPromptRewrite(null);
+            }}
+            onDismiss={() => setPromptRewrite(null)}
+            disabled={isSceneBusy}
+          />
+          <PromptHistoryPanel
+            versions={currentVerse?.promptHistory ?? []}
+            images={[currentVerse?.image, ...(currentVerse?.imageHistory ?? [])]}
+            onRestore={(prompt) => {
+              setPromptText(prompt);
+              setPromptSource('restored');
+              setPromptRewrite(null);
+            }}
+            disabled={isSceneBusy}
           />
+          {fromCache.prompt && promptText && (
+            <CacheBadge onForceRegenerate={() => handleGeneratePrompt(true)} disabled={isSceneBusy || isPassageRunning || isSequenceActive} />
+          )}
         </div>
       </div>
       
@@ -346,66 +758,85 @@ const ImageGenerator: React.FC = () => {
         </div>
       )}
 
+      <CharacterBibleEditor
+        bible={{ descriptions: characterDescriptions ?? {}, locked: lockedCharacters, portraits: characterPortraits }}
+        style={stylePreset}
+        onChange={handleCharactersEdit}
+        disabled={isPromptLoading || isPassageRunning}
+        onRunningChange={setIsPortraitRunning}
+      />
+
       {/* Image Generator Section */}
       <div className="w-full max-w-2xl bg-slate-800/60 rounded-xl p-6 shadow-2xl shadow-cyan-500/10 border border-slate-700">
          <h2 className="text-xl font-semibold text-center text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-blue-500 mb-4">
-            Passo 2: Gere a Imagem
+            {t('generator.step2')}
         </h2>
         <div className="mb-4">
-            <p className="block text-sm font-medium text-gray-400 mb-2 text-center">Formato da Imagem</p>
-            <div className="flex items-center justify-center gap-4">
-                <div>
-                    <input 
-                        type="radio" 
-                        id="aspect-9-16" 
-                        name="aspectRatio" 
-                        value="9:16" 
-                        checked={aspectRatio === '9:16'} 
-                        onChange={() => setAspectRatio('9:16')}
-                        disabled={isAnyLoading}
-                        className="sr-only peer"
-                    />
-                    <label 
-                        htmlFor="aspect-9-16"
-                        className="flex flex-col items-center text-sm gap-1 justify-center px-4 py-2 bg-slate-900/50 border border-slate-600 rounded-lg cursor-pointer peer-checked:border-cyan-500 peer-checked:ring-2 peer-checked:ring-cyan-500/50 peer-disabled:opacity-50 peer-disabled:cursor-not-allowed transition-all"
-                    >
-                        <svg width="24" height="24" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg" className="w-5 h-5"><rect x="7" y="3" width="10" height="18" rx="1" stroke="currentColor" strokeWidth="2"/></svg>
-                        <span>Vertical</span>
-                    </label>
-                </div>
-                <div>
-                    <input 
-                        type="radio" 
-                        id="aspect-16-9" 
-                        name="aspectRatio" 
-                        value="16:9" 
-                        checked={aspectRatio === '16:9'} 
-                        onChange={() => setAspectRatio('16:9')}
-                        disabled={isAnyLoading}
-                        className="sr-only peer"
-                    />
-                    <label 
-                        htmlFor="aspect-16-9"
-                        className="flex flex-col items-center text-sm gap-1 justify-center px-4 py-2 bg-slate-900/50 border border-slate-600 rounded-lg cursor-pointer peer-checked:border-cyan-500 peer-checked:ring-2 peer-checked:ring-cyan-500/50 peer-disabled:opacity-50 peer-disabled:cursor-not-allowed transition-all"
-                    >
-                        <svg width="24" height="24" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg" className="w-5 h-5"><rect x="3" y="7" width="18" height="10" rx="1" stroke="currentColor" strokeWidth="2"/></svg>
-                        <span>Horizontal</span>
-                    </label>
-                </div>
+            <p className="block text-sm font-medium text-gray-400 mb-2 text-center">{t('generator.aspectRatio')}</p>
+            <div className="flex flex-wrap items-center justify-center gap-4">
+                {ASPECT_RATIOS.map(({ value, label, rect }) => (
+                    <div key={value}>
+                        <input
+                            type="radio"
+                            id={`aspect-${value.replace(':', '-')}`}
+                            name="aspectRatio"
+                            value={value}
+                            checked={aspectRatio === value}
+                            onChange={() => setAspectRatio(value)}
+                            disabled={isSceneBusy}
+                            className="sr-only peer"
+                        />
+                        <label
+                            htmlFor={`aspect-${value.replace(':', '-')}`}
+                            className="flex flex-col items-center text-sm gap-1 justify-center px-4 py-2 bg-slate-900/50 border border-slate-600 rounded-lg cursor-pointer peer-checked:border-cyan-500 peer-checked:ring-2 peer-checked:ring-cyan-500/50 peer-disabled:opacity-50 peer-disabled:cursor-not-allowed transition-all"
+                        >
+                            <svg width="24" height="24" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg" className="w-5 h-5"><rect {...rect} rx="1" stroke="currentColor" strokeWidth="2"/></svg>
+                            <span>{t(label)}</span>
+                        </label>
+                    </div>
+                ))}
             </div>
         </div>
+        <StylePresetPicker
+          value={stylePreset}
+          onChange={setStylePreset}
+          disabled={isSceneBusy || isSequenceActive}
+        />
+        <ReferencePicker
+          portraits={characterPortraits}
+          selected={sceneReferences}
+          onChange={setSelectedReferences}
+          previousFrame={previousFrame}
+          usePreviousFrame={usePreviousFrame}
+          onUsePreviousFrameChange={setUsePreviousFrame}
+          disabled={isSceneBusy || isSequenceActive}
+        />
+        <div className="mb-4 flex items-center justify-center gap-2 text-sm text-gray-400">
+          <label htmlFor="variant-count">{t('generator.variantsPerScene')}</label>
+          <select
+            id="variant-count"
+            value={variantCount}
+            onChange={(e) => setVariantCount(Number(e.target.value))}
+            disabled={isSceneBusy}
+            className="bg-slate-900 border border-slate-600 rounded-lg px-2 py-1 text-gray-200 disabled:opacity-50"
+          >
+            {Array.from({ length: MAX_IMAGE_VARIANTS }, (_, i) => i + 1).map((count) => (
+              <option key={count} value={count}>{count}</option>
+            ))}
+          </select>
+        </div>
         <button
-          onClick={handleGenerateImage}
-          disabled={!promptText.trim() || isAnyLoading || isSequenceActive}
+          onClick={() => handleGenerateImage()}
+          disabled={!promptText.trim() || isSceneBusy || isSequenceActive || !!pendingVariants}
           className="bg-gradient-to-r from-cyan-500 to-blue-600 text-white font-bold py-3 px-6 rounded-lg hover:from-cyan-600 hover:to-blue-700 transition duration-300 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center w-full"
         >
-          {isImageLoading ? <Spinner /> : 'Gerar Imagem'}
+          {isImageLoading ? <Spinner /> : t('generator.generateImage')}
         </button>
       </div>
 
       {isImageLoading && !generatedImage && (
         <div className="text-center p-4 bg-slate-800 rounded-lg">
-          <p className="text-cyan-400">Gerando a imagem... Isso pode levar alguns instantes.</p>
+          <p className="text-cyan-400">{t('generator.imageLoading')}</p>
         </div>
       )}
 
@@ -415,12 +846,24 @@ const ImageGenerator: React.FC = () => {
         </div>
       )}
 
+      {pendingVariants && (
+        <div className="w-full max-w-2xl">
+          <VariantPicker
+            title={t('generator.pickVariant')}
+            images={pendingVariants.images}
+            aspectRatio={pendingVariants.changes.aspectRatio ?? aspectRatio}
+            onPick={(index) => chooseVariant(pendingVariants, index)}
+            disabled={isSceneBusy}
+          />
+        </div>
+      )}
+
       {generatedImage && (
-        <div className={`w-full flex flex-col items-center gap-4 ${aspectRatio === '9:16' ? 'max-w-md' : 'max-w-2xl'}`}>
+        <div className={`w-full flex flex-col items-center gap-4 ${aspectRatio === '9:16' || aspectRatio === '3:4' ? 'max-w-md' : aspectRatio === '1:1' ? 'max-w-lg' : 'max-w-2xl'}`}>
            <div className="w-full relative group">
               <img
                 src={generatedImage}
-                alt={`Cena de ${bibleReference}`}
+                alt={t('common.sceneAlt', { reference: bibleReference })}
                 className="rounded-xl shadow-lg shadow-black/50 border-2 border-slate-700 w-full"
               />
               <div className="absolute inset-0 bg-black/50 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity duration-300 rounded-xl">
@@ -429,95 +872,171 @@ const ImageGenerator: React.FC = () => {
                     className="bg-white/20 backdrop-blur-sm text-white font-bold py-3 px-5 rounded-lg hover:bg-white/30 transition duration-300 flex items-center gap-2"
                   >
                     <DownloadIcon />
-                    Baixar Imagem
+                    {t('common.downloadImage')}
                   </button>
               </div>
            </div>
+
+           {fromCache.image && (
+             <CacheBadge onForceRegenerate={() => handleGenerateImage(true)} disabled={isSceneBusy || !promptText.trim()} />
+           )}
            
+           {imageHistory.length > 0 && (
+             <VariantPicker
+               title={t('generator.previousVersions', { count: imageHistory.length })}
+               images={imageHistory}
+               aspectRatio={aspectRatio}
+               onPick={handleRestoreFromHistory}
+               disabled={isSceneBusy}
+               compact
+             />
+           )}
+
+           {isSequenceActive && (
+             <button
+               onClick={() => handleGenerateImage(true)}
+               disabled={isSceneBusy || !promptText.trim()}
+               className="text-sm text-cyan-300 border border-cyan-700/60 rounded-lg px-4 py-2 hover:bg-cyan-900/30 transition duration-300 disabled:opacity-50"
+             >
+               {t('generator.regenerate', { count: variantCount })}
+             </button>
+           )}
+
            {isSequenceActive && (
              <div className="w-full mt-2">
                <button
                  onClick={handleGenerateNextVerse}
-                 disabled={isAnyLoading}
+                 disabled={isEditorBusy || !getNextVerseRef()}
                  className="w-full bg-gradient-to-r from-green-500 to-emerald-600 text-white font-bold py-3 px-6 rounded-lg hover:from-green-600 hover:to-emerald-700 transition duration-300 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
                >
-                 {isImageLoading ? <Spinner /> : `Gerar Próximo Versículo (${getNextVerseRef()})`}
+                 {isImageLoading ? <Spinner /> : getNextVerseRef() ? t('generator.nextVerse', { reference: getNextVerseRef() }) : t('generator.endOfBible')}
                </button>
              </div>
            )}
         </div>
       )}
+
+      {generatedImage && (
+        <CaptionComposer
+          image={generatedImage}
+          reference={canonicalReference || bibleReference.trim()}
+          verseText={narratedText ?? textForNarration}
+          language={language}
+          translationId={translationId}
+          disabled={isSceneBusy}
+        />
+      )}
       
+      <PassageStoryboard
+        aspectRatio={aspectRatio}
+        characterDescriptions={characterDescriptions}
+        lockedCharacters={lockedCharacters}
+        characterPortraits={characterPortraits}
+        style={stylePreset}
+        onCharacterDescriptionsChange={setCharacterDescriptions}
+        disabled={(isSceneBusy || isPortraitRunning) && !isPassageRunning}
+        onRunningChange={setIsPassageRunning}
+        onPassageStart={handlePassageStart}
+        onFrameDone={handlePassageFrameDone}
+        onQueue={handleQueuePassage}
+      />
+
+      <JobQueuePanel />
+
+      <CachePanel />
+
       <hr className="w-full max-w-2xl border-slate-700 my-4" />
 
       {/* Audio Generator Section */}
       <div className="w-full max-w-2xl bg-slate-800/60 rounded-xl p-6 shadow-2xl shadow-blue-500/10 border border-slate-700">
         <div className="flex flex-col gap-4">
             <h2 className="text-xl font-semibold text-center text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-indigo-500 mb-2">
-                Gerador de Narração
+                {t('narration.title')}
             </h2>
             <div className="flex flex-col gap-2">
-                <label htmlFor="narration-text" className="block text-sm font-medium text-gray-400">Texto para Narrar</label>
+                <label htmlFor="narration-text" className="block text-sm font-medium text-gray-400">{t('narration.textLabel')}</label>
                 <textarea
                     id="narration-text"
                     value={textForNarration}
-                    onChange={(e) => setTextForNarration(e.target.value)}
-                    placeholder="Clique em 'Buscar Texto' para preencher automaticamente, ou cole o texto aqui."
+                    onChange={(e) => {
+                        setTextForNarration(e.target.value);
+                        setVerseSource(null);
+                    }}
+                    placeholder={t('narration.textPlaceholder')}
                     className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-3 text-gray-200 focus:ring-2 focus:ring-blue-500 focus:outline-none transition duration-300 resize-none h-28"
-                    disabled={isAnyLoading}
+                    disabled={isNarrationBusy}
+                />
+                {verseSource && (
+                    verseSource.translation ? (
+                        <p className="text-xs text-gray-400">
+                            {t('narration.source', { name: verseSource.translation.name, attribution: verseSource.translation.attribution })}
+                        </p>
+                    ) : (
+                        <p className="text-xs text-amber-400">
+                            {t('narration.aiTextWarning')}
+                        </p>
+                    )
+                )}
+                {verseSource?.fromCache && (
+                    <CacheBadge onForceRegenerate={() => handleFetchVerseText(true)} disabled={isNarrationBusy} />
+                )}
+                <TranslationSelector
+                    language={language}
+                    languages={languages}
+                    value={translationId}
+                    onChange={setTranslationId}
+                    disabled={isNarrationBusy}
                 />
                 <button
-                    onClick={handleFetchVerseText}
-                    disabled={!bibleReference.trim() || isAnyLoading}
+                    onClick={() => handleFetchVerseText()}
+                    disabled={!bibleReference.trim() || isNarrationBusy}
                     className="bg-gradient-to-r from-slate-600 to-slate-700 text-white font-bold py-2 px-4 rounded-lg hover:from-slate-700 hover:to-slate-800 transition duration-300 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center w-full"
                 >
-                    {isFetchingVerse ? <Spinner /> : 'Buscar Texto do Versículo'}
+                    {isFetchingVerse ? <Spinner /> : t('narration.fetchText')}
                 </button>
             </div>
             <p className="text-center text-gray-400 text-sm my-2">
-                Escolha o idioma e a voz para a narração.
+                {t('narration.chooseVoice')}
             </p>
-             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                 <div>
-                    <label htmlFor="language-select" className="block text-sm font-medium text-gray-400 mb-1">Idioma</label>
-                    <select
-                        id="language-select"
-                        value={language}
-                        onChange={(e) => setLanguage(e.target.value)}
-                        disabled={isAnyLoading}
-                        className="w-full bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-gray-200 focus:ring-2 focus:ring-blue-500 focus:outline-none transition duration-300"
-                    >
-                        {Object.entries(LANGUAGES).map(([code, name]) => (
-                            <option key={code} value={code}>{name}</option>
-                        ))}
-                    </select>
-                </div>
-                <div className="flex flex-col justify-end">
-                     <p className="block text-sm font-medium text-gray-400 mb-1">Tipo de Voz</p>
-                    <div className="flex items-center justify-around gap-4 bg-slate-900 border border-slate-600 rounded-lg p-2 h-full">
-                        {['adulta', 'infantil'].map((type) => (
-                            <label key={type} className="flex items-center gap-2 cursor-pointer text-base">
-                                <input
-                                    type="radio"
-                                    name="voiceType"
-                                    value={type}
-                                    checked={voiceType === type}
-                                    onChange={(e) => setVoiceType(e.target.value)}
-                                    className="form-radio h-4 w-4 text-cyan-500 bg-slate-700 border-slate-600 focus:ring-cyan-500"
-                                    disabled={isAnyLoading}
-                                />
-                                <span className="capitalize">{type === 'adulta' ? 'Adulta' : 'Infantil'}</span>
-                            </label>
-                        ))}
-                    </div>
-                </div>
+            <div>
+                <label htmlFor="language-select" className="block text-sm font-medium text-gray-400 mb-1">{t('narration.language')}</label>
+                <select
+                    id="language-select"
+                    value={language}
+                    onChange={(e) => handleLanguageChange(e.target.value)}
+                    disabled={isNarrationBusy}
+                    className="w-full bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-gray-200 focus:ring-2 focus:ring-blue-500 focus:outline-none transition duration-300"
+                >
+                    {Object.entries(languages).map(([code, name]) => (
+                        <option key={code} value={code}>{name}</option>
+                    ))}
+                </select>
+            </div>
+            <div>
+                <p className="block text-sm font-medium text-gray-400 mb-1">{t('narration.voice')}</p>
+                <VoiceCatalog
+                    value={voiceSettings}
+                    onChange={setVoiceSettings}
+                    language={language}
+                    disabled={isNarrationBusy}
+                />
             </div>
+            <label className="flex items-center justify-center gap-2 text-sm text-gray-300">
+                <input
+                    type="checkbox"
+                    checked={isDramatized}
+                    onChange={(e) => setIsDramatized(e.target.checked)}
+                    disabled={isNarrationBusy}
+                    className="accent-cyan-500"
+                />
+                {t('narration.dramatized')}
+            </label>
             <button
-                onClick={handleGenerateAudioClick}
-                disabled={!textForNarration.trim() || isAnyLoading}
+                onClick={() => handleGenerateAudioClick()}
+                disabled={!textForNarration.trim() || isNarrationBusy}
                 className="bg-gradient-to-r from-blue-500 to-indigo-600 text-white font-bold py-3 px-6 rounded-lg hover:from-blue-600 hover:to-indigo-700 transition duration-300 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center w-full mt-4"
             >
-                {isAudioLoading ? <Spinner /> : 'Gerar Áudio'}
+                {isAudioLoading ? <Spinner /> : t('narration.generate')}
             </button>
         </div>
       </div>
@@ -525,9 +1044,7 @@ const ImageGenerator: React.FC = () => {
       {isAudioLoading && (
         <div className="text-center p-4 bg-slate-800 rounded-lg w-full max-w-2xl">
           <p className="text-blue-400">
-            {voiceType === 'adulta' 
-              ? 'Gerando narração... a voz adulta pode levar um pouco mais de tempo.' 
-              : 'Gerando narração...'}
+            {isDramatized ? t('narration.loadingDramatized') : t('narration.loading')}
           </p>
         </div>
       )}
@@ -545,11 +1062,39 @@ const ImageGenerator: React.FC = () => {
                     <p className="text-gray-300 italic text-center">"{narratedText}"</p>
                 </div>
             )}
-           <audio controls src={generatedAudioUrl} className="w-full">
-              Seu navegador não suporta o elemento de áudio.
-           </audio>
+           {dramatizedLines && (
+              <DramatizedVoicesPanel
+                 lines={dramatizedLines}
+                 voices={characterVoices}
+                 onVoicesChange={handleVoicesChange}
+                 disabled={isNarrationBusy}
+              />
+           )}
+           {fromCache.speech && (
+              <CacheBadge onForceRegenerate={() => handleGenerateAudioClick(true)} disabled={isNarrationBusy || !textForNarration.trim()} />
+           )}
+           <CaptionedAudioPlayer
+              src={generatedAudioUrl}
+              captions={narratedText ? createCaptions(narratedText, narrationDuration) : []}
+              fileBaseName={`${bibleReference.replace(/[: ]/g, '_').toLowerCase() || 'narracao'}_legendas`}
+           />
         </div>
       )}
+
+      <hr className="w-full max-w-2xl border-slate-700 my-4" />
+
+      <VideoExportPanel
+        project={project}
+        aspectRatio={aspectRatio}
+        disabled={isPassageRunning && !isVideoExporting}
+        onRunningChange={setIsVideoExporting}
+      />
+
+      <ChapterAudioPanel
+        project={project}
+        disabled={isPassageRunning && !isChapterAudioRunning}
+        onRunningChange={setIsChapterAudioRunning}
+      />
     </div>
   );
 };
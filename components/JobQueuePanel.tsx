@@ -0,0 +1,126 @@
+import React from 'react';
+import {
+  cancelJob,
+  clearFinishedJobs,
+  pauseJob,
+  resumeJob,
+  retryJob,
+  setQueuePaused,
+  type Job,
+  type JobKind,
+  type JobStatus,
+} from '../services/jobQueue';
+import type { MessageKey } from '../services/i18n';
+import Spinner from './Spinner';
+import { useJobQueue } from '../hooks/useJobQueue';
+import { useTranslation } from '../hooks/useTranslation';
+
+const KIND_LABELS: Record<JobKind, MessageKey> = {
+  prompt: 'queue.kind.prompt',
+  image: 'queue.kind.image',
+  audio: 'queue.kind.audio',
+};
+
+const STATUS_LABELS: Record<JobStatus, MessageKey> = {
+  queued: 'queue.status.queued',
+  running: 'queue.status.running',
+  paused: 'queue.status.paused',
+  done: 'queue.status.done',
+  failed: 'queue.status.failed',
+  cancelled: 'queue.status.cancelled',
+};
+
+const STATUS_CLASSES: Record<JobStatus, string> = {
+  queued: 'text-gray-300 bg-slate-700/60 border-slate-600',
+  running: 'text-cyan-300 bg-cyan-900/30 border-cyan-700/60',
+  paused: 'text-amber-300 bg-amber-900/30 border-amber-700/60',
+  done: 'text-emerald-300 bg-emerald-900/30 border-emerald-700/60',
+  failed: 'text-red-300 bg-red-900/30 border-red-700/60',
+  cancelled: 'text-gray-400 bg-slate-800 border-slate-700',
+};
+
+const countStatus = (jobs: Job[], status: JobStatus) => jobs.filter((job) => job.status === status).length;
+
+/** The background generation queue: progress, pause and resume, and per-job controls. */
+const JobQueuePanel: React.FC = () => {
+  const { t } = useTranslation();
+  const { jobs, paused }: { jobs: Job[]; paused: boolean } = useJobQueue();
+
+  if (jobs.length === 0) return null;
+
+  const done = countStatus(jobs, 'done');
+  const active = jobs.filter((job) => job.status !== 'cancelled').length;
+  const linkClass = 'text-xs text-gray-400 hover:text-gray-200 underline disabled:opacity-50';
+
+  return (
+    <div className="w-full max-w-2xl bg-slate-800/60 rounded-xl p-6 shadow-2xl shadow-cyan-500/10 border border-slate-700 flex flex-col gap-4">
+      <h2 className="text-xl font-semibold text-center text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-blue-500">
+        {t('queue.title')}
+      </h2>
+      <div>
+        <p className="text-sm text-gray-400 mb-1 text-center">
+          {t('queue.summary', {
+            queued: countStatus(jobs, 'queued') + countStatus(jobs, 'paused'),
+            running: countStatus(jobs, 'running'),
+            done,
+            failed: countStatus(jobs, 'failed'),
+          })}
+        </p>
+        <div className="w-full h-2 bg-slate-900 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-gradient-to-r from-cyan-500 to-blue-600 transition-all duration-300"
+            style={{ width: `${active > 0 ? (done / active) * 100 : 0}%` }}
+          />
+        </div>
+      </div>
+      {paused && <p className="text-xs text-amber-300 text-center">{t('queue.paused')}</p>}
+      <div className="flex flex-wrap justify-center gap-3">
+        <button
+          onClick={() => setQueuePaused(!paused)}
+          className="text-sm text-gray-200 bg-slate-700 rounded-lg px-3 py-2 hover:bg-slate-600 transition duration-300"
+        >
+          {paused ? t('queue.resume') : t('queue.pause')}
+        </button>
+        <button
+          onClick={() => clearFinishedJobs().catch((err) => console.error("Failed to clear finished jobs:", err))}
+          disabled={!jobs.some((job) => job.status === 'done' || job.status === 'cancelled')}
+          className="text-sm text-gray-200 bg-slate-700 rounded-lg px-3 py-2 hover:bg-slate-600 transition duration-300 disabled:opacity-50"
+        >
+          {t('queue.clear')}
+        </button>
+      </div>
+      <ul className="flex flex-col gap-2 max-h-72 overflow-y-auto">
+        {jobs.map((job) => (
+          <li key={job.id} className="flex flex-col gap-1 bg-slate-900/50 border border-slate-700 rounded-lg px-3 py-2">
+            <div className="flex items-center gap-3 text-sm">
+              <span className="flex-grow text-gray-200 truncate">
+                {job.reference} · <span className="text-gray-400">{t(KIND_LABELS[job.kind])}</span>
+              </span>
+              {job.status === 'running' && <Spinner />}
+              <span className={`text-xs border rounded-full px-2 py-0.5 ${STATUS_CLASSES[job.status]}`}>
+                {t(STATUS_LABELS[job.status])}
+              </span>
+              {job.status === 'queued' && (
+                <button onClick={() => pauseJob(job.id)} className={linkClass}>{t('queue.pauseJob')}</button>
+              )}
+              {job.status === 'paused' && (
+                <button onClick={() => resumeJob(job.id)} className={linkClass}>{t('queue.resumeJob')}</button>
+              )}
+              {(job.status === 'failed' || job.status === 'cancelled') && (
+                <button onClick={() => retryJob(job.id)} className={linkClass}>{t('common.retry')}</button>
+              )}
+              {(job.status === 'queued' || job.status === 'running' || job.status === 'paused') && (
+                <button onClick={() => cancelJob(job.id)} className="text-xs text-red-300 hover:text-red-200 underline">
+                  {t('queue.cancel')}
+                </button>
+              )}
+            </div>
+            {job.error && <p className="text-xs text-red-300">{job.error}</p>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default JobQueuePanel;
@@ -0,0 +1,274 @@
+import React, { useState, useRef } from 'react';
+import { parsePassage, formatBibleRef, toBookLanguage } from '../services/bibleReference';
+import { runPassage, type PassageFrame } from '../services/passageService';
+import type { AspectRatio } from '../services/providers';
+import type { StylePreset } from '../services/stylePresets';
+import { downloadDataUrl, imageExtension } from '../services/download';
+import Spinner from './Spinner';
+import { DownloadIcon } from './icons/DownloadIcon';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface PassageStoryboardProps {
+  aspectRatio: AspectRatio;
+  characterDescriptions: Record<string, string> | null;
+  lockedCharacters: string[];
+  characterPortraits: Record<string, string>;
+  style: StylePreset;
+  onCharacterDescriptionsChange: (characterDescriptions: Record<string, string>) => void;
+  disabled: boolean;
+  onRunningChange: (isRunning: boolean) => void;
+  /** Called with every verse of a new passage before generation starts. */
+  onPassageStart: (references: string[]) => void;
+  /** Called when a frame is generated, with the characters as they stand after it. */
+  onFrameDone: (frame: PassageFrame, characterDescriptions: Record<string, string>) => void;
+  /** Queues the passage as background jobs; resolves to the number of jobs queued. */
+  onQueue: (references: string[], withNarration: boolean) => Promise<number>;
+}
+
+const PassageStoryboard: React.FC<PassageStoryboardProps> = ({
+  aspectRatio,
+  characterDescriptions,
+  lockedCharacters,
+  characterPortraits,
+  style,
+  onCharacterDescriptionsChange,
+  disabled,
+  onRunningChange,
+  onPassageStart,
+  onFrameDone,
+  onQueue,
+}) => {
+  const { t, locale } = useTranslation();
+  const [passageInput, setPassageInput] = useState('');
+  const [frames, setFrames] = useState<PassageFrame[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [withNarration, setWithNarration] = useState(false);
+  const [queuedCount, setQueuedCount] = useState<number | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const parsedPassage = passageInput.trim() ? parsePassage(passageInput, toBookLanguage(locale)) : null;
+  const passageReferences = parsedPassage && !('error' in parsedPassage)
+    ? parsedPassage.refs.map((ref) => formatBibleRef(ref, parsedPassage.language))
+    : [];
+
+  const completedCount = frames.filter((frame) => frame.status === 'done').length;
+  const failedCount = frames.filter((frame) => frame.status === 'error').length;
+
+  const updateFrame = (index: number, frame: PassageFrame) => {
+    setFrames((prev) => prev.map((existing, i) => (i === index ? frame : existing)));
+  };
+
+  const run = async (references: string[], indexes?: number[]) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsRunning(true);
+    onRunningChange(true);
+    let latestCharacters = characterDescriptions ?? {};
+    // When retrying or resuming, the last finished frame before the first one to generate keeps continuity.
+    const firstIndex = indexes?.[0] ?? 0;
+    const previousFrame = frames.slice(0, firstIndex).reverse().find((frame) => frame.status === 'done')?.image ?? null;
+    try {
+      await runPassage(references, {
+        aspectRatio,
+        characterDescriptions: latestCharacters,
+        lockedCharacters,
+        characterPortraits,
+        previousFrame,
+        style,
+        indexes,
+        onFrameChange: (index, frame) => {
+          updateFrame(index, frame);
+          if (frame.status === 'done') onFrameDone(frame, latestCharacters);
+        },
+        onCharactersChange: (chars) => {
+          latestCharacters = chars;
+          onCharacterDescriptionsChange(chars);
+        },
+        signal: controller.signal,
+      });
+    } finally {
+      abortControllerRef.current = null;
+      setIsRunning(false);
+      onRunningChange(false);
+    }
+  };
+
+  const handleGeneratePassage = () => {
+    if (passageReferences.length === 0) return;
+    setFrames(passageReferences.map((reference) => ({ reference, status: 'pending' })));
+    onPassageStart(passageReferences);
+    run(passageReferences);
+  };
+
+  const handleQueue = async () => {
+    if (passageReferences.length === 0) return;
+    setQueuedCount(await onQueue(passageReferences, withNarration));
+  };
+
+  const handleRetryFrame = (index: number) => {
+    run(frames.map((frame) => frame.reference), [index]);
+  };
+
+  // Picks up frames that failed or were never reached because the run was stopped.
+  const handleResume = () => {
+    const remaining = frames.flatMap((frame, index) => (frame.status === 'done' ? [] : [index]));
+    run(frames.map((frame) => frame.reference), remaining);
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleDownload = (frame: PassageFrame) => {
+    if (!frame.image) return;
+    downloadDataUrl(frame.image, `${frame.reference.replace(/[: ]/g, '_').toLowerCase()}_scene.${imageExtension(frame.image)}`);
+  };
+
+  return (
+    <div className="w-full max-w-2xl bg-slate-800/60 rounded-xl p-6 shadow-2xl shadow-cyan-500/10 border border-slate-700">
+      <h2 className="text-xl font-semibold text-center text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-blue-500 mb-2">
+        {t('passage.title')}
+      </h2>
+      <p className="text-center text-gray-400 text-sm mb-4">
+        {t('passage.description')}
+      </p>
+      <div className="flex flex-col gap-2">
+        <label htmlFor="passage-ref" className="block text-sm font-medium text-gray-400">{t('passage.label')}</label>
+        <input
+          id="passage-ref"
+          type="text"
+          value={passageInput}
+          onChange={(e) => setPassageInput(e.target.value)}
+          placeholder={t('passage.placeholder')}
+          className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-3 text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:outline-none transition duration-300 disabled:bg-slate-800 disabled:cursor-not-allowed"
+          disabled={disabled || isRunning}
+        />
+        {parsedPassage && (
+          'error' in parsedPassage ? (
+            <p className="text-xs text-red-400">{parsedPassage.error}</p>
+          ) : (
+            <p className="text-xs text-gray-400">
+              {t('passage.summary', {
+                count: passageReferences.length,
+                first: passageReferences[0],
+                last: passageReferences[passageReferences.length - 1],
+              })}
+            </p>
+          )
+        )}
+        {isRunning ? (
+          <button
+            onClick={handleStop}
+            className="bg-red-600/80 text-white font-bold py-3 px-6 rounded-lg hover:bg-red-700 transition duration-300 flex items-center justify-center w-full"
+          >
+            {t('passage.stop')}
+          </button>
+        ) : (
+          <button
+            onClick={handleGeneratePassage}
+            disabled={disabled || passageReferences.length === 0}
+            className="bg-gradient-to-r from-cyan-500 to-blue-600 text-white font-bold py-3 px-6 rounded-lg hover:from-cyan-600 hover:to-blue-700 transition duration-300 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center w-full"
+          >
+            {t('passage.generate')}
+          </button>
+        )}
+        {!isRunning && (
+          <div className="flex flex-wrap items-center justify-center gap-x-4 gap-y-2">
+            <button
+              onClick={handleQueue}
+              disabled={disabled || passageReferences.length === 0}
+              title={t('passage.backgroundHint')}
+              className="text-sm text-gray-200 bg-slate-700 rounded-lg px-4 py-2 hover:bg-slate-600 transition duration-300 disabled:opacity-50"
+            >
+              {t('passage.background')}
+            </button>
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={withNarration}
+                onChange={(e) => setWithNarration(e.target.checked)}
+                disabled={disabled}
+                className="accent-cyan-500"
+              />
+              {t('passage.withNarration')}
+            </label>
+          </div>
+        )}
+        {queuedCount !== null && <p className="text-xs text-gray-400 text-center">{t('passage.queued', { count: queuedCount })}</p>}
+      </div>
+
+      {frames.length > 0 && (
+        <div className="mt-6 flex flex-col gap-4">
+          <div>
+            <div className="flex justify-between text-sm text-gray-400 mb-1">
+              <span>{t('passage.progress', { done: completedCount, count: frames.length })}</span>
+              {failedCount > 0 && <span className="text-red-400">{t('passage.failed', { count: failedCount })}</span>}
+            </div>
+            <div className="w-full h-2 bg-slate-900 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-gradient-to-r from-cyan-500 to-blue-600 transition-all duration-300"
+                style={{ width: `${(completedCount / frames.length) * 100}%` }}
+              />
+            </div>
+          </div>
+          {completedCount < frames.length && !isRunning && (
+            <button
+              onClick={handleResume}
+              disabled={disabled}
+              className="self-center text-sm text-amber-300 border border-amber-600/60 rounded-lg px-4 py-2 hover:bg-amber-900/30 transition duration-300 disabled:opacity-50"
+            >
+              {t('passage.resume', { count: frames.length - completedCount })}
+            </button>
+          )}
+          <div className={`grid gap-4 ${aspectRatio === '16:9' || aspectRatio === '4:3' ? 'grid-cols-1 md:grid-cols-2' : 'grid-cols-2 md:grid-cols-3'}`}>
+            {frames.map((frame, index) => (
+              <div key={`${frame.reference}-${index}`} className="flex flex-col gap-2 bg-slate-900/50 border border-slate-700 rounded-lg p-2">
+                <p className="text-sm font-medium text-gray-300">{frame.reference}</p>
+                {frame.originalPrompt && (
+                  <p className="text-xs text-amber-300" title={t('passage.softenedDetails', { original: frame.originalPrompt, rewritten: frame.scenePrompt ?? '' })}>
+                    {t('passage.softened')}
+                  </p>
+                )}
+                <div
+                  style={{ aspectRatio: aspectRatio.replace(':', ' / ') }}
+                  className="w-full bg-slate-800 rounded-md flex items-center justify-center overflow-hidden relative group"
+                >
+                  {frame.status === 'done' && frame.image && (
+                    <>
+                      <img src={frame.image} alt={t('common.sceneAlt', { reference: frame.reference })} className="w-full h-full object-cover" />
+                      <div className="absolute inset-0 bg-black/50 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity duration-300">
+                        <button
+                          onClick={() => handleDownload(frame)}
+                          className="bg-white/20 backdrop-blur-sm text-white p-2 rounded-lg hover:bg-white/30 transition duration-300"
+                          title={t('common.downloadImage')}
+                        >
+                          <DownloadIcon />
+                        </button>
+                      </div>
+                    </>
+                  )}
+                  {frame.status === 'running' && <Spinner />}
+                  {frame.status === 'pending' && <span className="text-xs text-gray-500">{t('passage.pending')}</span>}
+                  {frame.status === 'error' && (
+                    <div className="flex flex-col items-center gap-2 p-2 text-center">
+                      <p className="text-xs text-red-300">{frame.error}</p>
+                      <button
+                        onClick={() => handleRetryFrame(index)}
+                        disabled={disabled || isRunning}
+                        className="text-xs text-white bg-slate-600 rounded-md px-3 py-1 hover:bg-slate-500 transition duration-300 disabled:opacity-50"
+                      >
+                        {t('common.retry')}
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PassageStoryboard;
@@ -0,0 +1,164 @@
+import React, { useState, useEffect } from 'react';
+import type { Project, ProjectMeta } from '../services/projectStore';
+import { useTranslation } from '../hooks/useTranslation';
+import { createSequencePackage, packageFileName } from '../services/sequencePackage';
+import { downloadBlob } from '../services/download';
+import { DownloadIcon } from './icons/DownloadIcon';
+import Spinner from './Spinner';
+
+interface ProjectPanelProps {
+  project: Project | null;
+  projects: ProjectMeta[];
+  saveError: string | null;
+  onOpen: (id: string) => void;
+  onNew: (name: string) => void;
+  onRename: (name: string) => void;
+  onDelete: (id: string) => void;
+  disabled: boolean;
+}
+
+const formatDate = (timestamp: number, locale: string) =>
+  new Date(timestamp).toLocaleString(locale, { dateStyle: 'short', timeStyle: 'short' });
+
+const ProjectPanel: React.FC<ProjectPanelProps> = ({
+  project,
+  projects,
+  saveError,
+  onOpen,
+  onNew,
+  onRename,
+  onDelete,
+  disabled,
+}) => {
+  const { t, locale } = useTranslation();
+  const [name, setName] = useState(project?.name ?? '');
+  const [isListOpen, setIsListOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setName(project?.name ?? '');
+  }, [project?.id, project?.name]);
+
+  const handleNew = () => {
+    const projectName = window.prompt(t('project.newPrompt'), t('project.defaultName'));
+    if (projectName?.trim()) {
+      onNew(projectName.trim());
+      setIsListOpen(false);
+    }
+  };
+
+  const handleExport = async () => {
+    if (!project) return;
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      const zip = await createSequencePackage(project);
+      downloadBlob(zip, packageFileName(project));
+    } catch (err: any) {
+      console.error("Error exporting project package:", err);
+      setExportError(err.message || t('project.exportError'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleDelete = (meta: ProjectMeta) => {
+    if (window.confirm(t('project.confirmDelete', { name: meta.name }))) {
+      onDelete(meta.id);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-2xl bg-slate-800/60 rounded-xl p-4 shadow-2xl shadow-cyan-500/10 border border-slate-700 flex flex-col gap-3">
+      <div className="flex items-center gap-3">
+        <div className="flex-grow">
+          {project ? (
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onBlur={() => name.trim() !== project.name && onRename(name)}
+              aria-label={t('project.nameLabel')}
+              className="w-full bg-transparent border-b border-slate-600 text-lg font-semibold text-gray-200 focus:border-cyan-500 focus:outline-none"
+              disabled={disabled}
+            />
+          ) : (
+            <p className="text-gray-400 text-sm">{t('project.none')}</p>
+          )}
+          {project && (
+            <p className="text-xs text-gray-500 mt-1">
+              {t('project.verseCount', { count: project.verses.length })} · {t('project.savedAt', { date: formatDate(project.updatedAt, locale) })}
+            </p>
+          )}
+        </div>
+        <button
+          onClick={() => setIsListOpen(!isListOpen)}
+          disabled={disabled}
+          className="text-sm text-gray-200 bg-slate-700 rounded-lg px-3 py-2 hover:bg-slate-600 transition duration-300 disabled:opacity-50"
+        >
+          {t('project.list', { count: projects.length })}
+        </button>
+        <button
+          onClick={handleNew}
+          disabled={disabled}
+          className="text-sm text-white bg-gradient-to-r from-cyan-500 to-blue-600 rounded-lg px-3 py-2 hover:from-cyan-600 hover:to-blue-700 transition duration-300 disabled:opacity-50"
+        >
+          {t('project.new')}
+        </button>
+      </div>
+
+      {saveError && <p className="text-sm text-red-300">{saveError}</p>}
+
+      {project && project.verses.length > 0 && (
+        <button
+          onClick={handleExport}
+          disabled={disabled || isExporting}
+          title={t('project.exportTitle')}
+          className="self-start text-sm text-gray-200 bg-slate-700 rounded-lg px-3 py-2 hover:bg-slate-600 transition duration-300 disabled:opacity-50 flex items-center gap-2"
+        >
+          {isExporting ? <Spinner /> : <DownloadIcon />}
+          {t('project.exportPackage')}
+        </button>
+      )}
+      {exportError && <p className="text-sm text-red-300">{exportError}</p>}
+
+      {isListOpen && (
+        <ul className="flex flex-col gap-2 max-h-72 overflow-y-auto">
+          {projects.length === 0 && <li className="text-sm text-gray-500">{t('project.empty')}</li>}
+          {projects.map((meta) => (
+            <li
+              key={meta.id}
+              className={`flex items-center gap-3 bg-slate-900/50 border rounded-lg p-2 ${meta.id === project?.id ? 'border-cyan-500' : 'border-slate-700'}`}
+            >
+              <div className="w-10 h-10 rounded-md bg-slate-800 overflow-hidden flex-shrink-0">
+                {meta.thumbnail && <img src={meta.thumbnail} alt="" className="w-full h-full object-cover" />}
+              </div>
+              <button
+                onClick={() => {
+                  onOpen(meta.id);
+                  setIsListOpen(false);
+                }}
+                disabled={disabled}
+                className="flex-grow text-left disabled:opacity-50"
+              >
+                <p className="text-sm font-medium text-gray-200">{meta.name}</p>
+                <p className="text-xs text-gray-500">
+                  {t('project.verseCount', { count: meta.verseCount })} · {formatDate(meta.updatedAt, locale)}
+                </p>
+              </button>
+              <button
+                onClick={() => handleDelete(meta)}
+                disabled={disabled}
+                className="text-xs text-red-300 hover:text-red-200 px-2 disabled:opacity-50"
+              >
+                {t('common.delete')}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ProjectPanel;
@@ -0,0 +1,163 @@
+import React, { useState, useEffect } from 'react';
+import { diffWords, imagesByKey, type PromptSource, type PromptVersion } from '../services/promptHistory';
+import type { MessageKey } from '../services/i18n';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface PromptHistoryPanelProps {
+  /** Oldest first. */
+  versions: PromptVersion[];
+  /** The verse's current and earlier images, which versions refer to by key. */
+  images: (string | null | undefined)[];
+  /** Puts an earlier prompt back in the prompt field. */
+  onRestore: (prompt: string) => void;
+  disabled: boolean;
+}
+
+const SOURCE_LABELS: Record<PromptSource, MessageKey> = {
+  auto: 'promptHistory.source.auto',
+  edited: 'promptHistory.source.edited',
+  restored: 'promptHistory.source.restored',
+  generated: 'promptHistory.source.generated',
+  'safety-rewrite': 'promptHistory.source.safetyRewrite',
+};
+
+const SOURCE_CLASSES: Record<PromptSource, string> = {
+  auto: 'text-cyan-300 bg-cyan-900/30 border-cyan-700/60',
+  edited: 'text-gray-200 bg-slate-700/60 border-slate-600',
+  restored: 'text-violet-300 bg-violet-900/30 border-violet-700/60',
+  generated: 'text-blue-300 bg-blue-900/30 border-blue-700/60',
+  'safety-rewrite': 'text-amber-300 bg-amber-900/30 border-amber-700/60',
+};
+
+const DIFF_CLASSES = {
+  same: 'text-gray-300',
+  added: 'text-emerald-300 bg-emerald-900/40',
+  removed: 'text-red-300 bg-red-900/40 line-through',
+};
+
+/** A verse's prompt versions, with the image each produced and a word diff between any two. */
+const PromptHistoryPanel: React.FC<PromptHistoryPanelProps> = ({ versions, images, onRestore, disabled }) => {
+  const { t, locale } = useTranslation();
+  const [isOpen, setIsOpen] = useState(false);
+  // Indexes into `versions` of the two versions compared.
+  const [beforeIndex, setBeforeIndex] = useState(Math.max(versions.length - 2, 0));
+  const [afterIndex, setAfterIndex] = useState(versions.length - 1);
+
+  // A new version moves the comparison to the two latest.
+  useEffect(() => {
+    setBeforeIndex(Math.max(versions.length - 2, 0));
+    setAfterIndex(versions.length - 1);
+  }, [versions.length, versions[0]?.id]);
+
+  if (versions.length === 0) return null;
+
+  const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString(locale, { dateStyle: 'short', timeStyle: 'short' });
+  const versionLabel = (index: number) =>
+    `${t('promptHistory.version', { number: index + 1 })} · ${t(SOURCE_LABELS[versions[index].source])}`;
+  const before = versions[Math.min(beforeIndex, versions.length - 1)];
+  const after = versions[Math.min(afterIndex, versions.length - 1)];
+  const diff = before && after ? diffWords(before.prompt, after.prompt) : [];
+  const imageByKey = imagesByKey(images);
+  const selectClass = 'bg-slate-900 border border-slate-600 rounded-lg px-2 py-1 text-xs text-gray-200 disabled:opacity-50';
+
+  const versionImage = (version: PromptVersion) => {
+    // An image no longer among the verse's images shows as missing.
+    const image = version.imageKey ? imageByKey.get(version.imageKey) : undefined;
+    return (
+      <div className="w-24 h-24 flex-shrink-0 rounded-md bg-slate-900 border border-slate-700 overflow-hidden flex items-center justify-center">
+        {image ? (
+          <img src={image} alt={t('promptHistory.imageAlt', { number: versions.indexOf(version) + 1 })} className="w-full h-full object-cover" />
+        ) : (
+          <span className="text-[10px] text-gray-500 text-center px-1">{t('promptHistory.noImage')}</span>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="self-start text-xs text-gray-400 hover:text-gray-200 underline"
+      >
+        {isOpen ? t('promptHistory.hide') : t('promptHistory.show', { count: versions.length })}
+      </button>
+
+      {isOpen && (
+        <>
+          {versions.length > 1 && (
+            <div className="flex flex-col gap-2 bg-slate-900/50 border border-slate-700 rounded-lg p-3">
+              <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+                <span>{t('promptHistory.compare')}</span>
+                <select
+                  value={beforeIndex}
+                  onChange={(e) => setBeforeIndex(Number(e.target.value))}
+                  aria-label={t('promptHistory.before')}
+                  disabled={disabled}
+                  className={selectClass}
+                >
+                  {versions.map((version, index) => (
+                    <option key={version.id} value={index}>{versionLabel(index)}</option>
+                  ))}
+                </select>
+                <span>{t('promptHistory.with')}</span>
+                <select
+                  value={afterIndex}
+                  onChange={(e) => setAfterIndex(Number(e.target.value))}
+                  aria-label={t('promptHistory.after')}
+                  disabled={disabled}
+                  className={selectClass}
+                >
+                  {versions.map((version, index) => (
+                    <option key={version.id} value={index}>{versionLabel(index)}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex gap-2">
+                {versionImage(before)}
+                {versionImage(after)}
+              </div>
+              {before.prompt === after.prompt ? (
+                <p className="text-xs text-gray-500">{t('promptHistory.identical')}</p>
+              ) : (
+                <>
+                  <p className="text-sm leading-relaxed whitespace-pre-wrap">
+                    {diff.map((part, index) => (
+                      <span key={index} className={DIFF_CLASSES[part.type]}>{part.text}</span>
+                    ))}
+                  </p>
+                  <p className="text-[10px] text-gray-500">{t('promptHistory.legend')}</p>
+                </>
+              )}
+            </div>
+          )}
+
+          <ul className="flex flex-col gap-2 max-h-72 overflow-y-auto">
+            {versions.map((version, index) => ({ version, index })).reverse().map(({ version, index }) => (
+              <li key={version.id} className="flex gap-3 bg-slate-900/50 border border-slate-700 rounded-lg p-2">
+                {versionImage(version)}
+                <div className="flex-grow flex flex-col gap-1 min-w-0">
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+                    <span className="font-medium text-gray-300">{t('promptHistory.version', { number: index + 1 })}</span>
+                    <span className={`border rounded-full px-2 py-0.5 ${SOURCE_CLASSES[version.source]}`}>{t(SOURCE_LABELS[version.source])}</span>
+                    <span>{formatTime(version.createdAt)}</span>
+                  </div>
+                  <p className="text-xs text-gray-300 line-clamp-3" title={version.prompt}>{version.prompt}</p>
+                  <button
+                    onClick={() => onRestore(version.prompt)}
+                    disabled={disabled}
+                    className="self-start text-xs text-gray-400 hover:text-gray-200 underline disabled:opacity-50"
+                  >
+                    {t('promptHistory.use')}
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PromptHistoryPanel;
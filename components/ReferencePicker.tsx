@@ -0,0 +1,74 @@
+import React from 'react';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface ReferencePickerProps {
+  portraits: Record<string, string>;
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  previousFrame: string | null;
+  usePreviousFrame: boolean;
+  onUsePreviousFrameChange: (usePreviousFrame: boolean) => void;
+  disabled: boolean;
+}
+
+const ReferencePicker: React.FC<ReferencePickerProps> = ({
+  portraits,
+  selected,
+  onChange,
+  previousFrame,
+  usePreviousFrame,
+  onUsePreviousFrameChange,
+  disabled,
+}) => {
+  const { t } = useTranslation();
+  const names = Object.keys(portraits);
+  if (names.length === 0 && !previousFrame) return null;
+
+  const toggle = (name: string) => {
+    onChange(selected.includes(name) ? selected.filter((selectedName) => selectedName !== name) : [...selected, name]);
+  };
+
+  const tileClass = (isActive: boolean) =>
+    `w-14 aspect-[9/16] rounded-md overflow-hidden border-2 transition-all disabled:cursor-not-allowed ${isActive ? 'border-cyan-500 ring-2 ring-cyan-500/50' : 'border-slate-600 opacity-50'}`;
+
+  return (
+    <div className="mb-4">
+      <p className="block text-sm font-medium text-gray-400 mb-2 text-center">{t('references.title')}</p>
+      <div className="flex flex-wrap justify-center gap-3">
+        {names.map((name) => (
+          <div key={name} className="flex flex-col items-center gap-1">
+            <button
+              onClick={() => toggle(name)}
+              disabled={disabled}
+              aria-pressed={selected.includes(name)}
+              title={name}
+              className={tileClass(selected.includes(name))}
+            >
+              <img src={portraits[name]} alt={t('common.portraitAlt', { name })} className="w-full h-full object-cover" />
+            </button>
+            <span className="text-[10px] text-gray-400 max-w-14 truncate">{name}</span>
+          </div>
+        ))}
+        {previousFrame && (
+          <div className="flex flex-col items-center gap-1">
+            <button
+              onClick={() => onUsePreviousFrameChange(!usePreviousFrame)}
+              disabled={disabled}
+              aria-pressed={usePreviousFrame}
+              title={t('references.previousScene')}
+              className={tileClass(usePreviousFrame)}
+            >
+              <img src={previousFrame} alt={t('references.previousScene')} className="w-full h-full object-cover" />
+            </button>
+            <span className="text-[10px] text-gray-400">{t('references.previousScene')}</span>
+          </div>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 mt-2 text-center">
+        {t('references.hint')}
+      </p>
+    </div>
+  );
+};
+
+export default ReferencePicker;
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import {
+  DEFAULT_RISKY_TERMS,
+  findRiskyTerms,
+  getRiskyTerms,
+  resetRiskyTerms,
+  setRiskyTerms,
+  type PromptRewrite,
+} from '../services/safePrompt';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface SafePromptPanelProps {
+  /** The prompt in the editor, checked live for risky terms. */
+  prompt: string;
+  /** The last automatic rewrite, shown next to the original for review. */
+  rewrite: PromptRewrite | null;
+  onRestoreOriginal: (original: string) => void;
+  onDismiss: () => void;
+  disabled: boolean;
+}
+
+const SafePromptPanel: React.FC<SafePromptPanelProps> = ({ prompt, rewrite, onRestoreOriginal, onDismiss, disabled }) => {
+  const { t } = useTranslation();
+  const [terms, setTerms] = useState<string[]>(getRiskyTerms);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+
+  const flaggedTerms = rewrite ? [] : findRiskyTerms(prompt, terms);
+
+  const handleEdit = () => {
+    setDraft(terms.join(', '));
+    setIsEditing(!isEditing);
+  };
+
+  const handleSave = () => {
+    setTerms(setRiskyTerms(draft.split(/[,\n]/)));
+    setIsEditing(false);
+  };
+
+  const handleReset = () => {
+    setTerms(resetRiskyTerms());
+    setDraft(DEFAULT_RISKY_TERMS.join(', '));
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      {rewrite && (
+        <div className="flex flex-col gap-3 bg-amber-900/20 border border-amber-700/60 rounded-lg p-3">
+          <p className="text-sm text-amber-200">
+            {rewrite.wasBlocked ? t('safePrompt.blocked') : t('safePrompt.flagged')}
+            {rewrite.flaggedTerms.length > 0 && ` ${t('safePrompt.termsFound', { terms: rewrite.flaggedTerms.join(', ') })}`}
+          </p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+            <div className="flex flex-col gap-1">
+              <span className="text-xs font-medium text-gray-400">{t('safePrompt.original')}</span>
+              <p className="text-gray-400 bg-slate-900/60 rounded-md p-2 line-through decoration-slate-600">{rewrite.original}</p>
+            </div>
+            <div className="flex flex-col gap-1">
+              <span className="text-xs font-medium text-gray-400">
+                {rewrite.attempts > 1 ? t('safePrompt.rewrittenAttempts', { count: rewrite.attempts }) : t('safePrompt.rewritten')}
+              </span>
+              <p className="text-gray-200 bg-slate-900/60 rounded-md p-2">{rewrite.rewritten}</p>
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => onRestoreOriginal(rewrite.original)}
+              disabled={disabled}
+              className="text-xs text-gray-200 bg-slate-700 rounded-md px-3 py-1 hover:bg-slate-600 transition duration-300 disabled:opacity-50"
+            >
+              {t('safePrompt.restoreOriginal')}
+            </button>
+            <button
+              onClick={onDismiss}
+              disabled={disabled}
+              className="text-xs text-white bg-amber-600/80 rounded-md px-3 py-1 hover:bg-amber-600 transition duration-300 disabled:opacity-50"
+            >
+              {t('safePrompt.keepRewritten')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-start justify-between gap-3 text-xs">
+        <p className="text-amber-300">
+          {flaggedTerms.length > 0 && t('safePrompt.liveWarning', { terms: flaggedTerms.join(', ') })}
+        </p>
+        <button
+          onClick={handleEdit}
+          disabled={disabled}
+          className="text-gray-400 hover:text-gray-200 whitespace-nowrap disabled:opacity-50"
+        >
+          {t('safePrompt.editTerms', { count: terms.length })}
+        </button>
+      </div>
+
+      {isEditing && (
+        <div className="flex flex-col gap-2 bg-slate-900/50 border border-slate-700 rounded-lg p-3">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder={t('safePrompt.termsPlaceholder')}
+            className="w-full bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-sm text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:outline-none resize-none h-20"
+          />
+          <div className="flex justify-end gap-2">
+            <button onClick={handleReset} className="text-xs text-gray-400 hover:text-gray-200 px-2">
+              {t('safePrompt.resetTerms')}
+            </button>
+            <button
+              onClick={handleSave}
+              className="text-xs text-white bg-gradient-to-r from-cyan-500 to-blue-600 rounded-md px-3 py-1 hover:from-cyan-600 hover:to-blue-700 transition duration-300"
+            >
+              {t('safePrompt.saveTerms')}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SafePromptPanel;
@@ -0,0 +1,318 @@
+import React, { useState, useEffect } from 'react';
+import type { Project, ProjectVerse } from '../services/projectStore';
+import type { PromptSource } from '../services/promptHistory';
+import { formatBibleRef, parseBibleRef, toBookLanguage } from '../services/bibleReference';
+import type { Job } from '../services/jobQueue';
+import Spinner from './Spinner';
+import PromptHistoryPanel from './PromptHistoryPanel';
+import { useJobQueue } from '../hooks/useJobQueue';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface StoryboardTimelineProps {
+  project: Project | null;
+  /** The verse shown in the editor, marked in the timeline. */
+  currentReference: string;
+  onOpen: (verse: ProjectVerse) => void;
+  /** Saves the frame's prompt; `source` says whether it was typed or restored from the history. */
+  onSavePrompt: (verse: ProjectVerse, prompt: string, source: PromptSource) => void;
+  /** Queues a new image or narration for the frame. */
+  onRegenerate: (verse: ProjectVerse, kind: 'image' | 'audio') => void;
+  onMove: (verse: ProjectVerse, toIndex: number) => void;
+  onDelete: (verse: ProjectVerse) => void;
+  /** Adds an empty verse at `index`; resolves to the updated project. */
+  onInsert: (reference: string, index: number) => Promise<Project | undefined> | undefined;
+  /** The editor is generating for `currentReference`: that frame can't be changed, and no frame can be opened over it. */
+  isEditorBusy: boolean;
+  /** Locks the whole timeline, e.g. while a passage run adds verses. */
+  disabled: boolean;
+}
+
+const isActive = (job: Job) => job.status === 'queued' || job.status === 'running' || job.status === 'paused';
+
+/** Every verse of the project as a frame: select one to edit its prompt, regenerate it, move or delete it. */
+const StoryboardTimeline: React.FC<StoryboardTimelineProps> = ({
+  project,
+  currentReference,
+  onOpen,
+  onSavePrompt,
+  onRegenerate,
+  onMove,
+  onDelete,
+  onInsert,
+  isEditorBusy,
+  disabled,
+}) => {
+  const { t, locale } = useTranslation();
+  const { jobs }: { jobs: Job[] } = useJobQueue();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [promptDraft, setPromptDraft] = useState('');
+  const [draftSource, setDraftSource] = useState<PromptSource>('edited');
+  // Where a new verse goes, while its reference is being typed.
+  const [insertAt, setInsertAt] = useState<number | null>(null);
+  const [insertReference, setInsertReference] = useState('');
+  const [insertError, setInsertError] = useState<string | null>(null);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+
+  const verses = project?.verses ?? [];
+  const selectedIndex = verses.findIndex((verse) => verse.id === selectedId);
+  const selected = selectedIndex === -1 ? null : verses[selectedIndex];
+
+  // A saved prompt, or one changed elsewhere (the editor, a background job), replaces the draft.
+  useEffect(() => {
+    setPromptDraft(selected?.scenePrompt ?? '');
+  }, [selected?.id, selected?.scenePrompt]);
+
+  useEffect(() => {
+    setSelectedId(null);
+    setInsertAt(null);
+  }, [project?.id]);
+
+  if (!project || verses.length === 0) return null;
+
+  const activeJobs = jobs.filter((job) => job.projectId === project.id && isActive(job));
+  const hasActiveJob = (verse: ProjectVerse, kinds: Job['kind'][]) =>
+    activeJobs.some((job) => job.verseId === verse.id && kinds.includes(job.kind));
+
+  const openInsert = (index: number) => {
+    setInsertAt(index);
+    setInsertReference('');
+    setInsertError(null);
+  };
+
+  const handleInsert = async () => {
+    if (insertAt === null) return;
+    const parsed = parseBibleRef(insertReference, toBookLanguage(locale));
+    if ('error' in parsed) {
+      setInsertError(parsed.error);
+      return;
+    }
+    const reference = formatBibleRef(parsed.ref, parsed.language);
+    if (verses.some((verse) => verse.reference === reference)) {
+      setInsertError(t('timeline.duplicate', { reference }));
+      return;
+    }
+    const updated = await onInsert(reference, insertAt);
+    setInsertAt(null);
+    const inserted = updated?.verses.find((verse) => verse.reference === reference);
+    if (inserted) setSelectedId(inserted.id);
+  };
+
+  const handleDelete = (verse: ProjectVerse) => {
+    if (window.confirm(t('timeline.confirmDelete', { reference: verse.reference }))) {
+      onDelete(verse);
+      setSelectedId(null);
+    }
+  };
+
+  const handleDrop = (toIndex: number) => {
+    const dragged = verses.find((verse) => verse.id === draggedId);
+    setDraggedId(null);
+    if (dragged && !disabled) onMove(dragged, toIndex);
+  };
+
+  const insertButton = (index: number) => (
+    <button
+      onClick={() => openInsert(index)}
+      disabled={disabled}
+      title={t('timeline.insertHere')}
+      aria-label={t('timeline.insertHere')}
+      className={`flex-shrink-0 self-stretch w-4 rounded text-xs text-gray-500 hover:text-cyan-300 hover:bg-slate-700/60 transition duration-300 disabled:opacity-30 ${insertAt === index ? 'text-cyan-300 bg-slate-700/60' : ''}`}
+    >
+      +
+    </button>
+  );
+
+  const buttonClass = 'text-sm text-gray-200 bg-slate-700 rounded-lg px-3 py-2 hover:bg-slate-600 transition duration-300 disabled:opacity-50';
+  const selectedAspectRatio = (selected?.aspectRatio ?? project.aspectRatio).replace(':', ' / ');
+  const isImageQueued = selected ? hasActiveJob(selected, ['prompt', 'image']) : false;
+  const isAudioQueued = selected ? hasActiveJob(selected, ['audio']) : false;
+  const isSelectedLocked = disabled || (isEditorBusy && selected?.reference === currentReference);
+
+  return (
+    <div className="w-full max-w-2xl bg-slate-800/60 rounded-xl p-6 shadow-2xl shadow-cyan-500/10 border border-slate-700 flex flex-col gap-4">
+      <div className="text-center">
+        <h2 className="text-xl font-semibold text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-blue-500">
+          {t('timeline.title')}
+        </h2>
+        <p className="text-sm text-gray-400">{t('timeline.description')}</p>
+      </div>
+
+      <div className="flex items-start overflow-x-auto pb-2">
+        {verses.map((verse, index) => (
+          <React.Fragment key={verse.id}>
+            {insertButton(index)}
+            <button
+              onClick={() => setSelectedId(verse.id === selectedId ? null : verse.id)}
+              draggable={!disabled}
+              onDragStart={() => setDraggedId(verse.id)}
+              onDragEnd={() => setDraggedId(null)}
+              onDragOver={(e) => draggedId && e.preventDefault()}
+              onDrop={() => handleDrop(index)}
+              title={verse.reference}
+              className={`flex-shrink-0 w-20 mx-1 flex flex-col items-center gap-1 ${draggedId === verse.id ? 'opacity-40' : ''}`}
+            >
+              <div
+                className={`relative w-20 h-20 rounded-md bg-slate-900 border-2 overflow-hidden flex items-center justify-center ${
+                  verse.id === selectedId ? 'border-cyan-500' : verse.reference === currentReference ? 'border-blue-700' : 'border-slate-700'
+                }`}
+              >
+                {verse.image ? (
+                  <img src={verse.image} alt={t('common.sceneAlt', { reference: verse.reference })} className="w-full h-full object-cover" />
+                ) : (
+                  <span className="text-[10px] text-gray-500 px-1 text-center">{t('timeline.noImage')}</span>
+                )}
+                <span className="absolute top-0.5 left-0.5 text-[10px] text-gray-200 bg-black/60 rounded px-1">{index + 1}</span>
+                {verse.narration && (
+                  <span className="absolute bottom-0.5 right-0.5 text-[10px] text-gray-200 bg-black/60 rounded px-1" title={t('timeline.hasNarration')}>♪</span>
+                )}
+                {activeJobs.some((job) => job.verseId === verse.id) && (
+                  <div className="absolute inset-0 bg-black/50 flex items-center justify-center">
+                    <Spinner />
+                  </div>
+                )}
+              </div>
+              <span className="text-[10px] text-gray-400 truncate w-full text-center">{verse.reference}</span>
+            </button>
+          </React.Fragment>
+        ))}
+        {insertButton(verses.length)}
+      </div>
+
+      {insertAt !== null && (
+        <div className="flex flex-col gap-2 bg-slate-900/50 border border-slate-700 rounded-lg p-3">
+          <label htmlFor="timeline-insert" className="text-sm text-gray-300">
+            {t('timeline.insertLabel', { position: insertAt + 1 })}
+          </label>
+          <div className="flex gap-2">
+            <input
+              id="timeline-insert"
+              value={insertReference}
+              onChange={(e) => {
+                setInsertReference(e.target.value);
+                setInsertError(null);
+              }}
+              onKeyDown={(e) => e.key === 'Enter' && handleInsert()}
+              placeholder={t('timeline.insertPlaceholder')}
+              className="flex-grow bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:outline-none"
+              disabled={disabled}
+              autoFocus
+            />
+            <button onClick={handleInsert} disabled={disabled || !insertReference.trim()} className={buttonClass}>
+              {t('timeline.insert')}
+            </button>
+            <button onClick={() => setInsertAt(null)} className="text-sm text-gray-400 hover:text-gray-200 underline">
+              {t('timeline.cancel')}
+            </button>
+          </div>
+          {insertError && <p className="text-xs text-red-300">{insertError}</p>}
+        </div>
+      )}
+
+      {selected && (
+        <div className="flex flex-col gap-3 bg-slate-900/50 border border-slate-700 rounded-lg p-4">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm font-medium text-gray-200">
+              {selected.reference}
+              <span className="text-gray-500"> · {t('timeline.frame', { index: selectedIndex + 1, count: verses.length })}</span>
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={() => onMove(selected, selectedIndex - 1)}
+                disabled={disabled || selectedIndex === 0}
+                title={t('timeline.moveEarlier')}
+                aria-label={t('timeline.moveEarlier')}
+                className={buttonClass}
+              >
+                ←
+              </button>
+              <button
+                onClick={() => onMove(selected, selectedIndex + 1)}
+                disabled={disabled || selectedIndex === verses.length - 1}
+                title={t('timeline.moveLater')}
+                aria-label={t('timeline.moveLater')}
+                className={buttonClass}
+              >
+                →
+              </button>
+            </div>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-4">
+            <div
+              style={{ aspectRatio: selectedAspectRatio }}
+              className="w-full sm:w-40 flex-shrink-0 self-start bg-slate-800 rounded-md overflow-hidden flex items-center justify-center"
+            >
+              {selected.image ? (
+                <img src={selected.image} alt={t('common.sceneAlt', { reference: selected.reference })} className="w-full h-full object-cover" />
+              ) : (
+                <span className="text-xs text-gray-500">{t('timeline.noImage')}</span>
+              )}
+            </div>
+            <div className="flex-grow flex flex-col gap-2">
+              <label htmlFor="timeline-prompt" className="text-xs text-gray-400">{t('timeline.promptLabel')}</label>
+              <textarea
+                id="timeline-prompt"
+                value={promptDraft}
+                onChange={(e) => {
+                  setPromptDraft(e.target.value);
+                  setDraftSource('edited');
+                }}
+                className="w-full bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-sm text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:outline-none resize-none h-28"
+                disabled={isSelectedLocked}
+              />
+              <p className="text-xs text-gray-400 italic">
+                {selected.narration ? t('timeline.narration', { text: selected.narration.text }) : t('timeline.noNarration')}
+              </p>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => onSavePrompt(selected, promptDraft.trim(), draftSource)}
+              disabled={isSelectedLocked || !promptDraft.trim() || promptDraft.trim() === selected.scenePrompt}
+              className={buttonClass}
+            >
+              {t('timeline.savePrompt')}
+            </button>
+            <button
+              onClick={() => onRegenerate(selected, 'image')}
+              disabled={isSelectedLocked || isImageQueued || promptDraft.trim() !== selected.scenePrompt.trim()}
+              title={promptDraft.trim() !== selected.scenePrompt.trim() ? t('timeline.saveFirst') : undefined}
+              className="text-sm text-cyan-300 border border-cyan-700/60 rounded-lg px-3 py-2 hover:bg-cyan-900/30 transition duration-300 disabled:opacity-50"
+            >
+              {selected.image ? t('timeline.regenerateImage') : t('timeline.generateImage')}
+            </button>
+            <button
+              onClick={() => onRegenerate(selected, 'audio')}
+              disabled={isSelectedLocked || isAudioQueued}
+              title={t('timeline.narrationHint')}
+              className="text-sm text-blue-300 border border-blue-700/60 rounded-lg px-3 py-2 hover:bg-blue-900/30 transition duration-300 disabled:opacity-50"
+            >
+              {selected.narration ? t('timeline.regenerateNarration') : t('timeline.generateNarration')}
+            </button>
+            <button onClick={() => onOpen(selected)} disabled={disabled || isEditorBusy} className={buttonClass}>
+              {t('timeline.openInEditor')}
+            </button>
+            <button
+              onClick={() => handleDelete(selected)}
+              disabled={isSelectedLocked}
+              className="text-sm text-red-300 hover:text-red-200 px-3 py-2 disabled:opacity-50"
+            >
+              {t('common.delete')}
+            </button>
+          </div>
+          {(isImageQueued || isAudioQueued) && <p className="text-xs text-gray-400">{t('timeline.queuedHint')}</p>}
+          <PromptHistoryPanel
+            versions={selected.promptHistory ?? []}
+            images={[selected.image, ...(selected.imageHistory ?? [])]}
+            onRestore={(prompt) => {
+              setPromptDraft(prompt);
+              setDraftSource('restored');
+            }}
+            disabled={isSelectedLocked}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StoryboardTimeline;
@@ -0,0 +1,131 @@
+import React, { useState, useEffect } from 'react';
+import {
+  BUILT_IN_STYLE_PRESETS,
+  DEFAULT_STYLE_PRESET,
+  deleteStylePreset,
+  listStylePresets,
+  saveStylePreset,
+  type StylePreset,
+} from '../services/stylePresets';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface StylePresetPickerProps {
+  value: StylePreset;
+  onChange: (preset: StylePreset) => void;
+  disabled: boolean;
+}
+
+const StylePresetPicker: React.FC<StylePresetPickerProps> = ({ value, onChange, disabled }) => {
+  const { t } = useTranslation();
+  const [presets, setPresets] = useState<StylePreset[]>(BUILT_IN_STYLE_PRESETS);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [suffix, setSuffix] = useState('');
+  const [negativePrompt, setNegativePrompt] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listStylePresets().then(setPresets);
+  }, []);
+
+  // A scene may use a preset that was deleted since; keep it selectable.
+  const options = presets.some((preset) => preset.id === value.id) ? presets : [...presets, value];
+
+  const handleSave = async () => {
+    setError(null);
+    try {
+      const saved = await saveStylePreset({ name, suffix, negativePrompt });
+      setPresets(await listStylePresets());
+      onChange(saved);
+      setIsFormOpen(false);
+      setName('');
+      setSuffix('');
+      setNegativePrompt('');
+    } catch (err: any) {
+      console.error("Error saving style preset:", err);
+      setError(err.message || t('style.saveError'));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (value.builtIn || !window.confirm(t('style.confirmDelete', { name: value.name }))) return;
+    await deleteStylePreset(value.id);
+    setPresets(await listStylePresets());
+    onChange(DEFAULT_STYLE_PRESET);
+  };
+
+  return (
+    <div className="mb-4 flex flex-col gap-2">
+      <label htmlFor="style-preset" className="block text-sm font-medium text-gray-400 text-center">{t('style.label')}</label>
+      <div className="flex gap-2">
+        <select
+          id="style-preset"
+          value={value.id}
+          onChange={(e) => {
+            const preset = options.find((option) => option.id === e.target.value);
+            if (preset) onChange(preset);
+          }}
+          disabled={disabled}
+          className="flex-grow bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:outline-none disabled:opacity-50"
+        >
+          {options.map((preset) => (
+            <option key={preset.id} value={preset.id}>{preset.label ? t(preset.label) : preset.name}</option>
+          ))}
+        </select>
+        {!value.builtIn && (
+          <button
+            onClick={handleDelete}
+            disabled={disabled}
+            className="text-xs text-red-300 hover:text-red-200 px-2 disabled:opacity-50"
+          >
+            {t('common.delete')}
+          </button>
+        )}
+        <button
+          onClick={() => setIsFormOpen(!isFormOpen)}
+          disabled={disabled}
+          className="text-sm text-gray-200 bg-slate-700 rounded-lg px-3 py-2 hover:bg-slate-600 transition duration-300 disabled:opacity-50"
+        >
+          {t('style.new')}
+        </button>
+      </div>
+      <p className="text-xs text-gray-500">
+        {value.suffix.replace(/^,\s*/, '')}
+        {value.negativePrompt && <span className="block">{t('style.avoid', { terms: value.negativePrompt })}</span>}
+      </p>
+
+      {isFormOpen && (
+        <div className="flex flex-col gap-2 bg-slate-900/50 border border-slate-700 rounded-lg p-3">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={t('style.namePlaceholder')}
+            className="w-full bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-sm text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:outline-none"
+          />
+          <textarea
+            value={suffix}
+            onChange={(e) => setSuffix(e.target.value)}
+            placeholder={t('style.suffixPlaceholder')}
+            className="w-full bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-sm text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:outline-none resize-none h-16"
+          />
+          <input
+            value={negativePrompt}
+            onChange={(e) => setNegativePrompt(e.target.value)}
+            placeholder={t('style.negativePlaceholder')}
+            className="w-full bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-sm text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:outline-none"
+          />
+          {error && <p className="text-sm text-red-300">{error}</p>}
+          <button
+            onClick={handleSave}
+            disabled={!name.trim() || !suffix.trim()}
+            className="text-sm text-white bg-gradient-to-r from-cyan-500 to-blue-600 rounded-lg px-3 py-2 hover:from-cyan-600 hover:to-blue-700 transition duration-300 disabled:opacity-50"
+          >
+            {t('style.save')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StylePresetPicker;
@@ -0,0 +1,183 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  listTranslations,
+  importTranslation,
+  importBundledTranslations,
+  deleteTranslation,
+  detectCorpusFormat,
+  type BibleTranslation,
+} from '../services/bibleCorpus';
+import Spinner from './Spinner';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface TranslationSelectorProps {
+  /** Narration language; the first translation in this language is selected automatically. */
+  language: string;
+  languages: Record<string, string>;
+  /** The selected translation id, or null for the AI fallback. */
+  value: string | null;
+  onChange: (translationId: string | null) => void;
+  disabled?: boolean;
+}
+
+const AI_FALLBACK = '';
+
+const TranslationSelector: React.FC<TranslationSelectorProps> = ({ language, languages, value, onChange, disabled }) => {
+  const { t } = useTranslation();
+  const [translations, setTranslations] = useState<BibleTranslation[]>([]);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importName, setImportName] = useState('');
+  const [importId, setImportId] = useState('');
+  const [importLanguage, setImportLanguage] = useState(language);
+  const [importAttribution, setImportAttribution] = useState('');
+
+  const refresh = useCallback(async () => {
+    try {
+      setTranslations(await listTranslations());
+    } catch (err) {
+      console.error("Failed to list translations:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    importBundledTranslations().finally(refresh);
+  }, [refresh]);
+
+  // Prefer a local translation in the narration language; the AI is only a fallback.
+  // Runs only when the list or language changes, so an explicit choice of the AI fallback sticks.
+  useEffect(() => {
+    const current = translations.find((translation) => translation.id === value);
+    if (current && current.language === language) return;
+    const match = translations.find((translation) => translation.language === language);
+    onChange(match ? match.id : null);
+  }, [translations, language]);
+
+  const selected = translations.find((translation) => translation.id === value) ?? null;
+  const hasLanguageTranslation = translations.some((translation) => translation.language === language);
+
+  const handleImport = async () => {
+    if (!importFile || !importName.trim() || !importId.trim() || !importAttribution.trim()) return;
+    setIsImporting(true);
+    setImportError(null);
+    try {
+      const content = await importFile.text();
+      const translation = await importTranslation(
+        {
+          id: importId.trim().toLowerCase(),
+          name: importName.trim(),
+          language: importLanguage,
+          attribution: importAttribution.trim(),
+        },
+        content,
+        detectCorpusFormat(importFile.name, content)
+      );
+      await refresh();
+      onChange(translation.id);
+      setIsImportOpen(false);
+      setImportFile(null);
+      setImportName('');
+      setImportId('');
+      setImportAttribution('');
+    } catch (err: any) {
+      console.error(err);
+      setImportError(err.message || t('translation.importError'));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected || !window.confirm(t('translation.confirmDelete', { name: selected.name }))) return;
+    await deleteTranslation(selected.id);
+    await refresh();
+  };
+
+  const inputClassName = "w-full bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-gray-200 focus:ring-2 focus:ring-blue-500 focus:outline-none transition duration-300";
+
+  return (
+    <div className="flex flex-col gap-2">
+      <label htmlFor="translation-select" className="block text-sm font-medium text-gray-400">{t('translation.label')}</label>
+      <div className="flex gap-2">
+        <select
+          id="translation-select"
+          value={value ?? AI_FALLBACK}
+          onChange={(e) => onChange(e.target.value || null)}
+          disabled={disabled}
+          className={inputClassName}
+        >
+          {translations.map((translation) => (
+            <option key={translation.id} value={translation.id}>
+              {translation.name} ({languages[translation.language] ?? translation.language})
+            </option>
+          ))}
+          <option value={AI_FALLBACK}>{t('translation.aiFallback')}</option>
+        </select>
+        {selected && (
+          <button
+            onClick={handleDelete}
+            disabled={disabled}
+            className="text-sm text-red-300 border border-red-700/60 rounded-lg px-3 hover:bg-red-900/40 transition duration-300 disabled:opacity-50"
+          >
+            {t('common.remove')}
+          </button>
+        )}
+      </div>
+      {selected ? (
+        <p className="text-xs text-gray-400">{selected.attribution}</p>
+      ) : !hasLanguageTranslation ? (
+        <p className="text-xs text-amber-400">
+          {t('translation.noneForLanguage', { language: languages[language] ?? language })}
+        </p>
+      ) : (
+        <p className="text-xs text-amber-400">
+          {t('translation.noLocal')}
+        </p>
+      )}
+      <button
+        onClick={() => setIsImportOpen(!isImportOpen)}
+        disabled={disabled}
+        className="self-start text-sm text-blue-300 hover:text-blue-200 underline disabled:opacity-50"
+      >
+        {isImportOpen ? t('translation.cancelImport') : t('translation.openImport')}
+      </button>
+      {isImportOpen && (
+        <div className="flex flex-col gap-2 bg-slate-900/50 border border-slate-700 rounded-lg p-3">
+          <input
+            type="file"
+            accept=".xml,.osis,.json,.csv,.tsv"
+            onChange={(e) => setImportFile(e.target.files?.[0] ?? null)}
+            className="text-sm text-gray-300"
+          />
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            <input value={importName} onChange={(e) => setImportName(e.target.value)} placeholder={t('translation.namePlaceholder')} className={inputClassName} />
+            <input value={importId} onChange={(e) => setImportId(e.target.value)} placeholder={t('translation.idPlaceholder')} className={inputClassName} />
+          </div>
+          <select value={importLanguage} onChange={(e) => setImportLanguage(e.target.value)} className={inputClassName}>
+            {Object.entries(languages).map(([code, name]) => (
+              <option key={code} value={code}>{name}</option>
+            ))}
+          </select>
+          <input
+            value={importAttribution}
+            onChange={(e) => setImportAttribution(e.target.value)}
+            placeholder={t('translation.attributionPlaceholder')}
+            className={inputClassName}
+          />
+          {importError && <p className="text-sm text-red-300">{importError}</p>}
+          <button
+            onClick={handleImport}
+            disabled={isImporting || !importFile || !importName.trim() || !importId.trim() || !importAttribution.trim()}
+            className="bg-gradient-to-r from-slate-600 to-slate-700 text-white font-bold py-2 px-4 rounded-lg hover:from-slate-700 hover:to-slate-800 transition duration-300 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
+          >
+            {isImporting ? <Spinner /> : t('translation.import')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TranslationSelector;
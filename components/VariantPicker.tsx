@@ -0,0 +1,40 @@
+import React from 'react';
+import type { AspectRatio } from '../services/providers';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface VariantPickerProps {
+  title: string;
+  /** The images as data URLs. */
+  images: string[];
+  aspectRatio: AspectRatio;
+  onPick: (index: number) => void;
+  disabled: boolean;
+  /** Small thumbnails in a scrolling row instead of a side-by-side grid. */
+  compact?: boolean;
+}
+
+const VariantPicker: React.FC<VariantPickerProps> = ({ title, images, aspectRatio, onPick, disabled, compact = false }) => {
+  const { t } = useTranslation();
+
+  return (
+    <div className="w-full flex flex-col gap-2">
+      <p className="text-sm font-medium text-gray-400 text-center">{title}</p>
+      <div className={compact ? 'flex gap-2 overflow-x-auto pb-1' : `grid gap-3 ${images.length > 2 ? 'grid-cols-2' : 'grid-cols-1 sm:grid-cols-2'}`}>
+        {images.map((image, index) => (
+          <button
+            key={index}
+            onClick={() => onPick(index)}
+            disabled={disabled}
+            title={compact ? t('variants.use') : t('variants.pick', { number: index + 1 })}
+            style={{ aspectRatio: aspectRatio.replace(':', ' / ') }}
+            className={`${compact ? 'h-20 flex-shrink-0' : 'w-full'} rounded-lg overflow-hidden border-2 border-slate-700 hover:border-cyan-500 transition-all disabled:opacity-50 disabled:cursor-not-allowed`}
+          >
+            <img src={image} alt={t('variants.alt', { number: index + 1 })} className="w-full h-full object-cover" />
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default VariantPicker;
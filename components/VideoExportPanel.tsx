@@ -0,0 +1,234 @@
+import React, { useState, useRef, useEffect } from 'react';
+import type { Project } from '../services/projectStore';
+import type { AspectRatio } from '../services/providers';
+import {
+  buildSequenceCaptions,
+  exportVideo,
+  getClipDuration,
+  isVideoExportSupported,
+  type VideoClip,
+} from '../services/videoExport';
+import { getPcmDuration } from '../services/audio';
+import { createCaptions, toSrt, toWebVtt } from '../services/subtitles';
+import { downloadBlob } from '../services/download';
+import { DownloadIcon } from './icons/DownloadIcon';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface VideoExportPanelProps {
+  project: Project | null;
+  aspectRatio: AspectRatio;
+  disabled: boolean;
+  onRunningChange: (isRunning: boolean) => void;
+}
+
+const formatDuration = (seconds: number) => {
+  const rounded = Math.round(seconds);
+  return `${Math.floor(rounded / 60)}:${String(rounded % 60).padStart(2, '0')}`;
+};
+
+const VideoExportPanel: React.FC<VideoExportPanelProps> = ({ project, aspectRatio, disabled, onRunningChange }) => {
+  const { t } = useTranslation();
+  const [kenBurns, setKenBurns] = useState(true);
+  const [crossfadeSeconds, setCrossfadeSeconds] = useState(0.5);
+  const [silentClipSeconds, setSilentClipSeconds] = useState(4);
+  const [burnCaptions, setBurnCaptions] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    return () => {
+      if (videoUrl) URL.revokeObjectURL(videoUrl);
+    };
+  }, [videoUrl]);
+
+  const clips: VideoClip[] = (project?.verses ?? [])
+    .filter((verse) => verse.image)
+    .map((verse) => ({
+      image: verse.image!,
+      narration: verse.narration?.audioBase64 ?? null,
+      captions: verse.narration ? createCaptions(verse.narration.text, getPcmDuration(verse.narration.audioBase64)) : [],
+    }));
+  const narratedCount = clips.filter((clip) => clip.narration).length;
+  const totalSeconds = clips.reduce((total, clip) => total + getClipDuration(clip, silentClipSeconds), 0);
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsExporting(true);
+    onRunningChange(true);
+    setError(null);
+    setProgress(0);
+    setVideoUrl(null);
+    try {
+      const video = await exportVideo(clips, {
+        aspectRatio,
+        kenBurns,
+        crossfadeSeconds,
+        silentClipSeconds,
+        burnCaptions,
+        onProgress: setProgress,
+        signal: controller.signal,
+      });
+      setVideoUrl(URL.createObjectURL(video));
+    } catch (err: any) {
+      console.error("Error exporting video:", err);
+      setError(err.message || t('video.exportError'));
+    } finally {
+      abortControllerRef.current = null;
+      setIsExporting(false);
+      onRunningChange(false);
+    }
+  };
+
+  const baseName = `${(project?.name ?? 'sequencia').replace(/[: ]/g, '_').toLowerCase()}_${aspectRatio.replace(':', 'x')}`;
+
+  // Subtitle files share the video's timeline, so they line up with an export made with the same settings.
+  const handleDownloadCaptions = (format: 'srt' | 'vtt') => {
+    const cues = buildSequenceCaptions(clips, silentClipSeconds);
+    const content = format === 'srt' ? toSrt(cues) : toWebVtt(cues);
+    downloadBlob(new Blob([content], { type: format === 'srt' ? 'application/x-subrip' : 'text/vtt' }), `${baseName}.${format}`);
+  };
+
+  return (
+    <div className="w-full max-w-2xl bg-slate-800/60 rounded-xl p-6 shadow-2xl shadow-cyan-500/10 border border-slate-700 flex flex-col gap-4">
+      <h2 className="text-xl font-semibold text-center text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-blue-500">
+        {t('video.title')}
+      </h2>
+      {clips.length === 0 ? (
+        <p className="text-center text-gray-400 text-sm">{t('video.empty')}</p>
+      ) : (
+        <p className="text-center text-gray-400 text-sm">
+          {t('video.summary', {
+            scenes: t('video.sceneCount', { count: clips.length }),
+            narrated: narratedCount,
+            duration: formatDuration(totalSeconds),
+            ratio: aspectRatio,
+          })}
+        </p>
+      )}
+
+      <div className="flex flex-wrap items-center justify-center gap-x-6 gap-y-3 text-sm text-gray-300">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={kenBurns}
+            onChange={(e) => setKenBurns(e.target.checked)}
+            disabled={disabled || isExporting}
+            className="accent-cyan-500"
+          />
+          {t('video.kenBurns')}
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={burnCaptions}
+            onChange={(e) => setBurnCaptions(e.target.checked)}
+            disabled={disabled || isExporting}
+            className="accent-cyan-500"
+          />
+          {t('video.burnCaptions')}
+        </label>
+        <label className="flex items-center gap-2">
+          {t('video.transition')}
+          <select
+            value={crossfadeSeconds}
+            onChange={(e) => setCrossfadeSeconds(Number(e.target.value))}
+            disabled={disabled || isExporting}
+            className="bg-slate-900 border border-slate-600 rounded-lg px-2 py-1 text-gray-200"
+          >
+            <option value={0}>{t('video.cut')}</option>
+            <option value={0.5}>{t('video.crossfade', { seconds: 0.5 })}</option>
+            <option value={1}>{t('video.crossfade', { seconds: 1 })}</option>
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          {t('video.silentClips')}
+          <input
+            type="number"
+            min={1}
+            max={30}
+            value={silentClipSeconds}
+            onChange={(e) => setSilentClipSeconds(Math.max(1, Number(e.target.value) || 1))}
+            disabled={disabled || isExporting}
+            className="w-16 bg-slate-900 border border-slate-600 rounded-lg px-2 py-1 text-gray-200"
+          />
+          s
+        </label>
+      </div>
+
+      {!isVideoExportSupported() && (
+        <p className="text-sm text-amber-300 text-center">{t('video.unsupported')}</p>
+      )}
+
+      {isExporting ? (
+        <div className="flex flex-col gap-2">
+          <div className="w-full h-2 bg-slate-900 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-gradient-to-r from-cyan-500 to-blue-600 transition-all duration-300"
+              style={{ width: `${progress * 100}%` }}
+            />
+          </div>
+          <p className="text-xs text-gray-400 text-center">
+            {t('video.recording', { elapsed: formatDuration(progress * totalSeconds), total: formatDuration(totalSeconds) })}
+          </p>
+          <button
+            onClick={() => abortControllerRef.current?.abort()}
+            className="bg-red-600/80 text-white font-bold py-3 px-6 rounded-lg hover:bg-red-700 transition duration-300"
+          >
+            {t('video.cancel')}
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={handleExport}
+          disabled={disabled || clips.length === 0 || !isVideoExportSupported()}
+          className="bg-gradient-to-r from-cyan-500 to-blue-600 text-white font-bold py-3 px-6 rounded-lg hover:from-cyan-600 hover:to-blue-700 transition duration-300 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center w-full"
+        >
+          {t('video.export')}
+        </button>
+      )}
+
+      {narratedCount > 0 && (
+        <div className="flex justify-center gap-3">
+          <button
+            onClick={() => handleDownloadCaptions('srt')}
+            disabled={disabled || isExporting}
+            className="text-sm text-gray-200 bg-slate-700 rounded-lg px-3 py-2 hover:bg-slate-600 transition duration-300 disabled:opacity-50 flex items-center gap-2"
+          >
+            <DownloadIcon />
+            {t('common.captionsSrt')}
+          </button>
+          <button
+            onClick={() => handleDownloadCaptions('vtt')}
+            disabled={disabled || isExporting}
+            className="text-sm text-gray-200 bg-slate-700 rounded-lg px-3 py-2 hover:bg-slate-600 transition duration-300 disabled:opacity-50 flex items-center gap-2"
+          >
+            <DownloadIcon />
+            {t('common.captionsVtt')}
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-300 text-center">{error}</p>}
+
+      {videoUrl && (
+        <div className={`w-full flex flex-col items-center gap-3 self-center ${aspectRatio === '9:16' || aspectRatio === '3:4' ? 'max-w-xs' : ''}`}>
+          <video controls src={videoUrl} className="w-full rounded-lg border border-slate-700" />
+          <a
+            href={videoUrl}
+            download={`${baseName}.webm`}
+            className="bg-slate-700 text-gray-200 font-bold py-2 px-4 rounded-lg hover:bg-slate-600 transition duration-300 flex items-center gap-2"
+          >
+            <DownloadIcon />
+            {t('video.download')}
+          </a>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VideoExportPanel;
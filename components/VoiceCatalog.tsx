@@ -0,0 +1,201 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  BUILT_IN_VOICE_PRESETS,
+  deleteVoicePreset,
+  getPreviewText,
+  listVoicePresets,
+  PREBUILT_VOICES,
+  saveVoicePreset,
+  SPEAKING_RATES,
+  VOICE_STYLES,
+  type VoicePreset,
+  type VoiceSettings,
+  type VoiceStyle,
+} from '../services/voiceCatalog';
+import { cachedSpeech } from '../services/generationCache';
+import { createWavBlob } from '../services/audio';
+import { describeError } from '../services/errors';
+import Spinner from './Spinner';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface VoiceCatalogProps {
+  value: VoiceSettings;
+  onChange: (settings: VoiceSettings) => void;
+  /** The narration language; previews are read in it. */
+  language: string;
+  disabled: boolean;
+}
+
+const sameSettings = (a: VoiceSettings, b: VoiceSettings) =>
+  a.voiceName === b.voiceName && a.style === b.style && a.rate === b.rate;
+
+const VoiceCatalog: React.FC<VoiceCatalogProps> = ({ value, onChange, language, disabled }) => {
+  const { t, locale } = useTranslation();
+  const [presets, setPresets] = useState<VoicePreset[]>(BUILT_IN_VOICE_PRESETS);
+  const [presetName, setPresetName] = useState('');
+  const [previewing, setPreviewing] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  useEffect(() => {
+    listVoicePresets().then(setPresets);
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      audioRef.current?.pause();
+    };
+  }, []);
+
+  const selectedPreset = presets.find((preset) => sameSettings(preset, value));
+
+  // Previews use the current style and rate, so they sound like the narration will.
+  const handlePreview = async (voiceName: string) => {
+    setPreviewing(voiceName);
+    setError(null);
+    audioRef.current?.pause();
+    try {
+      const { value: audioBase64 } = await cachedSpeech(getPreviewText(language), { ...value, voiceName });
+      const url = URL.createObjectURL(createWavBlob(audioBase64));
+      const audio = new Audio(url);
+      audio.onended = () => URL.revokeObjectURL(url);
+      audioRef.current = audio;
+      await audio.play();
+    } catch (err: any) {
+      console.error("Error previewing voice:", err);
+      setError(describeError(err, t('voice.previewError')));
+    } finally {
+      setPreviewing(null);
+    }
+  };
+
+  const handleSavePreset = async () => {
+    setError(null);
+    try {
+      await saveVoicePreset(presetName, value);
+      setPresets(await listVoicePresets());
+      setPresetName('');
+    } catch (err: any) {
+      console.error("Error saving voice preset:", err);
+      setError(err.message || t('voice.savePresetError'));
+    }
+  };
+
+  const handleDeletePreset = async () => {
+    if (!selectedPreset || selectedPreset.builtIn || !window.confirm(t('voice.confirmDeletePreset', { name: selectedPreset.name }))) return;
+    await deleteVoicePreset(selectedPreset.id);
+    setPresets(await listVoicePresets());
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex gap-2 items-center">
+        <label htmlFor="voice-preset" className="text-sm font-medium text-gray-400 whitespace-nowrap">{t('voice.preset')}</label>
+        <select
+          id="voice-preset"
+          value={selectedPreset?.id ?? ''}
+          onChange={(e) => {
+            const preset = presets.find((option) => option.id === e.target.value);
+            if (preset) onChange({ voiceName: preset.voiceName, style: preset.style, rate: preset.rate });
+          }}
+          disabled={disabled}
+          className="flex-grow bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-gray-200 focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:opacity-50"
+        >
+          {!selectedPreset && <option value="">{t('voice.custom')}</option>}
+          {presets.map((preset) => (
+            <option key={preset.id} value={preset.id}>{preset.label ? t(preset.label) : preset.name}</option>
+          ))}
+        </select>
+        {selectedPreset && !selectedPreset.builtIn && (
+          <button
+            onClick={handleDeletePreset}
+            disabled={disabled}
+            className="text-xs text-red-300 hover:text-red-200 px-2 disabled:opacity-50"
+          >
+            {t('common.delete')}
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 max-h-56 overflow-y-auto pr-1">
+        {PREBUILT_VOICES.map((voice) => (
+          <div
+            key={voice.name}
+            className={`flex items-center justify-between gap-1 rounded-lg border px-2 py-1 ${
+              voice.name === value.voiceName ? 'border-blue-500 bg-blue-900/30' : 'border-slate-700 bg-slate-900'
+            }`}
+          >
+            <button
+              onClick={() => onChange({ ...value, voiceName: voice.name })}
+              disabled={disabled}
+              className="flex flex-col items-start text-left flex-grow disabled:opacity-50"
+            >
+              <span className="text-sm text-gray-200">{voice.name}</span>
+              <span className="text-xs text-gray-500">{t(voice.description)}</span>
+            </button>
+            <button
+              onClick={() => handlePreview(voice.name)}
+              disabled={disabled || previewing !== null}
+              title={t('voice.preview', { name: voice.name })}
+              className="text-blue-300 hover:text-blue-200 px-1 disabled:opacity-50"
+            >
+              {previewing === voice.name ? <Spinner /> : '▶'}
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm text-gray-300">
+        <label className="flex items-center gap-2">
+          {t('voice.style')}
+          <select
+            value={value.style}
+            onChange={(e) => onChange({ ...value, style: e.target.value as VoiceStyle })}
+            disabled={disabled}
+            className="flex-grow bg-slate-900 border border-slate-600 rounded-lg px-2 py-1 text-gray-200 disabled:opacity-50"
+          >
+            {VOICE_STYLES.map((style) => (
+              <option key={style.id} value={style.id}>{t(style.name)}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          {t('voice.rate')}
+          <input
+            type="range"
+            min={0}
+            max={SPEAKING_RATES.length - 1}
+            value={Math.max(0, SPEAKING_RATES.indexOf(value.rate))}
+            onChange={(e) => onChange({ ...value, rate: SPEAKING_RATES[Number(e.target.value)] })}
+            disabled={disabled}
+            className="flex-grow accent-blue-500"
+          />
+          <span className="w-12 text-right">{value.rate.toLocaleString(locale)}×</span>
+        </label>
+      </div>
+
+      {!selectedPreset && (
+        <div className="flex gap-2">
+          <input
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            placeholder={t('voice.presetNamePlaceholder')}
+            disabled={disabled}
+            className="flex-grow bg-slate-900 border border-slate-600 rounded-lg px-3 py-2 text-sm text-gray-200 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+          />
+          <button
+            onClick={handleSavePreset}
+            disabled={disabled || !presetName.trim()}
+            className="text-sm text-gray-200 bg-slate-700 rounded-lg px-3 py-2 hover:bg-slate-600 transition duration-300 disabled:opacity-50"
+          >
+            {t('voice.savePreset')}
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-300">{error}</p>}
+    </div>
+  );
+};
+
+export default VoiceCatalog;
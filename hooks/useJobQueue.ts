@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { getQueueState, subscribeJobs } from '../services/jobQueue';
+
+/**
+ * The background job queue, for components; re-renders the component when a job or the paused flag changes.
+ * @returns The jobs, oldest first, and whether the queue is paused.
+ */
+export const useJobQueue = () => useSyncExternalStore(subscribeJobs, getQueueState);
@@ -0,0 +1,263 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  createProject,
+  createVerse,
+  deleteProject,
+  deleteProjectVerse,
+  listProjects,
+  loadProject,
+  saveProject,
+  withDerivedMeta,
+  type Project,
+  type ProjectMeta,
+  type ProjectSettings,
+  type ProjectVerse,
+} from '../services/projectStore';
+import { addPromptVersions, type NewPromptVersion } from '../services/promptHistory';
+import { mergeCharacters } from '../services/passageService';
+import { t } from '../services/i18n';
+
+type VerseChanges = Partial<Pick<
+  ProjectVerse,
+  'scenePrompt' | 'image' | 'imageHistory' | 'aspectRatio' | 'narration' | 'referenceCharacters' | 'style'
+>>;
+
+/** Gives the verses consecutive positions in their current order, returning those whose position changed. */
+const renumber = (verses: ProjectVerse[]): { verses: ProjectVerse[]; changed: ProjectVerse[] } => {
+  const changed: ProjectVerse[] = [];
+  const renumbered = verses.map((verse, position) => {
+    if (verse.position === position) return verse;
+    const moved = { ...verse, position };
+    changed.push(moved);
+    return moved;
+  });
+  return { verses: renumbered, changed };
+};
+
+/**
+ * Holds the open project and saves every change to IndexedDB as it happens.
+ * When nothing is open, the first saved verse starts a new project named after it.
+ * @param settings - The current editor settings, stored with the project.
+ */
+export const useProject = (settings: ProjectSettings) => {
+  const [project, setProject] = useState<Project | null>(null);
+  const [projects, setProjects] = useState<ProjectMeta[]>([]);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // The latest project, read synchronously so quick successive saves (e.g. a passage run) build on each other.
+  const projectRef = useRef<Project | null>(null);
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  // Writes still in progress, so a background job's result is only read once the editor's own changes are stored.
+  const pendingWritesRef = useRef(new Set<Promise<unknown>>());
+
+  const trackWrite = <T>(write: Promise<T>): Promise<T> => {
+    pendingWritesRef.current.add(write);
+    const forget = () => pendingWritesRef.current.delete(write);
+    write.then(forget, forget);
+    return write;
+  };
+
+  const refreshProjects = useCallback(async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (err) {
+      console.error("Failed to list projects:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshProjects();
+  }, [refreshProjects]);
+
+  const commit = useCallback(async (next: Project, changedVerses: ProjectVerse[] = []): Promise<Project> => {
+    const updated = withDerivedMeta(next);
+    projectRef.current = updated;
+    setProject(updated);
+    try {
+      await trackWrite(saveProject(updated, changedVerses));
+      setSaveError(null);
+      await refreshProjects();
+    } catch (err) {
+      console.error("Failed to save project:", err);
+      setSaveError(t('project.saveError'));
+    }
+    return updated;
+  }, [refreshProjects]);
+
+  const ensureProject = (name: string, characterDescriptions?: Record<string, string> | null): Project =>
+    projectRef.current ?? createProject(name, characterDescriptions ?? {}, settingsRef.current);
+
+  const withSettings = (current: Project, characterDescriptions?: Record<string, string> | null): Project => ({
+    ...current,
+    characterDescriptions: characterDescriptions ?? current.characterDescriptions,
+    ...settingsRef.current,
+  });
+
+  /**
+   * Creates or updates the verse with the given reference.
+   * @param reference - The verse, e.g. "1 Samuel 4:12".
+   * @param changes - The fields that changed.
+   * @param characterDescriptions - The characters after this change, if they changed.
+   * @param promptVersions - Prompts to add to the verse's prompt history, in order.
+   */
+  const saveVerse = useCallback((
+    reference: string,
+    changes: VerseChanges,
+    characterDescriptions?: Record<string, string> | null,
+    promptVersions: NewPromptVersion[] = []
+  ) => {
+    const current = withSettings(ensureProject(reference, characterDescriptions), characterDescriptions);
+    const existing = current.verses.find((verse) => verse.reference === reference);
+    const base = existing ?? createVerse(current.id, reference, current.verses.length);
+    const verse: ProjectVerse = {
+      ...base,
+      ...changes,
+      promptHistory: promptVersions.length > 0 ? addPromptVersions(base.promptHistory, promptVersions) : base.promptHistory,
+      updatedAt: Date.now(),
+    };
+    const verses = existing
+      ? current.verses.map((v) => (v.id === verse.id ? verse : v))
+      : [...current.verses, verse];
+    return commit({ ...current, verses }, [verse]);
+  }, [commit]);
+
+  /** Adds empty entries, in order, for the references the project doesn't have yet. */
+  const addVerses = useCallback((references: string[], characterDescriptions?: Record<string, string> | null) => {
+    const current = withSettings(ensureProject(references[0], characterDescriptions), characterDescriptions);
+    const known = new Set(current.verses.map((verse) => verse.reference));
+    const added = references
+      .filter((reference) => !known.has(reference))
+      .map((reference, index) => createVerse(current.id, reference, current.verses.length + index));
+    return commit({ ...current, verses: [...current.verses, ...added] }, added);
+  }, [commit]);
+
+  /**
+   * Adds an empty verse at a position in the sequence; the verses from there on move one place later.
+   * Does nothing while no project is open or when the project already has the verse.
+   */
+  const insertVerse = useCallback((reference: string, index: number) => {
+    const current = projectRef.current;
+    if (!current || current.verses.some((verse) => verse.reference === reference)) return;
+    const position = Math.min(Math.max(index, 0), current.verses.length);
+    const verses = [...current.verses];
+    const inserted = createVerse(current.id, reference, position);
+    verses.splice(position, 0, inserted);
+    const { verses: renumbered, changed } = renumber(verses);
+    return commit({ ...current, verses: renumbered }, [inserted, ...changed]);
+  }, [commit]);
+
+  /** Moves a verse to another place in the sequence. */
+  const moveVerse = useCallback((id: string, toIndex: number) => {
+    const current = projectRef.current;
+    const fromIndex = current?.verses.findIndex((verse) => verse.id === id) ?? -1;
+    if (!current || fromIndex === -1 || toIndex < 0 || toIndex >= current.verses.length || toIndex === fromIndex) return;
+    const verses = [...current.verses];
+    const [verse] = verses.splice(fromIndex, 1);
+    verses.splice(toIndex, 0, verse);
+    const { verses: renumbered, changed } = renumber(verses);
+    return commit({ ...current, verses: renumbered }, changed);
+  }, [commit]);
+
+  /** Deletes a verse, with its scene and narration, from the open project. */
+  const removeVerse = useCallback(async (id: string) => {
+    const current = projectRef.current;
+    if (!current?.verses.some((verse) => verse.id === id)) return;
+    try {
+      await trackWrite(deleteProjectVerse(current.id, id));
+    } catch (err) {
+      console.error("Failed to delete verse:", err);
+      setSaveError(t('project.saveError'));
+      return;
+    }
+    // Build on the latest project: another verse may have been saved while the record was deleted.
+    const latest = projectRef.current;
+    if (latest?.id !== current.id) return;
+    const { verses, changed } = renumber(latest.verses.filter((verse) => verse.id !== id));
+    return commit({ ...latest, verses }, changed);
+  }, [commit]);
+
+  /** Saves edits made in the character bible. Does nothing while no project is open. */
+  const saveCharacters = useCallback((
+    characterDescriptions: Record<string, string>,
+    changes: Partial<ProjectSettings>
+  ) => {
+    // Edits arrive before the next render updates the ref.
+    settingsRef.current = { ...settingsRef.current, ...changes };
+    if (!projectRef.current) return;
+    return commit(withSettings(projectRef.current, characterDescriptions));
+  }, [commit]);
+
+  const newProject = useCallback((name: string) => {
+    const { aspectRatio, style } = settingsRef.current;
+    return commit(createProject(name, {}, { aspectRatio, style, lockedCharacters: [], characterPortraits: {}, characterVoices: {} }));
+  }, [commit]);
+
+  const openProject = useCallback(async (id: string): Promise<Project | null> => {
+    const loaded = await loadProject(id);
+    projectRef.current = loaded;
+    setProject(loaded);
+    return loaded;
+  }, []);
+
+  /**
+   * Takes in a verse that something other than the editor (a background job) saved into the project.
+   * Waits for the editor's pending saves, then merges only that verse and the characters it added,
+   * so changes made in the editor while the job ran are kept.
+   * @returns The updated project, or null when the project isn't open or no longer has the verse.
+   */
+  const mergeSavedVerse = useCallback(async (projectId: string, verseId: string): Promise<Project | null> => {
+    if (projectRef.current?.id !== projectId) return null;
+    await Promise.allSettled([...pendingWritesRef.current]);
+    const loaded = await loadProject(projectId);
+    const saved = loaded?.verses.find((verse) => verse.id === verseId);
+    const current = projectRef.current;
+    // Don't touch a project opened, or a verse deleted, while this one was loading.
+    if (!loaded || !saved || current?.id !== projectId || !current.verses.some((verse) => verse.id === verseId)) return null;
+    // The job wrote the whole project record from what it read; saving the merge puts the editor's fields back.
+    return commit({
+      ...current,
+      characterDescriptions: mergeCharacters(loaded.characterDescriptions, current.characterDescriptions),
+      // An editor save that started while the project was loading is newer than the job's verse.
+      verses: current.verses.map((verse) => (
+        verse.id === verseId && verse.updatedAt < saved.updatedAt ? { ...saved, position: verse.position } : verse
+      )),
+    });
+  }, [commit]);
+
+  const closeProject = useCallback(() => {
+    projectRef.current = null;
+    setProject(null);
+  }, []);
+
+  const renameProject = useCallback((name: string) => {
+    if (!projectRef.current || !name.trim()) return;
+    return commit({ ...projectRef.current, name: name.trim() });
+  }, [commit]);
+
+  const removeProject = useCallback(async (id: string) => {
+    await deleteProject(id);
+    if (projectRef.current?.id === id) {
+      closeProject();
+    }
+    await refreshProjects();
+  }, [closeProject, refreshProjects]);
+
+  return {
+    project,
+    projects,
+    saveError,
+    saveVerse,
+    addVerses,
+    insertVerse,
+    moveVerse,
+    removeVerse,
+    saveCharacters,
+    newProject,
+    openProject,
+    mergeSavedVerse,
+    closeProject,
+    renameProject,
+    removeProject,
+  };
+};
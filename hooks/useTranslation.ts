@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from 'react';
+import { getLocale, setLocale, subscribeLocale, t } from '../services/i18n';
+
+/**
+ * The message lookup for components; re-renders the component when the interface language changes.
+ * @returns `t`, the current locale and `setLocale`.
+ */
+export const useTranslation = () => {
+  const locale = useSyncExternalStore(subscribeLocale, getLocale);
+  return { t, locale, setLocale };
+};
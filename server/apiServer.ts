@@ -0,0 +1,335 @@
+// Local API server: holds the Gemini key and forwards the browser's generation requests to the
+// provider, with per-client rate limits and a usage log. Build with `npm run build:server`.
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { appendFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import {
+  createMockProvider,
+  getProvider,
+  setProvider,
+  type AspectRatio,
+  type ReferenceImage,
+  type TextInputs,
+  type TextTask,
+} from '../services/providers';
+import { TEXT_ROUTES } from '../services/providers/proxyProvider';
+import { MAX_IMAGE_VARIANTS } from '../services/geminiService';
+import { buildTextRequest, VERSE_LANGUAGES } from '../services/textPrompts';
+import { parseBibleRef } from '../services/bibleReference';
+import { classifyError, type GenerationErrorKind } from '../services/errors';
+
+type Lane = 'text' | 'image' | 'speech';
+
+/** Requests per client and minute, per model. */
+const RATE_LIMITS: Record<Lane, number> = {
+  text: 30,
+  image: 10,
+  speech: 20,
+};
+
+const RATE_WINDOW_MS = 60_000;
+/** Reference images travel base64 encoded inside image requests. */
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+const ASPECT_RATIOS: AspectRatio[] = ['9:16', '3:4', '1:1', '4:3', '16:9'];
+
+const ERROR_STATUSES: Record<GenerationErrorKind, number> = {
+  transient: 503,
+  quota: 429,
+  safety: 422,
+  'verse-not-found': 422,
+  'malformed-response': 502,
+  unknown: 502,
+};
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string, readonly kind?: GenerationErrorKind) {
+    super(message);
+  }
+}
+
+interface Route {
+  lane: Lane;
+  handle: (body: unknown) => Promise<unknown>;
+}
+
+/** Longest image prompt accepted: a scene prompt plus the style's suffix. */
+const MAX_TEXT_LENGTH = 4_000;
+/**
+ * Longest free text that goes into a text prompt or a speech request: a verse or two, a scene prompt,
+ * a character description. Kept short so the routes can't carry long documents to the model.
+ */
+const MAX_CLIENT_TEXT_LENGTH = 1_500;
+/** Longest name, term or identifier, such as a character name or a voice. */
+const MAX_NAME_LENGTH = 100;
+/** Most entries accepted in a list or map field, such as the characters of a scene. */
+const MAX_ENTRIES = 50;
+
+const requireObject = (value: unknown, field: string): Record<string, unknown> => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) throw new HttpError(400, `"${field}" must be an object.`);
+  return value as Record<string, unknown>;
+};
+
+const requireString = (value: unknown, field: string, maxLength = MAX_TEXT_LENGTH): string => {
+  if (typeof value !== 'string' || !value.trim()) throw new HttpError(400, `"${field}" must be a non-empty string.`);
+  if (value.length > maxLength) throw new HttpError(400, `"${field}" is longer than ${maxLength} characters.`);
+  return value;
+};
+
+/** A list of names or terms. */
+const requireStringList = (value: unknown, field: string): string[] => {
+  if (!Array.isArray(value) || value.length > MAX_ENTRIES) throw new HttpError(400, `"${field}" must be a list of up to ${MAX_ENTRIES} strings.`);
+  return value.map((item, index) => requireString(item, `${field}[${index}]`, MAX_NAME_LENGTH));
+};
+
+/** Descriptions by name, such as the characters of a scene. */
+const requireStringMap = (value: unknown, field: string): Record<string, string> => {
+  const entries = Object.entries(requireObject(value, field));
+  if (entries.length > MAX_ENTRIES) throw new HttpError(400, `"${field}" must have up to ${MAX_ENTRIES} entries.`);
+  return Object.fromEntries(entries.map(([key, item]) => [
+    requireString(key, `${field} key`, MAX_NAME_LENGTH),
+    requireString(item, `${field}.${key}`, MAX_CLIENT_TEXT_LENGTH),
+  ]));
+};
+
+/** A single-verse reference, such as "Gênesis 1:5"; anything else never reaches the prompt. */
+const requireReference = (value: unknown, field: string): string => {
+  const reference = requireString(value, field, MAX_NAME_LENGTH).trim();
+  const parsed = parseBibleRef(reference);
+  if ('error' in parsed) throw new HttpError(422, parsed.error, 'verse-not-found');
+  return reference;
+};
+
+/** Checks a text route's body and turns it into the inputs its prompt is built from. */
+const TEXT_INPUTS: Record<TextTask, (body: Record<string, unknown>) => TextInputs> = {
+  scene: (body) => ({
+    task: 'scene',
+    reference: requireReference(body.reference, 'reference'),
+    characters: body.characters === undefined ? {} : requireStringMap(body.characters, 'characters'),
+  }),
+  verse: (body) => {
+    const language = requireString(body.language, 'language', MAX_NAME_LENGTH);
+    if (!Object.hasOwn(VERSE_LANGUAGES, language)) throw new HttpError(400, `"language" must be one of ${Object.keys(VERSE_LANGUAGES).join(', ')}.`);
+    return { task: 'verse', reference: requireReference(body.reference, 'reference'), language };
+  },
+  'safe-rewrite': (body) => ({
+    task: 'safe-rewrite',
+    scenePrompt: requireString(body.scenePrompt, 'scenePrompt', MAX_CLIENT_TEXT_LENGTH),
+    flaggedTerms: body.flaggedTerms === undefined ? [] : requireStringList(body.flaggedTerms, 'flaggedTerms'),
+  }),
+  dialogue: (body) => ({
+    task: 'dialogue',
+    verseText: requireString(body.verseText, 'verseText', MAX_CLIENT_TEXT_LENGTH),
+    characterNames: body.characterNames === undefined ? [] : requireStringList(body.characterNames, 'characterNames'),
+  }),
+};
+
+// The prompt and response schema are built here from checked inputs, never taken from the client,
+// so the routes can't be used as a general-purpose text model on the server's key. Free text is
+// kept short and quoted in the prompt as data (see `services/textPrompts.ts`).
+const textRoute = (task: TextTask): Route => ({
+  lane: 'text',
+  handle: async (body) => ({
+    text: await getProvider().generateText(buildTextRequest(TEXT_INPUTS[task](requireObject(body, 'body')))),
+  }),
+});
+
+const isAspectRatio = (value: unknown): value is AspectRatio => ASPECT_RATIOS.includes(value as AspectRatio);
+
+const requireReferenceImages = (value: unknown): ReferenceImage[] => {
+  if (!Array.isArray(value) || value.length > MAX_ENTRIES) throw new HttpError(400, `"referenceImages" must be a list of up to ${MAX_ENTRIES} images.`);
+  return value.map((item, index) => {
+    const image = requireObject(item, `referenceImages[${index}]`);
+    if (typeof image.data !== 'string' || typeof image.mimeType !== 'string') {
+      throw new HttpError(400, `"referenceImages[${index}]" must have "data" and "mimeType" strings.`);
+    }
+    return { data: image.data, mimeType: image.mimeType };
+  });
+};
+
+const ROUTES: Record<string, Route> = {
+  ...Object.fromEntries(Object.entries(TEXT_ROUTES).map(([task, route]) => [route, textRoute(task as TextTask)])),
+  image: {
+    lane: 'image',
+    handle: async (value) => {
+      const body = requireObject(value, 'body');
+      if (!isAspectRatio(body.aspectRatio)) throw new HttpError(400, `"aspectRatio" must be one of ${ASPECT_RATIOS.join(', ')}.`);
+      const numberOfImages = Math.min(Math.max(Number(body.numberOfImages) || 1, 1), MAX_IMAGE_VARIANTS);
+      const images = await getProvider().generateImages({
+        prompt: requireString(body.prompt, 'prompt'),
+        aspectRatio: body.aspectRatio,
+        numberOfImages,
+        negativePrompt: typeof body.negativePrompt === 'string' ? body.negativePrompt : undefined,
+        referenceImages: body.referenceImages === undefined ? undefined : requireReferenceImages(body.referenceImages),
+      });
+      return { images };
+    },
+  },
+  speech: {
+    lane: 'speech',
+    handle: async (value) => {
+      const body = requireObject(value, 'body');
+      return {
+        audio: await getProvider().generateSpeech({
+          text: requireString(body.text, 'text', MAX_CLIENT_TEXT_LENGTH),
+          voiceName: requireString(body.voiceName, 'voiceName', MAX_NAME_LENGTH),
+        }),
+      };
+    },
+  },
+};
+
+/** Start times of recent requests, by client and lane. */
+const recentRequests = new Map<string, number[]>();
+
+/**
+ * Records a request and tells whether it is within the client's limit.
+ * @returns 0 when allowed, else the seconds until the client may try again.
+ */
+const takeRateLimit = (client: string, lane: Lane): number => {
+  const key = `${client}|${lane}`;
+  const now = Date.now();
+  const recent = (recentRequests.get(key) ?? []).filter((time) => now - time < RATE_WINDOW_MS);
+  if (recent.length >= RATE_LIMITS[lane]) {
+    recentRequests.set(key, recent);
+    return Math.ceil((recent[0] + RATE_WINDOW_MS - now) / 1000);
+  }
+  recent.push(now);
+  recentRequests.set(key, recent);
+  return 0;
+};
+
+// Forget clients that went quiet, so the map doesn't grow without bound.
+setInterval(() => {
+  const now = Date.now();
+  for (const [key, times] of recentRequests) {
+    if (times.every((time) => now - time >= RATE_WINDOW_MS)) recentRequests.delete(key);
+  }
+}, RATE_WINDOW_MS).unref();
+
+const readBody = (request: IncomingMessage): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Request body too large.'));
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+      } catch {
+        reject(new HttpError(400, 'The request body is not valid JSON.'));
+      }
+    });
+    request.on('error', reject);
+  });
+
+const sendJson = (response: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): number => {
+  const json = JSON.stringify(body);
+  response.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+  response.end(json);
+  return Buffer.byteLength(json);
+};
+
+interface ServerOptions {
+  port: number;
+  host: string;
+  /** Appends one JSON line per request to this file, besides printing it. */
+  logFile?: string;
+  /** Identify clients by the X-Forwarded-For address the reverse proxy in front of the server added. */
+  trustProxy: boolean;
+}
+
+const clientId = (request: IncomingMessage, trustProxy: boolean): string => {
+  const forwarded = request.headers['x-forwarded-for'];
+  // The proxy appends the address it saw; earlier entries come from the client and can be forged.
+  const last = typeof forwarded === 'string' ? forwarded.split(',').pop()?.trim() : undefined;
+  if (trustProxy && last) return last;
+  return request.socket.remoteAddress ?? 'unknown';
+};
+
+const logUsage = (entry: Record<string, unknown>, logFile?: string) => {
+  const line = JSON.stringify({ time: new Date().toISOString(), provider: getProvider().id, ...entry });
+  console.log(line);
+  if (logFile) {
+    appendFile(logFile, `${line}\n`).catch((err) => console.error("Failed to write the usage log:", err));
+  }
+};
+
+const handleRequest = async (request: IncomingMessage, response: ServerResponse, options: ServerOptions) => {
+  const started = Date.now();
+  const client = clientId(request, options.trustProxy);
+  const path = new URL(request.url ?? '/', 'http://localhost').pathname;
+  const routeName = path.replace(/^\/api\//, '');
+  let status = 200;
+  let requestBytes = 0;
+  let responseBytes = 0;
+
+  try {
+    if (request.method === 'GET' && path === '/api/health') {
+      responseBytes = sendJson(response, 200, { ok: true, provider: getProvider().id });
+      return;
+    }
+    const route = path.startsWith('/api/') && Object.hasOwn(ROUTES, routeName) ? ROUTES[routeName] : undefined;
+    if (!route) throw new HttpError(404, 'Not found.');
+    if (request.method !== 'POST') throw new HttpError(405, 'Use POST.');
+
+    const retryAfter = takeRateLimit(client, route.lane);
+    if (retryAfter > 0) {
+      status = 429;
+      responseBytes = sendJson(response, status, { error: `Rate limit exceeded; try again in ${retryAfter} s.`, kind: 'quota' }, { 'Retry-After': String(retryAfter) });
+      return;
+    }
+
+    requestBytes = Number(request.headers['content-length']) || 0;
+    const result = await route.handle(await readBody(request));
+    responseBytes = sendJson(response, 200, result);
+  } catch (err) {
+    if (err instanceof HttpError) {
+      status = err.status;
+      responseBytes = sendJson(response, status, { error: err.message, kind: err.kind });
+    } else {
+      const error = classifyError(err);
+      status = ERROR_STATUSES[error.kind];
+      console.error(`${routeName} failed:`, error.message);
+      responseBytes = sendJson(response, status, { error: error.message, kind: error.kind, classified: error.classified });
+    }
+  } finally {
+    logUsage({ client, route: routeName, status, ms: Date.now() - started, requestBytes, responseBytes }, options.logFile);
+  }
+};
+
+const main = () => {
+  // Mirrors the browser build, which reads GEMINI_API_KEY from .env.local.
+  process.env.API_KEY ??= process.env.GEMINI_API_KEY;
+  const { values } = parseArgs({
+    options: {
+      port: { type: 'string', default: process.env.PORT ?? '8787' },
+      host: { type: 'string', default: '127.0.0.1' },
+      log: { type: 'string' },
+      mock: { type: 'boolean', default: false },
+      'trust-proxy': { type: 'boolean', default: false },
+    },
+  });
+  if (values.mock) setProvider(createMockProvider());
+
+  const options: ServerOptions = {
+    port: Number(values.port),
+    host: values.host,
+    logFile: values.log,
+    trustProxy: values['trust-proxy'],
+  };
+  const server = createServer((request, response) => {
+    handleRequest(request, response, options);
+  });
+  server.listen(options.port, options.host, () => {
+    console.log(`API server on http://${options.host}:${options.port}/api (provider: ${getProvider().id})`);
+  });
+};
+
+main();
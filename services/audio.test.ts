@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { bytesToBase64 } from './base64';
+import { changePcmTempo, getPcmDuration, PCM_SAMPLE_RATE, pcmToFloat32 } from './audio';
+
+const tone = (frequency: number, seconds: number): string => {
+  const bytes = new Uint8Array(Math.round(seconds * PCM_SAMPLE_RATE) * 2);
+  const view = new DataView(bytes.buffer);
+  for (let i = 0; i < bytes.length / 2; i++) {
+    view.setInt16(i * 2, Math.round(Math.sin((2 * Math.PI * frequency * i) / PCM_SAMPLE_RATE) * 8000), true);
+  }
+  return bytesToBase64(bytes);
+};
+
+// Estimates the pitch from upward zero crossings in the middle of the clip, away from the fades.
+const frequencyOf = (base64: string): number => {
+  const samples = pcmToFloat32(base64);
+  const middle = samples.subarray(Math.floor(samples.length * 0.25), Math.floor(samples.length * 0.75));
+  let crossings = 0;
+  for (let i = 1; i < middle.length; i++) if (middle[i - 1] < 0 && middle[i] >= 0) crossings++;
+  return crossings / (middle.length / PCM_SAMPLE_RATE);
+};
+
+describe('changePcmTempo', () => {
+  it('leaves audio at the natural pace untouched', () => {
+    const audio = tone(220, 0.5);
+    expect(changePcmTempo(audio, 1)).toBe(audio);
+  });
+
+  it.each([0.75, 0.9, 1.1, 1.25])('changes the length by 1/%s and keeps the pitch', (rate) => {
+    const audio = tone(180, 2);
+    const stretched = changePcmTempo(audio, rate);
+    expect(getPcmDuration(stretched)).toBeCloseTo(2 / rate, 2);
+    expect(frequencyOf(stretched)).toBeCloseTo(180, -1);
+    // Windows that line up add back to the original level, without clicks.
+    const samples = pcmToFloat32(stretched).subarray(PCM_SAMPLE_RATE / 10, -PCM_SAMPLE_RATE / 10);
+    expect(Math.max(...samples.map(Math.abs))).toBeLessThan(0.26);
+    expect(Math.sqrt(samples.reduce((sum, value) => sum + value * value, 0) / samples.length)).toBeCloseTo(8000 / 0x8000 / Math.SQRT2, 2);
+  });
+});
@@ -0,0 +1,198 @@
+// Helpers for the raw PCM returned by the speech model: WAV wrapping, durations and Web Audio buffers.
+import { base64ToBytes, bytesToBase64 } from "./base64";
+
+/** Sample rate of the speech model's output (24 kHz, 16-bit, mono), as per Gemini TTS documentation. */
+export const PCM_SAMPLE_RATE = 24000;
+const BYTES_PER_SAMPLE = 2;
+
+// Helper to write string to DataView
+const writeString = (view: DataView, offset: number, string: string) => {
+    for (let i = 0; i < string.length; i++) {
+        view.setUint8(offset + i, string.charCodeAt(i));
+    }
+};
+
+// Converts raw PCM data (from base64) to a WAV Blob that browsers can play
+export const createWavBlob = (base64: string): Blob => {
+    const pcmData = base64ToBytes(base64);
+
+    const sampleRate = PCM_SAMPLE_RATE;
+    const numChannels = 1;
+    const bitsPerSample = 16;
+    const dataSize = pcmData.length;
+
+    const buffer = new ArrayBuffer(44 + dataSize);
+    const view = new DataView(buffer);
+
+    // RIFF header
+    writeString(view, 0, 'RIFF');
+    view.setUint32(4, 36 + dataSize, true);
+    writeString(view, 8, 'WAVE');
+
+    // "fmt " sub-chunk
+    writeString(view, 12, 'fmt ');
+    view.setUint32(16, 16, true); // Sub-chunk size
+    view.setUint16(20, 1, true); // Audio format (1 for PCM)
+    view.setUint16(22, numChannels, true);
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * numChannels * (bitsPerSample / 8), true); // Byte rate
+    view.setUint16(32, numChannels * (bitsPerSample / 8), true); // Block align
+    view.setUint16(34, bitsPerSample, true);
+
+    // "data" sub-chunk
+    writeString(view, 36, 'data');
+    view.setUint32(40, dataSize, true);
+    
+    // Write PCM data
+    for (let i = 0; i < dataSize; i++) {
+        view.setUint8(44 + i, pcmData[i]);
+    }
+
+    return new Blob([view], { type: 'audio/wav' });
+};
+
+/** Length in seconds of base64 encoded 16-bit mono PCM. */
+export const getPcmDuration = (base64: string): number => {
+    // Each 4 base64 characters hold 3 bytes, minus padding.
+    const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+    const byteLength = (base64.length / 4) * 3 - padding;
+    return byteLength / BYTES_PER_SAMPLE / PCM_SAMPLE_RATE;
+};
+
+/** Decodes base64 encoded 16-bit mono PCM into samples in the range [-1, 1]. */
+export const pcmToFloat32 = (base64: string): Float32Array => {
+    const bytes = base64ToBytes(base64);
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const samples = new Float32Array(Math.floor(bytes.length / BYTES_PER_SAMPLE));
+    for (let i = 0; i < samples.length; i++) {
+        samples[i] = view.getInt16(i * BYTES_PER_SAMPLE, true) / 0x8000;
+    }
+    return samples;
+};
+
+/** Wraps base64 encoded PCM in an AudioBuffer that any AudioContext can play. */
+export const pcmToAudioBuffer = (context: BaseAudioContext, base64: string): AudioBuffer => {
+    const samples = pcmToFloat32(base64);
+    const buffer = context.createBuffer(1, Math.max(samples.length, 1), PCM_SAMPLE_RATE);
+    buffer.copyToChannel(samples, 0);
+    return buffer;
+};
+
+/**
+ * Joins base64 encoded PCM clips into one, with silence between them.
+ * @param clips - The clips, in order.
+ * @param pauseSeconds - Silence inserted between consecutive clips.
+ */
+export const concatPcm = (clips: string[], pauseSeconds = 0): string => {
+    const parts = clips.map(base64ToBytes);
+    // Keep the pause a whole number of samples so the 16-bit samples stay aligned.
+    const pauseBytes = Math.round(pauseSeconds * PCM_SAMPLE_RATE) * BYTES_PER_SAMPLE;
+    const total = parts.reduce((sum, part) => sum + part.length, 0) + pauseBytes * Math.max(parts.length - 1, 0);
+    const joined = new Uint8Array(total);
+    let offset = 0;
+    parts.forEach((part, index) => {
+        if (index > 0) offset += pauseBytes;
+        joined.set(part, offset);
+        offset += part.length;
+    });
+    return bytesToBase64(joined);
+};
+
+/** Encodes samples in the range [-1, 1] as base64 16-bit mono PCM. */
+const float32ToPcm = (samples: Float32Array): string => {
+    const bytes = new Uint8Array(samples.length * BYTES_PER_SAMPLE);
+    const view = new DataView(bytes.buffer);
+    samples.forEach((value, i) => {
+        const sample = Math.max(-1, Math.min(1, value));
+        view.setInt16(i * BYTES_PER_SAMPLE, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+    });
+    return bytesToBase64(bytes);
+};
+
+// 40 ms windows hold a couple of pitch periods of any voice; the search range covers one period of a low one.
+const TEMPO_FRAME_SECONDS = 0.04;
+const TEMPO_SEARCH_SECONDS = 0.01;
+
+/**
+ * Speeds up or slows down base64 encoded 16-bit mono PCM without changing its pitch (WSOLA:
+ * overlapping windows are taken from the input at the new pace, each shifted to where it best
+ * continues the previous one, and added back at the original pace).
+ * @param base64 - The audio.
+ * @param rate - Multiple of the original pace; 1.25 plays a quarter faster, so it lasts 1/1.25 as long.
+ */
+export const changePcmTempo = (base64: string, rate: number): string => {
+    if (rate === 1 || !(rate > 0)) return base64;
+    const input = pcmToFloat32(base64);
+    const sampleAt = (index: number) => (index >= 0 && index < input.length ? input[index] : 0);
+    const frame = Math.round(TEMPO_FRAME_SECONDS * PCM_SAMPLE_RATE);
+    const hop = frame / 2;
+    const search = Math.round(TEMPO_SEARCH_SECONDS * PCM_SAMPLE_RATE);
+    const outputLength = Math.round(input.length / rate);
+    const window = Float32Array.from({ length: frame }, (_, n) => 0.5 - 0.5 * Math.cos((2 * Math.PI * n) / frame));
+    const output = new Float32Array(outputLength + frame);
+    const weights = new Float32Array(outputLength + frame);
+
+    let previous = 0;
+    for (let k = 0; k * hop < outputLength; k++) {
+        let start = Math.round(k * hop * rate);
+        if (k > 0) {
+            // The window's first half is laid over the previous window's second half, so it should match
+            // what followed that window in the input. Every other sample is enough to find the best shift.
+            const nominal = start;
+            let best = -Infinity;
+            for (let offset = -search; offset <= search; offset += 2) {
+                const candidate = nominal + offset;
+                if (candidate < 0) continue;
+                let score = 0;
+                for (let n = 0; n < hop; n += 2) score += sampleAt(candidate + n) * sampleAt(previous + hop + n);
+                if (score > best) {
+                    best = score;
+                    start = candidate;
+                }
+            }
+        }
+        for (let n = 0; n < frame; n++) {
+            output[k * hop + n] += sampleAt(start + n) * window[n];
+            weights[k * hop + n] += window[n];
+        }
+        previous = start;
+    }
+
+    const samples = output.subarray(0, outputLength).map((value, i) => (weights[i] > 1e-6 ? value / weights[i] : 0));
+    return float32ToPcm(samples);
+};
+
+/** Encodes an AudioBuffer (any sample rate and channel count) as a 16-bit PCM WAV file. */
+export const audioBufferToWavBlob = (audio: AudioBuffer): Blob => {
+    const numChannels = audio.numberOfChannels;
+    const dataSize = audio.length * numChannels * BYTES_PER_SAMPLE;
+    const buffer = new ArrayBuffer(44 + dataSize);
+    const view = new DataView(buffer);
+
+    writeString(view, 0, 'RIFF');
+    view.setUint32(4, 36 + dataSize, true);
+    writeString(view, 8, 'WAVE');
+    writeString(view, 12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true);
+    view.setUint16(22, numChannels, true);
+    view.setUint32(24, audio.sampleRate, true);
+    view.setUint32(28, audio.sampleRate * numChannels * BYTES_PER_SAMPLE, true);
+    view.setUint16(32, numChannels * BYTES_PER_SAMPLE, true);
+    view.setUint16(34, BYTES_PER_SAMPLE * 8, true);
+    writeString(view, 36, 'data');
+    view.setUint32(40, dataSize, true);
+
+    // Samples are interleaved: L R L R ... for stereo.
+    const channels = Array.from({ length: numChannels }, (_, channel) => audio.getChannelData(channel));
+    let offset = 44;
+    for (let i = 0; i < audio.length; i++) {
+        for (const samples of channels) {
+            const sample = Math.max(-1, Math.min(1, samples[i]));
+            view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+            offset += BYTES_PER_SAMPLE;
+        }
+    }
+
+    return new Blob([view], { type: 'audio/wav' });
+};
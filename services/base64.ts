@@ -0,0 +1,49 @@
+// Base64 helpers that work both in the browser and in Node (which exposes atob/btoa globally).
+import { t } from "./i18n";
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    const chunkSize = 0x8000;
+    for (let i = 0; i < bytes.length; i += chunkSize) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+    }
+    return btoa(binary);
+};
+
+/** Splits a `data:<mime>;base64,<data>` URL into its MIME type and base64 payload. */
+export const parseDataUrl = (dataUrl: string): { mimeType: string; data: string } => {
+    const match = dataUrl.match(/^data:([^;,]+);base64,(.*)$/);
+    if (!match) {
+        throw new Error(t('errors.invalidDataUrl'));
+    }
+    return { mimeType: match[1], data: match[2] };
+};
+
+/** Builds a `data:<mime>;base64,<data>` URL. */
+export const toDataUrl = ({ mimeType, data }: { mimeType: string; data: string }): string => `data:${mimeType};base64,${data}`;
+
+/** Characters of a data URL that `dataUrlKey` reads. */
+const KEY_SAMPLES = 4096;
+
+/**
+ * A short id for a data URL, such as a generated image: its length and an FNV-1a hash of evenly
+ * spaced characters, so images of several megabytes are told apart without reading all of them.
+ */
+export const dataUrlKey = (dataUrl: string): string => {
+    const step = Math.max(1, Math.floor(dataUrl.length / KEY_SAMPLES));
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < dataUrl.length; i += step) {
+        hash ^= dataUrl.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return `${dataUrl.length.toString(36)}-${(hash >>> 0).toString(36)}`;
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+    const binaryString = atob(base64);
+    const bytes = new Uint8Array(binaryString.length);
+    for (let i = 0; i < binaryString.length; i++) {
+        bytes[i] = binaryString.charCodeAt(i);
+    }
+    return bytes;
+};
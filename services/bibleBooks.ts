@@ -0,0 +1,467 @@
+// Canonical book table for the 66-book Protestant canon.
+// Ids follow OSIS book names; verse counts follow the KJV/Almeida versification.
+
+export type BookLanguage = 'pt' | 'en' | 'es';
+
+export interface BibleBook {
+  /** OSIS book id, e.g. 'Gen' or '1Sam'. */
+  id: string;
+  names: Record<BookLanguage, string>;
+  /** Common abbreviations and alternative names, in addition to `names`. */
+  abbreviations: Record<BookLanguage, string[]>;
+  /** Number of verses in each chapter; `verses[0]` is chapter 1. */
+  verses: number[];
+}
+
+export const BIBLE_BOOKS: BibleBook[] = [
+  {
+    id: 'Gen',
+    names: { pt: 'Gênesis', en: 'Genesis', es: 'Génesis' },
+    abbreviations: { pt: ['Gn'], en: ['Gen', 'Ge'], es: ['Gn', 'Gén'] },
+    verses: [
+      31, 25, 24, 26, 32, 22, 24, 22, 29, 32, 32, 20, 18, 24, 21, 16, 27, 33, 38, 18, 34, 24, 20, 67, 34,
+      35, 46, 22, 35, 43, 55, 32, 20, 31, 29, 43, 36, 30, 23, 23, 57, 38, 34, 34, 28, 34, 31, 22, 33, 26,
+    ],
+  },
+  {
+    id: 'Exod',
+    names: { pt: 'Êxodo', en: 'Exodus', es: 'Éxodo' },
+    abbreviations: { pt: ['Êx'], en: ['Exod', 'Ex'], es: ['Éx'] },
+    verses: [
+      22, 25, 22, 31, 23, 30, 25, 32, 35, 29, 10, 51, 22, 31, 27, 36, 16, 27, 25, 26, 36, 31, 33, 18, 40,
+      37, 21, 43, 46, 38, 18, 35, 23, 35, 35, 38, 29, 31, 43, 38,
+    ],
+  },
+  {
+    id: 'Lev',
+    names: { pt: 'Levítico', en: 'Leviticus', es: 'Levítico' },
+    abbreviations: { pt: ['Lv'], en: ['Lev'], es: ['Lv', 'Lev'] },
+    verses: [
+      17, 16, 17, 35, 19, 30, 38, 36, 24, 20, 47, 8, 59, 57, 33, 34, 16, 30, 37, 27, 24, 33, 44, 23, 55,
+      46, 34,
+    ],
+  },
+  {
+    id: 'Num',
+    names: { pt: 'Números', en: 'Numbers', es: 'Números' },
+    abbreviations: { pt: ['Nm'], en: ['Num'], es: ['Nm', 'Núm'] },
+    verses: [
+      54, 34, 51, 49, 31, 27, 89, 26, 23, 36, 35, 16, 33, 45, 41, 50, 13, 32, 22, 29, 35, 41, 30, 25, 18,
+      65, 23, 31, 40, 16, 54, 42, 56, 29, 34, 13,
+    ],
+  },
+  {
+    id: 'Deut',
+    names: { pt: 'Deuteronômio', en: 'Deuteronomy', es: 'Deuteronomio' },
+    abbreviations: { pt: ['Dt'], en: ['Deut', 'Dt'], es: ['Dt'] },
+    verses: [
+      46, 37, 29, 49, 33, 25, 26, 20, 29, 22, 32, 32, 18, 29, 23, 22, 20, 22, 21, 20, 23, 30, 25, 22, 19,
+      19, 26, 68, 29, 20, 30, 52, 29, 12,
+    ],
+  },
+  {
+    id: 'Josh',
+    names: { pt: 'Josué', en: 'Joshua', es: 'Josué' },
+    abbreviations: { pt: ['Js'], en: ['Josh'], es: ['Jos'] },
+    verses: [18, 24, 17, 24, 15, 27, 26, 35, 27, 43, 23, 24, 33, 15, 63, 10, 18, 28, 51, 9, 45, 34, 16, 33],
+  },
+  {
+    id: 'Judg',
+    names: { pt: 'Juízes', en: 'Judges', es: 'Jueces' },
+    abbreviations: { pt: ['Jz'], en: ['Judg', 'Jdg'], es: ['Jue', 'Jc'] },
+    verses: [36, 23, 31, 24, 31, 40, 25, 35, 57, 18, 40, 15, 25, 20, 20, 31, 13, 31, 30, 48, 25],
+  },
+  {
+    id: 'Ruth',
+    names: { pt: 'Rute', en: 'Ruth', es: 'Rut' },
+    abbreviations: { pt: ['Rt'], en: ['Ru'], es: ['Rt'] },
+    verses: [22, 23, 18, 22],
+  },
+  {
+    id: '1Sam',
+    names: { pt: '1 Samuel', en: '1 Samuel', es: '1 Samuel' },
+    abbreviations: { pt: ['1 Sm'], en: ['1 Sam', '1 Sa'], es: ['1 S', '1 Sam'] },
+    verses: [
+      28, 36, 21, 22, 12, 21, 17, 22, 27, 27, 15, 25, 23, 52, 35, 23, 58, 30, 24, 42, 15, 23, 29, 22, 44,
+      25, 12, 25, 11, 31, 13,
+    ],
+  },
+  {
+    id: '2Sam',
+    names: { pt: '2 Samuel', en: '2 Samuel', es: '2 Samuel' },
+    abbreviations: { pt: ['2 Sm'], en: ['2 Sam', '2 Sa'], es: ['2 S', '2 Sam'] },
+    verses: [27, 32, 39, 12, 25, 23, 29, 18, 13, 19, 27, 31, 39, 33, 37, 23, 29, 33, 43, 26, 22, 51, 39, 25],
+  },
+  {
+    id: '1Kgs',
+    names: { pt: '1 Reis', en: '1 Kings', es: '1 Reyes' },
+    abbreviations: { pt: ['1 Rs'], en: ['1 Kgs', '1 Ki'], es: ['1 R', '1 Re'] },
+    verses: [53, 46, 28, 34, 18, 38, 51, 66, 28, 29, 43, 33, 34, 31, 34, 34, 24, 46, 21, 43, 29, 53],
+  },
+  {
+    id: '2Kgs',
+    names: { pt: '2 Reis', en: '2 Kings', es: '2 Reyes' },
+    abbreviations: { pt: ['2 Rs'], en: ['2 Kgs', '2 Ki'], es: ['2 R', '2 Re'] },
+    verses: [18, 25, 27, 44, 27, 33, 20, 29, 37, 36, 21, 21, 25, 29, 38, 20, 41, 37, 37, 21, 26, 20, 37, 20, 30],
+  },
+  {
+    id: '1Chr',
+    names: { pt: '1 Crônicas', en: '1 Chronicles', es: '1 Crónicas' },
+    abbreviations: { pt: ['1 Cr'], en: ['1 Chr', '1 Ch'], es: ['1 Cr', '1 Cro'] },
+    verses: [
+      54, 55, 24, 43, 26, 81, 40, 40, 44, 14, 47, 40, 14, 17, 29, 43, 27, 17, 19, 8, 30, 19, 32, 31, 31,
+      32, 34, 21, 30,
+    ],
+  },
+  {
+    id: '2Chr',
+    names: { pt: '2 Crônicas', en: '2 Chronicles', es: '2 Crónicas' },
+    abbreviations: { pt: ['2 Cr'], en: ['2 Chr', '2 Ch'], es: ['2 Cr', '2 Cro'] },
+    verses: [
+      17, 18, 17, 22, 14, 42, 22, 18, 31, 19, 23, 16, 22, 15, 19, 14, 19, 34, 11, 37, 20, 12, 21, 27, 28,
+      23, 9, 27, 36, 27, 21, 33, 25, 33, 27, 23,
+    ],
+  },
+  {
+    id: 'Ezra',
+    names: { pt: 'Esdras', en: 'Ezra', es: 'Esdras' },
+    abbreviations: { pt: ['Ed', 'Esd'], en: ['Ezr'], es: ['Esd'] },
+    verses: [11, 70, 13, 24, 17, 22, 28, 36, 15, 44],
+  },
+  {
+    id: 'Neh',
+    names: { pt: 'Neemias', en: 'Nehemiah', es: 'Nehemías' },
+    abbreviations: { pt: ['Ne'], en: ['Neh'], es: ['Neh'] },
+    verses: [11, 20, 32, 23, 19, 19, 73, 18, 38, 39, 36, 47, 31],
+  },
+  {
+    id: 'Esth',
+    names: { pt: 'Ester', en: 'Esther', es: 'Ester' },
+    abbreviations: { pt: ['Et', 'Est'], en: ['Esth', 'Est'], es: ['Est'] },
+    verses: [22, 23, 15, 17, 14, 14, 10, 17, 32, 3],
+  },
+  {
+    id: 'Job',
+    names: { pt: 'Jó', en: 'Job', es: 'Job' },
+    abbreviations: { pt: [], en: ['Jb'], es: [] },
+    verses: [
+      22, 13, 26, 21, 27, 30, 21, 22, 35, 22, 20, 25, 28, 22, 35, 22, 16, 21, 29, 29, 34, 30, 17, 25, 6,
+      14, 23, 28, 25, 31, 40, 22, 33, 37, 16, 33, 24, 41, 30, 24, 34, 17,
+    ],
+  },
+  {
+    id: 'Ps',
+    names: { pt: 'Salmos', en: 'Psalms', es: 'Salmos' },
+    abbreviations: { pt: ['Sl', 'Salmo'], en: ['Ps', 'Psa', 'Psalm'], es: ['Sal', 'Salmo'] },
+    verses: [
+      6, 12, 8, 8, 12, 10, 17, 9, 20, 18, 7, 8, 6, 7, 5, 11, 15, 50, 14, 9, 13, 31, 6, 10, 22,
+      12, 14, 9, 11, 12, 24, 11, 22, 22, 28, 12, 40, 22, 13, 17, 13, 11, 5, 26, 17, 11, 9, 14, 20, 23,
+      19, 9, 6, 7, 23, 13, 11, 11, 17, 12, 8, 12, 11, 10, 13, 20, 7, 35, 36, 5, 24, 20, 28, 23, 10,
+      12, 20, 72, 13, 19, 16, 8, 18, 12, 13, 17, 7, 18, 52, 17, 16, 15, 5, 23, 11, 13, 12, 9, 9, 5,
+      8, 28, 22, 35, 45, 48, 43, 13, 31, 7, 10, 10, 9, 8, 18, 19, 2, 29, 176, 7, 8, 9, 4, 8, 5,
+      6, 5, 6, 8, 8, 3, 18, 3, 3, 21, 26, 9, 8, 24, 13, 10, 7, 12, 15, 21, 10, 20, 14, 9, 6,
+    ],
+  },
+  {
+    id: 'Prov',
+    names: { pt: 'Provérbios', en: 'Proverbs', es: 'Proverbios' },
+    abbreviations: { pt: ['Pv', 'Pr'], en: ['Prov', 'Pr'], es: ['Pr', 'Prov'] },
+    verses: [
+      33, 22, 35, 27, 23, 35, 27, 36, 18, 32, 31, 28, 25, 35, 33, 33, 28, 24, 29, 30, 31, 29, 35, 34, 28,
+      28, 27, 28, 27, 33, 31,
+    ],
+  },
+  {
+    id: 'Eccl',
+    names: { pt: 'Eclesiastes', en: 'Ecclesiastes', es: 'Eclesiastés' },
+    abbreviations: { pt: ['Ec'], en: ['Eccl', 'Ecc'], es: ['Ec', 'Ecl'] },
+    verses: [18, 26, 22, 16, 20, 12, 29, 17, 18, 20, 10, 14],
+  },
+  {
+    id: 'Song',
+    names: { pt: 'Cânticos', en: 'Song of Solomon', es: 'Cantares' },
+    abbreviations: { pt: ['Ct', 'Cântico dos Cânticos'], en: ['Song', 'Song of Songs'], es: ['Cnt', 'Cantar de los Cantares'] },
+    verses: [17, 17, 11, 16, 16, 13, 13, 14],
+  },
+  {
+    id: 'Isa',
+    names: { pt: 'Isaías', en: 'Isaiah', es: 'Isaías' },
+    abbreviations: { pt: ['Is'], en: ['Isa'], es: ['Is'] },
+    verses: [
+      31, 22, 26, 6, 30, 13, 25, 22, 21, 34, 16, 6, 22, 32, 9, 14, 14, 7, 25, 6, 17, 25, 18, 23, 12,
+      21, 13, 29, 24, 33, 9, 20, 24, 17, 10, 22, 38, 22, 8, 31, 29, 25, 28, 28, 25, 13, 15, 22, 26, 11,
+      23, 15, 12, 17, 13, 12, 21, 14, 21, 22, 11, 12, 19, 12, 25, 24,
+    ],
+  },
+  {
+    id: 'Jer',
+    names: { pt: 'Jeremias', en: 'Jeremiah', es: 'Jeremías' },
+    abbreviations: { pt: ['Jr'], en: ['Jer'], es: ['Jer', 'Jr'] },
+    verses: [
+      19, 37, 25, 31, 31, 30, 34, 22, 26, 25, 23, 17, 27, 22, 21, 21, 27, 23, 15, 18, 14, 30, 40, 10, 38,
+      24, 22, 17, 32, 24, 40, 44, 26, 22, 19, 32, 21, 28, 18, 16, 18, 22, 13, 30, 5, 28, 7, 47, 39, 46,
+      64, 34,
+    ],
+  },
+  {
+    id: 'Lam',
+    names: { pt: 'Lamentações', en: 'Lamentations', es: 'Lamentaciones' },
+    abbreviations: { pt: ['Lm'], en: ['Lam'], es: ['Lm', 'Lam'] },
+    verses: [22, 22, 66, 22, 22],
+  },
+  {
+    id: 'Ezek',
+    names: { pt: 'Ezequiel', en: 'Ezekiel', es: 'Ezequiel' },
+    abbreviations: { pt: ['Ez'], en: ['Ezek', 'Ezk'], es: ['Ez'] },
+    verses: [
+      28, 10, 27, 17, 17, 14, 27, 18, 11, 22, 25, 28, 23, 23, 8, 63, 24, 32, 14, 49, 32, 31, 49, 27, 17,
+      21, 36, 26, 21, 26, 18, 32, 33, 31, 15, 38, 28, 23, 29, 49, 26, 20, 27, 31, 25, 24, 23, 35,
+    ],
+  },
+  {
+    id: 'Dan',
+    names: { pt: 'Daniel', en: 'Daniel', es: 'Daniel' },
+    abbreviations: { pt: ['Dn'], en: ['Dan', 'Dn'], es: ['Dn', 'Dan'] },
+    verses: [21, 49, 30, 37, 31, 28, 28, 27, 27, 21, 45, 13],
+  },
+  {
+    id: 'Hos',
+    names: { pt: 'Oséias', en: 'Hosea', es: 'Oseas' },
+    abbreviations: { pt: ['Os'], en: ['Hos'], es: ['Os'] },
+    verses: [11, 23, 5, 19, 15, 11, 16, 14, 17, 15, 12, 14, 16, 9],
+  },
+  {
+    id: 'Joel',
+    names: { pt: 'Joel', en: 'Joel', es: 'Joel' },
+    abbreviations: { pt: ['Jl'], en: ['Jl'], es: ['Jl'] },
+    verses: [20, 32, 21],
+  },
+  {
+    id: 'Amos',
+    names: { pt: 'Amós', en: 'Amos', es: 'Amós' },
+    abbreviations: { pt: ['Am'], en: ['Am'], es: ['Am'] },
+    verses: [15, 16, 15, 13, 27, 14, 17, 14, 15],
+  },
+  {
+    id: 'Obad',
+    names: { pt: 'Obadias', en: 'Obadiah', es: 'Abdías' },
+    abbreviations: { pt: ['Ob'], en: ['Obad', 'Ob'], es: ['Abd'] },
+    verses: [21],
+  },
+  {
+    id: 'Jonah',
+    names: { pt: 'Jonas', en: 'Jonah', es: 'Jonás' },
+    abbreviations: { pt: ['Jn'], en: ['Jon'], es: ['Jon'] },
+    verses: [17, 10, 10, 11],
+  },
+  {
+    id: 'Mic',
+    names: { pt: 'Miquéias', en: 'Micah', es: 'Miqueas' },
+    abbreviations: { pt: ['Mq'], en: ['Mic'], es: ['Miq'] },
+    verses: [16, 13, 12, 13, 15, 16, 20],
+  },
+  {
+    id: 'Nah',
+    names: { pt: 'Naum', en: 'Nahum', es: 'Nahúm' },
+    abbreviations: { pt: ['Na'], en: ['Nah'], es: ['Nah'] },
+    verses: [15, 13, 19],
+  },
+  {
+    id: 'Hab',
+    names: { pt: 'Habacuque', en: 'Habakkuk', es: 'Habacuc' },
+    abbreviations: { pt: ['Hc'], en: ['Hab'], es: ['Hab'] },
+    verses: [17, 20, 19],
+  },
+  {
+    id: 'Zeph',
+    names: { pt: 'Sofonias', en: 'Zephaniah', es: 'Sofonías' },
+    abbreviations: { pt: ['Sf'], en: ['Zeph', 'Zep'], es: ['Sof'] },
+    verses: [18, 15, 20],
+  },
+  {
+    id: 'Hag',
+    names: { pt: 'Ageu', en: 'Haggai', es: 'Hageo' },
+    abbreviations: { pt: ['Ag'], en: ['Hag'], es: ['Hag'] },
+    verses: [15, 23],
+  },
+  {
+    id: 'Zech',
+    names: { pt: 'Zacarias', en: 'Zechariah', es: 'Zacarías' },
+    abbreviations: { pt: ['Zc'], en: ['Zech', 'Zec'], es: ['Zac'] },
+    verses: [21, 13, 10, 14, 11, 15, 14, 23, 17, 12, 17, 14, 9, 21],
+  },
+  {
+    id: 'Mal',
+    names: { pt: 'Malaquias', en: 'Malachi', es: 'Malaquías' },
+    abbreviations: { pt: ['Ml'], en: ['Mal'], es: ['Mal'] },
+    verses: [14, 17, 18, 6],
+  },
+  {
+    id: 'Matt',
+    names: { pt: 'Mateus', en: 'Matthew', es: 'Mateo' },
+    abbreviations: { pt: ['Mt'], en: ['Matt', 'Mt'], es: ['Mt'] },
+    verses: [
+      25, 23, 17, 25, 48, 34, 29, 34, 38, 42, 30, 50, 58, 36, 39, 28, 27, 35, 30, 34, 46, 46, 39, 51, 46,
+      75, 66, 20,
+    ],
+  },
+  {
+    id: 'Mark',
+    names: { pt: 'Marcos', en: 'Mark', es: 'Marcos' },
+    abbreviations: { pt: ['Mc'], en: ['Mk', 'Mrk'], es: ['Mr', 'Mc'] },
+    verses: [45, 28, 35, 41, 43, 56, 37, 38, 50, 52, 33, 44, 37, 72, 47, 20],
+  },
+  {
+    id: 'Luke',
+    names: { pt: 'Lucas', en: 'Luke', es: 'Lucas' },
+    abbreviations: { pt: ['Lc'], en: ['Lk', 'Luk'], es: ['Lc'] },
+    verses: [80, 52, 38, 44, 39, 49, 50, 56, 62, 42, 54, 59, 35, 35, 32, 31, 37, 43, 48, 47, 38, 71, 56, 53],
+  },
+  {
+    id: 'John',
+    names: { pt: 'João', en: 'John', es: 'Juan' },
+    abbreviations: { pt: ['Jo'], en: ['Jn', 'Jhn'], es: ['Jn'] },
+    verses: [51, 25, 36, 54, 47, 71, 53, 59, 41, 42, 57, 50, 38, 31, 27, 33, 26, 40, 42, 31, 25],
+  },
+  {
+    id: 'Acts',
+    names: { pt: 'Atos', en: 'Acts', es: 'Hechos' },
+    abbreviations: { pt: ['At'], en: ['Ac'], es: ['Hch', 'Hech'] },
+    verses: [
+      26, 47, 26, 37, 42, 15, 60, 40, 43, 48, 30, 25, 52, 28, 41, 40, 34, 28, 41, 38, 40, 30, 35, 27, 27,
+      32, 44, 31,
+    ],
+  },
+  {
+    id: 'Rom',
+    names: { pt: 'Romanos', en: 'Romans', es: 'Romanos' },
+    abbreviations: { pt: ['Rm'], en: ['Rom', 'Ro'], es: ['Ro', 'Rom'] },
+    verses: [32, 29, 31, 25, 21, 23, 25, 39, 33, 21, 36, 21, 14, 23, 33, 27],
+  },
+  {
+    id: '1Cor',
+    names: { pt: '1 Coríntios', en: '1 Corinthians', es: '1 Corintios' },
+    abbreviations: { pt: ['1 Co'], en: ['1 Cor', '1 Co'], es: ['1 Co', '1 Cor'] },
+    verses: [31, 16, 23, 21, 13, 20, 40, 13, 27, 33, 34, 31, 13, 40, 58, 24],
+  },
+  {
+    id: '2Cor',
+    names: { pt: '2 Coríntios', en: '2 Corinthians', es: '2 Corintios' },
+    abbreviations: { pt: ['2 Co'], en: ['2 Cor', '2 Co'], es: ['2 Co', '2 Cor'] },
+    verses: [24, 17, 18, 18, 21, 18, 16, 24, 15, 18, 33, 21, 14],
+  },
+  {
+    id: 'Gal',
+    names: { pt: 'Gálatas', en: 'Galatians', es: 'Gálatas' },
+    abbreviations: { pt: ['Gl'], en: ['Gal', 'Ga'], es: ['Gá', 'Gal'] },
+    verses: [24, 21, 29, 31, 26, 18],
+  },
+  {
+    id: 'Eph',
+    names: { pt: 'Efésios', en: 'Ephesians', es: 'Efesios' },
+    abbreviations: { pt: ['Ef'], en: ['Eph'], es: ['Ef'] },
+    verses: [23, 22, 21, 32, 33, 24],
+  },
+  {
+    id: 'Phil',
+    names: { pt: 'Filipenses', en: 'Philippians', es: 'Filipenses' },
+    abbreviations: { pt: ['Fp'], en: ['Phil', 'Php'], es: ['Flp', 'Fil'] },
+    verses: [30, 30, 21, 23],
+  },
+  {
+    id: 'Col',
+    names: { pt: 'Colossenses', en: 'Colossians', es: 'Colosenses' },
+    abbreviations: { pt: ['Cl'], en: ['Col'], es: ['Col'] },
+    verses: [29, 23, 25, 18],
+  },
+  {
+    id: '1Thess',
+    names: { pt: '1 Tessalonicenses', en: '1 Thessalonians', es: '1 Tesalonicenses' },
+    abbreviations: { pt: ['1 Ts'], en: ['1 Thess', '1 Th'], es: ['1 Ts', '1 Tes'] },
+    verses: [10, 20, 13, 18, 28],
+  },
+  {
+    id: '2Thess',
+    names: { pt: '2 Tessalonicenses', en: '2 Thessalonians', es: '2 Tesalonicenses' },
+    abbreviations: { pt: ['2 Ts'], en: ['2 Thess', '2 Th'], es: ['2 Ts', '2 Tes'] },
+    verses: [12, 17, 18],
+  },
+  {
+    id: '1Tim',
+    names: { pt: '1 Timóteo', en: '1 Timothy', es: '1 Timoteo' },
+    abbreviations: { pt: ['1 Tm'], en: ['1 Tim', '1 Ti'], es: ['1 Ti', '1 Tim'] },
+    verses: [20, 15, 16, 16, 25, 21],
+  },
+  {
+    id: '2Tim',
+    names: { pt: '2 Timóteo', en: '2 Timothy', es: '2 Timoteo' },
+    abbreviations: { pt: ['2 Tm'], en: ['2 Tim', '2 Ti'], es: ['2 Ti', '2 Tim'] },
+    verses: [18, 26, 17, 22],
+  },
+  {
+    id: 'Titus',
+    names: { pt: 'Tito', en: 'Titus', es: 'Tito' },
+    abbreviations: { pt: ['Tt'], en: ['Tit'], es: ['Tit'] },
+    verses: [16, 15, 15],
+  },
+  {
+    id: 'Phlm',
+    names: { pt: 'Filemom', en: 'Philemon', es: 'Filemón' },
+    abbreviations: { pt: ['Fm'], en: ['Phlm', 'Phm'], es: ['Flm'] },
+    verses: [25],
+  },
+  {
+    id: 'Heb',
+    names: { pt: 'Hebreus', en: 'Hebrews', es: 'Hebreos' },
+    abbreviations: { pt: ['Hb'], en: ['Heb'], es: ['Heb'] },
+    verses: [14, 18, 19, 16, 14, 20, 28, 13, 28, 39, 40, 29, 25],
+  },
+  {
+    id: 'Jas',
+    names: { pt: 'Tiago', en: 'James', es: 'Santiago' },
+    abbreviations: { pt: ['Tg'], en: ['Jas', 'Jm'], es: ['Stg', 'Sant'] },
+    verses: [27, 26, 18, 17, 20],
+  },
+  {
+    id: '1Pet',
+    names: { pt: '1 Pedro', en: '1 Peter', es: '1 Pedro' },
+    abbreviations: { pt: ['1 Pe'], en: ['1 Pet', '1 Pt'], es: ['1 P', '1 Pe'] },
+    verses: [25, 25, 22, 19, 14],
+  },
+  {
+    id: '2Pet',
+    names: { pt: '2 Pedro', en: '2 Peter', es: '2 Pedro' },
+    abbreviations: { pt: ['2 Pe'], en: ['2 Pet', '2 Pt'], es: ['2 P', '2 Pe'] },
+    verses: [21, 22, 18],
+  },
+  {
+    id: '1John',
+    names: { pt: '1 João', en: '1 John', es: '1 Juan' },
+    abbreviations: { pt: ['1 Jo'], en: ['1 Jn', '1 Jhn'], es: ['1 Jn'] },
+    verses: [10, 29, 24, 21, 21],
+  },
+  {
+    id: '2John',
+    names: { pt: '2 João', en: '2 John', es: '2 Juan' },
+    abbreviations: { pt: ['2 Jo'], en: ['2 Jn', '2 Jhn'], es: ['2 Jn'] },
+    verses: [13],
+  },
+  {
+    id: '3John',
+    names: { pt: '3 João', en: '3 John', es: '3 Juan' },
+    abbreviations: { pt: ['3 Jo'], en: ['3 Jn', '3 Jhn'], es: ['3 Jn'] },
+    verses: [14],
+  },
+  {
+    id: 'Jude',
+    names: { pt: 'Judas', en: 'Jude', es: 'Judas' },
+    abbreviations: { pt: ['Jd'], en: ['Jud'], es: ['Jud'] },
+    verses: [25],
+  },
+  {
+    id: 'Rev',
+    names: { pt: 'Apocalipse', en: 'Revelation', es: 'Apocalipsis' },
+    abbreviations: { pt: ['Ap'], en: ['Rev', 'Rv'], es: ['Ap', 'Apoc'] },
+    verses: [20, 29, 22, 11, 14, 17, 17, 13, 21, 11, 19, 17, 18, 20, 8, 21, 18, 24, 21, 15, 27, 21],
+  },
+];
@@ -0,0 +1,104 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { BIBLE_BOOKS } from './bibleBooks';
+import { detectCorpusFormat, parseCorpus, parseOsis, parseVerseCsv, parseVerseJson } from './bibleCorpus';
+import { validateBibleRef } from './bibleReference';
+
+describe('parseOsis', () => {
+  it('reads container verses and drops notes and headings', () => {
+    const xml = `<?xml version="1.0"?>
+      <osis><osisText><div type="book" osisID="Gen"><chapter osisID="Gen.1">
+        <title>The Creation</title>
+        <verse osisID="Gen.1.1">In the beginning <note>Or "When God began"</note>God created
+          the heaven &amp; the earth.</verse>
+        <verse osisID="Gen.1.2">And the earth was without form.</verse>
+      </chapter></div></osisText></osis>`;
+    expect(parseOsis(xml)).toEqual([
+      { book: 'Gen', chapter: 1, verse: 1, text: 'In the beginning God created the heaven & the earth.' },
+      { book: 'Gen', chapter: 1, verse: 2, text: 'And the earth was without form.' },
+    ]);
+  });
+
+  it('reads milestone verses and files merged verses under the first id', () => {
+    const xml = `<chapter osisID="John.11">
+      <verse sID="John.11.35" osisID="John.11.35"/>Jesus wept.<verse eID="John.11.35"/>
+      <verse sID="x" osisID="John.11.36 John.11.37"/>Then said the Jews&#x2C; Behold!<verse eID="x"/>
+    </chapter>`;
+    expect(parseOsis(xml)).toEqual([
+      { book: 'John', chapter: 11, verse: 35, text: 'Jesus wept.' },
+      { book: 'John', chapter: 11, verse: 36, text: 'Then said the Jews, Behold!' },
+    ]);
+  });
+});
+
+describe('parseVerseJson', () => {
+  it('accepts an array or a verses object, with names or ids for the book', () => {
+    const rows = [
+      { book: 'Gênesis', chapter: 1, verse: 1, text: ' No princípio ' },
+      { book: 'Gen', chapter: '1', verse: '2', text: 'E a terra' },
+      { book: 'Nowhere', chapter: 1, verse: 1, text: 'skipped' },
+      { book: 'Gen', chapter: 1, verse: 3 },
+      { book: 'Gen', chapter: { number: 1 }, verse: 4, text: 'skipped' },
+      'Gen 1:5',
+      null,
+    ];
+    const expected = [
+      { book: 'Gen', chapter: 1, verse: 1, text: 'No princípio' },
+      { book: 'Gen', chapter: 1, verse: 2, text: 'E a terra' },
+    ];
+    expect(parseVerseJson(JSON.stringify(rows))).toEqual(expected);
+    expect(parseVerseJson(JSON.stringify({ verses: rows }))).toEqual(expected);
+  });
+
+  it('rejects JSON without a verse list', () => {
+    expect(() => parseVerseJson('{"books": []}')).toThrow();
+  });
+});
+
+describe('parseVerseCsv', () => {
+  it('keeps delimiters and escaped quotes inside quoted fields', () => {
+    const csv = 'book,chapter,verse,text\r\nJohn,11,35,"Jesus wept, and said ""Lazarus"""\r\nJohn,11,36,Then said the Jews\r\n';
+    expect(parseVerseCsv(csv)).toEqual([
+      { book: 'John', chapter: 11, verse: 35, text: 'Jesus wept, and said "Lazarus"' },
+      { book: 'John', chapter: 11, verse: 36, text: 'Then said the Jews' },
+    ]);
+  });
+
+  it('detects semicolons and tabs and reads Portuguese headers in any order', () => {
+    expect(parseVerseCsv('Texto;Livro;Capítulo;Versículo\n"Jesus chorou; e";Jo;11;35')).toEqual([
+      { book: 'John', chapter: 11, verse: 35, text: 'Jesus chorou; e' },
+    ]);
+    expect(parseVerseCsv('libro\tcapitulo\tversiculo\ttexto\nJuan\t11\t35\tJesús lloró.')).toEqual([
+      { book: 'John', chapter: 11, verse: 35, text: 'Jesús lloró.' },
+    ]);
+  });
+
+  it('rejects a header without the required columns', () => {
+    expect(() => parseVerseCsv('book,chapter,text\nGen,1,x')).toThrow();
+  });
+});
+
+describe('detectCorpusFormat', () => {
+  it('uses the extension, then the content', () => {
+    expect(detectCorpusFormat('kjv.xml', '')).toBe('osis');
+    expect(detectCorpusFormat('arc.tsv', '')).toBe('csv');
+    expect(detectCorpusFormat('bible', '  [{"book":"Gen"}]')).toBe('json');
+    expect(detectCorpusFormat('bible', '<osis/>')).toBe('osis');
+  });
+});
+
+describe('bundled translations', () => {
+  it('lists files that parse and cover every verse of the reference tables', () => {
+    const directory = path.resolve(__dirname, '../public/bibles');
+    const index: { id: string; file: string }[] = JSON.parse(readFileSync(path.join(directory, 'index.json'), 'utf8'));
+    expect(index.length).toBeGreaterThan(0);
+    const verseCount = BIBLE_BOOKS.reduce((total, book) => total + book.verses.reduce((sum, count) => sum + count, 0), 0);
+    for (const { file } of index) {
+      const content = readFileSync(path.join(directory, file), 'utf8');
+      const verses = parseCorpus(content, detectCorpusFormat(file, content));
+      expect(verses).toHaveLength(verseCount);
+      expect(verses.every((verse) => !validateBibleRef(verse))).toBe(true);
+    }
+  });
+});
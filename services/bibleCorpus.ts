@@ -0,0 +1,365 @@
+import { BIBLE_BOOKS } from "./bibleBooks";
+import { findBook, formatBibleRef, toBookLanguage, type BibleRef } from "./bibleReference";
+import { deleteRecords, getAllRecords, getRecord, putRecords, STORES } from "./db";
+import { cachedVerseText, type CacheOptions } from "./generationCache";
+import { t } from "./i18n";
+
+export interface BibleTranslation {
+  /** Short identifier, e.g. 'kjv'. Re-importing with the same id replaces the translation. */
+  id: string;
+  name: string;
+  /** App language code, e.g. 'pt-BR'. */
+  language: string;
+  /** Copyright/public-domain notice shown wherever the text is used. */
+  attribution: string;
+  verseCount: number;
+  importedAt: number;
+}
+
+export interface CorpusVerse extends BibleRef {
+  text: string;
+}
+
+export type CorpusFormat = 'osis' | 'json' | 'csv';
+
+interface StoredVerse {
+  key: string;
+  text: string;
+}
+
+const verseKey = (translationId: string, ref: BibleRef) =>
+  `${translationId}|${ref.book}.${ref.chapter}.${ref.verse}`;
+
+const bookIds = new Set(BIBLE_BOOKS.map((book) => book.id));
+
+// Accepts OSIS ids ("1Sam") as well as any name or abbreviation known to the reference model.
+const resolveBookId = (value: string): string | null => {
+  const trimmed = value.trim();
+  if (bookIds.has(trimmed)) return trimmed;
+  return findBook(trimmed)?.book.id ?? null;
+};
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const decodeXmlEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, body: string) => {
+    if (body[0] === '#') {
+      const codePoint = body[1].toLowerCase() === 'x' ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10);
+      return String.fromCodePoint(codePoint);
+    }
+    return XML_ENTITIES[body] ?? entity;
+  });
+
+const getAttribute = (tag: string, name: string): string | null => {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`));
+  return match ? match[1] : null;
+};
+
+// Elements whose text is not part of the verse itself.
+const OSIS_SKIPPED_ELEMENTS = new Set(['note', 'title', 'rdg']);
+
+/**
+ * Extracts verses from an OSIS XML document. Handles both container verses
+ * (`<verse osisID="Gen.1.1">…</verse>`) and milestones (`<verse sID="…"/>…<verse eID="…"/>`),
+ * and drops notes and headings. A tokenizer is used instead of DOMParser so it also runs in Node.
+ */
+export const parseOsis = (xml: string): CorpusVerse[] => {
+  const verses: CorpusVerse[] = [];
+  let current: { osisId: string; text: string } | null = null;
+  let skipDepth = 0;
+
+  const closeVerse = () => {
+    if (!current) return;
+    const [book, chapter, verse] = current.osisId.split('.');
+    const bookId = resolveBookId(book);
+    const text = current.text.replace(/\s+/g, ' ').trim();
+    if (bookId && text) {
+      verses.push({ book: bookId, chapter: parseInt(chapter, 10), verse: parseInt(verse, 10), text });
+    }
+    current = null;
+  };
+
+  for (const [token] of xml.matchAll(/<[^>]+>|[^<]+/g)) {
+    if (token[0] !== '<') {
+      if (current && skipDepth === 0) current.text += decodeXmlEntities(token);
+      continue;
+    }
+    const nameMatch = token.match(/^<\/?([\w:]+)/);
+    if (!nameMatch) continue; // comments, processing instructions
+    const name = nameMatch[1].replace(/^osis:/, '');
+    const isClosing = token.startsWith('</');
+    const isSelfClosing = token.endsWith('/>');
+
+    if (OSIS_SKIPPED_ELEMENTS.has(name)) {
+      if (!isSelfClosing) skipDepth += isClosing ? -1 : 1;
+      continue;
+    }
+    if (name !== 'verse') continue;
+
+    if (isClosing || getAttribute(token, 'eID')) {
+      closeVerse();
+    } else {
+      const osisId = getAttribute(token, 'osisID') ?? getAttribute(token, 'sID');
+      if (osisId) {
+        closeVerse();
+        // Merged verses list several ids; the text is filed under the first one.
+        current = { osisId: osisId.split(/\s+/)[0], text: '' };
+      }
+    }
+  }
+  closeVerse();
+  return verses;
+};
+
+const toCorpusVerse = (book: unknown, chapter: unknown, verse: unknown, text: unknown): CorpusVerse | null => {
+  const bookId = resolveBookId(String(book ?? ''));
+  const chapterNumber = parseInt(String(chapter), 10);
+  const verseNumber = parseInt(String(verse), 10);
+  const verseText = String(text ?? '').replace(/\s+/g, ' ').trim();
+  if (!bookId || !chapterNumber || !verseNumber || !verseText) return null;
+  return { book: bookId, chapter: chapterNumber, verse: verseNumber, text: verseText };
+};
+
+/** A row of a JSON verse table. Chapter and verse may be numbers or numeric strings. */
+interface VerseJsonRow {
+  book: string;
+  chapter: number | string;
+  verse: number | string;
+  text: string;
+}
+
+const isVerseJsonRow = (value: unknown): value is VerseJsonRow => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { book, chapter, verse, text } = value as Record<string, unknown>;
+  const isNumberLike = (field: unknown) => typeof field === 'number' || typeof field === 'string';
+  return typeof book === 'string' && isNumberLike(chapter) && isNumberLike(verse) && typeof text === 'string';
+};
+
+/**
+ * Reads a JSON verse table: an array (or `{ "verses": [...] }`) of
+ * `{ "book": "Gen", "chapter": 1, "verse": 1, "text": "…" }` rows.
+ * Book may be an OSIS id or any Portuguese, English or Spanish name/abbreviation.
+ * Rows of another shape, or with an unknown book, are skipped.
+ */
+export const parseVerseJson = (json: string): CorpusVerse[] => {
+  const parsed: unknown = JSON.parse(json);
+  const rows = Array.isArray(parsed)
+    ? parsed
+    : typeof parsed === 'object' && parsed !== null && 'verses' in parsed ? parsed.verses : null;
+  if (!Array.isArray(rows)) {
+    throw new Error(t('errors.corpusJson'));
+  }
+  return rows
+    .filter(isVerseJsonRow)
+    .map((row) => toCorpusVerse(row.book, row.chapter, row.verse, row.text))
+    .filter((verse): verse is CorpusVerse => verse !== null);
+};
+
+const splitCsvLine = (line: string, delimiter: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+};
+
+const CSV_REQUIRED_COLUMNS = ['book', 'chapter', 'verse', 'text'] as const;
+
+const CSV_COLUMNS: Record<string, typeof CSV_REQUIRED_COLUMNS[number]> = {
+  book: 'book', livro: 'book', libro: 'book',
+  chapter: 'chapter', capitulo: 'chapter', 'capítulo': 'chapter',
+  verse: 'verse', versiculo: 'verse', 'versículo': 'verse',
+  text: 'text', texto: 'text',
+};
+
+/**
+ * Reads a CSV verse table with a header row naming the book, chapter, verse and text
+ * columns (English, Portuguese or Spanish headers). Comma, semicolon and tab delimiters are accepted.
+ */
+export const parseVerseCsv = (csv: string): CorpusVerse[] => {
+  const lines = csv.split(/\r?\n/).filter((line) => line.trim());
+  if (lines.length === 0) return [];
+  const header = lines[0];
+  const delimiter = [',', ';', '\t'].sort((a, b) => header.split(b).length - header.split(a).length)[0];
+  const columns: (string | undefined)[] = splitCsvLine(header, delimiter).map((name) => CSV_COLUMNS[name.trim().toLowerCase()]);
+  if (!CSV_REQUIRED_COLUMNS.every((column) => columns.includes(column))) {
+    throw new Error(t('errors.corpusCsv'));
+  }
+  return lines.slice(1)
+    .map((line) => {
+      const row: Record<string, string> = {};
+      splitCsvLine(line, delimiter).forEach((value, index) => {
+        if (columns[index]) row[columns[index]] = value;
+      });
+      return toCorpusVerse(row.book, row.chapter, row.verse, row.text);
+    })
+    .filter((verse): verse is CorpusVerse => verse !== null);
+};
+
+/** Guesses the corpus format from the file name, falling back to the content. */
+export const detectCorpusFormat = (fileName: string, content: string): CorpusFormat => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'xml' || extension === 'osis') return 'osis';
+  if (extension === 'json') return 'json';
+  if (extension === 'csv' || extension === 'tsv') return 'csv';
+  const start = content.trimStart();
+  if (start.startsWith('<')) return 'osis';
+  if (start.startsWith('[') || start.startsWith('{')) return 'json';
+  return 'csv';
+};
+
+export const parseCorpus = (content: string, format: CorpusFormat): CorpusVerse[] => {
+  switch (format) {
+    case 'osis': return parseOsis(content);
+    case 'json': return parseVerseJson(content);
+    case 'csv': return parseVerseCsv(content);
+  }
+};
+
+export const listTranslations = (): Promise<BibleTranslation[]> =>
+  getAllRecords<BibleTranslation>(STORES.translations);
+
+export const deleteTranslation = async (id: string): Promise<void> => {
+  await deleteRecords(STORES.verses, IDBKeyRange.bound(`${id}|`, `${id}|\uffff`));
+  await deleteRecords(STORES.translations, id);
+};
+
+/**
+ * Parses a translation file and stores it locally, replacing any translation with the same id.
+ * @param meta - Identification and attribution for the translation.
+ * @param content - The file content.
+ * @param format - The file format.
+ * @returns The stored translation record.
+ */
+export const importTranslation = async (
+  meta: Pick<BibleTranslation, 'id' | 'name' | 'language' | 'attribution'>,
+  content: string,
+  format: CorpusFormat
+): Promise<BibleTranslation> => {
+  const verses = parseCorpus(content, format);
+  if (verses.length === 0) {
+    throw new Error(t('errors.corpusEmpty'));
+  }
+  await deleteTranslation(meta.id);
+  await putRecords<StoredVerse>(
+    STORES.verses,
+    verses.map((verse) => ({ key: verseKey(meta.id, verse), text: verse.text }))
+  );
+  const translation: BibleTranslation = { ...meta, verseCount: verses.length, importedAt: Date.now() };
+  await putRecords(STORES.translations, [translation]);
+  return translation;
+};
+
+/** Looks up a verse in a stored translation. Returns null if the translation doesn't have it. */
+export const lookupVerse = async (translationId: string, ref: BibleRef): Promise<string | null> => {
+  const stored = await getRecord<StoredVerse>(STORES.verses, verseKey(translationId, ref));
+  return stored?.text ?? null;
+};
+
+interface BundledTranslation extends Pick<BibleTranslation, 'id' | 'name' | 'language' | 'attribution'> {
+  /** Path relative to /bibles/. */
+  file: string;
+}
+
+const BUNDLED_KEY = 'gerador.bundledTranslations';
+
+/** Ids of the bundled translations imported before in this browser. */
+const getImportedBundles = (): Set<string> => {
+  try {
+    const saved: unknown = JSON.parse(localStorage.getItem(BUNDLED_KEY) ?? '[]');
+    return new Set(Array.isArray(saved) ? saved.filter((id): id is string => typeof id === 'string') : []);
+  } catch {
+    return new Set();
+  }
+};
+
+/**
+ * Imports translations shipped with the app under `public/bibles/` (listed in `index.json`).
+ * Each is imported once per browser, so one the user removed doesn't come back on the next load.
+ * Missing or invalid bundles are ignored.
+ */
+export const importBundledTranslations = async (): Promise<BibleTranslation[]> => {
+  let bundled: BundledTranslation[];
+  try {
+    const response = await fetch('/bibles/index.json');
+    if (!response.ok) return [];
+    bundled = await response.json();
+  } catch {
+    return [];
+  }
+
+  const done = getImportedBundles();
+  // Stores from before bundles were recorded count as imported.
+  (await listTranslations()).forEach((translation) => done.add(translation.id));
+  const imported: BibleTranslation[] = [];
+  for (const entry of bundled) {
+    if (done.has(entry.id)) continue;
+    try {
+      const content = await (await fetch(`/bibles/${entry.file}`)).text();
+      const { file, ...meta } = entry;
+      imported.push(await importTranslation(meta, content, detectCorpusFormat(file, content)));
+      done.add(entry.id);
+    } catch (error) {
+      console.error(`Failed to import bundled translation ${entry.id}:`, error);
+    }
+  }
+  try {
+    localStorage.setItem(BUNDLED_KEY, JSON.stringify([...done]));
+  } catch {
+    // Without storage the bundles are offered again on the next load.
+  }
+  return imported;
+};
+
+export interface VerseTextResult {
+  text: string;
+  /** The translation the text came from, or null when it was produced by the AI fallback. */
+  translation: BibleTranslation | null;
+  /** Whether the AI fallback's text came from the generation cache. */
+  fromCache?: boolean;
+}
+
+/**
+ * Gets the text of a verse from a stored translation, or from the AI when no translation is chosen.
+ * @param ref - The verse.
+ * @param language - The narration language, used by the AI fallback.
+ * @param translationId - A stored translation, or null to use the AI fallback.
+ * @param options - Cache options for the AI fallback.
+ */
+export const fetchVerseText = async (
+  ref: BibleRef,
+  language: string,
+  translationId: string | null,
+  options?: CacheOptions
+): Promise<VerseTextResult> => {
+  if (!translationId) {
+    const { value: text, fromCache } = await cachedVerseText(formatBibleRef(ref, toBookLanguage(language)), language, options);
+    return { text, translation: null, fromCache };
+  }
+  const translation = await getRecord<BibleTranslation>(STORES.translations, translationId);
+  const text = translation ? await lookupVerse(translationId, ref) : null;
+  if (!translation || !text) {
+    throw new Error(t('errors.verseNotInTranslation', { reference: formatBibleRef(ref) }));
+  }
+  return { text, translation };
+};
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { findBook, formatBibleRef, getNextVerse, parseBibleRef, parsePassage, toBookLanguage } from './bibleReference';
+
+describe('parseBibleRef', () => {
+  it('accepts the usual separators and abbreviations', () => {
+    expect(parseBibleRef('Gênesis 1:5')).toEqual({ ref: { book: 'Gen', chapter: 1, verse: 5 }, language: 'pt' });
+    expect(parseBibleRef('1 Sm 4,18')).toEqual({ ref: { book: '1Sam', chapter: 4, verse: 18 }, language: 'pt' });
+    expect(parseBibleRef('Gen 1.1')).toMatchObject({ ref: { book: 'Gen', chapter: 1, verse: 1 } });
+    expect(parseBibleRef('II Reis 2:11')).toMatchObject({ ref: { book: '2Kgs', chapter: 2, verse: 11 } });
+  });
+
+  it('tells Jó from Jo by the accent', () => {
+    expect(parseBibleRef('Jó 1:1')).toMatchObject({ ref: { book: 'Job' } });
+    expect(parseBibleRef('Jo 1:1')).toMatchObject({ ref: { book: 'John' } });
+  });
+
+  it('rejects verses and chapters that do not exist', () => {
+    expect(parseBibleRef('Gn 1:32')).toHaveProperty('error');
+    expect(parseBibleRef('Gn 51:1')).toHaveProperty('error');
+    expect(parseBibleRef('Livro 1:1')).toHaveProperty('error');
+    expect(parseBibleRef('Gn 1')).toHaveProperty('error');
+  });
+});
+
+describe('ambiguous abbreviations', () => {
+  it('reads "Jn" as Jonas in Portuguese and as John in English and Spanish', () => {
+    expect(parseBibleRef('Jn 1:1', 'pt')).toEqual({ ref: { book: 'Jonah', chapter: 1, verse: 1 }, language: 'pt' });
+    expect(parseBibleRef('Jn 1:1', 'en')).toEqual({ ref: { book: 'John', chapter: 1, verse: 1 }, language: 'en' });
+    expect(parseBibleRef('Jn 1:1', 'es')).toEqual({ ref: { book: 'John', chapter: 1, verse: 1 }, language: 'es' });
+  });
+
+  it('accepts a reference that only exists in the preferred reading', () => {
+    expect(parseBibleRef('Jn 3:16', 'en')).toMatchObject({ ref: { book: 'John', chapter: 3, verse: 16 } });
+    expect(parseBibleRef('Jn 3:16', 'es')).toMatchObject({ ref: { book: 'John', chapter: 3, verse: 16 } });
+    // Jonas has four chapters.
+    expect(parseBibleRef('Jn 3:16', 'pt')).toHaveProperty('error');
+  });
+
+  it('applies to passages too', () => {
+    expect(parsePassage('Jn 3:16-17', 'en')).toMatchObject({ refs: [{ book: 'John' }, { book: 'John' }], language: 'en' });
+    expect(parsePassage('Jn 2', 'pt')).toMatchObject({ refs: expect.arrayContaining([{ book: 'Jonah', chapter: 2, verse: 10 }]) });
+  });
+
+  it('falls back to the other languages for names the preferred one lacks', () => {
+    expect(parseBibleRef('Êxodo 1:1', 'en')).toMatchObject({ ref: { book: 'Exod' }, language: 'pt' });
+    expect(parseBibleRef('1 Jn 1:1', 'pt')).toMatchObject({ ref: { book: '1John' }, language: 'en' });
+    expect(parseBibleRef('Jo 1:1', 'es')).toMatchObject({ ref: { book: 'John' }, language: 'pt' });
+  });
+});
+
+describe('getNextVerse', () => {
+  it('rolls over into the next chapter and book', () => {
+    expect(getNextVerse({ book: 'Gen', chapter: 1, verse: 31 })).toEqual({ book: 'Gen', chapter: 2, verse: 1 });
+    expect(getNextVerse({ book: 'Gen', chapter: 50, verse: 26 })).toEqual({ book: 'Exod', chapter: 1, verse: 1 });
+    expect(getNextVerse({ book: 'Rev', chapter: 22, verse: 21 })).toBeNull();
+  });
+});
+
+describe('parsePassage', () => {
+  const verses = (input: string) => {
+    const result = parsePassage(input);
+    if ('error' in result) throw new Error(result.error);
+    return result.refs.map((ref) => `${ref.chapter}:${ref.verse}`);
+  };
+
+  it('expands a verse range', () => {
+    expect(verses('1 Samuel 4:12-18')).toEqual(['4:12', '4:13', '4:14', '4:15', '4:16', '4:17', '4:18']);
+  });
+
+  it('expands a range across chapters', () => {
+    expect(verses('Gn 1:30-2:2')).toEqual(['1:30', '1:31', '2:1', '2:2']);
+    expect(verses('Gn 1:26–2:3')).toHaveLength(9);
+  });
+
+  it('expands whole chapters', () => {
+    expect(verses('Rute 1-2')).toHaveLength(22 + 23);
+    expect(verses('Rute 4').at(-1)).toBe('4:22');
+  });
+
+  it('rejects ranges that end before they start or leave the book', () => {
+    expect(parsePassage('Gn 2:3-1:26')).toHaveProperty('error');
+    expect(parsePassage('Gn 1:5-3')).toHaveProperty('error');
+    expect(parsePassage('Gn 1-2:3')).toHaveProperty('error');
+    expect(parsePassage('Gn 50:20-51:1')).toHaveProperty('error');
+  });
+});
+
+describe('toBookLanguage', () => {
+  it('maps app languages to book-name languages', () => {
+    expect(toBookLanguage('en-US')).toBe('en');
+    expect(toBookLanguage('es-ES')).toBe('es');
+    expect(toBookLanguage('fr-FR')).toBe('pt');
+  });
+
+  it('formats with the full book name in that language', () => {
+    expect(formatBibleRef({ book: 'John', chapter: 3, verse: 16 }, 'es')).toBe('Juan 3:16');
+    expect(findBook('Apocalipsis')).toMatchObject({ book: { id: 'Rev' }, language: 'es' });
+  });
+});
@@ -0,0 +1,213 @@
+import { BIBLE_BOOKS, type BibleBook, type BookLanguage } from "./bibleBooks";
+import { t } from "./i18n";
+
+export interface BibleRef {
+  /** OSIS book id, e.g. '1Sam'. */
+  book: string;
+  chapter: number;
+  verse: number;
+}
+
+export type BibleRefParseResult =
+  | { ref: BibleRef; language: BookLanguage }
+  | { error: string };
+
+const BOOK_LANGUAGES: BookLanguage[] = ['pt', 'en', 'es'];
+
+const booksById = new Map(BIBLE_BOOKS.map((book) => [book.id, book]));
+
+const ROMAN_PREFIXES: Record<string, string> = { i: '1', ii: '2', iii: '3' };
+
+// Lowercases and drops spaces, dots and ordinal marks, so "1 Sm", "1Sm." and "1º Sm" compare equal.
+// A leading roman numeral ("II Reis") becomes a digit.
+const normalizeBookName = (name: string): string =>
+  name
+    .trim()
+    .toLowerCase()
+    .replace(/^(iii|ii|i)(?=\s)/, (numeral) => ROMAN_PREFIXES[numeral])
+    .replace(/[\s.ºª°]/g, '');
+
+const foldAccents = (name: string): string => name.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+interface AliasTables {
+  exact: Map<string, BibleBook>;
+  folded: Map<string, BibleBook>;
+}
+
+// One table per language, so "Jn" can mean Jonas in Portuguese and John in English.
+// Within a language, accent-insensitive matches are a fallback: "Jó" (Job) and "Jo" (João) only differ by the accent.
+const aliasTables = BOOK_LANGUAGES.reduce((acc, language) => {
+  const tables: AliasTables = { exact: new Map(), folded: new Map() };
+  for (const book of BIBLE_BOOKS) {
+    for (const alias of [book.names[language], ...book.abbreviations[language]]) {
+      const key = normalizeBookName(alias);
+      if (!tables.exact.has(key)) tables.exact.set(key, book);
+      if (!tables.folded.has(foldAccents(key))) tables.folded.set(foldAccents(key), book);
+    }
+  }
+  acc[language] = tables;
+  return acc;
+}, {} as Record<BookLanguage, AliasTables>);
+
+/**
+ * Maps an app language code (e.g. 'pt-BR') to the language used for book names.
+ * Languages without their own book names fall back to Portuguese.
+ */
+export const toBookLanguage = (language: string): BookLanguage => {
+  const prefix = language.slice(0, 2).toLowerCase();
+  return (BOOK_LANGUAGES as string[]).includes(prefix) ? (prefix as BookLanguage) : 'pt';
+};
+
+/**
+ * Resolves a book name or abbreviation in Portuguese, English or Spanish.
+ * @param name - The book as typed by the user (e.g. "Gn", "1 Samuel", "Apocalipsis").
+ * @param preferred - Language tried first when an abbreviation is ambiguous.
+ * @returns The book and the language whose alias matched, or null if none did.
+ */
+export const findBook = (
+  name: string,
+  preferred: BookLanguage = 'pt'
+): { book: BibleBook; language: BookLanguage } | null => {
+  const key = normalizeBookName(name);
+  const order = [preferred, ...BOOK_LANGUAGES.filter((language) => language !== preferred)];
+  for (const language of order) {
+    const book = aliasTables[language].exact.get(key) ?? aliasTables[language].folded.get(foldAccents(key));
+    if (book) return { book, language };
+  }
+  return null;
+};
+
+/** Returns the book with the given OSIS id. Throws for unknown ids. */
+export const getBook = (id: string): BibleBook => {
+  const book = booksById.get(id);
+  if (!book) {
+    throw new Error(t('errors.unknownBook', { id }));
+  }
+  return book;
+};
+
+/** Number of verses in a chapter, or 0 if the chapter doesn't exist. */
+export const getVerseCount = (bookId: string, chapter: number): number =>
+  getBook(bookId).verses[chapter - 1] ?? 0;
+
+/**
+ * Checks that a chapter and verse exist in the given book.
+ * @returns A user-facing error message, or null when the reference is valid.
+ */
+export const validateBibleRef = (ref: BibleRef, language: BookLanguage = 'pt'): string | null => {
+  const book = getBook(ref.book);
+  const name = book.names[language];
+  if (ref.chapter < 1 || ref.chapter > book.verses.length) {
+    return t('reference.chapterCount', { book: name, count: book.verses.length });
+  }
+  const verseCount = book.verses[ref.chapter - 1];
+  if (ref.verse < 1 || ref.verse > verseCount) {
+    return t('reference.verseCount', { book: name, chapter: ref.chapter, count: verseCount });
+  }
+  return null;
+};
+
+/**
+ * Parses and validates a single-verse reference such as "Gênesis 1:5", "1 Sm 4,18" or "Gen 1.1".
+ * @param input - The reference as typed by the user.
+ * @param preferred - Book-name language tried first for ambiguous abbreviations.
+ */
+export const parseBibleRef = (input: string, preferred: BookLanguage = 'pt'): BibleRefParseResult => {
+  const match = input.trim().match(/^(.*?\p{L}.*?)\s*(\d+)\s*[:.,]\s*(\d+)$/u);
+  if (!match) {
+    return { error: t('reference.invalidFormat') };
+  }
+  const found = findBook(match[1], preferred);
+  if (!found) {
+    return { error: t('reference.unknownBook', { book: match[1].trim() }) };
+  }
+  const ref: BibleRef = {
+    book: found.book.id,
+    chapter: parseInt(match[2], 10),
+    verse: parseInt(match[3], 10),
+  };
+  const error = validateBibleRef(ref, found.language);
+  return error ? { error } : { ref, language: found.language };
+};
+
+/** Formats a reference with the full book name, e.g. "1 Samuel 4:18". */
+export const formatBibleRef = (ref: BibleRef, language: BookLanguage = 'pt'): string =>
+  `${getBook(ref.book).names[language]} ${ref.chapter}:${ref.verse}`;
+
+/**
+ * Returns the verse after `ref`, rolling over into the next chapter and book.
+ * @returns The next reference, or null after the last verse of Revelation.
+ */
+export const getNextVerse = (ref: BibleRef): BibleRef | null => {
+  const book = getBook(ref.book);
+  if (ref.verse < book.verses[ref.chapter - 1]) {
+    return { ...ref, verse: ref.verse + 1 };
+  }
+  if (ref.chapter < book.verses.length) {
+    return { book: ref.book, chapter: ref.chapter + 1, verse: 1 };
+  }
+  const nextBook = BIBLE_BOOKS[BIBLE_BOOKS.indexOf(book) + 1];
+  return nextBook ? { book: nextBook.id, chapter: 1, verse: 1 } : null;
+};
+
+export type PassageParseResult =
+  | { refs: BibleRef[]; language: BookLanguage }
+  | { error: string };
+
+/**
+ * Parses a passage and expands it to one reference per verse. Accepted forms:
+ * a whole chapter ("1 Samuel 4"), a chapter range ("Rute 1-2"), a verse ("Gn 1:1"),
+ * a verse range ("1 Samuel 4:12-18") and a range across chapters ("Gn 1:26-2:3").
+ * @param input - The passage as typed by the user.
+ * @param preferred - Book-name language tried first for ambiguous abbreviations.
+ */
+export const parsePassage = (input: string, preferred: BookLanguage = 'pt'): PassageParseResult => {
+  const match = input
+    .trim()
+    .replace(/[–—]/g, '-')
+    .match(/^(.*?\p{L}.*?)\s*(\d+)(?:\s*[:.,]\s*(\d+))?(?:\s*-\s*(\d+)(?:\s*[:.,]\s*(\d+))?)?$/u);
+  if (!match) {
+    return { error: t('reference.invalidPassage') };
+  }
+  const found = findBook(match[1], preferred);
+  if (!found) {
+    return { error: t('reference.unknownBook', { book: match[1].trim() }) };
+  }
+  const { book, language } = found;
+  const [startChapter, startVerse, rangeEnd, endVerse] = match.slice(2).map((part) => (part ? parseInt(part, 10) : undefined));
+
+  if (startVerse === undefined && endVerse !== undefined) {
+    return { error: t('reference.missingStartVerse') };
+  }
+
+  let start: BibleRef;
+  let end: BibleRef;
+  if (startVerse === undefined) {
+    // "4" or "1-2": whole chapters.
+    const lastChapter = rangeEnd ?? startChapter;
+    start = { book: book.id, chapter: startChapter, verse: 1 };
+    end = { book: book.id, chapter: lastChapter, verse: book.verses[lastChapter - 1] ?? 0 };
+  } else if (endVerse !== undefined) {
+    // "1:26-2:3": across chapters.
+    start = { book: book.id, chapter: startChapter, verse: startVerse };
+    end = { book: book.id, chapter: rangeEnd, verse: endVerse };
+  } else {
+    // "4:12" or "4:12-18".
+    start = { book: book.id, chapter: startChapter, verse: startVerse };
+    end = { book: book.id, chapter: startChapter, verse: rangeEnd ?? startVerse };
+  }
+
+  const error = validateBibleRef(start, language) ?? validateBibleRef(end, language);
+  if (error) return { error };
+  if (end.chapter < start.chapter || (end.chapter === start.chapter && end.verse < start.verse)) {
+    return { error: t('reference.endBeforeStart') };
+  }
+
+  const refs: BibleRef[] = [start];
+  let current = start;
+  while (current.chapter !== end.chapter || current.verse !== end.verse) {
+    current = getNextVerse(current);
+    refs.push(current);
+  }
+  return { refs, language };
+};
@@ -0,0 +1,338 @@
+// Composes shareable images: the verse text and reference drawn over a scene, in layout
+// templates and at the sizes social networks expect (canvas, in the browser).
+import { t, type MessageKey } from "./i18n";
+
+export type CaptionPlacement = 'top' | 'center' | 'bottom';
+
+/** How the text stays readable over the scene. */
+export type CaptionBackdrop = 'band' | 'box' | 'gradient' | 'shadow';
+
+export interface CaptionTemplate {
+  id: string;
+  label: MessageKey;
+  placement: CaptionPlacement;
+  backdrop: CaptionBackdrop;
+  align: 'left' | 'center';
+  /** Starting size of the verse text as a fraction of the image's short side; long verses shrink from it. */
+  textScale: number;
+  referencePosition: 'above' | 'below';
+  /** Sets the verse in italics between quotation marks. */
+  quote?: boolean;
+}
+
+export const CAPTION_TEMPLATES: CaptionTemplate[] = [
+  { id: 'lower-third', label: 'caption.template.lowerThird', placement: 'bottom', backdrop: 'gradient', align: 'left', textScale: 0.05, referencePosition: 'below' },
+  { id: 'quote', label: 'caption.template.quote', placement: 'center', backdrop: 'box', align: 'center', textScale: 0.06, referencePosition: 'below', quote: true },
+  { id: 'top-banner', label: 'caption.template.topBanner', placement: 'top', backdrop: 'band', align: 'center', textScale: 0.045, referencePosition: 'above' },
+  { id: 'minimal', label: 'caption.template.minimal', placement: 'bottom', backdrop: 'shadow', align: 'center', textScale: 0.042, referencePosition: 'below' },
+];
+
+export interface CaptionFont {
+  id: string;
+  /** Shown in the font picker, in the font itself. */
+  name: string;
+  /** CSS font family list; system fonts, so nothing is downloaded. */
+  family: string;
+}
+
+export const CAPTION_FONTS: CaptionFont[] = [
+  { id: 'serif', name: 'Georgia', family: 'Georgia, "Times New Roman", serif' },
+  { id: 'book', name: 'Palatino', family: '"Palatino Linotype", Palatino, "Book Antiqua", serif' },
+  { id: 'sans', name: 'Helvetica', family: '"Helvetica Neue", Helvetica, Arial, sans-serif' },
+  { id: 'humanist', name: 'Trebuchet', family: '"Trebuchet MS", "Segoe UI", sans-serif' },
+  { id: 'impact', name: 'Impact', family: 'Impact, "Arial Black", sans-serif' },
+];
+
+/** Margins kept free of text, as fractions of the image height (top, bottom) and width (side). */
+export interface SafeArea {
+  top: number;
+  bottom: number;
+  side: number;
+}
+
+// Stories, Reels, TikTok and Shorts cover the top with the profile bar and the bottom with the
+// caption and reply box; about 250 px above and 380 px below stay clear on a 1080×1920 frame.
+const STORY_SAFE_AREA: SafeArea = { top: 0.13, bottom: 0.2, side: 0.06 };
+const FEED_SAFE_AREA: SafeArea = { top: 0.05, bottom: 0.05, side: 0.05 };
+
+export interface ExportSize {
+  id: string;
+  label: MessageKey;
+  width: number;
+  height: number;
+  safeArea: SafeArea;
+}
+
+export const EXPORT_SIZES: ExportSize[] = [
+  { id: 'story', label: 'caption.size.story', width: 1080, height: 1920, safeArea: STORY_SAFE_AREA },
+  { id: 'portrait', label: 'caption.size.portrait', width: 1080, height: 1350, safeArea: FEED_SAFE_AREA },
+  { id: 'square', label: 'caption.size.square', width: 1080, height: 1080, safeArea: FEED_SAFE_AREA },
+  { id: 'landscape', label: 'caption.size.landscape', width: 1200, height: 675, safeArea: FEED_SAFE_AREA },
+  { id: 'pin', label: 'caption.size.pin', width: 1000, height: 1500, safeArea: FEED_SAFE_AREA },
+];
+
+export type WatermarkCorner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export interface Watermark {
+  /** E.g. the channel's handle; empty for none. */
+  text: string;
+  /** The logo as a data URL, or null for none. */
+  logo: string | null;
+  corner: WatermarkCorner;
+  /** From 0 to 1. */
+  opacity: number;
+}
+
+export interface CaptionImageOptions {
+  /** The scene as a data URL; it is cropped to fill the size. */
+  image: string;
+  /** The verse text; empty draws the reference alone. */
+  text: string;
+  reference: string;
+  template: CaptionTemplate;
+  font: CaptionFont;
+  size: ExportSize;
+  watermark?: Watermark;
+  /** Outline the safe area, for previews. */
+  showSafeArea?: boolean;
+}
+
+/** The compositor choices this browser remembers. */
+export interface CaptionSettings {
+  templateId: string;
+  fontId: string;
+  sizeId: string;
+  watermark: Watermark;
+}
+
+export const DEFAULT_CAPTION_SETTINGS: CaptionSettings = {
+  templateId: CAPTION_TEMPLATES[0].id,
+  fontId: CAPTION_FONTS[0].id,
+  sizeId: EXPORT_SIZES[0].id,
+  watermark: { text: '', logo: null, corner: 'top-right', opacity: 0.8 },
+};
+
+const STORAGE_KEY = 'gerador.captionSettings';
+
+/** Smallest verse text, as a fraction of its starting size, before long verses overflow the layout. */
+const MIN_TEXT_SHRINK = 0.45;
+
+export const getCaptionSettings = (): CaptionSettings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? { ...DEFAULT_CAPTION_SETTINGS, ...JSON.parse(saved) } : DEFAULT_CAPTION_SETTINGS;
+  } catch {
+    return DEFAULT_CAPTION_SETTINGS;
+  }
+};
+
+export const setCaptionSettings = (settings: CaptionSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // A large logo may not fit in storage; the settings still apply until reload.
+  }
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(t('errors.captionImageLoad')));
+    image.src = src;
+  });
+
+const fontFor = (font: CaptionFont, size: number, weight: number, italic = false) =>
+  `${italic ? 'italic ' : ''}${weight} ${Math.round(size)}px ${font.family}`;
+
+/** Breaks text into lines no wider than `maxWidth` in the context's current font. Words are never split. */
+export const wrapText = (context: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && context.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+/** Draws the scene covering the whole canvas, cropped around its center. */
+const drawCover = (context: CanvasRenderingContext2D, image: HTMLImageElement) => {
+  const { width, height } = context.canvas;
+  const cover = Math.max(width / image.width, height / image.height);
+  const drawWidth = image.width * cover;
+  const drawHeight = image.height * cover;
+  context.drawImage(image, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+};
+
+interface Block {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+const drawBackdrop = (context: CanvasRenderingContext2D, template: CaptionTemplate, block: Block, padding: number) => {
+  const { width, height } = context.canvas;
+  if (template.backdrop === 'band') {
+    context.fillStyle = 'rgba(0, 0, 0, 0.55)';
+    context.fillRect(0, block.top - padding, width, block.height + padding * 2);
+  } else if (template.backdrop === 'box') {
+    context.fillStyle = 'rgba(0, 0, 0, 0.55)';
+    context.fillRect(block.left - padding, block.top - padding, block.width + padding * 2, block.height + padding * 2);
+  } else if (template.backdrop === 'gradient') {
+    // Darkens from the text towards the nearest edge of the image.
+    const fromTop = template.placement === 'top';
+    const start = fromTop ? block.top + block.height + padding * 3 : block.top - padding * 3;
+    const gradient = context.createLinearGradient(0, start, 0, fromTop ? 0 : height);
+    gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+    gradient.addColorStop(0.5, 'rgba(0, 0, 0, 0.6)');
+    gradient.addColorStop(1, 'rgba(0, 0, 0, 0.8)');
+    context.fillStyle = gradient;
+    context.fillRect(0, fromTop ? 0 : start, width, fromTop ? start : height - start);
+  }
+};
+
+const drawWatermark = async (context: CanvasRenderingContext2D, watermark: Watermark, safe: Block, base: number) => {
+  const text = watermark.text.trim();
+  if (!text && !watermark.logo) return;
+  const logo = watermark.logo ? await loadImage(watermark.logo) : null;
+  const itemHeight = base * 0.07;
+  const margin = base * 0.02;
+  const fontSize = itemHeight * 0.45;
+  context.font = `600 ${Math.round(fontSize)}px sans-serif`;
+  const logoWidth = logo ? (logo.width / logo.height) * itemHeight : 0;
+  const gap = logo && text ? margin : 0;
+  const textWidth = text ? context.measureText(text).width : 0;
+  const totalWidth = logoWidth + gap + textWidth;
+  const [vertical, horizontal] = watermark.corner.split('-');
+  const x = horizontal === 'left' ? safe.left + margin : safe.left + safe.width - margin - totalWidth;
+  const y = vertical === 'top' ? safe.top + margin : safe.top + safe.height - margin - itemHeight;
+
+  context.save();
+  context.globalAlpha = Math.min(Math.max(watermark.opacity, 0), 1);
+  if (logo) context.drawImage(logo, x, y, logoWidth, itemHeight);
+  if (text) {
+    context.shadowColor = 'rgba(0, 0, 0, 0.7)';
+    context.shadowBlur = fontSize * 0.3;
+    context.fillStyle = '#fff';
+    context.textAlign = 'left';
+    context.textBaseline = 'middle';
+    context.fillText(text, x + logoWidth + gap, y + itemHeight / 2);
+  }
+  context.restore();
+};
+
+/**
+ * Draws the captioned image onto a canvas, resizing the canvas to the export size.
+ * Used for the preview and, through `createCaptionImage`, for the download.
+ */
+export const renderCaptionImage = async (canvas: HTMLCanvasElement, options: CaptionImageOptions): Promise<void> => {
+  const { template, font, size } = options;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error(t('errors.captionCanvas'));
+  }
+  const [scene] = await Promise.all([
+    loadImage(options.image),
+    // System fonts resolve at once; the call only makes sure the face is ready before measuring.
+    document.fonts?.load(fontFor(font, 16, 700)).catch(() => []),
+  ]);
+
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const { width, height } = size;
+  const base = Math.min(width, height);
+  const safe: Block = {
+    left: width * size.safeArea.side,
+    top: height * size.safeArea.top,
+    width: width * (1 - size.safeArea.side * 2),
+    height: height * (1 - size.safeArea.top - size.safeArea.bottom),
+  };
+  const padding = base * 0.035;
+
+  context.fillStyle = '#000';
+  context.fillRect(0, 0, width, height);
+  drawCover(context, scene);
+
+  // Shrink the verse until the caption fits its share of the safe area.
+  const text = options.text.trim() ? (template.quote ? `“${options.text.trim()}”` : options.text.trim()) : '';
+  const maxWidth = safe.width - padding * 2;
+  const maxHeight = safe.height * (template.placement === 'center' ? 0.7 : 0.45);
+  const startSize = base * template.textScale;
+  let textSize = startSize;
+  let lines: string[] = [];
+  for (;;) {
+    context.font = fontFor(font, textSize, 600, template.quote);
+    lines = text ? wrapText(context, text, maxWidth) : [];
+    const blockHeight = lines.length * textSize * 1.3 + textSize * 1.4;
+    if (blockHeight <= maxHeight || textSize <= startSize * MIN_TEXT_SHRINK) break;
+    textSize *= 0.92;
+  }
+  const lineHeight = textSize * 1.3;
+  const referenceSize = textSize * 0.75;
+  const referenceFont = fontFor(font, referenceSize, 700);
+  const referenceHeight = referenceSize * 1.4 + (lines.length > 0 ? textSize * 0.4 : 0);
+  const textWidth = Math.max(0, ...lines.map((line) => context.measureText(line).width));
+  context.font = referenceFont;
+  const blockWidth = Math.max(textWidth, context.measureText(options.reference).width);
+  const blockHeight = lines.length * lineHeight + referenceHeight;
+
+  const top = template.placement === 'top'
+    ? safe.top + padding
+    : template.placement === 'center'
+      ? safe.top + (safe.height - blockHeight) / 2
+      : safe.top + safe.height - padding - blockHeight;
+  const left = template.align === 'center' ? (width - blockWidth) / 2 : safe.left + padding;
+  const x = template.align === 'center' ? width / 2 : left;
+
+  drawBackdrop(context, template, { left, top, width: blockWidth, height: blockHeight }, padding);
+
+  context.save();
+  if (template.backdrop === 'shadow') {
+    context.shadowColor = 'rgba(0, 0, 0, 0.85)';
+    context.shadowBlur = textSize * 0.35;
+  }
+  context.textAlign = template.align;
+  context.textBaseline = 'middle';
+  const textTop = template.referencePosition === 'above' ? top + referenceHeight : top;
+  context.font = fontFor(font, textSize, 600, template.quote);
+  context.fillStyle = '#fff';
+  lines.forEach((line, index) => context.fillText(line, x, textTop + lineHeight * (index + 0.5)));
+  context.font = referenceFont;
+  context.fillStyle = '#fde68a';
+  const referenceY = template.referencePosition === 'above'
+    ? top + referenceSize * 0.7
+    : top + lines.length * lineHeight + referenceHeight - referenceSize * 0.7;
+  context.fillText(options.reference, x, referenceY);
+  context.restore();
+
+  if (options.watermark) await drawWatermark(context, options.watermark, safe, base);
+
+  if (options.showSafeArea) {
+    context.save();
+    context.strokeStyle = 'rgba(255, 255, 255, 0.7)';
+    context.lineWidth = Math.max(2, base * 0.003);
+    context.setLineDash([base * 0.02, base * 0.015]);
+    context.strokeRect(safe.left, safe.top, safe.width, safe.height);
+    context.restore();
+  }
+};
+
+/**
+ * Renders the captioned image at its export size.
+ * @returns A JPEG, ready to post.
+ */
+export const createCaptionImage = async (options: CaptionImageOptions): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  await renderCaptionImage(canvas, { ...options, showSafeArea: false });
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error(t('errors.captionCanvas')))), 'image/jpeg', 0.92);
+  });
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { duckingEnvelope, layoutChapter } from './chapterAudio';
+
+const levels = { volume: 0.5, duckedVolume: 0.1 };
+
+const envelopeFor = (durations: number[], pauseSeconds: number, paddingSeconds: number) => {
+  const { markers, duration } = layoutChapter(durations, durations.map((_, index) => `v${index}`), { pauseSeconds, paddingSeconds });
+  return { markers, duration, points: duckingEnvelope(markers, duration, levels) };
+};
+
+const expectTimeOrder = (points: [number, number][]) => {
+  points.slice(1).forEach(([time], index) => expect(time).toBeGreaterThan(points[index][0]));
+};
+
+describe('duckingEnvelope', () => {
+  it('ducks under each narration and comes back up in long pauses', () => {
+    const { points } = envelopeFor([4, 4], 2, 1);
+    expectTimeOrder(points);
+    expect(points.slice(0, 7)).toEqual([
+      [0, 0.5], [0.7, 0.5], [1, 0.1], [5, 0.1], [5.3, 0.5], [6.7, 0.5], [7, 0.1],
+    ]);
+    expect(points.at(-1)).toEqual([12, 0]);
+  });
+
+  it('shares short pauses between the ramps down and up', () => {
+    const { points } = envelopeFor([4, 4, 4], 0.2, 1);
+    expectTimeOrder(points);
+    expect(points).toContainEqual([5.1, 0.5]);
+    expect(points.filter(([time]) => time > 5 && time < 5.2)).toEqual([[5.1, 0.5]]);
+  });
+
+  it('keeps the music ducked when there is no pause or padding', () => {
+    const { points, duration } = envelopeFor([4, 4], 0, 0);
+    expectTimeOrder(points);
+    expect(points.filter(([time]) => time < duration - 2).every(([, gain]) => gain === 0.1)).toBe(true);
+    expect(points.at(-1)).toEqual([duration, 0]);
+  });
+
+  it('starts the fade from the level the music has at that moment', () => {
+    // The fade starts 2 s before the end, halfway up the ramp after the last narration.
+    const { points } = envelopeFor([4], 1, 2.15);
+    expectTimeOrder(points);
+    expect(points.slice(-2)).toEqual([[expect.closeTo(6.3, 5), expect.closeTo(0.3, 5)], [8.3, 0]]);
+  });
+});
@@ -0,0 +1,229 @@
+// Assembles the narrations of a range of verses into one chapter track: pauses, loudness
+// normalization and an optional ducked music bed, rendered offline with Web Audio.
+import { PCM_SAMPLE_RATE, audioBufferToWavBlob, pcmToFloat32 } from "./audio";
+import type { CaptionCue } from "./subtitles";
+import { t } from "./i18n";
+
+export interface ChapterClip {
+  /** The verse, e.g. "Gênesis 1:3"; used as the chapter marker title. */
+  reference: string;
+  /** Base64 encoded 24 kHz PCM narration. */
+  audioBase64: string;
+}
+
+export interface MusicBedOptions {
+  /** The music file, in any format the browser can decode. */
+  file: Blob;
+  /** Music gain between narrations, from 0 to 1. */
+  volume: number;
+  /** Music gain while a narration plays, from 0 to 1. */
+  duckedVolume: number;
+}
+
+export interface ChapterAudioOptions {
+  /** Silence between two narrations, in seconds. */
+  pauseSeconds: number;
+  /** Silence (or music alone) before the first and after the last narration, in seconds. */
+  paddingSeconds: number;
+  /** Bring every narration to `targetLoudnessDb`, so clips recorded separately sound equally loud. */
+  normalize: boolean;
+  /** Target speech loudness in dBFS (gated RMS). */
+  targetLoudnessDb?: number;
+  music?: MusicBedOptions;
+}
+
+export interface ChapterMarker {
+  reference: string;
+  /** Start time in seconds. */
+  start: number;
+  /** End time in seconds. */
+  end: number;
+}
+
+export interface ChapterAudio {
+  wav: Blob;
+  markers: ChapterMarker[];
+  duration: number;
+}
+
+export const DEFAULT_TARGET_LOUDNESS_DB = -20;
+/** Highest peak allowed after normalization, so loud clips never clip (-1 dBFS). */
+const PEAK_CEILING = 0.89;
+/** Loudness is measured in 400 ms blocks; blocks quieter than this are pauses and don't count. */
+const BLOCK_SECONDS = 0.4;
+const SILENCE_GATE_DB = -50;
+/** How long the music takes to duck and to come back, in seconds. */
+const DUCK_RAMP_SECONDS = 0.3;
+const MUSIC_FADE_OUT_SECONDS = 2;
+/** The music bed is mixed in stereo at CD rate; narration alone stays 24 kHz mono. */
+const MUSIC_SAMPLE_RATE = 44100;
+
+const toDb = (gain: number) => 20 * Math.log10(Math.max(gain, 1e-9));
+const fromDb = (db: number) => 10 ** (db / 20);
+
+/**
+ * Speech loudness of a clip in dBFS: the RMS of its non-silent 400 ms blocks.
+ * Returns -Infinity for a clip that is silent throughout.
+ */
+export const measureLoudness = (samples: Float32Array, sampleRate = PCM_SAMPLE_RATE): number => {
+  const blockSize = Math.max(1, Math.round(BLOCK_SECONDS * sampleRate));
+  let energy = 0;
+  let counted = 0;
+  for (let start = 0; start < samples.length; start += blockSize) {
+    const end = Math.min(start + blockSize, samples.length);
+    let blockEnergy = 0;
+    for (let i = start; i < end; i++) blockEnergy += samples[i] * samples[i];
+    if (toDb(Math.sqrt(blockEnergy / (end - start))) < SILENCE_GATE_DB) continue;
+    energy += blockEnergy;
+    counted += end - start;
+  }
+  return counted > 0 ? toDb(Math.sqrt(energy / counted)) : -Infinity;
+};
+
+/** Gain that brings a clip to the target loudness without pushing its peak over the ceiling. */
+export const normalizationGain = (samples: Float32Array, targetDb: number): number => {
+  const loudness = measureLoudness(samples);
+  if (!Number.isFinite(loudness)) return 1;
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) peak = Math.max(peak, Math.abs(samples[i]));
+  const gain = fromDb(targetDb - loudness);
+  return peak > 0 ? Math.min(gain, PEAK_CEILING / peak) : gain;
+};
+
+/**
+ * Lays the clips out on the chapter timeline.
+ * @returns One marker per clip, and the total duration including padding.
+ */
+export const layoutChapter = (
+  durations: number[],
+  references: string[],
+  { pauseSeconds, paddingSeconds }: Pick<ChapterAudioOptions, 'pauseSeconds' | 'paddingSeconds'>
+): { markers: ChapterMarker[]; duration: number } => {
+  let cursor = paddingSeconds;
+  const markers = durations.map((duration, index) => {
+    const marker = { reference: references[index], start: cursor, end: cursor + duration };
+    cursor = marker.end + (index < durations.length - 1 ? pauseSeconds : 0);
+    return marker;
+  });
+  return { markers, duration: cursor + paddingSeconds };
+};
+
+/**
+ * The music level over the chapter, as [time, gain] points in time order joined by linear ramps:
+ * ducked under every narration, back up between narrations and fading out at the end.
+ * A ramp takes at most half the gap between two narrations, so the ramps down and up never
+ * overlap; with no gap the music stays ducked.
+ */
+export const duckingEnvelope = (
+  markers: ChapterMarker[],
+  duration: number,
+  { volume, duckedVolume }: Pick<MusicBedOptions, 'volume' | 'duckedVolume'>
+): [number, number][] => {
+  const points: [number, number][] = [[0, volume]];
+  const add = (time: number, gain: number) => {
+    // A point at the same time as the last one replaces it: the level jumps there.
+    if (points[points.length - 1][0] === time) points.pop();
+    points.push([time, gain]);
+  };
+  markers.forEach((marker, index) => {
+    const previous = markers[index - 1];
+    const next = markers[index + 1];
+    const rampIn = previous ? Math.min(DUCK_RAMP_SECONDS, (marker.start - previous.end) / 2) : Math.min(DUCK_RAMP_SECONDS, marker.start);
+    const rampOut = next ? Math.min(DUCK_RAMP_SECONDS, (next.start - marker.end) / 2) : Math.min(DUCK_RAMP_SECONDS, duration - marker.end);
+    if (rampIn > 0) add(marker.start - rampIn, volume);
+    add(marker.start, duckedVolume);
+    add(marker.end, duckedVolume);
+    if (rampOut > 0) add(marker.end + rampOut, volume);
+  });
+
+  const fadeStart = Math.max(0, duration - MUSIC_FADE_OUT_SECONDS);
+  const after = points.findIndex(([time]) => time > fadeStart);
+  if (after === -1) {
+    add(fadeStart, points[points.length - 1][1]);
+  } else {
+    const [startTime, startGain] = points[after - 1];
+    const [endTime, endGain] = points[after];
+    points.splice(after);
+    add(fadeStart, startGain + ((endGain - startGain) * (fadeStart - startTime)) / (endTime - startTime));
+  }
+  add(duration, 0);
+  return points;
+};
+
+/**
+ * Renders the clips, in order, to a single WAV file.
+ * @param clips - The narrations, in reading order.
+ * @param options - Pauses, normalization and music bed.
+ * @returns A promise that resolves to the WAV file and its chapter markers.
+ */
+export const assembleChapterAudio = async (clips: ChapterClip[], options: ChapterAudioOptions): Promise<ChapterAudio> => {
+  if (clips.length === 0) {
+    throw new Error(t('errors.chapterAudioEmpty'));
+  }
+  if (typeof OfflineAudioContext === 'undefined') {
+    throw new Error(t('errors.chapterAudioUnsupported'));
+  }
+
+  const samples = clips.map((clip) => pcmToFloat32(clip.audioBase64));
+  const { markers, duration } = layoutChapter(
+    samples.map((clip) => clip.length / PCM_SAMPLE_RATE),
+    clips.map((clip) => clip.reference),
+    options
+  );
+
+  const sampleRate = options.music ? MUSIC_SAMPLE_RATE : PCM_SAMPLE_RATE;
+  const context = new OfflineAudioContext(options.music ? 2 : 1, Math.ceil(duration * sampleRate), sampleRate);
+  const targetDb = options.targetLoudnessDb ?? DEFAULT_TARGET_LOUDNESS_DB;
+
+  samples.forEach((clipSamples, index) => {
+    const buffer = context.createBuffer(1, Math.max(clipSamples.length, 1), PCM_SAMPLE_RATE);
+    buffer.copyToChannel(clipSamples, 0);
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    const gain = context.createGain();
+    gain.gain.value = options.normalize ? normalizationGain(clipSamples, targetDb) : 1;
+    source.connect(gain).connect(context.destination);
+    source.start(markers[index].start);
+  });
+
+  if (options.music) {
+    const { file } = options.music;
+    let musicBuffer: AudioBuffer;
+    try {
+      musicBuffer = await context.decodeAudioData(await file.arrayBuffer());
+    } catch {
+      throw new Error(t('errors.musicUnreadable'));
+    }
+    const music = context.createBufferSource();
+    music.buffer = musicBuffer;
+    music.loop = true;
+    const musicGain = context.createGain();
+    const [[, startGain], ...envelope] = duckingEnvelope(markers, duration, options.music);
+    musicGain.gain.setValueAtTime(startGain, 0);
+    envelope.forEach(([time, gain]) => musicGain.gain.linearRampToValueAtTime(gain, time));
+    music.connect(musicGain).connect(context.destination);
+    music.start(0);
+  }
+
+  const rendered = await context.startRendering();
+  return { wav: audioBufferToWavBlob(rendered), markers, duration };
+};
+
+const formatTimestamp = (seconds: number) => {
+  const whole = Math.floor(seconds);
+  const hours = Math.floor(whole / 3600);
+  const minutes = Math.floor((whole % 3600) / 60);
+  const secs = String(whole % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+};
+
+/**
+ * Chapter list in the "0:00 Title" format video platforms read from descriptions.
+ * Platforms require the list to start at 0:00, so the first chapter covers the lead-in.
+ */
+export const toChapterList = (markers: ChapterMarker[]): string =>
+  markers.map((marker, index) => `${formatTimestamp(index === 0 ? 0 : marker.start)} ${marker.reference}`).join('\n') + '\n';
+
+/** Markers as cues, e.g. for a WebVTT chapters track with `toWebVtt`. */
+export const markersToCues = (markers: ChapterMarker[]): CaptionCue[] =>
+  markers.map((marker) => ({ start: marker.start, end: marker.end, lines: [marker.reference] }));
@@ -0,0 +1,122 @@
+// Character bible: the shared character descriptions of a sequence, with locking, reference
+// portraits and JSON exchange.
+import type { SceneReference } from "./geminiService";
+import { t } from "./i18n";
+
+export interface CharacterEntry {
+  name: string;
+  description: string;
+  locked: boolean;
+  /** The character-sheet portrait as a data URL, if one was generated. */
+  portrait?: string;
+}
+
+export interface CharacterBible {
+  descriptions: Record<string, string>;
+  locked: string[];
+  /** Reference portraits as data URLs, keyed by character name. */
+  portraits: Record<string, string>;
+}
+
+interface CharacterBibleFile {
+  version: 1;
+  characters: CharacterEntry[];
+}
+
+/**
+ * Reapplies locked descriptions on top of what the model returned. Locked characters
+ * the model rewrote or left out are restored, so their look can't drift.
+ * @param generated - Descriptions returned by the model.
+ * @param existing - Descriptions known before the call.
+ * @param locked - Names of the locked characters.
+ */
+export const enforceLockedCharacters = (
+  generated: Record<string, string>,
+  existing: Record<string, string> | undefined,
+  locked: string[] = []
+): Record<string, string> => {
+  const result = { ...generated };
+  for (const name of locked) {
+    const description = existing?.[name];
+    if (description === undefined) continue;
+    if (result[name] !== description) {
+      console.warn(`Model changed locked character "${name}"; keeping the locked description.`);
+    }
+    result[name] = description;
+  }
+  return result;
+};
+
+/** Serializes a character bible, portraits included, to the JSON exchange format. */
+export const exportCharacterBible = ({ descriptions, locked, portraits }: CharacterBible): string => {
+  const file: CharacterBibleFile = {
+    version: 1,
+    characters: Object.entries(descriptions).map(([name, description]) => ({
+      name,
+      description,
+      locked: locked.includes(name),
+      ...(portraits[name] ? { portrait: portraits[name] } : {}),
+    })),
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+/**
+ * Reads a character bible exported by `exportCharacterBible`. A plain
+ * `{ "Nome": "descrição" }` object is accepted too, with nothing locked.
+ */
+export const parseCharacterBible = (json: string): CharacterBible => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error(t('errors.characterFileJson'));
+  }
+
+  const entries: CharacterEntry[] = Array.isArray(parsed?.characters)
+    ? parsed.characters
+    : parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+      ? Object.entries(parsed).map(([name, description]) => ({ name, description: description as string, locked: false }))
+      : [];
+
+  const valid = entries.filter((entry) =>
+    typeof entry?.name === 'string' && entry.name.trim() && typeof entry.description === 'string'
+  );
+  if (valid.length === 0) {
+    throw new Error(t('errors.characterFileEmpty'));
+  }
+
+  return {
+    descriptions: Object.fromEntries(valid.map((entry) => [entry.name.trim(), entry.description.trim()])),
+    locked: valid.filter((entry) => entry.locked).map((entry) => entry.name.trim()),
+    portraits: Object.fromEntries(valid
+      .filter((entry) => typeof entry.portrait === 'string' && entry.portrait.startsWith('data:image/'))
+      .map((entry) => [entry.name.trim(), entry.portrait as string])),
+  };
+};
+
+/** The characters with a portrait whose name appears in the scene prompt; the default references for a scene. */
+export const charactersInPrompt = (prompt: string, portraits: Record<string, string>): string[] => {
+  const text = prompt.toLocaleLowerCase();
+  return Object.keys(portraits).filter((name) => text.includes(name.toLocaleLowerCase()));
+};
+
+/**
+ * Collects the images a scene is conditioned on: the chosen portraits, then the previous frame.
+ * @param names - The characters whose portraits apply to the scene.
+ * @param portraits - All reference portraits.
+ * @param previousFrame - The preceding scene as a data URL, if it should be used.
+ */
+export const buildSceneReferences = (
+  names: string[],
+  portraits: Record<string, string>,
+  previousFrame?: string | null
+): SceneReference[] => {
+  const references: SceneReference[] = names
+    .filter((name) => portraits[name])
+    .map((name) => ({ label: `retrato de referência de ${name}`, image: portraits[name] }));
+  if (previousFrame) {
+    references.push({ label: 'cena anterior da sequência', image: previousFrame });
+  }
+  return references;
+};
@@ -0,0 +1,107 @@
+// Thin promise wrapper around the app's IndexedDB database.
+import { t } from "./i18n";
+
+const DB_NAME = 'gerador-cenas-biblicas';
+const DB_VERSION = 6;
+
+export const STORES = {
+  translations: 'translations',
+  verses: 'verses',
+  projects: 'projects',
+  projectVerses: 'projectVerses',
+  stylePresets: 'stylePresets',
+  cacheEntries: 'cacheEntries',
+  cacheData: 'cacheData',
+  voicePresets: 'voicePresets',
+  jobs: 'jobs',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const upgrade = (db: IDBDatabase) => {
+  if (!db.objectStoreNames.contains(STORES.translations)) {
+    db.createObjectStore(STORES.translations, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(STORES.verses)) {
+    db.createObjectStore(STORES.verses, { keyPath: 'key' });
+  }
+  if (!db.objectStoreNames.contains(STORES.projects)) {
+    db.createObjectStore(STORES.projects, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(STORES.projectVerses)) {
+    db.createObjectStore(STORES.projectVerses, { keyPath: ['projectId', 'id'] });
+  }
+  if (!db.objectStoreNames.contains(STORES.stylePresets)) {
+    db.createObjectStore(STORES.stylePresets, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(STORES.cacheEntries)) {
+    db.createObjectStore(STORES.cacheEntries, { keyPath: 'key' });
+  }
+  if (!db.objectStoreNames.contains(STORES.cacheData)) {
+    db.createObjectStore(STORES.cacheData, { keyPath: 'key' });
+  }
+  if (!db.objectStoreNames.contains(STORES.voicePresets)) {
+    db.createObjectStore(STORES.voicePresets, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(STORES.jobs)) {
+    db.createObjectStore(STORES.jobs, { keyPath: 'id' });
+  }
+};
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error(t('errors.indexedDbUnavailable')));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => upgrade(request.result);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed.
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const promisifyTransaction = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+export const getRecord = async <T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return promisifyRequest<T>(db.transaction(store).objectStore(store).get(key));
+};
+
+export const getAllRecords = async <T>(store: StoreName, query?: IDBKeyRange): Promise<T[]> => {
+  const db = await openDatabase();
+  return promisifyRequest<T[]>(db.transaction(store).objectStore(store).getAll(query));
+};
+
+export const putRecords = async <T>(store: StoreName, records: T[]): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(store, 'readwrite');
+  const objectStore = transaction.objectStore(store);
+  records.forEach((record) => objectStore.put(record));
+  return promisifyTransaction(transaction);
+};
+
+export const deleteRecords = async (store: StoreName, query: IDBValidKey | IDBKeyRange): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(store, 'readwrite');
+  transaction.objectStore(store).delete(query);
+  return promisifyTransaction(transaction);
+};
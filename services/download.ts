@@ -0,0 +1,29 @@
+// Saves generated files through a temporary download link.
+import { parseDataUrl } from "./base64";
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+/** The file extension for an image data URL, from its MIME type. */
+export const imageExtension = (dataUrl: string): string => IMAGE_EXTENSIONS[parseDataUrl(dataUrl).mimeType] ?? 'bin';
+
+const clickDownloadLink = (href: string, fileName: string) => {
+  const link = document.createElement('a');
+  link.href = href;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  clickDownloadLink(url, fileName);
+  URL.revokeObjectURL(url);
+};
+
+/** Saves a file held as a data URL, such as a generated scene. */
+export const downloadDataUrl = (dataUrl: string, fileName: string) => clickDownloadLink(dataUrl, fileName);
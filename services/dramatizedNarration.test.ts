@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { scriptMatchesText } from './dramatizedNarration';
+import { NARRATOR_SPEAKER } from './textPrompts';
+
+const VERSE = 'E disse Samuel:\n Fala, porque o teu servo ouve.';
+
+describe('scriptMatchesText', () => {
+  it('accepts a split that only changes whitespace', () => {
+    const lines = [
+      { speaker: NARRATOR_SPEAKER, text: 'E disse Samuel:' },
+      { speaker: 'Samuel', text: 'Fala,  porque o teu servo ouve.' },
+    ];
+    expect(scriptMatchesText(lines, VERSE)).toBe(true);
+  });
+
+  it('rejects a split that drops or rewords text', () => {
+    expect(scriptMatchesText([{ speaker: 'Samuel', text: 'Fala, porque o teu servo ouve.' }], VERSE)).toBe(false);
+    const reworded = [
+      { speaker: NARRATOR_SPEAKER, text: 'E Samuel respondeu:' },
+      { speaker: 'Samuel', text: 'Fala, porque o teu servo ouve.' },
+    ];
+    expect(scriptMatchesText(reworded, VERSE)).toBe(false);
+  });
+});
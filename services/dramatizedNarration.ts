@@ -0,0 +1,94 @@
+// Dramatized narration: a verse split into narrator and character lines, each read by its speaker's voice.
+import { NARRATOR_SPEAKER, type DialogueLine } from "./geminiService";
+import { cachedDialogue, cachedSpeech, type CacheOptions } from "./generationCache";
+import type { VoiceSettings } from "./voiceCatalog";
+import { concatPcm } from "./audio";
+
+/** Prebuilt voices handed out to speakers; the narrator gets the first one by default. */
+export const DRAMATIZED_VOICES = ['Puck', 'Charon', 'Kore', 'Fenrir', 'Aoede', 'Orus', 'Leda', 'Zephyr'];
+
+/** Silence between two lines, in seconds. */
+export const LINE_PAUSE_SECONDS = 0.35;
+
+export interface DramatizedLine extends DialogueLine {
+  /** The voice the line was read with. */
+  voiceName: string;
+}
+
+export interface DramatizedNarration {
+  lines: DramatizedLine[];
+  /** Base64 encoded PCM of all lines in order. */
+  audioBase64: string;
+  /** Whether the script and every line's audio came from the generation cache. */
+  fromCache: boolean;
+}
+
+/**
+ * Gives every speaker without a voice one of `DRAMATIZED_VOICES`, preferring the least used,
+ * so existing assignments are never changed.
+ * @param speakers - The speakers of a script.
+ * @param voices - Current assignments, by speaker name.
+ * @returns The assignments with the new speakers added.
+ */
+export const assignVoices = (speakers: string[], voices: Record<string, string>): Record<string, string> => {
+  const assigned = { ...voices };
+  if (!assigned[NARRATOR_SPEAKER]) assigned[NARRATOR_SPEAKER] = DRAMATIZED_VOICES[0];
+  speakers.forEach((speaker) => {
+    if (assigned[speaker]) return;
+    const usage = (voice: string) => Object.values(assigned).filter((used) => used === voice).length;
+    // The narrator's voice is left out so characters never sound like the narration.
+    const candidates = DRAMATIZED_VOICES.filter((voice) => voice !== assigned[NARRATOR_SPEAKER]);
+    assigned[speaker] = candidates.reduce((best, voice) => (usage(voice) < usage(best) ? voice : best));
+  });
+  return assigned;
+};
+
+const normalizeWhitespace = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+/**
+ * Whether a script's lines, joined in order, reproduce the verse, ignoring differences in whitespace.
+ * The model is asked not to change a word, but may still drop, add or reword text.
+ */
+export const scriptMatchesText = (lines: DialogueLine[], text: string): boolean =>
+  normalizeWhitespace(lines.map((line) => line.text).join(' ')) === normalizeWhitespace(text);
+
+/**
+ * Reads a verse with one voice per speaker: splits it into lines, then speaks and joins them.
+ * Lines are spoken one after another, so long dialogues take a while but stay within rate limits.
+ * When the split doesn't reproduce the verse word for word, the narrator reads the whole verse instead.
+ * @param text - The verse text.
+ * @param characterNames - Names from the character bible, so speakers match them.
+ * @param voices - Voice assignments; speakers without one get a voice through `assignVoices`.
+ * @param delivery - Style and speaking rate, shared by every speaker.
+ * @param options - Cache options; `force` regenerates the audio but keeps the cached split.
+ * @returns The narration and the assignments including any new speakers.
+ */
+export const generateDramatizedNarration = async (
+  text: string,
+  characterNames: string[],
+  voices: Record<string, string>,
+  delivery: Pick<VoiceSettings, 'style' | 'rate'>,
+  options: CacheOptions = {}
+): Promise<{ narration: DramatizedNarration; voices: Record<string, string> }> => {
+  const script = await cachedDialogue(text, characterNames);
+  let split = script.value;
+  if (!scriptMatchesText(split, text)) {
+    console.warn("The dialogue split changed the verse text; reading it with the narrator's voice only.");
+    split = [{ speaker: NARRATOR_SPEAKER, text: text.trim() }];
+  }
+  const assigned = assignVoices(split.map((line) => line.speaker), voices);
+  const lines = split.map((line) => ({ ...line, voiceName: assigned[line.speaker] }));
+
+  const clips: string[] = [];
+  let fromCache = script.fromCache;
+  for (const line of lines) {
+    const speech = await cachedSpeech(line.text, { ...delivery, voiceName: line.voiceName }, options);
+    clips.push(speech.value);
+    fromCache = fromCache && speech.fromCache;
+  }
+
+  return {
+    narration: { lines, audioBase64: concatPcm(clips, LINE_PAUSE_SECONDS), fromCache },
+    voices: assigned,
+  };
+};
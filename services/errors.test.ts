@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { classifyError, describeError, GenerationError } from './errors';
+import { t } from './i18n';
+
+describe('classifyError', () => {
+  it('marks failures transient by HTTP status, error body status or network error code', () => {
+    expect(classifyError(Object.assign(new Error('Service Unavailable'), { status: 503 })).kind).toBe('transient');
+    expect(classifyError(new Error('got status: 500. {"error":{"code":500,"status":"INTERNAL"}}')).kind).toBe('transient');
+    expect(classifyError(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' })).kind).toBe('transient');
+    expect(classifyError(new TypeError('Failed to fetch')).kind).toBe('transient');
+  });
+
+  it('does not retry messages that only mention "500" or "internal"', () => {
+    expect(classifyError(new Error('Prompt longer than 500 characters')).kind).toBe('unknown');
+    expect(classifyError(new Error('Internal references are not allowed')).kind).toBe('unknown');
+    expect(classifyError(Object.assign(new Error('Bad request'), { status: 400 })).kind).toBe('unknown');
+  });
+});
+
+describe('describeError', () => {
+  it('keeps the message of errors the app raised', () => {
+    const error = new GenerationError('verse-not-found', 'Gênesis tem 50 capítulos.');
+    expect(describeError(error, 'fallback')).toBe('Gênesis tem 50 capítulos.');
+  });
+
+  it('replaces raw provider failures with the guidance for their kind', () => {
+    const error = Object.assign(new Error('{"error":{"code":429,"status":"RESOURCE_EXHAUSTED"}}'), { status: 429 });
+    expect(describeError(error, 'fallback')).toBe(t('errors.guidance.quota'));
+    expect(describeError(classifyError(error), 'fallback')).toBe(t('errors.guidance.quota'));
+  });
+
+  it('falls back when an unknown error has no message', () => {
+    expect(describeError(new Error(''), 'fallback')).toBe('fallback');
+  });
+});
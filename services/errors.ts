@@ -0,0 +1,140 @@
+// Typed generation errors, retries with exponential backoff, and the guidance shown for each kind of failure.
+import { t, type MessageKey } from "./i18n";
+
+export type GenerationErrorKind =
+  /** A server or network hiccup that usually goes away on its own (HTTP 5xx, UNAVAILABLE, fetch failures). */
+  | 'transient'
+  /** The API key ran out of quota or hit a rate limit (HTTP 429, RESOURCE_EXHAUSTED). */
+  | 'quota'
+  /** The model refused the request or returned nothing because of its safety filters. */
+  | 'safety'
+  /** The text model didn't recognise the Bible reference. */
+  | 'verse-not-found'
+  /** The model answered, but not in the expected format. */
+  | 'malformed-response'
+  | 'unknown';
+
+export class GenerationError extends Error {
+  readonly kind: GenerationErrorKind;
+  /** The provider error this one was classified from, if any. */
+  readonly cause?: unknown;
+  /** Whether `classifyError` built this from a raw provider failure, whose message isn't written for users. */
+  readonly classified: boolean;
+
+  constructor(kind: GenerationErrorKind, message: string, cause?: unknown, classified = false) {
+    super(message);
+    this.name = 'GenerationError';
+    this.kind = kind;
+    this.cause = cause;
+    this.classified = classified;
+  }
+}
+
+const TRANSIENT_STATUSES = [500, 502, 503, 504];
+/** Node's socket error codes for a dropped or stalled connection. */
+const NETWORK_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN'];
+/** The status field of a Gemini error body, e.g. `"status": "UNAVAILABLE"`. Case-sensitive on purpose. */
+const TRANSIENT_STATUS_FIELD = /"status":\s*"(UNAVAILABLE|INTERNAL|DEADLINE_EXCEEDED)"/;
+/** What `fetch` throws when the request never got an answer, in Chrome, Firefox, Safari and Node. */
+const NETWORK_MESSAGE = /^(Failed to fetch|NetworkError when attempting to fetch resource|Load failed|fetch failed)|Rpc failed due to xhr error/;
+const QUOTA_PATTERN = /\b429\b|RESOURCE_EXHAUSTED|quota|rate limit/i;
+const SAFETY_PATTERN = /SAFETY|blocked|PROHIBITED_CONTENT|responsible AI/i;
+
+/**
+ * Works out what kind of failure an error from a provider or the service layer is.
+ * Errors that are already a `GenerationError` are returned unchanged.
+ */
+export const classifyError = (err: unknown): GenerationError => {
+  if (err instanceof GenerationError) return err;
+  const error = err as { message?: string; status?: unknown; code?: unknown; cause?: { code?: unknown } } | undefined;
+  const message = error?.message ?? String(err);
+  const status = typeof error?.status === 'number' ? error.status : typeof error?.code === 'number' ? error.code : undefined;
+  const code = typeof error?.code === 'string' ? error.code : error?.cause?.code;
+
+  let kind: GenerationErrorKind = 'unknown';
+  if (status === 429 || QUOTA_PATTERN.test(message)) {
+    kind = 'quota';
+  } else if (
+    (status !== undefined && TRANSIENT_STATUSES.includes(status))
+    || (typeof code === 'string' && NETWORK_CODES.includes(code))
+    || TRANSIENT_STATUS_FIELD.test(message)
+    || NETWORK_MESSAGE.test(message)
+  ) {
+    kind = 'transient';
+  } else if (SAFETY_PATTERN.test(message)) {
+    kind = 'safety';
+  }
+  return new GenerationError(kind, message, err, true);
+};
+
+export interface RetryPolicy {
+  /** Attempts after the first one; 0 disables retries. */
+  maxRetries: number;
+  /** Wait before the first retry, in milliseconds. Doubles on every retry. */
+  baseDelayMs: number;
+  /** Upper bound for a single wait, in milliseconds. */
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 15000,
+};
+
+let retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
+
+/** Changes how transient failures are retried, e.g. `setRetryPolicy({ maxRetries: 0 })` to fail fast. */
+export const setRetryPolicy = (changes: Partial<RetryPolicy>) => {
+  retryPolicy = { ...retryPolicy, ...changes };
+};
+
+export const getRetryPolicy = (): RetryPolicy => retryPolicy;
+
+/** Full-jitter backoff: a random wait up to `baseDelayMs * 2^attempt`, capped at `maxDelayMs`. */
+const backoffDelay = (attempt: number, policy: RetryPolicy) =>
+  Math.random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Runs a provider call, retrying transient failures with exponential backoff.
+ * @param call - The call to make; run again on every retry.
+ * @param policy - Overrides for the configured retry policy.
+ * @returns The call's result.
+ * @throws {GenerationError} The classified error once it isn't transient or the retries run out.
+ */
+export const withRetry = async <T>(call: () => Promise<T>, policy: Partial<RetryPolicy> = {}): Promise<T> => {
+  const { maxRetries, baseDelayMs, maxDelayMs } = { ...retryPolicy, ...policy };
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await call();
+    } catch (err) {
+      const error = classifyError(err);
+      if (error.kind !== 'transient' || attempt >= maxRetries) throw error;
+      const delay = backoffDelay(attempt, { maxRetries, baseDelayMs, maxDelayMs });
+      console.warn(`Transient error, retrying in ${Math.round(delay)} ms (${attempt + 1}/${maxRetries}):`, error.message);
+      await sleep(delay);
+    }
+  }
+};
+
+const GUIDANCE: Record<Exclude<GenerationErrorKind, 'unknown'>, MessageKey> = {
+  transient: 'errors.guidance.transient',
+  quota: 'errors.guidance.quota',
+  safety: 'errors.guidance.safety',
+  'verse-not-found': 'errors.guidance.verseNotFound',
+  'malformed-response': 'errors.guidance.malformedResponse',
+};
+
+/**
+ * Turns any failure into a message for the user. Errors this app raised keep their own message;
+ * raw provider failures get the guidance for their kind instead.
+ * @param err - The caught error.
+ * @param fallback - Shown when the error carries no message of its own.
+ */
+export const describeError = (err: unknown, fallback: string): string => {
+  const error = classifyError(err);
+  if (error.classified && error.kind !== 'unknown') return t(GUIDANCE[error.kind]);
+  return error.message || fallback;
+};
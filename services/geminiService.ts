@@ -1,13 +1,19 @@
-import { GoogleGenAI, Modality, Type } from "@google/genai";
-
-const API_KEY = process.env.API_KEY;
-if (!API_KEY) {
-    throw new Error("API_KEY environment variable not set");
-}
-
-const ai = new GoogleGenAI({ apiKey: API_KEY });
-
-const STYLE_PROMPT_APPENDIX = `, no estilo de um desenho da Pixar, personagens expressivos, iluminação cinematográfica, 3D, 4K, alto detalhe`;
+import { getProvider, type AspectRatio } from "./providers";
+import { enforceLockedCharacters } from "./characterBible";
+import { parseDataUrl, toDataUrl } from "./base64";
+import { changePcmTempo } from "./audio";
+import { DEFAULT_STYLE_PRESET, type StylePreset } from "./stylePresets";
+import { GenerationError, withRetry } from "./errors";
+import { buildSpeechPrompt, type VoiceSettings } from "./voiceCatalog";
+import { t } from "./i18n";
+import { buildTextRequest, NARRATOR_SPEAKER } from "./textPrompts";
+
+
+/** The JSON object in a model answer, without the markdown fences or extra text the model sometimes adds around it. */
+const extractJsonString = (text: string): string => {
+  const match = text.match(/\{[\s\S]*\}/);
+  return match ? match[0] : text.trim();
+};
 
 export interface SceneGenerationResult {
   scenePrompt: string;
@@ -19,102 +25,22 @@ export interface SceneGenerationResult {
  * Can be used to start a new scene or continue an existing one with consistent characters.
  * @param bibleReference - The Bible verse (e.g., "Gênesis 1:5").
  * @param existingCharacters - Optional map of character names to their descriptions for consistency.
+ * @param lockedCharacters - Names of characters whose descriptions must come back unchanged; any change the model makes is overwritten.
  * @returns A promise that resolves to an object containing the scene prompt and character descriptions.
  */
 export const generateImagePrompt = async (
   bibleReference: string,
-  existingCharacters?: Record<string, string>
+  existingCharacters?: Record<string, string>,
+  lockedCharacters: string[] = []
 ): Promise<SceneGenerationResult> => {
   try {
-    const isContinuation = existingCharacters && Object.keys(existingCharacters).length > 0;
-
-    // Convert existing characters to the array format for the prompt
-    const existingCharsAsArray = isContinuation
-      ? Object.entries(existingCharacters).map(([name, description]) => ({ name, description }))
-      : [];
-
-    const characterInstructions = isContinuation
-      ? `Você DEVE usar as seguintes descrições de personagens para consistência: ${JSON.stringify(existingCharsAsArray, null, 2)}. Não altere essas descrições.`
-      : `Sua primeira tarefa é criar descrições detalhadas e reutilizáveis para cada personagem na cena. Seja específico sobre características faciais, cabelo, roupas, idade e físico para que possam ser recriados de forma idêntica.`;
-
-    const prompt = `
-Sua tarefa é analisar o versículo bíblico '${bibleReference}' e gerar um objeto JSON para criar uma cena visual.
-Sua prioridade máxima é a precisão teológica, histórica e a consistência visual dos personagens em cenas sequenciais.
-
-${characterInstructions}
-
-Se o versículo bíblico solicitado não existir (por exemplo, o próximo versículo após o final de um capítulo), sua resposta JSON DEVE ser: { "error": "VERSE_NOT_FOUND" }. Não tente adivinhar ou criar conteúdo.
-
-Baseado na sua análise e nas instruções de personagem, gere um objeto JSON com o seguinte formato:
-{
-  "scenePrompt": "Um parágrafo único, detalhado e vívido, descrevendo a nova cena, o ambiente, a iluminação e a ação principal. Este será usado para gerar a imagem.",
-  "characterDescriptions": [
-    {
-      "name": "NomeDoPersonagem1",
-      "description": "Descrição visual detalhada e reutilizável..."
-    },
-    {
-      "name": "NomeDoPersonagem2",
-      "description": "Descrição visual detalhada e reutilizável..."
-    }
-  ]
-}
-
-- **Regra Crítica: Fidelidade Bíblica na Aparência:** A aparência física DEVE ser sua prioridade máxima.
-  - **Base Teológica:** Baseie-se estritamente em descrições bíblicas e no contexto histórico do antigo Oriente Médio.
-  - **Inferência Lógica:** Vá além do texto literal. Você DEVE inferir características físicas a partir de detalhes narrativos. Por exemplo, a Bíblia descreve o sacerdote Eli como "velho e pesado" (1 Samuel 4:18). Portanto, sua descrição visual DEVE refleti-lo como um homem idoso, significativamente acima do peso e de baixa estatura para acentuar sua corpulência. Aplique essa mesma lógica de inferência para TODOS os personagens.
-  - **Etnia:** Evite representações eurocêntricas. Todos os personagens devem ter traços consistentes com a etnia do Oriente Médio (pele morena, cabelo escuro, etc.), a menos que o texto especifique o contrário.
-
-- **Regra de Segurança CRÍTICA (Prioridade Máxima):** O prompt gerado será usado por uma IA de imagem com filtros de segurança MUITO rigorosos. A falha em seguir estas regras resultará em um erro de geração. Sua tarefa é criar um prompt que SEJA SEGURO.
-  - **PROIBIDO Conteúdo Violento:** NÃO descreva sangue, ferimentos, armas em uso, combate, morte explícita ou qualquer forma de violência gráfica. Esta é a principal causa de falha.
-  - **FOCO NO EMOCIONAL E IMPLÍCITO:** Em vez de descrever a ação violenta, foque 100% nas emoções dos personagens, nas reações e no resultado da ação.
-    - **Exemplo RUIM (Resulta em erro):** "Davi atirou a pedra que atingiu a testa de Golias, que caiu morto."
-    - **Exemplo BOM (Funciona):** "Davi observa com determinação enquanto o gigante Golias, com uma expressão de surpresa, cambaleia e cai no chão, derrotado. A tensão no campo de batalha se transforma em espanto."
-    - **Exemplo RUIM (Resulta em erro):** "Eli caiu e quebrou o pescoço."
-    - **Exemplo BOM (Funciona):** "O sacerdote Eli, ao ouvir a notícia trágica, cai para trás de sua cadeira em choque, seu corpo imóvel no chão, enquanto as pessoas ao redor reagem com desespero."
-  - **PROIBIDO Conteúdo Adulto:** NÃO descreva nudez ou roupas reveladoras. Os personagens devem usar vestimentas modestas e historicamente apropriadas.
-  - **Palavras-Chave a Evitar:** Evite estritamente palavras como "matar", "sangue", "ferida", "morte", "luta", "batalha", "arma", "nudez". Descreva a cena de forma a contornar essas palavras.
-
-- **JSON de Saída:** Sua resposta final deve ser APENAS o objeto JSON, sem nenhum texto ou formatação adicional. Se você está continuando uma cena, a lista 'characterDescriptions' retornada deve ser a mesma que foi fornecida, a menos que um novo personagem seja introduzido.
-`;
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        responseMimeType: 'application/json',
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-             error: { type: Type.STRING, description: 'Campo de erro opcional.', nullable: true },
-            scenePrompt: {
-              type: Type.STRING,
-              description: 'O prompt detalhado para gerar a imagem.',
-            },
-            characterDescriptions: {
-              type: Type.ARRAY,
-              description: 'Uma lista de objetos, cada um contendo o nome e a descrição de um personagem.',
-              items: {
-                  type: Type.OBJECT,
-                  properties: {
-                      name: { type: Type.STRING, description: 'O nome do personagem.'},
-                      description: { type: Type.STRING, description: 'A descrição visual do personagem.'}
-                  },
-                  required: ['name', 'description']
-              }
-            },
-          },
-        },
-      },
-    });
+    const responseText = await withRetry(() => getProvider().generateText(buildTextRequest({
+      task: 'scene',
+      reference: bibleReference,
+      characters: existingCharacters ?? {},
+    })));
 
-    const rawText = response.text.trim();
-    // The model sometimes wraps the JSON in markdown backticks or adds extra text. 
-    // This function extracts the clean JSON string.
-    const extractJsonString = (str: string): string => {
-        const match = str.match(/\{[\s\S]*\}/);
-        return match ? match[0] : str;
-    };
+    const rawText = responseText.trim();
     const jsonString = extractJsonString(rawText);
 
     try {
@@ -127,11 +53,11 @@ Baseado na sua análise e nas instruções de personagem, gere um objeto JSON co
         const parsedJson: ApiResponse = JSON.parse(jsonString);
         
         if (parsedJson.error === 'VERSE_NOT_FOUND') {
-            throw new Error('VERSE_NOT_FOUND');
+            throw new GenerationError('verse-not-found', t('errors.verseNotRecognized', { reference: bibleReference }));
         }
 
         if (!parsedJson.scenePrompt || !parsedJson.characterDescriptions) {
-            throw new Error("Resposta da IA com campos ausentes.");
+            throw new GenerationError('malformed-response', t('errors.missingFields'));
         }
 
         const characterDescriptionsMap = parsedJson.characterDescriptions.reduce((acc, char) => {
@@ -141,14 +67,14 @@ Baseado na sua análise e nas instruções de personagem, gere um objeto JSON co
 
         return {
             scenePrompt: parsedJson.scenePrompt,
-            characterDescriptions: characterDescriptionsMap,
+            characterDescriptions: enforceLockedCharacters(characterDescriptionsMap, existingCharacters, lockedCharacters),
         };
     } catch (e: any) {
-        if (e.message === 'VERSE_NOT_FOUND') {
+        if (e instanceof GenerationError) {
             throw e; 
         }
         console.error("Failed to parse JSON response from AI:", rawText);
-        throw new Error("Falha ao processar a resposta da IA. O formato pode ser inválido.");
+        throw new GenerationError('malformed-response', t('errors.unparseableResponse'), e);
     }
 
   } catch (error) {
@@ -159,29 +85,76 @@ Baseado na sua análise e nas instruções de personagem, gere um objeto JSON co
 
 
 /**
- * Generates an image based on a descriptive prompt.
+ * Asks the text model to soften a scene prompt that the image model blocked or that contains risky terms.
+ * @param scenePrompt - The prompt to rewrite.
+ * @param flaggedTerms - Terms the local check found in it, if any.
+ * @returns A promise that resolves to the rewritten prompt.
+ */
+export const rewritePromptSafely = async (scenePrompt: string, flaggedTerms: string[] = []): Promise<string> => {
+  try {
+    const responseText = await withRetry(() => getProvider().generateText(buildTextRequest({ task: 'safe-rewrite', scenePrompt, flaggedTerms })));
+    const rewritten = responseText.trim().replace(/^"|"$/g, '');
+    if (!rewritten) {
+      throw new GenerationError('malformed-response', t('errors.noRewrite'));
+    }
+    return rewritten;
+  } catch (error) {
+    console.error("Error rewriting prompt:", error);
+    throw error;
+  }
+};
+
+/** An image a scene is conditioned on, such as a character portrait or the previous frame. */
+export interface SceneReference {
+  /** What the image shows, e.g. "retrato de Eli". Sent to the model with the image. */
+  label: string;
+  /** The image as a data URL. */
+  image: string;
+}
+
+export interface ImageOptions {
+  /** Images to keep faces, clothing and setting consistent with. */
+  references?: SceneReference[];
+  /** The art style; defaults to Pixar 3D. */
+  style?: StylePreset;
+}
+
+/** Most variants a single request may ask for. */
+export const MAX_IMAGE_VARIANTS = 4;
+
+/**
+ * Generates several alternative images for the same prompt.
  * @param prompt - The descriptive prompt for the image.
  * @param aspectRatio - The desired aspect ratio for the image.
- * @returns A promise that resolves to the base64 encoded image string.
+ * @param numberOfImages - How many variants to generate, up to `MAX_IMAGE_VARIANTS`.
+ * @param options - Optional reference images and art style.
+ * @returns A promise that resolves to the images as data URLs. Fewer may come back when some are blocked.
  */
-export const generateImage = async (prompt: string, aspectRatio: '9:16' | '16:9'): Promise<string> => {
+export const generateImageVariants = async (
+  prompt: string,
+  aspectRatio: AspectRatio,
+  numberOfImages: number,
+  { references = [], style = DEFAULT_STYLE_PRESET }: ImageOptions = {}
+): Promise<string[]> => {
   try {
-    const fullPrompt = prompt + STYLE_PROMPT_APPENDIX;
+    let fullPrompt = prompt + style.suffix;
+    if (references.length > 0) {
+      const legend = references.map((reference, index) => `${index + 1}. ${reference.label}`).join('\n');
+      fullPrompt += `\n\nImagens de referência, na ordem em que foram enviadas:\n${legend}\nMantenha rostos, cabelos, físico e roupas dos personagens idênticos aos das referências. Se uma delas for a cena anterior, preserve a continuidade do ambiente sem copiar sua composição.`;
+    }
 
-    const response = await ai.models.generateImages({
-        model: 'imagen-4.0-generate-001',
+    const images = await withRetry(() => getProvider().generateImages({
         prompt: fullPrompt,
-        config: {
-          numberOfImages: 1,
-          outputMimeType: 'image/jpeg',
-          aspectRatio: aspectRatio,
-        },
-    });
-
-    if (response.generatedImages && response.generatedImages.length > 0) {
-      return response.generatedImages[0].image.imageBytes;
+        aspectRatio: aspectRatio,
+        numberOfImages: Math.min(Math.max(1, numberOfImages), MAX_IMAGE_VARIANTS),
+        negativePrompt: style.negativePrompt || undefined,
+        referenceImages: references.length > 0 ? references.map((reference) => parseDataUrl(reference.image)) : undefined,
+    }));
+
+    if (images.length > 0) {
+      return images.map(toDataUrl);
     } else {
-      throw new Error("A imagem não pôde ser gerada. Isso pode ocorrer devido a filtros de segurança sobre o conteúdo da cena. Tente um versículo diferente ou uma nova cena com uma descrição menos explícita.");
+      throw new GenerationError('safety', t('errors.imageBlocked'));
     }
   } catch (error) {
     console.error("Error generating image:", error);
@@ -189,32 +162,48 @@ export const generateImage = async (prompt: string, aspectRatio: '9:16' | '16:9'
   }
 };
 
-const languageMap: { [key: string]: string } = {
-    'pt-BR': 'Português (Brasil)',
-    'en-US': 'Inglês (EUA)',
-    'es-ES': 'Espanhol (Espanha)',
-    'fr-FR': 'Francês (França)',
-    'de-DE': 'Alemão (Alemanha)',
+/**
+ * Generates an image based on a descriptive prompt.
+ * @param prompt - The descriptive prompt for the image.
+ * @param aspectRatio - The desired aspect ratio for the image.
+ * @param options - Optional reference images and art style.
+ * @returns A promise that resolves to the image as a data URL.
+ */
+export const generateImage = async (prompt: string, aspectRatio: AspectRatio, options?: ImageOptions): Promise<string> => {
+  const [image] = await generateImageVariants(prompt, aspectRatio, 1, options);
+  return image;
+};
+
+/**
+ * Generates the character-sheet portrait used as a visual reference for a character.
+ * @param name - The character's name.
+ * @param description - The character's visual description.
+ * @param style - The art style, so the portrait matches the scenes.
+ * @returns A promise that resolves to the portrait as a data URL.
+ */
+export const generateCharacterPortrait = async (name: string, description: string, style?: StylePreset): Promise<string> => {
+  const prompt = `Folha de personagem: retrato de corpo inteiro de ${name}, ${description}. De pé, de frente para a câmera, expressão neutra, fundo liso e neutro, iluminação uniforme, sem outros personagens`;
+  return generateImage(prompt, '9:16', { style });
 };
 
 /**
- * Fetches the text of a specific Bible verse.
+ * Asks the text model to recite a Bible verse. The model may paraphrase, so this is only
+ * a fallback for when no local translation is selected (see `bibleCorpus.ts`).
  * @param bibleReference - The Bible verse (e.g., "Gênesis 1:5").
  * @param language - The language code for the text (e.g., 'pt-BR').
  * @returns A promise that resolves to the verse text as a string.
  */
 export const getVerseText = async (bibleReference: string, language: string): Promise<string> => {
   try {
-    const languageName = languageMap[language] || 'Português (Brasil)';
-    const textPrompt = `Forneça o texto completo de '${bibleReference}' da Bíblia no idioma ${languageName}. Responda apenas com o texto do versículo, sem introduções ou explicações adicionais.`;
-    const textResponse = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: textPrompt,
-    });
-    const bibleText = textResponse.text.trim();
+    const textResponse = await withRetry(() => getProvider().generateText(buildTextRequest({
+      task: 'verse',
+      reference: bibleReference,
+      language,
+    })));
+    const bibleText = textResponse.trim();
 
     if (!bibleText) {
-      throw new Error("Não foi possível obter o texto do versículo.");
+      throw new GenerationError('malformed-response', t('errors.noVerseText'));
     }
     return bibleText;
   } catch (error) {
@@ -224,46 +213,82 @@ export const getVerseText = async (bibleReference: string, language: string): Pr
 };
 
 
+/** One line of a dramatized verse: the narrator's or a character's. */
+export interface DialogueLine {
+  /** `NARRATOR_SPEAKER` or a character's name. */
+  speaker: string;
+  text: string;
+}
+
+export { NARRATOR_SPEAKER };
+
 /**
- * Generates spoken audio from a given text.
- * @param textToNarrate - The text to be converted to speech.
- * @param voiceType - The type of voice ('adulta' or 'infantil').
- * @returns A promise that resolves to the base64 encoded audio string.
+ * Splits a verse into narrator and character lines for a dramatized reading.
+ * @param verseText - The text to split.
+ * @param characterNames - Known characters; speakers matching them are returned with these exact names.
+ * @returns A promise that resolves to the lines, in reading order.
  */
-export const generateSpeech = async (textToNarrate: string, voiceType: 'adulta' | 'infantil'): Promise<string> => {
+export const splitDialogue = async (verseText: string, characterNames: string[] = []): Promise<DialogueLine[]> => {
   try {
-    if (!textToNarrate) {
-        throw new Error("O texto para narração não pode estar vazio.");
+    if (!verseText.trim()) {
+      throw new Error(t('errors.emptyNarration'));
     }
-    
-    const voiceName = voiceType === 'adulta' ? 'Puck' : 'Kore';
-    let promptForAudio = textToNarrate;
+    const responseText = await withRetry(() => getProvider().generateText(buildTextRequest({
+      task: 'dialogue',
+      verseText,
+      characterNames,
+    })));
 
-    if (voiceType === 'infantil') {
-      promptForAudio = `Narração em tom de criança, com uma voz doce e clara: ${textToNarrate}`;
+    let lines: DialogueLine[];
+    try {
+      lines = JSON.parse(extractJsonString(responseText)).lines;
+    } catch (e) {
+      throw new GenerationError('malformed-response', t('errors.dialogueUnparseable'), e);
+    }
+    const valid = Array.isArray(lines) ? lines.filter((line) => line?.speaker && line?.text?.trim()) : [];
+    if (valid.length === 0) {
+      throw new GenerationError('malformed-response', t('errors.noDialogue'));
     }
-    
-    const audioResponse = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text: promptForAudio }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-            voiceConfig: {
-              prebuiltVoiceConfig: { voiceName: voiceName },
-            },
-        },
-      },
-    });
+    return valid.map((line) => ({ speaker: line.speaker.trim(), text: line.text.trim() }));
+  } catch (error) {
+    console.error("Error splitting dialogue:", error);
+    throw error;
+  }
+};
 
-    const base64Audio = audioResponse.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+/**
+ * Speaks a text with a specific prebuilt voice.
+ * @param text - The text, optionally preceded by a delivery instruction.
+ * @param voiceName - A prebuilt voice of the speech model, e.g. 'Puck'.
+ * @returns A promise that resolves to the base64 encoded audio string.
+ */
+export const generateVoiceSpeech = async (text: string, voiceName: string): Promise<string> => {
+  try {
+    if (!text) {
+        throw new Error(t('errors.emptyNarration'));
+    }
+    const base64Audio = await withRetry(() => getProvider().generateSpeech({ text, voiceName }));
     if (base64Audio) {
       return base64Audio;
     } else {
-      throw new Error("A API não retornou nenhum áudio.");
+      throw new GenerationError('malformed-response', t('errors.noAudio'));
     }
   } catch (error) {
     console.error("Error generating speech:", error);
     throw error;
   }
 };
+
+/**
+ * Generates spoken audio from a given text.
+ * @param textToNarrate - The text to be converted to speech.
+ * @param voice - The prebuilt voice, delivery style and speaking rate (see `voiceCatalog.ts`).
+ * @returns A promise that resolves to the base64 encoded audio string, already at the speaking rate.
+ */
+export const generateSpeech = async (textToNarrate: string, voice: VoiceSettings): Promise<string> => {
+  if (!textToNarrate) {
+      throw new Error(t('errors.emptyNarration'));
+  }
+  const audio = await generateVoiceSpeech(buildSpeechPrompt(textToNarrate, voice), voice.voiceName);
+  return changePcmTempo(audio, voice.rate);
+};
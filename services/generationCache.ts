@@ -0,0 +1,232 @@
+// Content-addressed cache for generated results, so identical requests aren't sent (and billed) twice.
+// Entries live in IndexedDB; the least recently used ones are evicted past a size limit.
+import { deleteRecords, getAllRecords, getRecord, putRecords, STORES } from "./db";
+import { dataUrlKey } from "./base64";
+import {
+  generateImagePrompt,
+  generateSpeech,
+  getVerseText,
+  splitDialogue,
+  type DialogueLine,
+  type SceneGenerationResult,
+} from "./geminiService";
+import { generateSafeImageVariants, type SafeImageOptions, type SafeImageResult } from "./safePrompt";
+import { DEFAULT_STYLE_PRESET } from "./stylePresets";
+import type { VoiceSettings } from "./voiceCatalog";
+import { getProvider, type AspectRatio } from "./providers";
+
+export type CacheKind = 'prompt' | 'image' | 'verse' | 'script' | 'speech';
+
+export interface Cached<T> {
+  value: T;
+  /** Whether the value was read from the cache instead of generated. */
+  fromCache: boolean;
+}
+
+export interface CacheOptions {
+  /** Skip the lookup and generate again; the new result replaces the cached one. */
+  force?: boolean;
+}
+
+interface CacheEntry {
+  key: string;
+  kind: CacheKind;
+  /** Approximate size of the cached value, in bytes. */
+  size: number;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+interface CacheData<T> {
+  key: string;
+  value: T;
+}
+
+export const DEFAULT_CACHE_LIMIT_BYTES = 200 * 1024 * 1024;
+
+const LIMIT_KEY = 'gerador.cacheLimitBytes';
+
+/** How much the cache may hold before old entries are evicted, as set in this browser, in bytes. */
+export const getCacheLimit = (): number => {
+  try {
+    const saved = localStorage.getItem(LIMIT_KEY);
+    const bytes = Number(saved);
+    return saved !== null && Number.isFinite(bytes) && bytes >= 0 ? bytes : DEFAULT_CACHE_LIMIT_BYTES;
+  } catch {
+    return DEFAULT_CACHE_LIMIT_BYTES;
+  }
+};
+
+/** JSON with object keys sorted, so equal inputs always produce the same text. */
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+/**
+ * Raised when a kind's cached value changes form, so entries in the old form are no longer read.
+ * Images were cached as bare base64 JPEGs before version 2, which holds data URLs.
+ * Speech before version 2 was paced only by asking the model to speak faster or slower;
+ * version 2 stretches the audio to the requested rate.
+ */
+const VALUE_VERSIONS: Partial<Record<CacheKind, number>> = {
+  image: 2,
+  speech: 2,
+};
+
+/** SHA-256 of everything that affects the result, including the backend, so mock results never mix with real ones. */
+const cacheKey = async (kind: CacheKind, inputs: Record<string, unknown>): Promise<string> => {
+  const text = canonicalJson({ kind, version: VALUE_VERSIONS[kind], provider: getProvider().id, ...inputs });
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  const hash = Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+  return `${kind}:${hash}`;
+};
+
+const readEntry = async <T>(key: string): Promise<T | undefined> => {
+  const data = await getRecord<CacheData<T>>(STORES.cacheData, key);
+  if (!data) return undefined;
+  const entry = await getRecord<CacheEntry>(STORES.cacheEntries, key);
+  if (entry) await putRecords(STORES.cacheEntries, [{ ...entry, lastUsedAt: Date.now() }]);
+  return data.value;
+};
+
+/** Drops the least recently used entries until the cache fits its limit. */
+const evict = async () => {
+  const entries = await getAllRecords<CacheEntry>(STORES.cacheEntries);
+  const limit = getCacheLimit();
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+  const oldestFirst = entries.sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+  for (const entry of oldestFirst) {
+    if (total <= limit) break;
+    await deleteRecords(STORES.cacheData, entry.key);
+    await deleteRecords(STORES.cacheEntries, entry.key);
+    total -= entry.size;
+  }
+};
+
+const writeEntry = async <T>(key: string, kind: CacheKind, value: T) => {
+  const now = Date.now();
+  const size = JSON.stringify(value).length;
+  await putRecords<CacheData<T>>(STORES.cacheData, [{ key, value }]);
+  await putRecords<CacheEntry>(STORES.cacheEntries, [{ key, kind, size, createdAt: now, lastUsedAt: now }]);
+  await evict();
+};
+
+/**
+ * Returns the cached result for these inputs, or generates and caches it.
+ * Cache failures (e.g. no IndexedDB) never fail the generation; the result just isn't cached.
+ */
+const withCache = async <T>(
+  kind: CacheKind,
+  inputs: Record<string, unknown>,
+  generate: () => Promise<T>,
+  { force = false }: CacheOptions = {}
+): Promise<Cached<T>> => {
+  let key: string | null = null;
+  try {
+    key = await cacheKey(kind, inputs);
+    if (!force) {
+      const value = await readEntry<T>(key);
+      if (value !== undefined) return { value, fromCache: true };
+    }
+  } catch (err) {
+    console.warn("Generation cache unavailable:", err);
+  }
+
+  const value = await generate();
+  if (key) {
+    writeEntry(key, kind, value).catch((err) => console.warn("Failed to cache a generated result:", err));
+  }
+  return { value, fromCache: false };
+};
+
+/** Cached `generateImagePrompt`. */
+export const cachedImagePrompt = (
+  reference: string,
+  existingCharacters?: Record<string, string>,
+  lockedCharacters: string[] = [],
+  options?: CacheOptions
+): Promise<Cached<SceneGenerationResult>> =>
+  withCache(
+    'prompt',
+    { reference, characters: existingCharacters ?? {}, locked: [...lockedCharacters].sort() },
+    () => generateImagePrompt(reference, existingCharacters, lockedCharacters),
+    options
+  );
+
+/** Cached `generateSafeImageVariants`, keyed on the prompt before any safety rewrite. */
+export const cachedImageVariants = (
+  prompt: string,
+  aspectRatio: AspectRatio,
+  numberOfImages: number,
+  imageOptions: SafeImageOptions = {},
+  options?: CacheOptions
+): Promise<Cached<SafeImageResult>> => {
+  const { references = [], style = DEFAULT_STYLE_PRESET } = imageOptions;
+  return withCache(
+    'image',
+    {
+      prompt,
+      aspectRatio,
+      numberOfImages,
+      style: { suffix: style.suffix, negativePrompt: style.negativePrompt },
+      // A short key per image, so building the cache key doesn't hash megabytes of base64.
+      references: references.map(({ label, image }) => ({ label, image: dataUrlKey(image) })),
+    },
+    () => generateSafeImageVariants(prompt, aspectRatio, numberOfImages, imageOptions),
+    options
+  );
+};
+
+/** Cached `getVerseText`. */
+export const cachedVerseText = (reference: string, language: string, options?: CacheOptions): Promise<Cached<string>> =>
+  withCache('verse', { reference, language }, () => getVerseText(reference, language), options);
+
+/** Cached `generateSpeech`. */
+export const cachedSpeech = (text: string, voice: VoiceSettings, options?: CacheOptions): Promise<Cached<string>> => {
+  const { voiceName, style, rate } = voice;
+  return withCache('speech', { text, voiceName, style, rate }, () => generateSpeech(text, voice), options);
+};
+
+/** Cached `splitDialogue`. */
+export const cachedDialogue = (
+  verseText: string,
+  characterNames: string[] = [],
+  options?: CacheOptions
+): Promise<Cached<DialogueLine[]>> =>
+  withCache(
+    'script',
+    { verseText, characters: [...characterNames].sort() },
+    () => splitDialogue(verseText, characterNames),
+    options
+  );
+
+/** Removes every cached result. */
+export const clearGenerationCache = async (): Promise<void> => {
+  const entries = await getAllRecords<CacheEntry>(STORES.cacheEntries);
+  for (const entry of entries) {
+    await deleteRecords(STORES.cacheData, entry.key);
+    await deleteRecords(STORES.cacheEntries, entry.key);
+  }
+};
+
+/** How many results are cached and their approximate total size in bytes. */
+export const getCacheStats = async (): Promise<{ count: number; bytes: number }> => {
+  const entries = await getAllRecords<CacheEntry>(STORES.cacheEntries);
+  return { count: entries.length, bytes: entries.reduce((sum, entry) => sum + entry.size, 0) };
+};
+
+/**
+ * Changes how much the cache may hold, for this browser, and evicts the entries that no longer fit.
+ * @param bytes - The new limit; 0 keeps nothing.
+ */
+export const setCacheLimit = async (bytes: number): Promise<void> => {
+  localStorage.setItem(LIMIT_KEY, String(Math.max(0, Math.round(bytes))));
+  await evict();
+};
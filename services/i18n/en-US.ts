@@ -0,0 +1,467 @@
+import type { Messages } from "./types";
+
+export const EN_US: Messages = {
+  'app.footer': 'Built with the Gemini API',
+  'app.mockMode': 'Demo mode: scenes, images and audio are generated locally, without the API.',
+
+  'header.title': 'Bible Scene Generator',
+  'header.subtitle': 'Turn Bible chapters into Pixar-style art',
+  'header.locale': 'Interface language',
+
+  'common.delete': 'Delete',
+  'common.remove': 'Remove',
+  'common.retry': 'Try again',
+  'common.downloadImage': 'Download Image',
+  'common.captionsSrt': 'SRT captions',
+  'common.captionsVtt': 'WebVTT captions',
+  'common.portraitAlt': 'Portrait of {name}',
+  'common.sceneAlt': 'Scene of {reference}',
+
+  'language.pt-BR': 'Portuguese',
+  'language.en-US': 'English',
+  'language.es-ES': 'Spanish',
+  'language.fr-FR': 'French',
+  'language.de-DE': 'German',
+
+  'aspect.vertical': 'Vertical',
+  'aspect.portrait': 'Portrait 3:4',
+  'aspect.square': 'Square',
+  'aspect.landscape': 'Landscape 4:3',
+  'aspect.horizontal': 'Horizontal',
+
+  'generator.referenceLabel': 'Bible Chapter and Verse',
+  'generator.referencePlaceholder': 'E.g. Genesis 1:1',
+  'generator.referenceRecognized': 'Recognized reference: {reference}',
+  'generator.newScene': 'New Scene',
+  'generator.step1': 'Step 1: Create the Scene Prompt',
+  'generator.generatePrompt': 'Generate Prompt Automatically',
+  'generator.promptPlaceholder': 'Click the button above to generate a prompt, or write your own description of the scene here...',
+  'generator.promptError': 'Something went wrong while generating the prompt. Try a different verse.',
+  'generator.step2': 'Step 2: Generate the Image',
+  'generator.aspectRatio': 'Image Format',
+  'generator.variantsPerScene': 'Variations per scene',
+  'generator.generateImage': 'Generate Image',
+  'generator.imageLoading': 'Generating the image... This may take a moment.',
+  'generator.imageError': 'Something went wrong while generating the image. Please try again.',
+  'generator.pickVariant': 'Choose the variation that will be the scene image. The others are kept in the history.',
+  'generator.previousVersions': {
+    one: 'Previous version (1). Click to use it.',
+    other: 'Previous versions ({count}). Click to use one of them.',
+  },
+  'generator.regenerate': {
+    one: 'Generate this scene again',
+    other: 'Generate {count} new variations of this scene',
+  },
+  'generator.nextVerse': 'Generate Next Verse ({reference})',
+  'generator.endOfBible': 'End of the Bible',
+  'generator.nextVerseNotFound': 'The model did not recognize {reference}. Try again or start a new scene.',
+  'generator.nextVerseError': 'Failed to generate the next verse.',
+  'generator.untitledScene': 'Scene without reference',
+
+  'narration.title': 'Narration Generator',
+  'narration.textLabel': 'Text to Narrate',
+  'narration.textPlaceholder': "Click 'Fetch Verse Text' to fill it in automatically, or paste the text here.",
+  'narration.source': 'Source: {name}. {attribution}',
+  'narration.aiTextWarning': 'AI-generated text (fallback). It may contain paraphrases or inaccuracies; check it before publishing.',
+  'narration.fetchText': 'Fetch Verse Text',
+  'narration.fetchError': 'Something went wrong while fetching the text. Check the reference or try again.',
+  'narration.chooseVoice': 'Choose the language and voice for the narration.',
+  'narration.language': 'Language',
+  'narration.voice': 'Voice',
+  'narration.dramatized': 'Dramatized reading: narrator and characters with their own voices',
+  'narration.generate': 'Generate Audio',
+  'narration.loading': 'Generating narration...',
+  'narration.loadingDramatized': 'Generating narration... each line is generated separately, which may take a little longer.',
+  'narration.error': 'Something went wrong while generating the audio. Please try again.',
+  'narration.audioUnsupported': 'Your browser does not support the audio element.',
+
+  'cache.fromCache': 'From cache, no new API call',
+  'cache.forceRegenerate': 'Force a new generation',
+  'cache.show': 'Generation cache settings',
+  'cache.hide': 'Hide generation cache settings',
+  'cache.loading': 'Reading the cache...',
+  'cache.stats': { one: '1 cached result, {size} MB', other: '{count} cached results, {size} MB' },
+  'cache.limitLabel': 'Size limit (MB)',
+  'cache.applyLimit': 'Apply limit',
+  'cache.invalidLimit': 'Enter a limit of 0 MB or more.',
+  'cache.clear': 'Clear cache',
+  'cache.confirmClear': 'Remove every cached result? Generating them again will call the API.',
+  'cache.unavailable': 'The generation cache is not available in this browser.',
+
+  'project.none': 'No project open. Your work will be saved to a new project automatically.',
+  'project.nameLabel': 'Project name',
+  'project.verseCount': { one: '1 verse', other: '{count} verses' },
+  'project.savedAt': 'saved {date}',
+  'project.list': 'Projects ({count})',
+  'project.new': 'New',
+  'project.newPrompt': 'Name of the new project:',
+  'project.defaultName': 'New project',
+  'project.empty': 'No saved projects yet.',
+  'project.confirmDelete': 'Delete the project "{name}"? Saved images and narrations will be lost.',
+  'project.saveError': 'The project could not be saved in this browser.',
+  'project.exportPackage': 'Export Package (ZIP)',
+  'project.exportTitle': 'Downloads the images, narrations, texts, prompts and a manifest.json of the whole project.',
+  'project.exportError': 'Failed to export the project package.',
+
+  'characters.title': 'Characters',
+  'characters.import': 'Import JSON',
+  'characters.export': 'Export JSON',
+  'characters.hint': 'Descriptions are reused in every scene. Locked characters are never changed by the AI, and reference portraits keep faces and clothes the same across scenes.',
+  'characters.generateMissing': {
+    one: 'Generate the missing reference portrait',
+    other: 'Generate {count} reference portraits',
+  },
+  'characters.empty': 'No characters yet. Generate a prompt, import a file or add one below.',
+  'characters.redoPortrait': 'Redo portrait',
+  'characters.generatePortrait': 'Generate portrait',
+  'characters.locked': 'Locked',
+  'characters.lock': 'Lock',
+  'characters.descriptionLabel': 'Description of {name}',
+  'characters.namePlaceholder': 'Character name (e.g. David)',
+  'characters.descriptionPlaceholder': 'Appearance: age, face, hair, clothes, build...',
+  'characters.add': 'Add Character',
+  'characters.confirmRemove': 'Remove "{name}" from the character list?',
+  'characters.confirmReplace': '"{name}" already exists. Replace the description?',
+  'characters.portraitError': 'Failed to generate the portrait.',
+  'characters.importError': 'The characters could not be imported.',
+
+  'references.title': 'Visual references for this scene',
+  'references.previousScene': 'Previous scene',
+  'references.hint': 'Characters named in the prompt are selected automatically. Without references, the image is generated from the text alone.',
+
+  'variants.use': 'Use this version',
+  'variants.pick': 'Choose variation {number}',
+  'variants.alt': 'Variation {number}',
+
+  'safePrompt.blocked': 'The safety filter blocked the image, so the prompt was softened automatically.',
+  'safePrompt.flagged': 'The prompt had sensitive terms and was softened before generating the image.',
+  'safePrompt.termsFound': 'Terms found: {terms}.',
+  'safePrompt.original': 'Original',
+  'safePrompt.rewritten': 'Rewritten',
+  'safePrompt.rewrittenAttempts': 'Rewritten ({count} attempts)',
+  'safePrompt.restoreOriginal': 'Restore original',
+  'safePrompt.keepRewritten': 'Keep rewritten',
+  'safePrompt.liveWarning': 'Sensitive terms: {terms}. The prompt will be softened before generating the image.',
+  'safePrompt.editTerms': 'Sensitive terms ({count})',
+  'safePrompt.termsPlaceholder': 'Comma-separated terms',
+  'safePrompt.resetTerms': 'Restore defaults',
+  'safePrompt.saveTerms': 'Save terms',
+
+  'style.label': 'Art Style',
+  'style.new': 'New style',
+  'style.avoid': 'Avoid: {terms}',
+  'style.namePlaceholder': 'Style name (e.g. Old engraving)',
+  'style.suffixPlaceholder': 'Style description, added to the end of every prompt (e.g. metal engraving, fine hatching, sepia tones)',
+  'style.negativePlaceholder': 'Avoid (negative prompt, optional)',
+  'style.save': 'Save Style',
+  'style.saveError': 'The style could not be saved.',
+  'style.confirmDelete': 'Delete the style "{name}"?',
+  'style.builtIn.pixar': 'Pixar 3D',
+  'style.builtIn.watercolor': "Children's book watercolor",
+  'style.builtIn.cartoon': 'Flat 2D cartoon',
+  'style.builtIn.claymation': 'Claymation',
+  'style.builtIn.stainedGlass': 'Stained glass',
+
+  'translation.label': 'Translation',
+  'translation.aiFallback': 'AI-generated text (fallback)',
+  'translation.noLocal': 'No local translation: the text will be recited by the AI and may contain inaccuracies. Check it before publishing.',
+  'translation.noneForLanguage': 'No {language} translation is installed: the text will be recited by the AI and may contain inaccuracies. Import a public-domain translation below to quote it exactly.',
+  'translation.openImport': 'Import a translation (OSIS XML, JSON or CSV)',
+  'translation.cancelImport': 'Cancel import',
+  'translation.namePlaceholder': 'Name (e.g. King James Version)',
+  'translation.idPlaceholder': 'Abbreviation (e.g. KJV)',
+  'translation.attributionPlaceholder': 'Attribution (e.g. King James Version, public domain)',
+  'translation.import': 'Import',
+  'translation.importError': 'The file could not be imported.',
+  'translation.confirmDelete': 'Remove the translation "{name}" from this browser?',
+
+  'passage.title': 'Passage Storyboard',
+  'passage.description': 'Generate one scene per verse of a passage or a whole chapter, keeping the same characters.',
+  'passage.label': 'Passage',
+  'passage.placeholder': 'E.g. 1 Samuel 4:12-18 or 1 Samuel 4',
+  'passage.summary': {
+    one: '1 verse: {first}',
+    other: '{count} verses: {first} to {last}',
+  },
+  'passage.stop': 'Stop after the current scene',
+  'passage.generate': 'Generate Storyboard',
+  'passage.progress': {
+    one: '{done} of 1 scene done',
+    other: '{done} of {count} scenes done',
+  },
+  'passage.failed': '{count} failed',
+  'passage.resume': {
+    one: 'Generate the remaining scene',
+    other: 'Generate the {count} remaining scenes',
+  },
+  'passage.softened': 'Prompt softened for the safety filter',
+  'passage.softenedDetails': 'Original prompt: {original}\n\nRewritten: {rewritten}',
+  'passage.pending': 'Waiting',
+  'passage.frameError': 'Failed to generate the scene for this verse.',
+  'passage.background': 'Generate in Background',
+  'passage.backgroundHint': 'Adds the scenes to the generation queue: the editor stays free and the queue continues after a page reload.',
+  'passage.withNarration': 'Include narration (current voice and language)',
+  'passage.queued': {
+    zero: 'All scenes are already done.',
+    one: '1 job added to the queue.',
+    other: '{count} jobs added to the queue.',
+  },
+
+  'queue.title': 'Generation Queue',
+  'queue.empty': 'No jobs in the queue.',
+  'queue.summary': '{queued} queued · {running} running · {done} done · {failed} failed',
+  'queue.pause': 'Pause Queue',
+  'queue.resume': 'Resume Queue',
+  'queue.paused': 'Queue paused: no new job starts until it is resumed. Running jobs finish.',
+  'queue.clear': 'Clear finished',
+  'queue.kind.prompt': 'Prompt',
+  'queue.kind.image': 'Image',
+  'queue.kind.audio': 'Narration',
+  'queue.status.queued': 'Queued',
+  'queue.status.running': 'Running',
+  'queue.status.paused': 'Paused',
+  'queue.status.done': 'Done',
+  'queue.status.failed': 'Error',
+  'queue.status.cancelled': 'Cancelled',
+  'queue.cancel': 'Cancel',
+  'queue.pauseJob': 'Pause',
+  'queue.resumeJob': 'Resume',
+  'queue.jobError': 'The background job failed.',
+  'queue.dependencyFailed': 'The previous step of this scene failed or was cancelled.',
+  'queue.verseMissing': 'The verse {reference} is no longer in the project.',
+  'queue.noPrompt': 'The scene has no prompt; generate the prompt before the image.',
+
+  'timeline.title': 'Storyboard Timeline',
+  'timeline.description': 'Every verse of the project in order. Click a frame to edit it; drag frames to reorder them.',
+  'timeline.frame': 'frame {index} of {count}',
+  'timeline.noImage': 'No image',
+  'timeline.hasNarration': 'Has narration',
+  'timeline.insertHere': 'Insert a verse here',
+  'timeline.insertLabel': 'Verse to insert at position {position}',
+  'timeline.insertPlaceholder': 'E.g. 1 Samuel 4:13',
+  'timeline.insert': 'Insert',
+  'timeline.cancel': 'Cancel',
+  'timeline.duplicate': '{reference} is already in the project.',
+  'timeline.moveEarlier': 'Move earlier',
+  'timeline.moveLater': 'Move later',
+  'timeline.promptLabel': 'Scene prompt',
+  'timeline.savePrompt': 'Save Prompt',
+  'timeline.saveFirst': 'Save the edited prompt first.',
+  'timeline.generateImage': 'Generate Image',
+  'timeline.regenerateImage': 'Regenerate Image',
+  'timeline.generateNarration': 'Generate Narration',
+  'timeline.regenerateNarration': 'Regenerate Narration',
+  'timeline.narrationHint': 'Uses the language, translation and voice selected in the narration section.',
+  'timeline.narration': 'Narration: "{text}"',
+  'timeline.noNarration': 'No narration yet.',
+  'timeline.openInEditor': 'Open in Editor',
+  'timeline.confirmDelete': 'Delete the frame {reference}? Its image and narration will be lost.',
+  'timeline.queuedHint': 'Generating in the background queue; the frame updates when the job finishes.',
+
+  'caption.title': 'Image with Caption',
+  'caption.description': 'The verse and its reference over the scene, ready to post.',
+  'caption.preview': 'Captioned preview of {reference}',
+  'caption.showSafeArea': 'Show safe area',
+  'caption.safeAreaHint': 'The dashed frame marks where the platform\'s buttons and profile bar don\'t cover the image; the caption and watermark stay inside it.',
+  'caption.textLabel': 'Verse text',
+  'caption.textPlaceholder': 'The verse text, or leave it empty to show only the reference.',
+  'caption.fetchText': 'Fetch verse text',
+  'caption.fetching': 'Fetching...',
+  'caption.template': 'Layout',
+  'caption.template.lowerThird': 'Lower third',
+  'caption.template.quote': 'Centered quote',
+  'caption.template.topBanner': 'Top banner',
+  'caption.template.minimal': 'Minimal',
+  'caption.font': 'Font',
+  'caption.size': 'Size',
+  'caption.size.story': 'Stories / Reels / TikTok ({width}×{height})',
+  'caption.size.portrait': 'Instagram feed ({width}×{height})',
+  'caption.size.square': 'Square post ({width}×{height})',
+  'caption.size.landscape': 'X / Facebook ({width}×{height})',
+  'caption.size.pin': 'Pinterest ({width}×{height})',
+  'caption.watermark': 'Watermark',
+  'caption.watermarkText': 'Watermark text',
+  'caption.watermarkPlaceholder': 'E.g. @yourchannel',
+  'caption.addLogo': 'Add logo',
+  'caption.replaceLogo': 'Replace logo',
+  'caption.corner': 'Watermark corner',
+  'caption.corner.topLeft': 'Top left',
+  'caption.corner.topRight': 'Top right',
+  'caption.corner.bottomLeft': 'Bottom left',
+  'caption.corner.bottomRight': 'Bottom right',
+  'caption.opacity': 'Opacity',
+  'caption.download': 'Download Captioned Image ({width}×{height})',
+  'caption.exportError': 'Failed to compose the captioned image.',
+
+  'promptHistory.show': {
+    one: 'Show prompt history (1 version)',
+    other: 'Show prompt history ({count} versions)',
+  },
+  'promptHistory.hide': 'Hide prompt history',
+  'promptHistory.version': 'Version {number}',
+  'promptHistory.source.auto': 'Auto-generated',
+  'promptHistory.source.edited': 'Hand-edited',
+  'promptHistory.source.restored': 'Restored',
+  'promptHistory.source.generated': 'Used for an image',
+  'promptHistory.source.safetyRewrite': 'Safety rewrite',
+  'promptHistory.compare': 'Compare',
+  'promptHistory.with': 'with',
+  'promptHistory.before': 'Earlier version',
+  'promptHistory.after': 'Later version',
+  'promptHistory.identical': 'The two versions have the same prompt.',
+  'promptHistory.legend': 'Struck-through red: only in the first version · Green: only in the second.',
+  'promptHistory.noImage': 'No image',
+  'promptHistory.imageAlt': 'Image from version {number}',
+  'promptHistory.use': 'Use this prompt',
+
+  'cli.usage': 'Usage: gerador scene "<passage>" [options]\n\nGenerates the scene and narration of every verse and writes images, WAVs, texts, prompts and manifest.json.\n\nOptions:\n  --style <id>         Style: pixar, watercolor, stained-glass, ... (default: pixar)\n  --ratio <ratio>      9:16, 3:4, 1:1, 4:3 or 16:9 (default: 9:16)\n  --voice <voice>      Preset (adulta, infantil) or catalog voice (Kore, Puck, ...)\n  --lang <language>    Narration language and book names of the passage (default: pt-BR)\n  --out <folder>       Output folder (default: ./dist)\n  --characters <json>  Character bible exported by the app\n  --name <name>        Project name in the manifest\n  --bible <file>       Translation (OSIS, JSON or CSV) to quote the narrated text from\n  --skip-audio         Scenes only, no narration\n  -h, --help           Show this help\n\nExample: gerador scene "Genesis 1:1-10" --style pixar --ratio 9:16 --voice adulta --lang en-US --out ./dist',
+  'cli.seeHelp': 'Run "gerador --help" to see the options.',
+  'cli.unknownCommand': 'Unknown command: {command}.',
+  'cli.missingPassage': 'Give the passage, for example "Genesis 1:1-10".',
+  'cli.unknownStyle': 'Unknown style: {style}. Available: {styles}.',
+  'cli.invalidRatio': 'Invalid aspect ratio: {ratio}. Use {ratios}.',
+  'cli.unknownVoice': 'Unknown voice: {voice}. Available: {voices}.',
+  'cli.verseStart': '[{index}/{count}] {reference}',
+  'cli.verseFailed': '  {reference}: {error}',
+  'cli.done': '{count} files written to {out}',
+  'cli.aiText': 'Warning: the text of {reference} was recited by the AI and may differ from any translation; it is marked "ai" in manifest.json. Use --bible <file> to quote a translation.',
+  'cli.verseNotInBible': 'Warning: {reference} is not in {file}; the text was recited by the AI and is marked "ai" in manifest.json.',
+  'cli.failedCount': {
+    one: '1 verse failed; it is listed in the manifest without the missing files.',
+    other: '{count} verses failed; they are listed in the manifest without the missing files.',
+  },
+
+  'video.title': 'Export Narrated Video',
+  'video.empty': 'Generate scenes in the project to build the video.',
+  'video.sceneCount': { one: '1 scene', other: '{count} scenes' },
+  'video.summary': '{scenes} · {narrated} narrated · {duration} long in {ratio}',
+  'video.kenBurns': 'Motion (Ken Burns)',
+  'video.burnCaptions': 'Captions on the image',
+  'video.transition': 'Transition',
+  'video.cut': 'Hard cut',
+  'video.crossfade': '{seconds} s crossfade',
+  'video.silentClips': 'Scenes without narration',
+  'video.unsupported': 'This browser cannot record WebM videos. Use Chrome, Edge or Firefox.',
+  'video.recording': 'Recording in real time ({elapsed} of {total}). Keep this tab open and visible.',
+  'video.cancel': 'Cancel Export',
+  'video.export': 'Export Video (WebM)',
+  'video.exportError': 'Failed to export the video.',
+  'video.download': 'Download Video',
+
+  'chapterAudio.title': 'Chapter Audio',
+  'chapterAudio.empty': 'Generate narrations in the project to build the chapter audio.',
+  'chapterAudio.from': 'From',
+  'chapterAudio.to': 'to',
+  'chapterAudio.pause': 'Pause between verses',
+  'chapterAudio.normalize': 'Even out narration volume',
+  'chapterAudio.music': 'Background music (optional, local file)',
+  'chapterAudio.musicVolume': 'Volume',
+  'chapterAudio.duckedVolume': 'During narration',
+  'chapterAudio.assemble': {
+    one: 'Build Audio (1 narration)',
+    other: 'Build Audio ({count} narrations)',
+  },
+  'chapterAudio.error': 'Failed to build the chapter audio.',
+  'chapterAudio.duration': 'Duration: {duration}',
+  'chapterAudio.downloadWav': 'Download WAV',
+  'chapterAudio.markersTxt': 'Markers (TXT)',
+  'chapterAudio.markersVtt': 'Markers (WebVTT)',
+
+  'voice.preset': 'Preset',
+  'voice.custom': 'Custom',
+  'voice.preview': 'Listen to {name}',
+  'voice.previewError': 'The voice sample could not be generated.',
+  'voice.style': 'Style',
+  'voice.rate': 'Speed',
+  'voice.presetNamePlaceholder': 'Narrator name (e.g. Series narrator)',
+  'voice.savePreset': 'Save preset',
+  'voice.savePresetError': 'The preset could not be saved.',
+  'voice.confirmDeletePreset': 'Delete the preset "{name}"?',
+  'voice.builtIn.adulta': 'Adult',
+  'voice.builtIn.infantil': 'Child',
+  'voiceStyle.neutral': 'Neutral',
+  'voiceStyle.calm': 'Calm',
+  'voiceStyle.reverent': 'Reverent',
+  'voiceStyle.excited': 'Lively storytelling',
+  'voiceStyle.child': 'Child-like',
+  'voiceTone.upbeat': 'Upbeat',
+  'voiceTone.informative': 'Informative',
+  'voiceTone.informativeDeep': 'Informative, deep',
+  'voiceTone.firm': 'Firm',
+  'voiceTone.firmDeep': 'Firm, deep',
+  'voiceTone.excitable': 'Excitable',
+  'voiceTone.breezy': 'Breezy',
+  'voiceTone.youthful': 'Youthful',
+  'voiceTone.bright': 'Bright',
+  'voiceTone.easygoing': 'Easy-going',
+  'voiceTone.breathy': 'Breathy',
+  'voiceTone.clear': 'Clear',
+  'voiceTone.smooth': 'Smooth',
+  'voiceTone.gravelly': 'Gravelly',
+  'voiceTone.soft': 'Soft',
+  'voiceTone.even': 'Even',
+  'voiceTone.mature': 'Mature',
+  'voiceTone.forward': 'Forward',
+  'voiceTone.friendly': 'Friendly',
+  'voiceTone.casual': 'Casual',
+  'voiceTone.gentle': 'Gentle',
+  'voiceTone.lively': 'Lively',
+  'voiceTone.knowledgeable': 'Knowledgeable',
+  'voiceTone.warm': 'Warm',
+
+  'dramatized.title': 'Dramatized reading voices',
+  'dramatized.narrator': 'Narrator',
+  'dramatized.outdated': 'The voices changed. Generate the audio again to hear the new casting.',
+
+  'reference.invalidFormat': 'Invalid format. Use "Book chapter:verse", for example "Genesis 1:1".',
+  'reference.invalidPassage': 'Invalid format. Use, for example, "1 Samuel 4", "1 Samuel 4:12-18" or "Genesis 1:26-2:3".',
+  'reference.missingStartVerse': 'Invalid format. Give the starting verse, for example "Genesis 1:26-2:3".',
+  'reference.unknownBook': 'Unrecognized book: "{book}".',
+  'reference.endBeforeStart': 'The end of the passage comes before its start.',
+  'reference.chapterCount': {
+    one: '{book} has 1 chapter.',
+    other: '{book} has {count} chapters.',
+  },
+  'reference.verseCount': {
+    one: '{book} {chapter} has 1 verse.',
+    other: '{book} {chapter} has {count} verses.',
+  },
+
+  'errors.guidance.transient': 'The generation server is unstable right now and the automatic retries also failed. Wait a moment and try again.',
+  'errors.guidance.quota': 'The API key usage limit was reached. Wait a few minutes before trying again, or check the quota and billing of your Gemini key.',
+  'errors.guidance.safety': 'The content was blocked by the safety filters. Rewrite the prompt avoiding violence, wounds or nudity, and describe the emotions of the scene instead of the action.',
+  'errors.guidance.verseNotFound': 'The model did not recognize this reference. Check the book name, chapter and verse (e.g. "Genesis 1:1").',
+  'errors.guidance.malformedResponse': 'The AI answered in an unexpected format. Try generating again; if it persists, try a different verse.',
+  'errors.verseNotRecognized': 'The model did not recognize the reference "{reference}".',
+  'errors.missingFields': 'The AI response is missing fields.',
+  'errors.unparseableResponse': 'Failed to process the AI response. The format may be invalid.',
+  'errors.noRewrite': 'The AI did not return a rewritten prompt.',
+  'errors.imageBlocked': 'The image could not be generated. This can happen because of safety filters on the scene content. Try a different verse or a new scene with a less explicit description.',
+  'errors.noVerseText': 'The verse text could not be obtained.',
+  'errors.emptyNarration': 'The text to narrate cannot be empty.',
+  'errors.dialogueUnparseable': 'Failed to process the split into lines.',
+  'errors.noDialogue': 'The AI did not split the text into lines.',
+  'errors.noAudio': 'The API returned no audio.',
+  'errors.invalidDataUrl': 'Invalid image: expected a base64 data URL.',
+  'errors.zipTooLarge': 'The package is larger than 4 GB, the limit of a plain ZIP file.',
+  'errors.indexedDbUnavailable': 'IndexedDB is not available in this environment.',
+  'errors.corpusJson': 'Invalid JSON: expected an array of verses.',
+  'errors.corpusCsv': 'Invalid CSV: the header must have the columns book, chapter, verse and text.',
+  'errors.corpusEmpty': 'No verses were found in the file.',
+  'errors.verseNotInTranslation': '{reference} is not available in the selected translation. Choose another translation or the AI text.',
+  'errors.unknownBook': 'Unknown book: {id}',
+  'errors.characterFileJson': 'Invalid character file: it is not valid JSON.',
+  'errors.characterFileEmpty': 'Invalid character file: no characters found.',
+  'errors.styleIncomplete': 'The style needs a name and a style description.',
+  'errors.voicePresetName': 'The voice preset needs a name.',
+  'errors.videoImageLoad': 'One of the sequence images could not be loaded.',
+  'errors.videoEmpty': 'There are no scenes with an image to export.',
+  'errors.videoUnsupported': 'This browser cannot record WebM videos. Try Chrome, Edge or Firefox.',
+  'errors.videoCanvas': 'The video rendering canvas could not be created.',
+  'errors.videoCancelled': 'Video export cancelled.',
+  'errors.captionImageLoad': 'The scene or the logo could not be loaded.',
+  'errors.captionCanvas': 'The image canvas could not be created.',
+  'errors.chapterAudioEmpty': 'There are no narrations in the chosen range.',
+  'errors.chapterAudioUnsupported': 'This browser cannot build the audio (OfflineAudioContext unavailable).',
+  'errors.musicUnreadable': 'The music file could not be read. Use MP3, WAV, OGG or M4A.',
+};
@@ -0,0 +1,467 @@
+import type { Messages } from "./types";
+
+export const ES_ES: Messages = {
+  'app.footer': 'Creado con la API de Gemini',
+  'app.mockMode': 'Modo de demostración: las escenas, imágenes y audios se generan localmente, sin la API.',
+
+  'header.title': 'Generador de Escenas Bíblicas',
+  'header.subtitle': 'Convierte capítulos de la Biblia en arte al estilo Pixar',
+  'header.locale': 'Idioma de la interfaz',
+
+  'common.delete': 'Eliminar',
+  'common.remove': 'Quitar',
+  'common.retry': 'Reintentar',
+  'common.downloadImage': 'Descargar Imagen',
+  'common.captionsSrt': 'Subtítulos SRT',
+  'common.captionsVtt': 'Subtítulos WebVTT',
+  'common.portraitAlt': 'Retrato de {name}',
+  'common.sceneAlt': 'Escena de {reference}',
+
+  'language.pt-BR': 'Portugués',
+  'language.en-US': 'Inglés',
+  'language.es-ES': 'Español',
+  'language.fr-FR': 'Francés',
+  'language.de-DE': 'Alemán',
+
+  'aspect.vertical': 'Vertical',
+  'aspect.portrait': 'Retrato 3:4',
+  'aspect.square': 'Cuadrado',
+  'aspect.landscape': 'Paisaje 4:3',
+  'aspect.horizontal': 'Horizontal',
+
+  'generator.referenceLabel': 'Capítulo y Versículo de la Biblia',
+  'generator.referencePlaceholder': 'Ej.: Génesis 1:1',
+  'generator.referenceRecognized': 'Referencia reconocida: {reference}',
+  'generator.newScene': 'Nueva Escena',
+  'generator.step1': 'Paso 1: Crea el Prompt de la Escena',
+  'generator.generatePrompt': 'Generar Prompt Automáticamente',
+  'generator.promptPlaceholder': 'Haz clic en el botón de arriba para generar un prompt, o escribe aquí tu propia descripción de la escena...',
+  'generator.promptError': 'Ocurrió un error al generar el prompt. Prueba con otro versículo.',
+  'generator.step2': 'Paso 2: Genera la Imagen',
+  'generator.aspectRatio': 'Formato de la Imagen',
+  'generator.variantsPerScene': 'Variaciones por escena',
+  'generator.generateImage': 'Generar Imagen',
+  'generator.imageLoading': 'Generando la imagen... Esto puede tardar unos instantes.',
+  'generator.imageError': 'Ocurrió un error al generar la imagen. Por favor, inténtalo de nuevo.',
+  'generator.pickVariant': 'Elige la variación que será la imagen de la escena. Las demás quedan en el historial.',
+  'generator.previousVersions': {
+    one: 'Versión anterior (1). Haz clic para usarla.',
+    other: 'Versiones anteriores ({count}). Haz clic para usar una de ellas.',
+  },
+  'generator.regenerate': {
+    one: 'Generar de nuevo esta escena',
+    other: 'Generar {count} nuevas variaciones de esta escena',
+  },
+  'generator.nextVerse': 'Generar Siguiente Versículo ({reference})',
+  'generator.endOfBible': 'Fin de la Biblia',
+  'generator.nextVerseNotFound': 'El modelo no reconoció {reference}. Inténtalo de nuevo o empieza una nueva escena.',
+  'generator.nextVerseError': 'No se pudo generar el siguiente versículo.',
+  'generator.untitledScene': 'Escena sin referencia',
+
+  'narration.title': 'Generador de Narración',
+  'narration.textLabel': 'Texto para Narrar',
+  'narration.textPlaceholder': "Haz clic en 'Buscar Texto del Versículo' para rellenarlo automáticamente, o pega el texto aquí.",
+  'narration.source': 'Fuente: {name}. {attribution}',
+  'narration.aiTextWarning': 'Texto generado por IA (alternativa). Puede contener paráfrasis o imprecisiones; revísalo antes de publicar.',
+  'narration.fetchText': 'Buscar Texto del Versículo',
+  'narration.fetchError': 'Ocurrió un error al buscar el texto. Revisa la referencia o inténtalo de nuevo.',
+  'narration.chooseVoice': 'Elige el idioma y la voz de la narración.',
+  'narration.language': 'Idioma',
+  'narration.voice': 'Voz',
+  'narration.dramatized': 'Lectura dramatizada: narrador y personajes con voces propias',
+  'narration.generate': 'Generar Audio',
+  'narration.loading': 'Generando narración...',
+  'narration.loadingDramatized': 'Generando narración... cada intervención se genera por separado, lo que puede tardar un poco más.',
+  'narration.error': 'Ocurrió un error al generar el audio. Por favor, inténtalo de nuevo.',
+  'narration.audioUnsupported': 'Tu navegador no admite el elemento de audio.',
+
+  'cache.fromCache': 'De la caché, sin nueva llamada a la API',
+  'cache.forceRegenerate': 'Forzar nueva generación',
+  'cache.show': 'Ajustes de la caché de generación',
+  'cache.hide': 'Ocultar ajustes de la caché de generación',
+  'cache.loading': 'Leyendo la caché...',
+  'cache.stats': { one: '1 resultado en caché, {size} MB', other: '{count} resultados en caché, {size} MB' },
+  'cache.limitLabel': 'Límite de tamaño (MB)',
+  'cache.applyLimit': 'Aplicar límite',
+  'cache.invalidLimit': 'Introduce un límite de 0 MB o más.',
+  'cache.clear': 'Vaciar caché',
+  'cache.confirmClear': '¿Eliminar todos los resultados en caché? Generarlos de nuevo llamará a la API.',
+  'cache.unavailable': 'La caché de generación no está disponible en este navegador.',
+
+  'project.none': 'Ningún proyecto abierto. El trabajo se guardará automáticamente en un proyecto nuevo.',
+  'project.nameLabel': 'Nombre del proyecto',
+  'project.verseCount': { one: '1 versículo', other: '{count} versículos' },
+  'project.savedAt': 'guardado el {date}',
+  'project.list': 'Proyectos ({count})',
+  'project.new': 'Nuevo',
+  'project.newPrompt': 'Nombre del nuevo proyecto:',
+  'project.defaultName': 'Nuevo proyecto',
+  'project.empty': 'Todavía no hay proyectos guardados.',
+  'project.confirmDelete': '¿Eliminar el proyecto "{name}"? Se perderán las imágenes y narraciones guardadas.',
+  'project.saveError': 'No se pudo guardar el proyecto en este navegador.',
+  'project.exportPackage': 'Exportar Paquete (ZIP)',
+  'project.exportTitle': 'Descarga las imágenes, narraciones, textos, prompts y un manifest.json de todo el proyecto.',
+  'project.exportError': 'No se pudo exportar el paquete del proyecto.',
+
+  'characters.title': 'Personajes',
+  'characters.import': 'Importar JSON',
+  'characters.export': 'Exportar JSON',
+  'characters.hint': 'Las descripciones se reutilizan en todas las escenas. La IA nunca modifica los personajes bloqueados, y los retratos de referencia mantienen iguales los rostros y la ropa entre escenas.',
+  'characters.generateMissing': {
+    one: 'Generar el retrato de referencia que falta',
+    other: 'Generar {count} retratos de referencia',
+  },
+  'characters.empty': 'Todavía no hay personajes. Genera un prompt, importa un archivo o añade uno abajo.',
+  'characters.redoPortrait': 'Rehacer retrato',
+  'characters.generatePortrait': 'Generar retrato',
+  'characters.locked': 'Bloqueado',
+  'characters.lock': 'Bloquear',
+  'characters.descriptionLabel': 'Descripción de {name}',
+  'characters.namePlaceholder': 'Nombre del personaje (ej.: David)',
+  'characters.descriptionPlaceholder': 'Apariencia: edad, rostro, cabello, ropa, complexión...',
+  'characters.add': 'Añadir Personaje',
+  'characters.confirmRemove': '¿Quitar a "{name}" de la lista de personajes?',
+  'characters.confirmReplace': '"{name}" ya existe. ¿Reemplazar la descripción?',
+  'characters.portraitError': 'No se pudo generar el retrato.',
+  'characters.importError': 'No se pudieron importar los personajes.',
+
+  'references.title': 'Referencias visuales de esta escena',
+  'references.previousScene': 'Escena anterior',
+  'references.hint': 'Los personajes mencionados en el prompt se seleccionan automáticamente. Sin referencias, la imagen se genera solo a partir del texto.',
+
+  'variants.use': 'Usar esta versión',
+  'variants.pick': 'Elegir la variación {number}',
+  'variants.alt': 'Variación {number}',
+
+  'safePrompt.blocked': 'El filtro de seguridad bloqueó la imagen, así que el prompt se suavizó automáticamente.',
+  'safePrompt.flagged': 'El prompt tenía términos sensibles y se suavizó antes de generar la imagen.',
+  'safePrompt.termsFound': 'Términos encontrados: {terms}.',
+  'safePrompt.original': 'Original',
+  'safePrompt.rewritten': 'Reescrito',
+  'safePrompt.rewrittenAttempts': 'Reescrito ({count} intentos)',
+  'safePrompt.restoreOriginal': 'Restaurar original',
+  'safePrompt.keepRewritten': 'Mantener reescrito',
+  'safePrompt.liveWarning': 'Términos sensibles: {terms}. El prompt se suavizará antes de generar la imagen.',
+  'safePrompt.editTerms': 'Términos sensibles ({count})',
+  'safePrompt.termsPlaceholder': 'Términos separados por comas',
+  'safePrompt.resetTerms': 'Restaurar predeterminados',
+  'safePrompt.saveTerms': 'Guardar términos',
+
+  'style.label': 'Estilo Artístico',
+  'style.new': 'Nuevo estilo',
+  'style.avoid': 'Evitar: {terms}',
+  'style.namePlaceholder': 'Nombre del estilo (ej.: Grabado antiguo)',
+  'style.suffixPlaceholder': 'Descripción del estilo, añadida al final de cada prompt (ej.: grabado en metal, tramado fino, tonos sepia)',
+  'style.negativePlaceholder': 'Evitar (prompt negativo, opcional)',
+  'style.save': 'Guardar Estilo',
+  'style.saveError': 'No se pudo guardar el estilo.',
+  'style.confirmDelete': '¿Eliminar el estilo "{name}"?',
+  'style.builtIn.pixar': 'Pixar 3D',
+  'style.builtIn.watercolor': 'Acuarela de libro infantil',
+  'style.builtIn.cartoon': 'Dibujo 2D plano',
+  'style.builtIn.claymation': 'Plastilina (claymation)',
+  'style.builtIn.stainedGlass': 'Vitral',
+
+  'translation.label': 'Traducción',
+  'translation.aiFallback': 'Texto generado por IA (alternativa)',
+  'translation.noLocal': 'Sin traducción local: la IA recitará el texto y puede contener imprecisiones. Revísalo antes de publicar.',
+  'translation.noneForLanguage': 'No hay ninguna traducción en {language} instalada: la IA recitará el texto y puede contener imprecisiones. Importa abajo una traducción de dominio público para citarla con exactitud.',
+  'translation.openImport': 'Importar traducción (OSIS XML, JSON o CSV)',
+  'translation.cancelImport': 'Cancelar importación',
+  'translation.namePlaceholder': 'Nombre (ej.: Reina-Valera 1909)',
+  'translation.idPlaceholder': 'Sigla (ej.: RV1909)',
+  'translation.attributionPlaceholder': 'Atribución (ej.: Reina-Valera 1909, dominio público)',
+  'translation.import': 'Importar',
+  'translation.importError': 'No se pudo importar el archivo.',
+  'translation.confirmDelete': '¿Quitar la traducción "{name}" de este navegador?',
+
+  'passage.title': 'Storyboard de Pasaje',
+  'passage.description': 'Genera una escena por versículo de un pasaje o de un capítulo entero, manteniendo los mismos personajes.',
+  'passage.label': 'Pasaje',
+  'passage.placeholder': 'Ej.: 1 Samuel 4:12-18 o 1 Samuel 4',
+  'passage.summary': {
+    one: '1 versículo: {first}',
+    other: '{count} versículos: de {first} a {last}',
+  },
+  'passage.stop': 'Detener tras la escena actual',
+  'passage.generate': 'Generar Storyboard',
+  'passage.progress': {
+    one: '{done} de 1 escena completada',
+    other: '{done} de {count} escenas completadas',
+  },
+  'passage.failed': '{count} con error',
+  'passage.resume': {
+    one: 'Generar la escena restante',
+    other: 'Generar las {count} escenas restantes',
+  },
+  'passage.softened': 'Prompt suavizado para el filtro de seguridad',
+  'passage.softenedDetails': 'Prompt original: {original}\n\nReescrito: {rewritten}',
+  'passage.pending': 'En espera',
+  'passage.frameError': 'No se pudo generar la escena de este versículo.',
+  'passage.background': 'Generar en Segundo Plano',
+  'passage.backgroundHint': 'Añade las escenas a la cola de generación: el editor queda libre y la cola continúa después de recargar la página.',
+  'passage.withNarration': 'Incluir narración (voz e idioma actuales)',
+  'passage.queued': {
+    zero: 'Todas las escenas ya están listas.',
+    one: '1 tarea añadida a la cola.',
+    other: '{count} tareas añadidas a la cola.',
+  },
+
+  'queue.title': 'Cola de Generación',
+  'queue.empty': 'No hay tareas en la cola.',
+  'queue.summary': '{queued} en cola · {running} generando · {done} terminadas · {failed} con error',
+  'queue.pause': 'Pausar Cola',
+  'queue.resume': 'Reanudar Cola',
+  'queue.paused': 'Cola en pausa: ninguna tarea nueva empieza hasta reanudarla. Las que se están generando terminan.',
+  'queue.clear': 'Limpiar terminadas',
+  'queue.kind.prompt': 'Prompt',
+  'queue.kind.image': 'Imagen',
+  'queue.kind.audio': 'Narración',
+  'queue.status.queued': 'En cola',
+  'queue.status.running': 'Generando',
+  'queue.status.paused': 'En pausa',
+  'queue.status.done': 'Terminada',
+  'queue.status.failed': 'Error',
+  'queue.status.cancelled': 'Cancelada',
+  'queue.cancel': 'Cancelar',
+  'queue.pauseJob': 'Pausar',
+  'queue.resumeJob': 'Reanudar',
+  'queue.jobError': 'La tarea en segundo plano falló.',
+  'queue.dependencyFailed': 'El paso anterior de esta escena falló o fue cancelado.',
+  'queue.verseMissing': 'El versículo {reference} ya no está en el proyecto.',
+  'queue.noPrompt': 'La escena no tiene prompt; genera el prompt antes de la imagen.',
+
+  'timeline.title': 'Línea de Tiempo del Storyboard',
+  'timeline.description': 'Todos los versículos del proyecto, en orden. Haz clic en un cuadro para editarlo; arrastra los cuadros para reordenarlos.',
+  'timeline.frame': 'cuadro {index} de {count}',
+  'timeline.noImage': 'Sin imagen',
+  'timeline.hasNarration': 'Tiene narración',
+  'timeline.insertHere': 'Insertar un versículo aquí',
+  'timeline.insertLabel': 'Versículo a insertar en la posición {position}',
+  'timeline.insertPlaceholder': 'Ej: 1 Samuel 4:13',
+  'timeline.insert': 'Insertar',
+  'timeline.cancel': 'Cancelar',
+  'timeline.duplicate': '{reference} ya está en el proyecto.',
+  'timeline.moveEarlier': 'Mover antes',
+  'timeline.moveLater': 'Mover después',
+  'timeline.promptLabel': 'Prompt de la escena',
+  'timeline.savePrompt': 'Guardar Prompt',
+  'timeline.saveFirst': 'Guarda primero el prompt editado.',
+  'timeline.generateImage': 'Generar Imagen',
+  'timeline.regenerateImage': 'Generar Imagen de Nuevo',
+  'timeline.generateNarration': 'Generar Narración',
+  'timeline.regenerateNarration': 'Generar Narración de Nuevo',
+  'timeline.narrationHint': 'Usa el idioma, la traducción y la voz elegidos en la sección de narración.',
+  'timeline.narration': 'Narración: "{text}"',
+  'timeline.noNarration': 'Todavía sin narración.',
+  'timeline.openInEditor': 'Abrir en el Editor',
+  'timeline.confirmDelete': '¿Eliminar el cuadro {reference}? Se perderán su imagen y su narración.',
+  'timeline.queuedHint': 'Generando en la cola en segundo plano; el cuadro se actualiza cuando termina el trabajo.',
+
+  'caption.title': 'Imagen con Leyenda',
+  'caption.description': 'El versículo y su referencia sobre la escena, listos para publicar.',
+  'caption.preview': 'Vista previa con leyenda de {reference}',
+  'caption.showSafeArea': 'Mostrar área segura',
+  'caption.safeAreaHint': 'El marco discontinuo indica dónde los botones y la barra de perfil de la plataforma no tapan la imagen; la leyenda y la marca de agua quedan dentro de él.',
+  'caption.textLabel': 'Texto del versículo',
+  'caption.textPlaceholder': 'El texto del versículo, o déjalo vacío para mostrar solo la referencia.',
+  'caption.fetchText': 'Buscar texto del versículo',
+  'caption.fetching': 'Buscando...',
+  'caption.template': 'Diseño',
+  'caption.template.lowerThird': 'Tercio inferior',
+  'caption.template.quote': 'Cita centrada',
+  'caption.template.topBanner': 'Franja superior',
+  'caption.template.minimal': 'Minimalista',
+  'caption.font': 'Fuente',
+  'caption.size': 'Tamaño',
+  'caption.size.story': 'Stories / Reels / TikTok ({width}×{height})',
+  'caption.size.portrait': 'Feed de Instagram ({width}×{height})',
+  'caption.size.square': 'Publicación cuadrada ({width}×{height})',
+  'caption.size.landscape': 'X / Facebook ({width}×{height})',
+  'caption.size.pin': 'Pinterest ({width}×{height})',
+  'caption.watermark': 'Marca de agua',
+  'caption.watermarkText': 'Texto de la marca de agua',
+  'caption.watermarkPlaceholder': 'Ej: @tucanal',
+  'caption.addLogo': 'Añadir logo',
+  'caption.replaceLogo': 'Cambiar logo',
+  'caption.corner': 'Esquina de la marca de agua',
+  'caption.corner.topLeft': 'Superior izquierda',
+  'caption.corner.topRight': 'Superior derecha',
+  'caption.corner.bottomLeft': 'Inferior izquierda',
+  'caption.corner.bottomRight': 'Inferior derecha',
+  'caption.opacity': 'Opacidad',
+  'caption.download': 'Descargar Imagen con Leyenda ({width}×{height})',
+  'caption.exportError': 'No se pudo componer la imagen con leyenda.',
+
+  'promptHistory.show': {
+    one: 'Mostrar historial de prompts (1 versión)',
+    other: 'Mostrar historial de prompts ({count} versiones)',
+  },
+  'promptHistory.hide': 'Ocultar historial de prompts',
+  'promptHistory.version': 'Versión {number}',
+  'promptHistory.source.auto': 'Generado automáticamente',
+  'promptHistory.source.edited': 'Editado a mano',
+  'promptHistory.source.restored': 'Restaurado',
+  'promptHistory.source.generated': 'Usado en una imagen',
+  'promptHistory.source.safetyRewrite': 'Reescrito por seguridad',
+  'promptHistory.compare': 'Comparar',
+  'promptHistory.with': 'con',
+  'promptHistory.before': 'Versión anterior',
+  'promptHistory.after': 'Versión posterior',
+  'promptHistory.identical': 'Las dos versiones tienen el mismo prompt.',
+  'promptHistory.legend': 'Rojo tachado: solo en la primera versión · Verde: solo en la segunda.',
+  'promptHistory.noImage': 'Sin imagen',
+  'promptHistory.imageAlt': 'Imagen de la versión {number}',
+  'promptHistory.use': 'Usar este prompt',
+
+  'cli.usage': 'Uso: gerador scene "<pasaje>" [opciones]\n\nGenera la escena y la narración de cada versículo y guarda imágenes, WAVs, textos, prompts y manifest.json.\n\nOpciones:\n  --style <id>         Estilo: pixar, watercolor, stained-glass, ... (por defecto: pixar)\n  --ratio <formato>    9:16, 3:4, 1:1, 4:3 o 16:9 (por defecto: 9:16)\n  --voice <voz>        Preajuste (adulta, infantil) o voz del catálogo (Kore, Puck, ...)\n  --lang <idioma>      Idioma de la narración y de los libros del pasaje (por defecto: pt-BR)\n  --out <carpeta>      Carpeta de salida (por defecto: ./dist)\n  --characters <json>  Biblia de personajes exportada por la app\n  --name <nombre>      Nombre del proyecto en el manifest\n  --bible <archivo>    Traducción (OSIS, JSON o CSV) de la que citar el texto narrado\n  --skip-audio         Solo las escenas, sin narración\n  -h, --help           Muestra esta ayuda\n\nEjemplo: gerador scene "Génesis 1:1-10" --style pixar --ratio 9:16 --voice adulta --lang es-ES --out ./dist',
+  'cli.seeHelp': 'Usa "gerador --help" para ver las opciones.',
+  'cli.unknownCommand': 'Comando desconocido: {command}.',
+  'cli.missingPassage': 'Indica el pasaje, por ejemplo "Génesis 1:1-10".',
+  'cli.unknownStyle': 'Estilo desconocido: {style}. Disponibles: {styles}.',
+  'cli.invalidRatio': 'Formato no válido: {ratio}. Usa {ratios}.',
+  'cli.unknownVoice': 'Voz desconocida: {voice}. Disponibles: {voices}.',
+  'cli.verseStart': '[{index}/{count}] {reference}',
+  'cli.verseFailed': '  {reference}: {error}',
+  'cli.done': '{count} archivos guardados en {out}',
+  'cli.aiText': 'Aviso: el texto de {reference} lo recitó la IA y puede diferir de cualquier traducción; está marcado como "ai" en manifest.json. Usa --bible <archivo> para citar una traducción.',
+  'cli.verseNotInBible': 'Aviso: {reference} no está en {file}; el texto lo recitó la IA y está marcado como "ai" en manifest.json.',
+  'cli.failedCount': {
+    one: '1 versículo falló; aparece en el manifest sin los archivos que faltaron.',
+    other: '{count} versículos fallaron; aparecen en el manifest sin los archivos que faltaron.',
+  },
+
+  'video.title': 'Exportar Vídeo Narrado',
+  'video.empty': 'Genera escenas en el proyecto para montar el vídeo.',
+  'video.sceneCount': { one: '1 escena', other: '{count} escenas' },
+  'video.summary': '{scenes} · {narrated} con narración · duración de {duration} en {ratio}',
+  'video.kenBurns': 'Movimiento (Ken Burns)',
+  'video.burnCaptions': 'Subtítulos en la imagen',
+  'video.transition': 'Transición',
+  'video.cut': 'Corte directo',
+  'video.crossfade': 'Fundido de {seconds} s',
+  'video.silentClips': 'Escenas sin narración',
+  'video.unsupported': 'Este navegador no graba vídeos WebM. Usa Chrome, Edge o Firefox.',
+  'video.recording': 'Grabando en tiempo real ({elapsed} de {total}). Mantén esta pestaña abierta y visible.',
+  'video.cancel': 'Cancelar Exportación',
+  'video.export': 'Exportar Vídeo (WebM)',
+  'video.exportError': 'No se pudo exportar el vídeo.',
+  'video.download': 'Descargar Vídeo',
+
+  'chapterAudio.title': 'Audio del Capítulo',
+  'chapterAudio.empty': 'Genera narraciones en el proyecto para montar el audio del capítulo.',
+  'chapterAudio.from': 'De',
+  'chapterAudio.to': 'a',
+  'chapterAudio.pause': 'Pausa entre versículos',
+  'chapterAudio.normalize': 'Igualar el volumen de las narraciones',
+  'chapterAudio.music': 'Música de fondo (opcional, archivo local)',
+  'chapterAudio.musicVolume': 'Volumen',
+  'chapterAudio.duckedVolume': 'Durante la narración',
+  'chapterAudio.assemble': {
+    one: 'Montar Audio (1 narración)',
+    other: 'Montar Audio ({count} narraciones)',
+  },
+  'chapterAudio.error': 'No se pudo montar el audio del capítulo.',
+  'chapterAudio.duration': 'Duración: {duration}',
+  'chapterAudio.downloadWav': 'Descargar WAV',
+  'chapterAudio.markersTxt': 'Marcadores (TXT)',
+  'chapterAudio.markersVtt': 'Marcadores (WebVTT)',
+
+  'voice.preset': 'Preajuste',
+  'voice.custom': 'Personalizado',
+  'voice.preview': 'Escuchar {name}',
+  'voice.previewError': 'No se pudo generar la muestra de la voz.',
+  'voice.style': 'Estilo',
+  'voice.rate': 'Velocidad',
+  'voice.presetNamePlaceholder': 'Nombre del narrador (ej.: Narrador de la serie)',
+  'voice.savePreset': 'Guardar preajuste',
+  'voice.savePresetError': 'No se pudo guardar el preajuste.',
+  'voice.confirmDeletePreset': '¿Eliminar el preajuste "{name}"?',
+  'voice.builtIn.adulta': 'Adulta',
+  'voice.builtIn.infantil': 'Infantil',
+  'voiceStyle.neutral': 'Neutro',
+  'voiceStyle.calm': 'Tranquilo',
+  'voiceStyle.reverent': 'Reverente',
+  'voiceStyle.excited': 'Narración animada',
+  'voiceStyle.child': 'Infantil',
+  'voiceTone.upbeat': 'Animada',
+  'voiceTone.informative': 'Informativa',
+  'voiceTone.informativeDeep': 'Informativa, grave',
+  'voiceTone.firm': 'Firme',
+  'voiceTone.firmDeep': 'Firme, grave',
+  'voiceTone.excitable': 'Entusiasta',
+  'voiceTone.breezy': 'Ligera',
+  'voiceTone.youthful': 'Juvenil',
+  'voiceTone.bright': 'Brillante',
+  'voiceTone.easygoing': 'Tranquila',
+  'voiceTone.breathy': 'Susurrada',
+  'voiceTone.clear': 'Clara',
+  'voiceTone.smooth': 'Suave',
+  'voiceTone.gravelly': 'Ronca',
+  'voiceTone.soft': 'Dulce',
+  'voiceTone.even': 'Equilibrada',
+  'voiceTone.mature': 'Madura',
+  'voiceTone.forward': 'Expansiva',
+  'voiceTone.friendly': 'Amigable',
+  'voiceTone.casual': 'Desenfadada',
+  'voiceTone.gentle': 'Amable',
+  'voiceTone.lively': 'Vivaz',
+  'voiceTone.knowledgeable': 'Sabia',
+  'voiceTone.warm': 'Cálida',
+
+  'dramatized.title': 'Voces de la lectura dramatizada',
+  'dramatized.narrator': 'Narrador',
+  'dramatized.outdated': 'Las voces cambiaron. Genera el audio de nuevo para oír el nuevo reparto.',
+
+  'reference.invalidFormat': 'Formato no válido. Usa "Libro capítulo:versículo", por ejemplo "Génesis 1:1".',
+  'reference.invalidPassage': 'Formato no válido. Usa, por ejemplo, "1 Samuel 4", "1 Samuel 4:12-18" o "Génesis 1:26-2:3".',
+  'reference.missingStartVerse': 'Formato no válido. Indica el versículo inicial, por ejemplo "Génesis 1:26-2:3".',
+  'reference.unknownBook': 'Libro no reconocido: "{book}".',
+  'reference.endBeforeStart': 'El final del pasaje está antes del inicio.',
+  'reference.chapterCount': {
+    one: '{book} tiene 1 capítulo.',
+    other: '{book} tiene {count} capítulos.',
+  },
+  'reference.verseCount': {
+    one: '{book} {chapter} tiene 1 versículo.',
+    other: '{book} {chapter} tiene {count} versículos.',
+  },
+
+  'errors.guidance.transient': 'El servidor de generación está inestable en este momento y los reintentos automáticos también fallaron. Espera unos instantes e inténtalo de nuevo.',
+  'errors.guidance.quota': 'Se alcanzó el límite de uso de la clave de API. Espera unos minutos antes de volver a intentarlo o revisa la cuota y la facturación de tu clave de Gemini.',
+  'errors.guidance.safety': 'Los filtros de seguridad bloquearon el contenido. Reescribe el prompt evitando violencia, heridas o desnudez y describe las emociones de la escena en lugar de la acción.',
+  'errors.guidance.verseNotFound': 'El modelo no reconoció esta referencia. Revisa el nombre del libro, el capítulo y el versículo (ej.: "Génesis 1:1").',
+  'errors.guidance.malformedResponse': 'La respuesta de la IA llegó en un formato inesperado. Vuelve a generarla; si persiste, prueba con otro versículo.',
+  'errors.verseNotRecognized': 'El modelo no reconoció la referencia "{reference}".',
+  'errors.missingFields': 'A la respuesta de la IA le faltan campos.',
+  'errors.unparseableResponse': 'No se pudo procesar la respuesta de la IA. El formato puede no ser válido.',
+  'errors.noRewrite': 'La IA no devolvió un prompt reescrito.',
+  'errors.imageBlocked': 'No se pudo generar la imagen. Puede deberse a los filtros de seguridad sobre el contenido de la escena. Prueba con otro versículo o con una nueva escena con una descripción menos explícita.',
+  'errors.noVerseText': 'No se pudo obtener el texto del versículo.',
+  'errors.emptyNarration': 'El texto para narrar no puede estar vacío.',
+  'errors.dialogueUnparseable': 'No se pudo procesar la división en intervenciones.',
+  'errors.noDialogue': 'La IA no dividió el texto en intervenciones.',
+  'errors.noAudio': 'La API no devolvió ningún audio.',
+  'errors.invalidDataUrl': 'Imagen no válida: se esperaba una data URL en base64.',
+  'errors.zipTooLarge': 'El paquete supera los 4 GB, el límite de un archivo ZIP simple.',
+  'errors.indexedDbUnavailable': 'IndexedDB no está disponible en este entorno.',
+  'errors.corpusJson': 'JSON no válido: se esperaba un array de versículos.',
+  'errors.corpusCsv': 'CSV no válido: la cabecera debe tener las columnas book, chapter, verse y text.',
+  'errors.corpusEmpty': 'No se encontró ningún versículo en el archivo.',
+  'errors.verseNotInTranslation': '{reference} no está disponible en la traducción seleccionada. Elige otra traducción o el texto por IA.',
+  'errors.unknownBook': 'Libro desconocido: {id}',
+  'errors.characterFileJson': 'Archivo de personajes no válido: no es un JSON válido.',
+  'errors.characterFileEmpty': 'Archivo de personajes no válido: no se encontró ningún personaje.',
+  'errors.styleIncomplete': 'El estilo necesita un nombre y una descripción.',
+  'errors.voicePresetName': 'El preajuste de voz necesita un nombre.',
+  'errors.videoImageLoad': 'No se pudo cargar una de las imágenes de la secuencia.',
+  'errors.videoEmpty': 'No hay escenas con imagen para exportar.',
+  'errors.videoUnsupported': 'Este navegador no puede grabar vídeos WebM. Prueba con Chrome, Edge o Firefox.',
+  'errors.videoCanvas': 'No se pudo crear el lienzo de renderizado del vídeo.',
+  'errors.videoCancelled': 'Exportación de vídeo cancelada.',
+  'errors.captionImageLoad': 'No se pudo cargar la escena o el logo.',
+  'errors.captionCanvas': 'No se pudo crear el lienzo de la imagen.',
+  'errors.chapterAudioEmpty': 'No hay narraciones en el intervalo elegido.',
+  'errors.chapterAudioUnsupported': 'Este navegador no puede montar el audio (OfflineAudioContext no disponible).',
+  'errors.musicUnreadable': 'No se pudo leer el archivo de música. Usa MP3, WAV, OGG o M4A.',
+};
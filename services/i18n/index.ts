@@ -0,0 +1,99 @@
+// UI message catalog: the interface locale, message lookup with parameters, and plural forms.
+import { PT_BR } from "./pt-BR";
+import { EN_US } from "./en-US";
+import { ES_ES } from "./es-ES";
+import type { Locale, Message, MessageKey, MessageParams, Messages } from "./types";
+
+export type { Locale, Message, MessageKey, MessageParams, Messages, PluralMessage } from "./types";
+
+/** The interface languages, each named in its own language. */
+export const LOCALES: { code: Locale; name: string }[] = [
+  { code: 'pt-BR', name: 'Português' },
+  { code: 'en-US', name: 'English' },
+  { code: 'es-ES', name: 'Español' },
+];
+
+const CATALOGS: Record<Locale, Messages> = {
+  'pt-BR': PT_BR,
+  'en-US': EN_US,
+  'es-ES': ES_ES,
+};
+
+const DEFAULT_LOCALE: Locale = 'pt-BR';
+const STORAGE_KEY = 'gerador.locale';
+
+const isLocale = (value: unknown): value is Locale => LOCALES.some((locale) => locale.code === value);
+
+/** The saved choice, else the browser language when it is supported, else Portuguese. */
+const detectLocale = (): Locale => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(saved)) return saved;
+  } catch {
+    // No storage (e.g. Node): fall through to the runtime language.
+  }
+  const language = (typeof navigator !== 'undefined' && navigator.language) || '';
+  const prefix = language.slice(0, 2).toLowerCase();
+  return LOCALES.find((locale) => locale.code.startsWith(prefix))?.code ?? DEFAULT_LOCALE;
+};
+
+/** Keeps the page's `lang` attribute in step, for screen readers and hyphenation. */
+const applyDocumentLanguage = (locale: Locale) => {
+  if (typeof document !== 'undefined') document.documentElement.lang = locale;
+};
+
+let currentLocale: Locale = detectLocale();
+applyDocumentLanguage(currentLocale);
+const listeners = new Set<() => void>();
+
+export const getLocale = (): Locale => currentLocale;
+
+/** Switches the interface language, remembers it in this browser and notifies subscribers. */
+export const setLocale = (locale: Locale): void => {
+  if (locale === currentLocale) return;
+  currentLocale = locale;
+  try {
+    localStorage.setItem(STORAGE_KEY, locale);
+  } catch {
+    // Not persisted; the choice still applies until reload.
+  }
+  applyDocumentLanguage(locale);
+  listeners.forEach((listener) => listener());
+};
+
+/**
+ * Calls `listener` whenever the locale changes.
+ * @returns A function that removes the listener.
+ */
+export const subscribeLocale = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const pluralRules = new Map<Locale, Intl.PluralRules>();
+
+const selectForm = (message: Message, locale: Locale, params: MessageParams): string => {
+  if (typeof message === 'string') return message;
+  const count = Number(params.count ?? 0);
+  if (count === 0 && message.zero !== undefined) return message.zero;
+  if (!pluralRules.has(locale)) pluralRules.set(locale, new Intl.PluralRules(locale));
+  return pluralRules.get(locale)!.select(count) === 'one' ? message.one : message.other;
+};
+
+/**
+ * Looks up a message in the current locale, falling back to Portuguese.
+ * Numbers are formatted for the locale, and a `count` parameter picks the plural form.
+ * @param key - The message key.
+ * @param params - Values for the `{name}` placeholders.
+ */
+export const t = (key: MessageKey, params: MessageParams = {}): string => {
+  const locale = currentLocale;
+  const message = CATALOGS[locale][key] ?? PT_BR[key];
+  return selectForm(message, locale, params).replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined) return placeholder;
+    return typeof value === 'number' ? value.toLocaleString(locale) : value;
+  });
+};
@@ -0,0 +1,468 @@
+// Source catalog: every UI message, in Brazilian Portuguese. Other locales must define the same keys.
+import type { Message } from "./types";
+
+export const PT_BR = {
+  'app.footer': 'Criado com a API Gemini',
+  'app.mockMode': 'Modo de demonstração: as cenas, imagens e áudios são gerados localmente, sem a API.',
+
+  'header.title': 'Gerador de Cenas Bíblicas',
+  'header.subtitle': 'Transforme capítulos da Bíblia em arte no estilo Pixar',
+  'header.locale': 'Idioma da interface',
+
+  'common.delete': 'Excluir',
+  'common.remove': 'Remover',
+  'common.retry': 'Tentar novamente',
+  'common.downloadImage': 'Baixar Imagem',
+  'common.captionsSrt': 'Legendas SRT',
+  'common.captionsVtt': 'Legendas WebVTT',
+  'common.portraitAlt': 'Retrato de {name}',
+  'common.sceneAlt': 'Cena de {reference}',
+
+  'language.pt-BR': 'Português',
+  'language.en-US': 'Inglês',
+  'language.es-ES': 'Espanhol',
+  'language.fr-FR': 'Francês',
+  'language.de-DE': 'Alemão',
+
+  'aspect.vertical': 'Vertical',
+  'aspect.portrait': 'Retrato 3:4',
+  'aspect.square': 'Quadrado',
+  'aspect.landscape': 'Paisagem 4:3',
+  'aspect.horizontal': 'Horizontal',
+
+  'generator.referenceLabel': 'Capítulo e Versículo da Bíblia',
+  'generator.referencePlaceholder': 'Ex: Gênesis 1:1',
+  'generator.referenceRecognized': 'Referência reconhecida: {reference}',
+  'generator.newScene': 'Nova Cena',
+  'generator.step1': 'Passo 1: Crie o Prompt da Cena',
+  'generator.generatePrompt': 'Gerar Prompt Automaticamente',
+  'generator.promptPlaceholder': 'Clique no botão acima para gerar um prompt, ou escreva sua própria descrição da cena aqui...',
+  'generator.promptError': 'Ocorreu um erro ao gerar o prompt. Tente um versículo diferente.',
+  'generator.step2': 'Passo 2: Gere a Imagem',
+  'generator.aspectRatio': 'Formato da Imagem',
+  'generator.variantsPerScene': 'Variações por cena',
+  'generator.generateImage': 'Gerar Imagem',
+  'generator.imageLoading': 'Gerando a imagem... Isso pode levar alguns instantes.',
+  'generator.imageError': 'Ocorreu um erro ao gerar a imagem. Por favor, tente novamente.',
+  'generator.pickVariant': 'Escolha a variação que será a imagem da cena. As outras ficam no histórico.',
+  'generator.previousVersions': {
+    one: 'Versão anterior (1). Clique para usá-la.',
+    other: 'Versões anteriores ({count}). Clique para usar uma delas.',
+  },
+  'generator.regenerate': {
+    one: 'Gerar novamente esta cena',
+    other: 'Gerar {count} novas variações desta cena',
+  },
+  'generator.nextVerse': 'Gerar Próximo Versículo ({reference})',
+  'generator.endOfBible': 'Fim da Bíblia',
+  'generator.nextVerseNotFound': 'O modelo não reconheceu {reference}. Tente novamente ou inicie uma nova cena.',
+  'generator.nextVerseError': 'Falha ao gerar o próximo versículo.',
+  'generator.untitledScene': 'Cena sem referência',
+
+  'narration.title': 'Gerador de Narração',
+  'narration.textLabel': 'Texto para Narrar',
+  'narration.textPlaceholder': "Clique em 'Buscar Texto do Versículo' para preencher automaticamente, ou cole o texto aqui.",
+  'narration.source': 'Fonte: {name}. {attribution}',
+  'narration.aiTextWarning': 'Texto gerado por IA (fallback). Pode conter paráfrases ou imprecisões; confira antes de publicar.',
+  'narration.fetchText': 'Buscar Texto do Versículo',
+  'narration.fetchError': 'Ocorreu um erro ao buscar o texto. Verifique a referência ou tente novamente.',
+  'narration.chooseVoice': 'Escolha o idioma e a voz para a narração.',
+  'narration.language': 'Idioma',
+  'narration.voice': 'Voz',
+  'narration.dramatized': 'Leitura dramatizada: narrador e personagens com vozes próprias',
+  'narration.generate': 'Gerar Áudio',
+  'narration.loading': 'Gerando narração...',
+  'narration.loadingDramatized': 'Gerando narração... cada fala é gerada separadamente, o que pode levar um pouco mais de tempo.',
+  'narration.error': 'Ocorreu um erro ao gerar o áudio. Por favor, tente novamente.',
+  'narration.audioUnsupported': 'Seu navegador não suporta o elemento de áudio.',
+
+  'cache.fromCache': 'Do cache, sem nova chamada à API',
+  'cache.forceRegenerate': 'Forçar nova geração',
+  'cache.show': 'Configurações do cache de geração',
+  'cache.hide': 'Ocultar configurações do cache de geração',
+  'cache.loading': 'Lendo o cache...',
+  'cache.stats': { one: '1 resultado em cache, {size} MB', other: '{count} resultados em cache, {size} MB' },
+  'cache.limitLabel': 'Limite de tamanho (MB)',
+  'cache.applyLimit': 'Aplicar limite',
+  'cache.invalidLimit': 'Informe um limite de 0 MB ou mais.',
+  'cache.clear': 'Limpar cache',
+  'cache.confirmClear': 'Remover todos os resultados em cache? Gerá-los de novo vai chamar a API.',
+  'cache.unavailable': 'O cache de geração não está disponível neste navegador.',
+
+  'project.none': 'Nenhum projeto aberto. O trabalho será salvo em um novo projeto automaticamente.',
+  'project.nameLabel': 'Nome do projeto',
+  'project.verseCount': { one: '1 versículo', other: '{count} versículos' },
+  'project.savedAt': 'salvo em {date}',
+  'project.list': 'Projetos ({count})',
+  'project.new': 'Novo',
+  'project.newPrompt': 'Nome do novo projeto:',
+  'project.defaultName': 'Novo projeto',
+  'project.empty': 'Nenhum projeto salvo ainda.',
+  'project.confirmDelete': 'Excluir o projeto "{name}"? Imagens e narrações salvas serão perdidas.',
+  'project.saveError': 'Não foi possível salvar o projeto neste navegador.',
+  'project.exportPackage': 'Exportar Pacote (ZIP)',
+  'project.exportTitle': 'Baixa imagens, narrações, textos, prompts e um manifest.json de todo o projeto.',
+  'project.exportError': 'Falha ao exportar o pacote do projeto.',
+
+  'characters.title': 'Personagens',
+  'characters.import': 'Importar JSON',
+  'characters.export': 'Exportar JSON',
+  'characters.hint': 'As descrições são reutilizadas em todas as cenas. Personagens bloqueados nunca são alterados pela IA, e os retratos de referência mantêm rostos e roupas iguais entre as cenas.',
+  'characters.generateMissing': {
+    one: 'Gerar o retrato de referência que falta',
+    other: 'Gerar {count} retratos de referência',
+  },
+  'characters.empty': 'Nenhum personagem ainda. Gere um prompt, importe um arquivo ou adicione um abaixo.',
+  'characters.redoPortrait': 'Refazer retrato',
+  'characters.generatePortrait': 'Gerar retrato',
+  'characters.locked': 'Bloqueado',
+  'characters.lock': 'Bloquear',
+  'characters.descriptionLabel': 'Descrição de {name}',
+  'characters.namePlaceholder': 'Nome do personagem (ex: Davi)',
+  'characters.descriptionPlaceholder': 'Aparência: idade, rosto, cabelo, roupas, físico...',
+  'characters.add': 'Adicionar Personagem',
+  'characters.confirmRemove': 'Remover "{name}" da lista de personagens?',
+  'characters.confirmReplace': '"{name}" já existe. Substituir a descrição?',
+  'characters.portraitError': 'Falha ao gerar o retrato.',
+  'characters.importError': 'Não foi possível importar os personagens.',
+
+  'references.title': 'Referências visuais desta cena',
+  'references.previousScene': 'Cena anterior',
+  'references.hint': 'Personagens citados no prompt são selecionados automaticamente. Sem referências, a imagem é gerada só pelo texto.',
+
+  'variants.use': 'Usar esta versão',
+  'variants.pick': 'Escolher a variação {number}',
+  'variants.alt': 'Variação {number}',
+
+  'safePrompt.blocked': 'O filtro de segurança bloqueou a imagem, então o prompt foi suavizado automaticamente.',
+  'safePrompt.flagged': 'O prompt tinha termos sensíveis e foi suavizado antes de gerar a imagem.',
+  'safePrompt.termsFound': 'Termos encontrados: {terms}.',
+  'safePrompt.original': 'Original',
+  'safePrompt.rewritten': 'Reescrito',
+  'safePrompt.rewrittenAttempts': 'Reescrito ({count} tentativas)',
+  'safePrompt.restoreOriginal': 'Restaurar original',
+  'safePrompt.keepRewritten': 'Manter reescrito',
+  'safePrompt.liveWarning': 'Termos sensíveis: {terms}. O prompt será suavizado antes de gerar a imagem.',
+  'safePrompt.editTerms': 'Termos sensíveis ({count})',
+  'safePrompt.termsPlaceholder': 'Termos separados por vírgula',
+  'safePrompt.resetTerms': 'Restaurar padrão',
+  'safePrompt.saveTerms': 'Salvar termos',
+
+  'style.label': 'Estilo de Arte',
+  'style.new': 'Novo estilo',
+  'style.avoid': 'Evitar: {terms}',
+  'style.namePlaceholder': 'Nome do estilo (ex: Gravura antiga)',
+  'style.suffixPlaceholder': 'Descrição do estilo, adicionada ao fim de cada prompt (ex: gravura em metal, hachuras finas, tons sépia)',
+  'style.negativePlaceholder': 'Evitar (prompt negativo, opcional)',
+  'style.save': 'Salvar Estilo',
+  'style.saveError': 'Não foi possível salvar o estilo.',
+  'style.confirmDelete': 'Excluir o estilo "{name}"?',
+  'style.builtIn.pixar': 'Pixar 3D',
+  'style.builtIn.watercolor': 'Aquarela de livro infantil',
+  'style.builtIn.cartoon': 'Desenho 2D plano',
+  'style.builtIn.claymation': 'Massinha (claymation)',
+  'style.builtIn.stainedGlass': 'Vitral',
+
+  'translation.label': 'Tradução',
+  'translation.aiFallback': 'Texto gerado por IA (fallback)',
+  'translation.noLocal': 'Sem tradução local: o texto será recitado pela IA e pode conter imprecisões. Confira antes de publicar.',
+  'translation.noneForLanguage': 'Nenhuma tradução em {language} está instalada: o texto será recitado pela IA e pode conter imprecisões. Importe abaixo uma tradução de domínio público para citá-la exatamente.',
+  'translation.openImport': 'Importar tradução (OSIS XML, JSON ou CSV)',
+  'translation.cancelImport': 'Cancelar importação',
+  'translation.namePlaceholder': 'Nome (ex: King James Version)',
+  'translation.idPlaceholder': 'Sigla (ex: KJV)',
+  'translation.attributionPlaceholder': 'Atribuição (ex: King James Version, domínio público)',
+  'translation.import': 'Importar',
+  'translation.importError': 'Não foi possível importar o arquivo.',
+  'translation.confirmDelete': 'Remover a tradução "{name}" deste navegador?',
+
+  'passage.title': 'Storyboard de Passagem',
+  'passage.description': 'Gere uma cena por versículo de uma passagem ou capítulo inteiro, mantendo os mesmos personagens.',
+  'passage.label': 'Passagem',
+  'passage.placeholder': 'Ex: 1 Samuel 4:12-18 ou 1 Samuel 4',
+  'passage.summary': {
+    one: '1 versículo: {first}',
+    other: '{count} versículos: {first} a {last}',
+  },
+  'passage.stop': 'Parar após a cena atual',
+  'passage.generate': 'Gerar Storyboard',
+  'passage.progress': {
+    one: '{done} de 1 cena concluída',
+    other: '{done} de {count} cenas concluídas',
+  },
+  'passage.failed': '{count} com erro',
+  'passage.resume': {
+    one: 'Gerar a cena restante',
+    other: 'Gerar as {count} cenas restantes',
+  },
+  'passage.softened': 'Prompt suavizado para o filtro de segurança',
+  'passage.softenedDetails': 'Prompt original: {original}\n\nReescrito: {rewritten}',
+  'passage.pending': 'Aguardando',
+  'passage.frameError': 'Falha ao gerar a cena deste versículo.',
+  'passage.background': 'Gerar em Segundo Plano',
+  'passage.backgroundHint': 'Adiciona as cenas à fila de geração: o editor continua livre e a fila continua depois de recarregar a página.',
+  'passage.withNarration': 'Incluir narração (voz e idioma atuais)',
+  'passage.queued': {
+    zero: 'Todas as cenas já estão prontas.',
+    one: '1 tarefa adicionada à fila.',
+    other: '{count} tarefas adicionadas à fila.',
+  },
+
+  'queue.title': 'Fila de Geração',
+  'queue.empty': 'Nenhuma tarefa na fila.',
+  'queue.summary': '{queued} na fila · {running} gerando · {done} concluídas · {failed} com erro',
+  'queue.pause': 'Pausar Fila',
+  'queue.resume': 'Retomar Fila',
+  'queue.paused': 'Fila pausada: nenhuma tarefa nova começa até retomar. As que estão gerando terminam.',
+  'queue.clear': 'Limpar concluídas',
+  'queue.kind.prompt': 'Prompt',
+  'queue.kind.image': 'Imagem',
+  'queue.kind.audio': 'Narração',
+  'queue.status.queued': 'Na fila',
+  'queue.status.running': 'Gerando',
+  'queue.status.paused': 'Pausada',
+  'queue.status.done': 'Concluída',
+  'queue.status.failed': 'Erro',
+  'queue.status.cancelled': 'Cancelada',
+  'queue.cancel': 'Cancelar',
+  'queue.pauseJob': 'Pausar',
+  'queue.resumeJob': 'Retomar',
+  'queue.jobError': 'Falha na tarefa em segundo plano.',
+  'queue.dependencyFailed': 'A etapa anterior desta cena falhou ou foi cancelada.',
+  'queue.verseMissing': 'O versículo {reference} não está mais no projeto.',
+  'queue.noPrompt': 'A cena não tem prompt; gere o prompt antes da imagem.',
+
+  'timeline.title': 'Linha do Tempo do Storyboard',
+  'timeline.description': 'Todos os versículos do projeto, em ordem. Clique em um quadro para editá-lo; arraste os quadros para reordená-los.',
+  'timeline.frame': 'quadro {index} de {count}',
+  'timeline.noImage': 'Sem imagem',
+  'timeline.hasNarration': 'Tem narração',
+  'timeline.insertHere': 'Inserir um versículo aqui',
+  'timeline.insertLabel': 'Versículo a inserir na posição {position}',
+  'timeline.insertPlaceholder': 'Ex: 1 Samuel 4:13',
+  'timeline.insert': 'Inserir',
+  'timeline.cancel': 'Cancelar',
+  'timeline.duplicate': '{reference} já está no projeto.',
+  'timeline.moveEarlier': 'Mover para antes',
+  'timeline.moveLater': 'Mover para depois',
+  'timeline.promptLabel': 'Prompt da cena',
+  'timeline.savePrompt': 'Salvar Prompt',
+  'timeline.saveFirst': 'Salve o prompt editado primeiro.',
+  'timeline.generateImage': 'Gerar Imagem',
+  'timeline.regenerateImage': 'Gerar Imagem Novamente',
+  'timeline.generateNarration': 'Gerar Narração',
+  'timeline.regenerateNarration': 'Gerar Narração Novamente',
+  'timeline.narrationHint': 'Usa o idioma, a tradução e a voz escolhidos na seção de narração.',
+  'timeline.narration': 'Narração: "{text}"',
+  'timeline.noNarration': 'Ainda sem narração.',
+  'timeline.openInEditor': 'Abrir no Editor',
+  'timeline.confirmDelete': 'Excluir o quadro {reference}? A imagem e a narração dele serão perdidas.',
+  'timeline.queuedHint': 'Gerando na fila em segundo plano; o quadro é atualizado quando o trabalho terminar.',
+
+  'caption.title': 'Imagem com Legenda',
+  'caption.description': 'O versículo e a referência sobre a cena, prontos para postar.',
+  'caption.preview': 'Prévia com legenda de {reference}',
+  'caption.showSafeArea': 'Mostrar área segura',
+  'caption.safeAreaHint': 'A moldura tracejada marca onde os botões e a barra de perfil da plataforma não cobrem a imagem; a legenda e a marca d\'água ficam dentro dela.',
+  'caption.textLabel': 'Texto do versículo',
+  'caption.textPlaceholder': 'O texto do versículo, ou deixe vazio para mostrar só a referência.',
+  'caption.fetchText': 'Buscar texto do versículo',
+  'caption.fetching': 'Buscando...',
+  'caption.template': 'Layout',
+  'caption.template.lowerThird': 'Terço inferior',
+  'caption.template.quote': 'Citação centralizada',
+  'caption.template.topBanner': 'Faixa no topo',
+  'caption.template.minimal': 'Minimalista',
+  'caption.font': 'Fonte',
+  'caption.size': 'Tamanho',
+  'caption.size.story': 'Stories / Reels / TikTok ({width}×{height})',
+  'caption.size.portrait': 'Feed do Instagram ({width}×{height})',
+  'caption.size.square': 'Post quadrado ({width}×{height})',
+  'caption.size.landscape': 'X / Facebook ({width}×{height})',
+  'caption.size.pin': 'Pinterest ({width}×{height})',
+  'caption.watermark': 'Marca d\'água',
+  'caption.watermarkText': 'Texto da marca d\'água',
+  'caption.watermarkPlaceholder': 'Ex: @seucanal',
+  'caption.addLogo': 'Adicionar logo',
+  'caption.replaceLogo': 'Trocar logo',
+  'caption.corner': 'Canto da marca d\'água',
+  'caption.corner.topLeft': 'Superior esquerdo',
+  'caption.corner.topRight': 'Superior direito',
+  'caption.corner.bottomLeft': 'Inferior esquerdo',
+  'caption.corner.bottomRight': 'Inferior direito',
+  'caption.opacity': 'Opacidade',
+  'caption.download': 'Baixar Imagem com Legenda ({width}×{height})',
+  'caption.exportError': 'Falha ao montar a imagem com legenda.',
+
+  'promptHistory.show': {
+    one: 'Mostrar histórico de prompts (1 versão)',
+    other: 'Mostrar histórico de prompts ({count} versões)',
+  },
+  'promptHistory.hide': 'Ocultar histórico de prompts',
+  'promptHistory.version': 'Versão {number}',
+  'promptHistory.source.auto': 'Gerado automaticamente',
+  'promptHistory.source.edited': 'Editado à mão',
+  'promptHistory.source.restored': 'Restaurado',
+  'promptHistory.source.generated': 'Usado em uma imagem',
+  'promptHistory.source.safetyRewrite': 'Reescrito por segurança',
+  'promptHistory.compare': 'Comparar',
+  'promptHistory.with': 'com',
+  'promptHistory.before': 'Versão anterior',
+  'promptHistory.after': 'Versão posterior',
+  'promptHistory.identical': 'As duas versões têm o mesmo prompt.',
+  'promptHistory.legend': 'Vermelho riscado: só na primeira versão · Verde: só na segunda.',
+  'promptHistory.noImage': 'Sem imagem',
+  'promptHistory.imageAlt': 'Imagem da versão {number}',
+  'promptHistory.use': 'Usar este prompt',
+
+  'cli.usage': 'Uso: gerador scene "<passagem>" [opções]\n\nGera a cena e a narração de cada versículo e grava imagens, WAVs, textos, prompts e manifest.json.\n\nOpções:\n  --style <id>         Estilo: pixar, watercolor, stained-glass, ... (padrão: pixar)\n  --ratio <formato>    9:16, 3:4, 1:1, 4:3 ou 16:9 (padrão: 9:16)\n  --voice <voz>        Predefinição (adulta, infantil) ou voz do catálogo (Kore, Puck, ...)\n  --lang <idioma>      Idioma da narração e dos livros da passagem (padrão: pt-BR)\n  --out <pasta>        Pasta de saída (padrão: ./dist)\n  --characters <json>  Bíblia de personagens exportada pelo app\n  --name <nome>        Nome do projeto no manifest\n  --bible <arquivo>    Tradução (OSIS, JSON ou CSV) de onde citar o texto narrado\n  --skip-audio         Só as cenas, sem narração\n  -h, --help           Mostra esta ajuda\n\nExemplo: gerador scene "Gênesis 1:1-10" --style pixar --ratio 9:16 --voice adulta --lang pt-BR --out ./dist',
+  'cli.seeHelp': 'Use "gerador --help" para ver as opções.',
+  'cli.unknownCommand': 'Comando desconhecido: {command}.',
+  'cli.missingPassage': 'Informe a passagem, por exemplo "Gênesis 1:1-10".',
+  'cli.unknownStyle': 'Estilo desconhecido: {style}. Disponíveis: {styles}.',
+  'cli.invalidRatio': 'Formato inválido: {ratio}. Use {ratios}.',
+  'cli.unknownVoice': 'Voz desconhecida: {voice}. Disponíveis: {voices}.',
+  'cli.verseStart': '[{index}/{count}] {reference}',
+  'cli.verseFailed': '  {reference}: {error}',
+  'cli.done': '{count} arquivos gravados em {out}',
+  'cli.aiText': 'Aviso: o texto de {reference} foi recitado pela IA e pode diferir de qualquer tradução; está marcado como "ai" no manifest.json. Use --bible <arquivo> para citar uma tradução.',
+  'cli.verseNotInBible': 'Aviso: {reference} não está em {file}; o texto foi recitado pela IA e está marcado como "ai" no manifest.json.',
+  'cli.failedCount': {
+    one: '1 versículo falhou; ele aparece no manifest sem os arquivos que faltaram.',
+    other: '{count} versículos falharam; eles aparecem no manifest sem os arquivos que faltaram.',
+  },
+
+  'video.title': 'Exportar Vídeo Narrado',
+  'video.empty': 'Gere cenas no projeto para montar o vídeo.',
+  'video.sceneCount': { one: '1 cena', other: '{count} cenas' },
+  'video.summary': '{scenes} · {narrated} com narração · duração de {duration} em {ratio}',
+  'video.kenBurns': 'Movimento (Ken Burns)',
+  'video.burnCaptions': 'Legendas na imagem',
+  'video.transition': 'Transição',
+  'video.cut': 'Corte seco',
+  'video.crossfade': 'Fusão de {seconds} s',
+  'video.silentClips': 'Cenas sem narração',
+  'video.unsupported': 'Este navegador não grava vídeos WebM. Use o Chrome, Edge ou Firefox.',
+  'video.recording': 'Gravando em tempo real ({elapsed} de {total}). Mantenha esta aba aberta e visível.',
+  'video.cancel': 'Cancelar Exportação',
+  'video.export': 'Exportar Vídeo (WebM)',
+  'video.exportError': 'Falha ao exportar o vídeo.',
+  'video.download': 'Baixar Vídeo',
+
+  'chapterAudio.title': 'Áudio do Capítulo',
+  'chapterAudio.empty': 'Gere narrações no projeto para montar o áudio do capítulo.',
+  'chapterAudio.from': 'De',
+  'chapterAudio.to': 'até',
+  'chapterAudio.pause': 'Pausa entre versículos',
+  'chapterAudio.normalize': 'Igualar volume das narrações',
+  'chapterAudio.music': 'Música de fundo (opcional, arquivo local)',
+  'chapterAudio.musicVolume': 'Volume',
+  'chapterAudio.duckedVolume': 'Durante a narração',
+  'chapterAudio.assemble': {
+    one: 'Montar Áudio (1 narração)',
+    other: 'Montar Áudio ({count} narrações)',
+  },
+  'chapterAudio.error': 'Falha ao montar o áudio do capítulo.',
+  'chapterAudio.duration': 'Duração: {duration}',
+  'chapterAudio.downloadWav': 'Baixar WAV',
+  'chapterAudio.markersTxt': 'Marcadores (TXT)',
+  'chapterAudio.markersVtt': 'Marcadores (WebVTT)',
+
+  'voice.preset': 'Predefinição',
+  'voice.custom': 'Personalizada',
+  'voice.preview': 'Ouvir {name}',
+  'voice.previewError': 'Não foi possível gerar a amostra da voz.',
+  'voice.style': 'Estilo',
+  'voice.rate': 'Velocidade',
+  'voice.presetNamePlaceholder': 'Nome do narrador (ex: Narrador da série)',
+  'voice.savePreset': 'Salvar predefinição',
+  'voice.savePresetError': 'Não foi possível salvar a predefinição.',
+  'voice.confirmDeletePreset': 'Excluir a predefinição "{name}"?',
+  'voice.builtIn.adulta': 'Adulta',
+  'voice.builtIn.infantil': 'Infantil',
+  'voiceStyle.neutral': 'Neutro',
+  'voiceStyle.calm': 'Calmo',
+  'voiceStyle.reverent': 'Reverente',
+  'voiceStyle.excited': 'Contação animada',
+  'voiceStyle.child': 'Infantil',
+  'voiceTone.upbeat': 'Animada',
+  'voiceTone.informative': 'Informativa',
+  'voiceTone.informativeDeep': 'Informativa, grave',
+  'voiceTone.firm': 'Firme',
+  'voiceTone.firmDeep': 'Firme, grave',
+  'voiceTone.excitable': 'Empolgada',
+  'voiceTone.breezy': 'Leve',
+  'voiceTone.youthful': 'Jovem',
+  'voiceTone.bright': 'Brilhante',
+  'voiceTone.easygoing': 'Tranquila',
+  'voiceTone.breathy': 'Sussurrada',
+  'voiceTone.clear': 'Clara',
+  'voiceTone.smooth': 'Suave',
+  'voiceTone.gravelly': 'Rouca',
+  'voiceTone.soft': 'Macia',
+  'voiceTone.even': 'Equilibrada',
+  'voiceTone.mature': 'Madura',
+  'voiceTone.forward': 'Expansiva',
+  'voiceTone.friendly': 'Amigável',
+  'voiceTone.casual': 'Descontraída',
+  'voiceTone.gentle': 'Gentil',
+  'voiceTone.lively': 'Vivaz',
+  'voiceTone.knowledgeable': 'Sábia',
+  'voiceTone.warm': 'Calorosa',
+
+  'dramatized.title': 'Vozes da leitura dramatizada',
+  'dramatized.narrator': 'Narrador',
+  'dramatized.outdated': 'As vozes mudaram. Gere o áudio novamente para ouvir a nova distribuição.',
+
+  'reference.invalidFormat': 'Formato inválido. Use "Livro capítulo:versículo", por exemplo "Gênesis 1:1".',
+  'reference.invalidPassage': 'Formato inválido. Use, por exemplo, "1 Samuel 4", "1 Samuel 4:12-18" ou "Gênesis 1:26-2:3".',
+  'reference.missingStartVerse': 'Formato inválido. Informe o versículo inicial, por exemplo "Gênesis 1:26-2:3".',
+  'reference.unknownBook': 'Livro não reconhecido: "{book}".',
+  'reference.endBeforeStart': 'O fim da passagem vem antes do início.',
+  'reference.chapterCount': {
+    one: '{book} tem 1 capítulo.',
+    other: '{book} tem {count} capítulos.',
+  },
+  'reference.verseCount': {
+    one: '{book} {chapter} tem 1 versículo.',
+    other: '{book} {chapter} tem {count} versículos.',
+  },
+
+  'errors.guidance.transient': 'O servidor de geração está instável no momento e as novas tentativas automáticas também falharam. Aguarde alguns instantes e tente novamente.',
+  'errors.guidance.quota': 'O limite de uso da chave de API foi atingido. Aguarde alguns minutos antes de tentar de novo ou verifique a cota e o faturamento da sua chave do Gemini.',
+  'errors.guidance.safety': 'O conteúdo foi bloqueado pelos filtros de segurança. Reescreva o prompt evitando violência, ferimentos ou nudez e descreva as emoções da cena em vez da ação.',
+  'errors.guidance.verseNotFound': 'O modelo não reconheceu esta referência. Confira o nome do livro, o capítulo e o versículo (ex: "Gênesis 1:1").',
+  'errors.guidance.malformedResponse': 'A resposta da IA veio em um formato inesperado. Tente gerar novamente; se persistir, tente um versículo diferente.',
+  'errors.verseNotRecognized': 'O modelo não reconheceu a referência "{reference}".',
+  'errors.missingFields': 'Resposta da IA com campos ausentes.',
+  'errors.unparseableResponse': 'Falha ao processar a resposta da IA. O formato pode ser inválido.',
+  'errors.noRewrite': 'A IA não retornou um prompt reescrito.',
+  'errors.imageBlocked': 'A imagem não pôde ser gerada. Isso pode ocorrer devido a filtros de segurança sobre o conteúdo da cena. Tente um versículo diferente ou uma nova cena com uma descrição menos explícita.',
+  'errors.noVerseText': 'Não foi possível obter o texto do versículo.',
+  'errors.emptyNarration': 'O texto para narração não pode estar vazio.',
+  'errors.dialogueUnparseable': 'Falha ao processar a divisão das falas.',
+  'errors.noDialogue': 'A IA não dividiu o texto em falas.',
+  'errors.noAudio': 'A API não retornou nenhum áudio.',
+  'errors.invalidDataUrl': 'Imagem inválida: esperado um data URL em base64.',
+  'errors.zipTooLarge': 'O pacote passa de 4 GB, o limite de um arquivo ZIP simples.',
+  'errors.indexedDbUnavailable': 'IndexedDB não está disponível neste ambiente.',
+  'errors.corpusJson': 'JSON inválido: esperado um array de versículos.',
+  'errors.corpusCsv': 'CSV inválido: o cabeçalho deve ter as colunas book, chapter, verse e text.',
+  'errors.corpusEmpty': 'Nenhum versículo foi encontrado no arquivo.',
+  'errors.verseNotInTranslation': '{reference} não está disponível na tradução selecionada. Escolha outra tradução ou o texto por IA.',
+  'errors.unknownBook': 'Livro desconhecido: {id}',
+  'errors.characterFileJson': 'Arquivo de personagens inválido: não é um JSON válido.',
+  'errors.characterFileEmpty': 'Arquivo de personagens inválido: nenhum personagem encontrado.',
+  'errors.styleIncomplete': 'O estilo precisa de um nome e de uma descrição de estilo.',
+  'errors.voicePresetName': 'A predefinição de voz precisa de um nome.',
+  'errors.videoImageLoad': 'Não foi possível carregar uma das imagens da sequência.',
+  'errors.videoEmpty': 'Nenhuma cena com imagem para exportar.',
+  'errors.videoUnsupported': 'Este navegador não consegue gravar vídeos WebM. Tente o Chrome, Edge ou Firefox.',
+  'errors.videoCanvas': 'Não foi possível criar a tela de renderização do vídeo.',
+  'errors.videoCancelled': 'Exportação de vídeo cancelada.',
+  'errors.captionImageLoad': 'Não foi possível carregar a cena ou o logo.',
+  'errors.captionCanvas': 'Não foi possível criar o canvas da imagem.',
+  'errors.chapterAudioEmpty': 'Nenhuma narração no intervalo escolhido.',
+  'errors.chapterAudioUnsupported': 'Este navegador não consegue montar o áudio (OfflineAudioContext indisponível).',
+  'errors.musicUnreadable': 'Não foi possível ler o arquivo de música. Use MP3, WAV, OGG ou M4A.',
+} satisfies Record<string, Message>;
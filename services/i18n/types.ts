@@ -0,0 +1,24 @@
+import type { PT_BR } from "./pt-BR";
+
+export type Locale = 'pt-BR' | 'en-US' | 'es-ES';
+
+/**
+ * A message whose wording depends on a count, selected with `Intl.PluralRules`.
+ * `zero` is optional and used for a count of exactly 0 in every language.
+ */
+export interface PluralMessage {
+  zero?: string;
+  one: string;
+  other: string;
+}
+
+/** A message; `{name}` placeholders are replaced with the parameters passed to `t`. */
+export type Message = string | PluralMessage;
+
+/** The keys of the catalog; pt-BR is the source language. */
+export type MessageKey = keyof typeof PT_BR;
+
+/** A complete catalog; translations must define every key of the source. */
+export type Messages = Record<MessageKey, Message>;
+
+export type MessageParams = Record<string, string | number>;
@@ -0,0 +1,306 @@
+// Background generation jobs: kept in IndexedDB so they survive a reload, and run with
+// per-model concurrency and rate limits while the editor stays usable.
+import { deleteRecords, getAllRecords, putRecords, STORES } from "./db";
+import { describeError } from "./errors";
+import type { VoiceSettings } from "./voiceCatalog";
+import { t } from "./i18n";
+
+export type JobKind = 'prompt' | 'image' | 'audio';
+
+export type JobStatus = 'queued' | 'running' | 'paused' | 'done' | 'failed' | 'cancelled';
+
+/** Settings an audio job narrates with; prompt and image jobs read theirs from the project. */
+export interface JobOptions {
+  language?: string;
+  /** A stored translation for the verse text, or null for the AI fallback. */
+  translationId?: string | null;
+  voice?: VoiceSettings;
+  /** Generate again instead of reusing a cached result, e.g. to replace an existing image. */
+  force?: boolean;
+}
+
+export interface Job {
+  id: string;
+  kind: JobKind;
+  /** The project verse the result is saved into. */
+  projectId: string;
+  verseId: string;
+  reference: string;
+  status: JobStatus;
+  /** A job that must finish first, e.g. the prompt job of an image job. */
+  dependsOn?: string;
+  options?: JobOptions;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** A job to enqueue. Give it an `id` when other new jobs depend on it. */
+export type NewJob = Pick<Job, 'kind' | 'projectId' | 'verseId' | 'reference' | 'dependsOn' | 'options'> & { id?: string };
+
+/**
+ * Generates the result of a job and saves it into the project.
+ * Runners check `signal` before saving, so a cancelled job leaves the project untouched.
+ */
+export type JobRunner = (job: Job, signal: AbortSignal) => Promise<void>;
+
+/** The model a job calls; limits apply per model, not per kind. */
+export type ModelLane = 'text' | 'image' | 'speech';
+
+export const JOB_LANES: Record<JobKind, ModelLane> = {
+  prompt: 'text',
+  image: 'image',
+  audio: 'speech',
+};
+
+export interface LaneLimit {
+  /** Jobs of the lane running at the same time. */
+  concurrency: number;
+  /** Jobs of the lane started in any 60 seconds. */
+  perMinute: number;
+}
+
+export const LANE_LIMITS: Record<ModelLane, LaneLimit> = {
+  text: { concurrency: 3, perMinute: 30 },
+  image: { concurrency: 2, perMinute: 10 },
+  speech: { concurrency: 2, perMinute: 15 },
+};
+
+export interface QueueState {
+  /** Oldest first. */
+  jobs: Job[];
+  /** No new job starts while the queue is paused; running jobs finish. */
+  paused: boolean;
+}
+
+const PAUSED_KEY = 'gerador.queuePaused';
+const RATE_WINDOW_MS = 60_000;
+
+const readPaused = () => {
+  try {
+    return localStorage.getItem(PAUSED_KEY) === 'true';
+  } catch {
+    return false;
+  }
+};
+
+let state: QueueState = { jobs: [], paused: readPaused() };
+let runners: Record<JobKind, JobRunner> | null = null;
+let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<() => void>();
+const doneListeners = new Set<(job: Job) => void>();
+const controllers = new Map<string, AbortController>();
+const startTimes: Record<ModelLane, number[]> = { text: [], image: [], speech: [] };
+
+const setState = (next: QueueState) => {
+  state = next;
+  listeners.forEach((listener) => listener());
+};
+
+const persist = (jobs: Job[]) => {
+  putRecords(STORES.jobs, jobs).catch((err) => console.error("Failed to save queued jobs:", err));
+};
+
+/** Applies `changes` to the jobs matching `filter` and saves them. */
+const updateJobs = (filter: (job: Job) => boolean, changes: Partial<Job>) => {
+  const changed: Job[] = [];
+  const jobs = state.jobs.map((job) => {
+    if (!filter(job)) return job;
+    const updated = { ...job, ...changes, updatedAt: Date.now() };
+    changed.push(updated);
+    return updated;
+  });
+  if (changed.length === 0) return;
+  setState({ ...state, jobs });
+  persist(changed);
+};
+
+const updateJob = (id: string, changes: Partial<Job>) => updateJobs((job) => job.id === id, changes);
+
+export const getQueueState = (): QueueState => state;
+
+/**
+ * Calls `listener` whenever a job or the paused flag changes.
+ * @returns A function that removes the listener.
+ */
+export const subscribeJobs = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Calls `listener` with every job that finishes successfully, after its result is saved.
+ * @returns A function that removes the listener.
+ */
+export const subscribeJobDone = (listener: (job: Job) => void): (() => void) => {
+  doneListeners.add(listener);
+  return () => {
+    doneListeners.delete(listener);
+  };
+};
+
+const run = async (job: Job) => {
+  const controller = new AbortController();
+  controllers.set(job.id, controller);
+  updateJob(job.id, { status: 'running', error: undefined });
+  try {
+    await runners![job.kind](job, controller.signal);
+    if (!controller.signal.aborted) {
+      updateJob(job.id, { status: 'done' });
+      doneListeners.forEach((listener) => listener(job));
+    }
+  } catch (err) {
+    if (!controller.signal.aborted) {
+      console.error(`Background ${job.kind} job for ${job.reference} failed:`, err);
+      updateJob(job.id, { status: 'failed', error: describeError(err, t('queue.jobError')) });
+    }
+  } finally {
+    controllers.delete(job.id);
+    pump();
+  }
+};
+
+/** Starts every queued job whose dependency is done and whose lane has room. */
+const pump = () => {
+  if (wakeTimer) {
+    clearTimeout(wakeTimer);
+    wakeTimer = null;
+  }
+  if (!runners || state.paused) return;
+
+  const byId = new Map(state.jobs.map((job) => [job.id, job]));
+  // A job whose dependency failed or was cancelled can't run; it fails too, and retrying the dependency re-queues it.
+  const blocked = state.jobs.filter((job) => {
+    const status = job.dependsOn && byId.get(job.dependsOn)?.status;
+    return job.status === 'queued' && (status === 'failed' || status === 'cancelled');
+  });
+  if (blocked.length > 0) {
+    const ids = new Set(blocked.map((job) => job.id));
+    updateJobs((job) => ids.has(job.id), { status: 'failed', error: t('queue.dependencyFailed') });
+  }
+
+  const now = Date.now();
+  let wakeIn = Infinity;
+  for (const job of state.jobs) {
+    if (job.status !== 'queued') continue;
+    // A dependency cleared from the list has finished.
+    const dependency = job.dependsOn ? byId.get(job.dependsOn) : undefined;
+    if (dependency && dependency.status !== 'done') continue;
+
+    const lane = JOB_LANES[job.kind];
+    const limit = LANE_LIMITS[lane];
+    const running = state.jobs.filter((other) => other.status === 'running' && JOB_LANES[other.kind] === lane).length;
+    if (running >= limit.concurrency) continue;
+    const recent = (startTimes[lane] = startTimes[lane].filter((time) => now - time < RATE_WINDOW_MS));
+    if (recent.length >= limit.perMinute) {
+      wakeIn = Math.min(wakeIn, recent[0] + RATE_WINDOW_MS - now);
+      continue;
+    }
+    recent.push(now);
+    run(job);
+  }
+  if (wakeIn < Infinity) {
+    wakeTimer = setTimeout(pump, wakeIn);
+  }
+};
+
+/**
+ * Loads the saved jobs and starts running them. Jobs that were running when the page closed start over.
+ * Later calls do nothing.
+ * @param jobRunners - What each kind of job does.
+ */
+export const startJobQueue = async (jobRunners: Record<JobKind, JobRunner>): Promise<void> => {
+  if (runners) return;
+  runners = jobRunners;
+  try {
+    const saved = await getAllRecords<Job>(STORES.jobs);
+    const interrupted = saved.filter((job) => job.status === 'running').map((job) => ({ ...job, status: 'queued' as const }));
+    const jobs = saved
+      .map((job) => interrupted.find((restarted) => restarted.id === job.id) ?? job)
+      .sort((a, b) => a.createdAt - b.createdAt);
+    // Jobs enqueued while the saved ones were loading go after them.
+    setState({ ...state, jobs: [...jobs, ...state.jobs] });
+    persist(interrupted);
+  } catch (err) {
+    console.error("Failed to load queued jobs:", err);
+  }
+  pump();
+};
+
+/** Adds jobs to the end of the queue. */
+export const enqueueJobs = (newJobs: NewJob[]): Job[] => {
+  const now = Date.now();
+  const jobs: Job[] = newJobs.map((job) => ({
+    ...job,
+    id: job.id ?? crypto.randomUUID(),
+    status: 'queued',
+    createdAt: now,
+    updatedAt: now,
+  }));
+  setState({ ...state, jobs: [...state.jobs, ...jobs] });
+  persist(jobs);
+  pump();
+  return jobs;
+};
+
+/** Ids of `id` and every job that waits on it, directly or indirectly. */
+const withDependents = (id: string): Set<string> => {
+  const ids = new Set([id]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const job of state.jobs) {
+      if (job.dependsOn && ids.has(job.dependsOn) && !ids.has(job.id)) {
+        ids.add(job.id);
+        grew = true;
+      }
+    }
+  }
+  return ids;
+};
+
+/** Stops a job, and the jobs waiting on it. A running job's result is discarded. */
+export const cancelJob = (id: string) => {
+  const ids = withDependents(id);
+  ids.forEach((jobId) => controllers.get(jobId)?.abort());
+  updateJobs((job) => ids.has(job.id) && ['queued', 'running', 'paused'].includes(job.status), { status: 'cancelled' });
+  pump();
+};
+
+/** Holds a queued job back until it is resumed. */
+export const pauseJob = (id: string) => {
+  updateJobs((job) => job.id === id && job.status === 'queued', { status: 'paused' });
+};
+
+export const resumeJob = (id: string) => {
+  updateJobs((job) => job.id === id && job.status === 'paused', { status: 'queued' });
+  pump();
+};
+
+/** Queues a failed or cancelled job again, with the jobs that failed or were cancelled because of it. */
+export const retryJob = (id: string) => {
+  const ids = withDependents(id);
+  updateJobs((job) => ids.has(job.id) && (job.status === 'failed' || job.status === 'cancelled'), { status: 'queued', error: undefined });
+  pump();
+};
+
+export const setQueuePaused = (paused: boolean) => {
+  try {
+    localStorage.setItem(PAUSED_KEY, String(paused));
+  } catch {
+    // Not persisted; the choice still applies until reload.
+  }
+  setState({ ...state, paused });
+  pump();
+};
+
+/** Removes finished and cancelled jobs from the list; failed ones stay until retried or cancelled. */
+export const clearFinishedJobs = async (): Promise<void> => {
+  const finished = state.jobs.filter((job) => job.status === 'done' || job.status === 'cancelled');
+  if (finished.length === 0) return;
+  const ids = new Set(finished.map((job) => job.id));
+  setState({ ...state, jobs: state.jobs.filter((job) => !ids.has(job.id)) });
+  await Promise.all(finished.map((job) => deleteRecords(STORES.jobs, job.id)));
+};
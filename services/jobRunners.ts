@@ -0,0 +1,104 @@
+// What each kind of background job does: generate for one project verse and save the result into the project.
+import { cachedImagePrompt, cachedImageVariants, cachedSpeech } from "./generationCache";
+import { buildSceneReferences, charactersInPrompt } from "./characterBible";
+import { mergeCharacters } from "./passageService";
+import { fetchVerseText } from "./bibleCorpus";
+import { parseBibleRef } from "./bibleReference";
+import { loadProject, saveProject, withDerivedMeta, type Project, type ProjectVerse } from "./projectStore";
+import { defaultVoiceSettings } from "./voiceCatalog";
+import { addPromptVersions, imagePromptVersions } from "./promptHistory";
+import type { Job, JobKind, JobRunner } from "./jobQueue";
+import { t } from "./i18n";
+
+const loadTarget = async (job: Job): Promise<{ project: Project; verse: ProjectVerse }> => {
+  const project = await loadProject(job.projectId);
+  const verse = project?.verses.find((candidate) => candidate.id === job.verseId);
+  if (!project || !verse) {
+    throw new Error(t('queue.verseMissing', { reference: job.reference }));
+  }
+  return { project, verse };
+};
+
+/**
+ * Saves a job's result into its verse. The project is read again right before writing,
+ * so edits made in the editor while the job ran are kept.
+ */
+const saveResult = async (
+  job: Job,
+  signal: AbortSignal,
+  changes: (verse: ProjectVerse) => Partial<ProjectVerse>,
+  characterDescriptions?: Record<string, string>
+) => {
+  if (signal.aborted) return;
+  const { project, verse } = await loadTarget(job);
+  const updated: ProjectVerse = { ...verse, ...changes(verse), updatedAt: Date.now() };
+  const next = withDerivedMeta({
+    ...project,
+    characterDescriptions: characterDescriptions ? mergeCharacters(project.characterDescriptions, characterDescriptions) : project.characterDescriptions,
+    verses: project.verses.map((candidate) => (candidate.id === verse.id ? updated : candidate)),
+  });
+  await saveProject(next, [updated]);
+};
+
+const runPromptJob: JobRunner = async (job, signal) => {
+  const { project } = await loadTarget(job);
+  const { value: scene } = await cachedImagePrompt(job.reference, project.characterDescriptions, project.lockedCharacters);
+  await saveResult(job, signal, (current) => ({
+    scenePrompt: scene.scenePrompt,
+    promptHistory: addPromptVersions(current.promptHistory, [{ prompt: scene.scenePrompt, source: 'auto' }]),
+    referenceCharacters: charactersInPrompt(scene.scenePrompt, project.characterPortraits),
+  }), scene.characterDescriptions);
+};
+
+/** Uses the previous verse's scene for continuity when it already exists; jobs don't wait for it. */
+const runImageJob: JobRunner = async (job, signal) => {
+  const { project, verse } = await loadTarget(job);
+  if (!verse.scenePrompt.trim()) {
+    throw new Error(t('queue.noPrompt'));
+  }
+  const previousFrame = project.verses.find((candidate) => candidate.position === verse.position - 1)?.image ?? null;
+  const referenceCharacters = verse.referenceCharacters ?? charactersInPrompt(verse.scenePrompt, project.characterPortraits);
+  const references = buildSceneReferences(referenceCharacters, project.characterPortraits, previousFrame);
+  const aspectRatio = verse.aspectRatio ?? project.aspectRatio;
+  const { value } = await cachedImageVariants(verse.scenePrompt, aspectRatio, 1, { references, style: project.style }, { force: job.options?.force });
+  const [image] = value.images;
+  await saveResult(job, signal, (current) => ({
+    scenePrompt: value.prompt,
+    // The verse's prompt is normally its latest version already; one that isn't has no known origin.
+    promptHistory: addPromptVersions(current.promptHistory, imagePromptVersions(verse.scenePrompt, 'generated', value.prompt, image)),
+    image,
+    imageHistory: current.image ? [...(current.imageHistory ?? []), current.image] : current.imageHistory,
+    referenceCharacters,
+    aspectRatio,
+    style: project.style,
+  }));
+};
+
+/** Narrates the verse text, from the job's translation or the AI fallback, with a single voice. */
+const runAudioJob: JobRunner = async (job, signal) => {
+  const language = job.options?.language ?? 'pt-BR';
+  const voice = job.options?.voice ?? defaultVoiceSettings(language);
+  const parsed = parseBibleRef(job.reference);
+  if ('error' in parsed) {
+    throw new Error(parsed.error);
+  }
+  const { text, translation } = await fetchVerseText(parsed.ref, language, job.options?.translationId ?? null);
+  const { value: audioBase64 } = await cachedSpeech(text, voice, { force: job.options?.force });
+  await saveResult(job, signal, () => ({
+    narration: {
+      text,
+      textSource: translation ? 'translation' : 'ai',
+      translation: translation?.name,
+      audioBase64,
+      language,
+      voiceType: voice.voiceName,
+      voice,
+    },
+  }));
+};
+
+export const JOB_RUNNERS: Record<JobKind, JobRunner> = {
+  prompt: runPromptJob,
+  image: runImageJob,
+  audio: runAudioJob,
+};
@@ -0,0 +1,122 @@
+import { cachedImagePrompt, cachedImageVariants } from "./generationCache";
+import { buildSceneReferences, charactersInPrompt } from "./characterBible";
+import type { StylePreset } from "./stylePresets";
+import type { AspectRatio } from "./providers";
+import { describeError } from "./errors";
+import { t } from "./i18n";
+
+export type FrameStatus = 'pending' | 'running' | 'done' | 'error';
+
+export interface PassageFrame {
+  reference: string;
+  status: FrameStatus;
+  scenePrompt?: string;
+  /** The scene as a data URL. */
+  image?: string;
+  /** The model's prompt, when it had to be softened to get past the safety filter. */
+  originalPrompt?: string;
+  referenceCharacters?: string[];
+  error?: string;
+}
+
+export interface FrameResult {
+  scenePrompt: string;
+  characterDescriptions: Record<string, string>;
+  image: string;
+  /** The characters whose portraits conditioned the image. */
+  referenceCharacters: string[];
+  /** The model's prompt, when it had to be softened to get past the safety filter. */
+  originalPrompt?: string;
+}
+
+/** What a frame is generated from, besides its reference. */
+export interface FrameContext {
+  aspectRatio: AspectRatio;
+  /** Characters established by earlier verses. */
+  characterDescriptions: Record<string, string>;
+  /** Characters whose descriptions the model may not change. */
+  lockedCharacters?: string[];
+  /** Reference portraits; the ones of characters named in the scene prompt are used. */
+  characterPortraits?: Record<string, string>;
+  /** The preceding frame as a data URL, used as a continuity reference. */
+  previousFrame?: string | null;
+  style?: StylePreset;
+}
+
+/**
+ * Adds the characters returned for a verse to the ones already known.
+ * Characters the model leaves out are kept; locked descriptions are already restored by `generateImagePrompt`.
+ */
+export const mergeCharacters = (
+  existing: Record<string, string>,
+  updated: Record<string, string>
+): Record<string, string> => ({ ...existing, ...updated });
+
+/**
+ * Generates the scene prompt and image for a single verse, reusing cached results for identical inputs.
+ * @param reference - The verse, e.g. "1 Samuel 4:12".
+ * @param context - Characters, references and format to generate with.
+ */
+export const generateFrame = async (reference: string, context: FrameContext): Promise<FrameResult> => {
+  const { characterDescriptions, characterPortraits = {} } = context;
+  const { value: scene } = await cachedImagePrompt(reference, characterDescriptions, context.lockedCharacters);
+  const referenceCharacters = charactersInPrompt(scene.scenePrompt, characterPortraits);
+  const references = buildSceneReferences(referenceCharacters, characterPortraits, context.previousFrame);
+  const { value: { images: [image], prompt, rewrite } } = await cachedImageVariants(scene.scenePrompt, context.aspectRatio, 1, { references, style: context.style });
+  return {
+    scenePrompt: prompt,
+    characterDescriptions: mergeCharacters(characterDescriptions, scene.characterDescriptions),
+    image,
+    referenceCharacters,
+    originalPrompt: rewrite?.original,
+  };
+};
+
+export interface PassageRunOptions extends FrameContext {
+  /** Characters to start from; the run carries them forward verse by verse. */
+  characterDescriptions: Record<string, string>;
+  /** The frame before the first generated one; each generated frame becomes the next one's reference. */
+  previousFrame?: string | null;
+  /** Indexes of the frames to generate; defaults to all of them. */
+  indexes?: number[];
+  onFrameChange: (index: number, frame: PassageFrame) => void;
+  onCharactersChange: (characterDescriptions: Record<string, string>) => void;
+  /** Stops the run before the next frame starts. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Generates one scene per verse, in order. A failed frame is reported and skipped,
+ * so one blocked verse doesn't abort the whole passage.
+ * @param references - The verses of the passage.
+ * @returns The characters after the last generated frame.
+ */
+export const runPassage = async (references: string[], options: PassageRunOptions): Promise<Record<string, string>> => {
+  let characters = options.characterDescriptions;
+  let previousFrame = options.previousFrame ?? null;
+  const indexes = options.indexes ?? references.map((_, index) => index);
+
+  for (const index of indexes) {
+    if (options.signal?.aborted) break;
+    const reference = references[index];
+    options.onFrameChange(index, { reference, status: 'running' });
+    try {
+      const result = await generateFrame(reference, { ...options, characterDescriptions: characters, previousFrame });
+      characters = result.characterDescriptions;
+      previousFrame = result.image;
+      options.onCharactersChange(characters);
+      options.onFrameChange(index, {
+        reference,
+        status: 'done',
+        scenePrompt: result.scenePrompt,
+        image: result.image,
+        referenceCharacters: result.referenceCharacters,
+        originalPrompt: result.originalPrompt,
+      });
+    } catch (err) {
+      console.error(`Error generating frame for ${reference}:`, err);
+      options.onFrameChange(index, { reference, status: 'error', error: describeError(err, t('passage.frameError')) });
+    }
+  }
+  return characters;
+};
@@ -0,0 +1,156 @@
+import { deleteRecords, getAllRecords, getRecord, putRecords, STORES } from "./db";
+import type { AspectRatio } from "./providers";
+import { DEFAULT_STYLE_PRESET, type StylePreset } from "./stylePresets";
+import type { DramatizedLine } from "./dramatizedNarration";
+import type { VoiceSettings } from "./voiceCatalog";
+import { withImageKeys, type PromptVersion } from "./promptHistory";
+
+/** Where a narration's text came from: a stored translation, the AI fallback, or typed by hand. */
+export type NarrationTextSource = 'translation' | 'ai' | 'edited';
+
+export interface ProjectNarration {
+  text: string;
+  /**
+   * Where `text` came from. AI text is the model's recitation, which may paraphrase: it is not
+   * a quotation of any translation. Missing on narrations saved before this was recorded.
+   */
+  textSource?: NarrationTextSource;
+  /** Name of the translation the text was taken from, when `textSource` is 'translation'. */
+  translation?: string;
+  /** Raw 24 kHz 16-bit mono PCM, base64 encoded, as returned by `generateSpeech`. */
+  audioBase64: string;
+  language: string;
+  /** 'adulta' or 'infantil' before the voice catalog; now the voice name, or 'dramatizada'. */
+  voiceType: string;
+  /** Voice, style and rate the narration was generated with. */
+  voice?: VoiceSettings;
+  /** The speakers' lines, when the narration is dramatized. */
+  lines?: DramatizedLine[];
+}
+
+export interface ProjectVerse {
+  id: string;
+  projectId: string;
+  reference: string;
+  /** Order of the verse in the sequence. */
+  position: number;
+  scenePrompt: string;
+  /** Earlier and current scene prompts, oldest first. Missing on verses saved before prompt history. */
+  promptHistory?: PromptVersion[];
+  /** The scene as a data URL, or null until it has been generated. */
+  image: string | null;
+  /** Earlier and rejected variants of the scene, oldest first. */
+  imageHistory?: string[];
+  /** The format of the scene; regenerating it keeps this format. */
+  aspectRatio?: AspectRatio;
+  narration: ProjectNarration | null;
+  /** Characters whose portraits conditioned the image. Missing on verses saved before reference images. */
+  referenceCharacters?: string[];
+  /** The art style the image was generated in. Missing on verses saved before style presets. */
+  style?: StylePreset;
+  updatedAt: number;
+}
+
+/** Project metadata. Verses are stored separately so saving one verse doesn't rewrite the others. */
+export interface ProjectMeta {
+  id: string;
+  name: string;
+  characterDescriptions: Record<string, string>;
+  /** Characters whose descriptions generation may not change. */
+  lockedCharacters: string[];
+  /** Character-sheet portraits as data URLs, keyed by character name. */
+  characterPortraits: Record<string, string>;
+  /** Voices of the dramatized narration, keyed by speaker (the narrator included). */
+  characterVoices: Record<string, string>;
+  aspectRatio: AspectRatio;
+  /** The style new scenes are generated in. */
+  style: StylePreset;
+  verseCount: number;
+  /** Data URL of the most recent scene, shown in the project list. */
+  thumbnail: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface Project extends ProjectMeta {
+  verses: ProjectVerse[];
+}
+
+/** The editor settings a project remembers besides its characters. */
+export type ProjectSettings = Pick<ProjectMeta, 'aspectRatio' | 'style' | 'lockedCharacters' | 'characterPortraits' | 'characterVoices'>;
+
+const verseRange = (projectId: string) => IDBKeyRange.bound([projectId], [projectId, []]);
+
+export const createProject = (
+  name: string,
+  characterDescriptions: Record<string, string>,
+  settings: ProjectSettings
+): Project => {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    name,
+    characterDescriptions,
+    ...settings,
+    verseCount: 0,
+    thumbnail: null,
+    createdAt: now,
+    updatedAt: now,
+    verses: [],
+  };
+};
+
+export const createVerse = (projectId: string, reference: string, position: number): ProjectVerse => ({
+  id: crypto.randomUUID(),
+  projectId,
+  reference,
+  position,
+  scenePrompt: '',
+  image: null,
+  narration: null,
+  updatedAt: Date.now(),
+});
+
+/** Refreshes the derived metadata (verse count, thumbnail, timestamp) from the verse list. */
+export const withDerivedMeta = (project: Project): Project => {
+  const lastImage = [...project.verses].reverse().find((verse) => verse.image)?.image ?? null;
+  return { ...project, verseCount: project.verses.length, thumbnail: lastImage, updatedAt: Date.now() };
+};
+
+export const listProjects = async (): Promise<ProjectMeta[]> => {
+  const projects = await getAllRecords<ProjectMeta>(STORES.projects);
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadProject = async (id: string): Promise<Project | null> => {
+  const meta = await getRecord<ProjectMeta>(STORES.projects, id);
+  if (!meta) return null;
+  const records = await getAllRecords<ProjectVerse>(STORES.projectVerses, verseRange(id));
+  // Prompt versions saved before images were referenced by key carry image copies; the next save drops them.
+  const verses = records.map((verse) => (verse.promptHistory ? { ...verse, promptHistory: withImageKeys(verse.promptHistory) } : verse));
+  // Projects saved before character locking, portraits, style presets and voices lack those fields.
+  return { lockedCharacters: [], characterPortraits: {}, characterVoices: {}, style: DEFAULT_STYLE_PRESET, ...meta, verses: verses.sort((a, b) => a.position - b.position) };
+};
+
+/**
+ * Saves the project metadata and, optionally, some of its verses.
+ * @param project - The project; its `verses` are not written unless listed in `changedVerses`.
+ * @param changedVerses - Verses that were added or modified.
+ */
+export const saveProject = async (project: Project, changedVerses: ProjectVerse[] = []): Promise<void> => {
+  const { verses, ...meta } = project;
+  if (changedVerses.length > 0) {
+    await putRecords(STORES.projectVerses, changedVerses);
+  }
+  await putRecords<ProjectMeta>(STORES.projects, [meta]);
+};
+
+/** Removes one verse; save the project afterwards with the remaining verses renumbered. */
+export const deleteProjectVerse = async (projectId: string, verseId: string): Promise<void> => {
+  await deleteRecords(STORES.projectVerses, [projectId, verseId]);
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await deleteRecords(STORES.projectVerses, verseRange(id));
+  await deleteRecords(STORES.projects, id);
+};
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { dataUrlKey } from './base64';
+import { addPromptVersions, diffWords, imagePromptVersions, imagesByKey, unsavedPromptVersions, withImageKeys, type DiffPart } from './promptHistory';
+
+const side = (parts: DiffPart[], skipped: DiffPart['type']) =>
+  parts.filter((part) => part.type !== skipped).map((part) => part.text).join('');
+
+describe('diffWords', () => {
+  it('marks changed words and rebuilds both sides', () => {
+    const before = 'Moses raises his staff over the sea';
+    const after = 'Moses lifts his staff over the  red sea';
+    const parts = diffWords(before, after);
+    expect(side(parts, 'added')).toBe(before);
+    expect(side(parts, 'removed')).toBe(after);
+    expect(parts.filter((part) => part.type === 'removed').map((part) => part.text.trim())).toEqual(['raises']);
+    expect(parts.filter((part) => part.type !== 'same').map((part) => part.text.trim())).toContain('red');
+  });
+
+  it('matches repeated words by position, not by first occurrence', () => {
+    const parts = diffWords('the lamb and the lion', 'the lion and the lamb');
+    expect(side(parts, 'added')).toBe('the lamb and the lion');
+    expect(side(parts, 'removed')).toBe('the lion and the lamb');
+    const words = (type: DiffPart['type']) =>
+      parts.filter((part) => part.type === type).flatMap((part) => part.text.split(/\s+/).filter(Boolean));
+    expect(words('same')).toEqual(['the', 'and', 'the']);
+    expect(words('removed')).toEqual(['lamb', 'lion']);
+    expect(words('added')).toEqual(['lion', 'lamb']);
+  });
+
+  it('removes only the dropped copy of a repeated word', () => {
+    expect(diffWords('light and light and light', 'light and light')).toEqual([
+      { type: 'same', text: 'light and light' },
+      { type: 'removed', text: ' and light' },
+    ]);
+  });
+
+  it('handles identical and empty prompts', () => {
+    expect(diffWords('a dove descends', 'a dove descends')).toEqual([{ type: 'same', text: 'a dove descends' }]);
+    expect(diffWords('', 'a dove')).toEqual([{ type: 'added', text: 'a dove' }]);
+    expect(diffWords('a dove', '')).toEqual([{ type: 'removed', text: 'a dove' }]);
+  });
+});
+
+describe('unsavedPromptVersions', () => {
+  it('keeps a hand edit when a new prompt is generated over it', () => {
+    let history = addPromptVersions([], [{ prompt: 'Moses raises his staff', source: 'auto' }]);
+    // The user edits the prompt, then regenerates it before making an image.
+    history = addPromptVersions(history, unsavedPromptVersions(history, 'Moses lifts his staff at dawn', 'edited'));
+    history = addPromptVersions(history, [{ prompt: 'Moses stands before the sea', source: 'auto' }]);
+    expect(history.map(({ prompt, source }) => [source, prompt])).toEqual([
+      ['auto', 'Moses raises his staff'],
+      ['edited', 'Moses lifts his staff at dawn'],
+      ['auto', 'Moses stands before the sea'],
+    ]);
+  });
+
+  it('records nothing for an empty or unchanged prompt', () => {
+    const history = addPromptVersions([], [{ prompt: 'Moses raises his staff', source: 'auto' }]);
+    expect(unsavedPromptVersions(history, ' Moses raises his staff ', 'edited')).toEqual([]);
+    expect(unsavedPromptVersions(history, '  ', 'edited')).toEqual([]);
+    expect(unsavedPromptVersions([], 'A new prompt', 'edited')).toEqual([{ prompt: 'A new prompt', source: 'edited' }]);
+  });
+
+  it('records a restored prompt as restored', () => {
+    let history = addPromptVersions([], [{ prompt: 'Moses raises his staff', source: 'auto' }]);
+    history = addPromptVersions(history, [{ prompt: 'Moses stands before the sea', source: 'auto' }]);
+    history = addPromptVersions(history, unsavedPromptVersions(history, history[0].prompt, 'restored'));
+    expect(history.map(({ source }) => source)).toEqual(['auto', 'auto', 'restored']);
+  });
+});
+
+describe('prompt version images', () => {
+  const image = `data:image/png;base64,${'A'.repeat(5000)}`;
+
+  it('keeps a key to the image, not a copy of it', () => {
+    const history = addPromptVersions([], imagePromptVersions('Moses raises his staff', 'generated', 'Moses raises his staff', image));
+    expect(history).toEqual([expect.objectContaining({ source: 'generated', imageKey: dataUrlKey(image) })]);
+    expect(JSON.stringify(history)).not.toContain(image);
+    expect(imagesByKey([null, image]).get(history[0].imageKey!)).toBe(image);
+  });
+
+  it('links the image to the rewritten prompt it was made from', () => {
+    const history = addPromptVersions([], imagePromptVersions('Moses raises his staff', 'generated', 'A man raises a staff', image));
+    expect(history.map(({ source, imageKey }) => [source, imageKey])).toEqual([
+      ['generated', null],
+      ['safety-rewrite', dataUrlKey(image)],
+    ]);
+  });
+
+  it('replaces the image copies of older versions with keys', () => {
+    const legacy = { id: '1', prompt: 'Moses raises his staff', source: 'auto' as const, createdAt: 1 };
+    expect(withImageKeys([{ ...legacy, image }, { ...legacy, id: '2', image: null }])).toEqual([
+      { ...legacy, imageKey: dataUrlKey(image) },
+      { ...legacy, id: '2', imageKey: null },
+    ]);
+  });
+});
@@ -0,0 +1,145 @@
+// Every scene prompt a verse has had, with where it came from and the image it produced,
+// and a word-level diff to compare two of them.
+import { dataUrlKey } from "./base64";
+
+/** Where a prompt version came from. */
+export type PromptSource =
+  /** Written by the text model. */
+  | 'auto'
+  /** Changed by hand. */
+  | 'edited'
+  /** An earlier version put back from the history. */
+  | 'restored'
+  /** First recorded when an image was made from it, with no earlier version saying where it came from. */
+  | 'generated'
+  | 'safety-rewrite';
+
+export interface PromptVersion {
+  id: string;
+  prompt: string;
+  source: PromptSource;
+  /**
+   * `dataUrlKey` of the image generated from this prompt, or null if none was. The image itself
+   * is stored once, as the verse's `image` or in its `imageHistory`.
+   */
+  imageKey: string | null;
+  createdAt: number;
+}
+
+/** A version saved before images were referenced by key, with its own copy of the image. */
+type LegacyPromptVersion = Omit<PromptVersion, 'imageKey'> & { image: string | null };
+
+/** A prompt to add to a verse's history; `image` (a data URL) links it to the scene it produced. */
+export interface NewPromptVersion {
+  prompt: string;
+  source: PromptSource;
+  image?: string | null;
+}
+
+/** Older versions beyond this are dropped, so a much-edited verse doesn't grow without bound. */
+export const MAX_PROMPT_VERSIONS = 30;
+
+/**
+ * Appends prompt versions, in order, to a verse's history. A prompt equal to the latest version
+ * doesn't add a new one: it only links the image, and the latest version keeps its source
+ * (an auto-generated prompt used unchanged stays auto-generated).
+ * @returns The new history, oldest first.
+ */
+export const addPromptVersions = (history: PromptVersion[] = [], versions: NewPromptVersion[]): PromptVersion[] => {
+  const next = [...history];
+  for (const { prompt, source, image } of versions) {
+    if (!prompt.trim()) continue;
+    const latest = next[next.length - 1];
+    if (latest && latest.prompt.trim() === prompt.trim()) {
+      if (image) next[next.length - 1] = { ...latest, imageKey: dataUrlKey(image) };
+      continue;
+    }
+    next.push({ id: crypto.randomUUID(), prompt, source, imageKey: image ? dataUrlKey(image) : null, createdAt: Date.now() });
+  }
+  return next.slice(-MAX_PROMPT_VERSIONS);
+};
+
+/**
+ * The versions behind a generated image: the prompt it was requested with and, when the safety
+ * filter forced a rewrite, the rewritten prompt it was actually generated from.
+ * @param requested - The prompt sent for generation.
+ * @param source - Where the requested prompt came from.
+ * @param used - The prompt the image was generated from.
+ */
+export const imagePromptVersions = (requested: string, source: PromptSource, used: string, image: string | null): NewPromptVersion[] =>
+  used.trim() === requested.trim()
+    ? [{ prompt: requested, source, image }]
+    : [{ prompt: requested, source }, { prompt: used, source: 'safety-rewrite', image }];
+
+/**
+ * The version to record for the prompt in the editor, before it is used or replaced. Nothing is
+ * recorded for an empty prompt or one equal to the latest version, so an untouched prompt adds nothing.
+ * @param history - The verse's versions, oldest first.
+ * @param source - How the prompt got into the editor: typed, restored from the history, and so on.
+ */
+export const unsavedPromptVersions = (history: PromptVersion[] = [], prompt: string, source: PromptSource): NewPromptVersion[] =>
+  !prompt.trim() || history[history.length - 1]?.prompt.trim() === prompt.trim() ? [] : [{ prompt, source }];
+
+/** Replaces the image copies of versions saved before images were referenced by key. */
+export const withImageKeys = (history: (PromptVersion | LegacyPromptVersion)[]): PromptVersion[] =>
+  history.map((version) => {
+    if (!('image' in version)) return version;
+    const { image, ...rest } = version;
+    return { ...rest, imageKey: image ? dataUrlKey(image) : null };
+  });
+
+/**
+ * Finds the images versions refer to among a verse's images.
+ * @param images - The verse's current and earlier images, as data URLs.
+ * @returns The images by `imageKey`.
+ */
+export const imagesByKey = (images: (string | null | undefined)[]): Map<string, string> =>
+  new Map(images.filter((image): image is string => !!image).map((image) => [dataUrlKey(image), image]));
+
+export interface DiffPart {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Compares two prompts word by word (longest common subsequence). Whitespace is kept with
+ * the words, so joining the parts of one side gives that side back.
+ * @returns The parts of both texts in reading order: removed parts come from `before`, added ones from `after`.
+ */
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+  // lengths[i][j]: longest common subsequence of a[i..] and b[j..].
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      parts.push({ type, text });
+    }
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('same', a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  a.slice(i).forEach((token) => push('removed', token));
+  b.slice(j).forEach((token) => push('added', token));
+  return parts;
+};
@@ -0,0 +1,99 @@
+import { GoogleGenAI, Modality } from "@google/genai";
+import type { GeneratedImage, GenerationProvider, ImageRequest, SpeechRequest, TextRequest } from "./types";
+
+const TEXT_MODEL = 'gemini-2.5-flash';
+const IMAGE_MODEL = 'imagen-4.0-generate-001';
+// Imagen only takes text, so scenes with reference images go to the multimodal image model.
+const CONDITIONED_IMAGE_MODEL = 'gemini-2.5-flash-image';
+const SPEECH_MODEL = 'gemini-2.5-flash-preview-tts';
+
+/**
+ * Creates the Gemini backend. The client is created on first use so that
+ * importing the app without an API key doesn't throw.
+ * @param apiKey - The Gemini API key.
+ */
+export const createGeminiProvider = (apiKey: string | undefined): GenerationProvider => {
+  let ai: GoogleGenAI | null = null;
+
+  const getClient = (): GoogleGenAI => {
+    if (!apiKey) {
+      throw new Error("API_KEY environment variable not set");
+    }
+    if (!ai) {
+      ai = new GoogleGenAI({ apiKey });
+    }
+    return ai;
+  };
+
+  return {
+    id: 'gemini',
+
+    async generateText({ prompt, responseSchema }: TextRequest): Promise<string> {
+      const response = await getClient().models.generateContent({
+        model: TEXT_MODEL,
+        contents: prompt,
+        config: responseSchema
+          ? { responseMimeType: 'application/json', responseSchema }
+          : undefined,
+      });
+      return response.text ?? '';
+    },
+
+    async generateImages({ prompt: basePrompt, aspectRatio, numberOfImages = 1, negativePrompt, referenceImages }: ImageRequest): Promise<GeneratedImage[]> {
+      // The Gemini API rejects Imagen's `negativePrompt` parameter, so it goes into the prompt text.
+      const prompt = negativePrompt ? `${basePrompt}\n\nEvite: ${negativePrompt}.` : basePrompt;
+      if (referenceImages && referenceImages.length > 0) {
+        // The multimodal model returns one image per call.
+        const responses = await Promise.all(Array.from({ length: numberOfImages }, () =>
+          getClient().models.generateContent({
+            model: CONDITIONED_IMAGE_MODEL,
+            contents: [{
+              role: 'user',
+              parts: [
+                ...referenceImages.map((image) => ({ inlineData: { data: image.data, mimeType: image.mimeType } })),
+                { text: prompt },
+              ],
+            }],
+            config: {
+              responseModalities: [Modality.IMAGE],
+              imageConfig: { aspectRatio },
+            },
+          })
+        ));
+        return responses
+          .map((response) => response.candidates?.[0]?.content?.parts?.find((part) => part.inlineData?.data)?.inlineData)
+          .filter((inlineData) => !!inlineData?.data)
+          .map((inlineData) => ({ data: inlineData!.data!, mimeType: inlineData!.mimeType ?? 'image/png' }));
+      }
+
+      const response = await getClient().models.generateImages({
+        model: IMAGE_MODEL,
+        prompt,
+        config: {
+          numberOfImages,
+          outputMimeType: 'image/jpeg',
+          aspectRatio,
+        },
+      });
+      return (response.generatedImages ?? [])
+        .filter((generated) => !!generated.image?.imageBytes)
+        .map((generated) => ({ data: generated.image!.imageBytes!, mimeType: generated.image!.mimeType ?? 'image/jpeg' }));
+    },
+
+    async generateSpeech({ text, voiceName }: SpeechRequest): Promise<string | null> {
+      const response = await getClient().models.generateContent({
+        model: SPEECH_MODEL,
+        contents: [{ parts: [{ text }] }],
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: {
+            voiceConfig: {
+              prebuiltVoiceConfig: { voiceName },
+            },
+          },
+        },
+      });
+      return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data ?? null;
+    },
+  };
+};
@@ -0,0 +1,46 @@
+import { createGeminiProvider } from "./geminiProvider";
+import { createMockProvider } from "./mockProvider";
+import { createProxyProvider } from "./proxyProvider";
+import type { GenerationProvider } from "./types";
+
+export type { AspectRatio, GeneratedImage, GenerationProvider, ImageRequest, ReferenceImage, SpeechRequest, TextInputs, TextRequest, TextTask } from "./types";
+export { createGeminiProvider } from "./geminiProvider";
+export { createMockProvider } from "./mockProvider";
+export { createProxyProvider } from "./proxyProvider";
+
+/**
+ * Picks the backend from GENERATION_PROVIDER ('gemini', 'mock' or 'proxy').
+ * Without an explicit choice, Gemini is used when an API key is available and the mock otherwise.
+ * 'proxy' calls the local API server at API_PROXY_URL (default "/api"), which holds the key.
+ */
+const createDefaultProvider = (): GenerationProvider => {
+  const apiKey = process.env.API_KEY;
+  const requested = process.env.GENERATION_PROVIDER;
+
+  if (requested === 'proxy') {
+    return createProxyProvider(process.env.API_PROXY_URL || '/api');
+  }
+
+  if (requested === 'mock' || (!requested && !apiKey)) {
+    if (!requested) {
+      console.warn("API_KEY not set; using the offline mock provider.");
+    }
+    return createMockProvider();
+  }
+  return createGeminiProvider(apiKey);
+};
+
+let activeProvider: GenerationProvider | null = null;
+
+/** Returns the backend every service call goes through. */
+export const getProvider = (): GenerationProvider => {
+  if (!activeProvider) {
+    activeProvider = createDefaultProvider();
+  }
+  return activeProvider;
+};
+
+/** Replaces the active backend, e.g. with the mock in tests or scripts. */
+export const setProvider = (provider: GenerationProvider): void => {
+  activeProvider = provider;
+};
@@ -0,0 +1,150 @@
+// Synthetic media for the offline mock provider: flat-shaded placeholder JPEGs and tone PCM.
+// Everything here is derived from a seed so the same input always yields the same bytes.
+
+/** FNV-1a hash, used to derive deterministic colours and tones from prompt text. */
+export const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+type Rgb = [number, number, number];
+
+const PALETTE: Rgb[] = [
+  [236, 179, 101], [94, 129, 172], [191, 97, 106], [163, 190, 140],
+  [180, 142, 173], [208, 135, 112], [136, 192, 208], [76, 86, 106],
+];
+
+const clampByte = (value: number) => Math.max(0, Math.min(255, Math.round(value)));
+
+const rgbToYCbCr = ([r, g, b]: Rgb): Rgb => [
+  clampByte(0.299 * r + 0.587 * g + 0.114 * b),
+  clampByte(128 - 0.168736 * r - 0.331264 * g + 0.5 * b),
+  clampByte(128 + 0.5 * r - 0.418688 * g - 0.081312 * b),
+];
+
+/**
+ * Picks JPEG dimensions for an aspect ratio such as '9:16', with the long side at 512px
+ * and both sides a multiple of 8 so every block is complete.
+ */
+export const placeholderDimensions = (aspectRatio: string): { width: number; height: number } => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  const longSide = 512;
+  const shortSide = (long: number, short: number) => Math.max(8, Math.round((longSide * short) / long / 8) * 8);
+  return w >= h
+    ? { width: longSide, height: shortSide(w, h) }
+    : { width: shortSide(h, w), height: longSide };
+};
+
+class BitWriter {
+  readonly bytes: number[] = [];
+  private current = 0;
+  private count = 0;
+
+  write(value: number, length: number) {
+    for (let i = length - 1; i >= 0; i--) {
+      this.current = (this.current << 1) | ((value >> i) & 1);
+      this.count++;
+      if (this.count === 8) this.flushByte();
+    }
+  }
+
+  finish() {
+    // Pad the last byte with 1-bits as required by the spec.
+    while (this.count !== 0) this.write(1, 1);
+  }
+
+  private flushByte() {
+    this.bytes.push(this.current);
+    if (this.current === 0xff) this.bytes.push(0x00); // byte stuffing
+    this.current = 0;
+    this.count = 0;
+  }
+}
+
+const segment = (marker: number, payload: number[]): number[] => {
+  const length = payload.length + 2;
+  return [0xff, marker, length >> 8, length & 0xff, ...payload];
+};
+
+/**
+ * Encodes a baseline JPEG filled with a vertical gradient. Each 8x8 block is a flat colour,
+ * so only DC coefficients are needed and the Huffman tables stay tiny: DC categories 0-11
+ * all get 4-bit codes and the AC table holds only the end-of-block symbol.
+ */
+export const encodeGradientJpeg = (width: number, height: number, top: Rgb, bottom: Rgb): Uint8Array => {
+  const blocksX = Math.ceil(width / 8);
+  const blocksY = Math.ceil(height / 8);
+
+  const sof = [8, height >> 8, height & 0xff, width >> 8, width & 0xff, 3, 1, 0x11, 0, 2, 0x11, 0, 3, 0x11, 0];
+  const dcCounts = new Array(16).fill(0);
+  dcCounts[3] = 12;
+  const acCounts = new Array(16).fill(0);
+  acCounts[0] = 1;
+
+  const writer = new BitWriter();
+  const predictors = [0, 0, 0];
+  for (let by = 0; by < blocksY; by++) {
+    const t = blocksY > 1 ? by / (blocksY - 1) : 0;
+    const rgb: Rgb = [0, 1, 2].map((c) => top[c] + (bottom[c] - top[c]) * t) as Rgb;
+    const components = rgbToYCbCr(rgb).map((level) => 8 * (level - 128));
+    for (let bx = 0; bx < blocksX; bx++) {
+      components.forEach((dc, c) => {
+        const diff = dc - predictors[c];
+        predictors[c] = dc;
+        const category = diff === 0 ? 0 : Math.floor(Math.log2(Math.abs(diff))) + 1;
+        writer.write(category, 4);
+        if (category > 0) {
+          writer.write(diff > 0 ? diff : diff + (1 << category) - 1, category);
+        }
+        writer.write(0, 1); // end of block
+      });
+    }
+  }
+  writer.finish();
+
+  return new Uint8Array([
+    0xff, 0xd8,
+    ...segment(0xe0, [0x4a, 0x46, 0x49, 0x46, 0, 1, 1, 0, 0, 1, 0, 1, 0, 0]),
+    ...segment(0xdb, [0, ...new Array(64).fill(1)]),
+    ...segment(0xc0, sof),
+    ...segment(0xc4, [0x00, ...dcCounts, ...Array.from({ length: 12 }, (_, i) => i)]),
+    ...segment(0xc4, [0x10, ...acCounts, 0x00]),
+    ...segment(0xda, [3, 1, 0x00, 2, 0x00, 3, 0x00, 0, 63, 0]),
+    ...writer.bytes,
+    0xff, 0xd9,
+  ]);
+};
+
+/** Builds a placeholder JPEG whose colours are picked from the seed. */
+export const createPlaceholderJpeg = (seed: number, aspectRatio: string): Uint8Array => {
+  const { width, height } = placeholderDimensions(aspectRatio);
+  const top = PALETTE[seed % PALETTE.length];
+  const bottom = PALETTE[(seed % PALETTE.length + 1 + ((seed >>> 8) % (PALETTE.length - 1))) % PALETTE.length];
+  return encodeGradientJpeg(width, height, top, bottom);
+};
+
+export const MOCK_SAMPLE_RATE = 24000;
+
+/**
+ * Synthesizes 16-bit little-endian mono PCM at 24 kHz: a soft tone pulsing at a
+ * syllable-like rate, lasting roughly as long as reading the text aloud would.
+ */
+export const createSyntheticPcm = (text: string, seed: number): Uint8Array => {
+  const seconds = Math.min(20, Math.max(1, text.length * 0.06));
+  const sampleCount = Math.round(seconds * MOCK_SAMPLE_RATE);
+  const frequency = 160 + (seed % 120);
+  const pcm = new Uint8Array(sampleCount * 2);
+  const view = new DataView(pcm.buffer);
+  for (let i = 0; i < sampleCount; i++) {
+    const time = i / MOCK_SAMPLE_RATE;
+    const fade = Math.min(1, time / 0.05, (seconds - time) / 0.05);
+    const syllables = 0.55 + 0.45 * Math.sin(2 * Math.PI * 4 * time);
+    const tone = Math.sin(2 * Math.PI * frequency * time) + 0.3 * Math.sin(4 * Math.PI * frequency * time);
+    view.setInt16(i * 2, Math.round(tone * syllables * fade * 6000), true);
+  }
+  return pcm;
+};
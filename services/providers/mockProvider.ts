@@ -0,0 +1,82 @@
+import { bytesToBase64 } from "../base64";
+import { createPlaceholderJpeg, createSyntheticPcm, hashString } from "./mockMedia";
+import type { GeneratedImage, GenerationProvider, ImageRequest, SpeechRequest, TextRequest, TextTask } from "./types";
+
+const CANNED_CHARACTERS = [
+  {
+    name: 'Eli',
+    description: 'Homem idoso do Oriente Médio, pele morena, barba branca longa, corpulento e de baixa estatura, túnica sacerdotal bege com faixa azul.',
+  },
+  {
+    name: 'Samuel',
+    description: 'Menino de cerca de 10 anos, pele morena, cabelo escuro encaracolado, olhos castanhos atentos, túnica de linho branca simples.',
+  },
+];
+
+const CANNED_SCENES = [
+  'Ao entardecer, no pátio de pedra do tabernáculo de Siló, o sacerdote Eli descansa em uma cadeira de madeira enquanto o menino Samuel se aproxima com uma lamparina de azeite, a luz dourada iluminando seus rostos serenos.',
+  'Nas colinas secas de Efraim, sob um céu azul intenso, Samuel caminha ao lado de Eli por uma trilha de terra, oliveiras ao fundo e pastores observando de longe.',
+  'Dentro do tabernáculo, iluminado por lamparinas, Samuel dorme sobre uma esteira de palha enquanto um brilho suave e misterioso preenche o ambiente silencioso.',
+  'Na entrada da cidade, uma multidão reunida ouve atenta as palavras de Samuel, enquanto Eli, sentado à sombra de um portão de pedra, observa com expressão emocionada.',
+];
+
+const CANNED_VERSES = [
+  'No princípio criou Deus os céus e a terra.',
+  'E disse Deus: Haja luz; e houve luz.',
+  'O Senhor é o meu pastor; nada me faltará.',
+  'Então veio o Senhor, e ali esteve, e chamou como das outras vezes: Samuel, Samuel. E disse Samuel: Fala, porque o teu servo ouve.',
+];
+
+const CANNED_DIALOGUE = [
+  { speaker: 'Narrador', text: 'Então veio o Senhor, e ali esteve, e chamou como das outras vezes:' },
+  { speaker: 'Senhor', text: 'Samuel, Samuel.' },
+  { speaker: 'Narrador', text: 'E disse Samuel:' },
+  { speaker: 'Samuel', text: 'Fala, porque o teu servo ouve.' },
+];
+
+const cannedText = (task: TextTask, seed: number): string => {
+  switch (task) {
+    case 'scene':
+      return JSON.stringify({
+        scenePrompt: CANNED_SCENES[seed % CANNED_SCENES.length],
+        characterDescriptions: CANNED_CHARACTERS,
+      });
+    case 'verse':
+      return CANNED_VERSES[seed % CANNED_VERSES.length];
+    case 'safe-rewrite':
+      return CANNED_SCENES[seed % CANNED_SCENES.length];
+    case 'dialogue':
+      return JSON.stringify({ lines: CANNED_DIALOGUE });
+  }
+};
+
+const delay = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Creates a deterministic offline backend. Responses depend only on the request,
+ * so the same input always produces the same scene, image and audio.
+ * @param latencyMs - Artificial delay per call, so loading states are visible in demos.
+ */
+export const createMockProvider = (latencyMs = 400): GenerationProvider => ({
+  id: 'mock',
+
+  async generateText({ task, prompt }: TextRequest): Promise<string> {
+    await delay(latencyMs);
+    return cannedText(task, hashString(prompt));
+  },
+
+  async generateImages({ prompt, aspectRatio, numberOfImages = 1, referenceImages = [] }: ImageRequest): Promise<GeneratedImage[]> {
+    await delay(latencyMs);
+    // References change the seed, so conditioned and unconditioned scenes look different.
+    const references = referenceImages.map((image) => hashString(image.data)).join(',');
+    return Array.from({ length: numberOfImages }, (_, index) => ({
+      data: bytesToBase64(createPlaceholderJpeg(hashString(`${index}:${references}:${prompt}`), aspectRatio)),
+      mimeType: 'image/jpeg',
+    }));
+  },
+
+  async generateSpeech({ text, voiceName }: SpeechRequest): Promise<string | null> {
+    await delay(latencyMs);
+    return bytesToBase64(createSyntheticPcm(text, hashString(voiceName)));
+  },
+});
@@ -0,0 +1,53 @@
+import { GenerationError, type GenerationErrorKind } from "../errors";
+import type { GeneratedImage, GenerationProvider, ImageRequest, SpeechRequest, TextRequest, TextTask } from "./types";
+
+/** The server route of each text task; see `server/apiServer.ts`. */
+export const TEXT_ROUTES: Record<TextTask, string> = {
+  scene: 'scene',
+  verse: 'verse',
+  'safe-rewrite': 'rewrite',
+  dialogue: 'dialogue',
+};
+
+/**
+ * Creates the backend that calls the local API server instead of Gemini, so the API key
+ * stays on the server and out of the browser bundle.
+ * @param baseUrl - Where the server's routes live, e.g. "/api".
+ */
+export const createProxyProvider = (baseUrl: string): GenerationProvider => {
+  const post = async <T>(route: string, body: unknown): Promise<T> => {
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/${route}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const payload = await response.json().catch(() => null);
+    if (!response.ok) {
+      const message = payload?.error ?? `HTTP ${response.status}`;
+      // The server classifies provider errors; keep its kind so retries and guidance still work.
+      if (payload?.kind) throw new GenerationError(payload.kind as GenerationErrorKind, message, undefined, payload.classified === true);
+      throw Object.assign(new Error(message), { status: response.status });
+    }
+    return payload as T;
+  };
+
+  return {
+    id: 'proxy',
+
+    async generateText(request: TextRequest): Promise<string> {
+      // Only the inputs: the server builds the prompt from them itself.
+      const { text } = await post<{ text: string }>(TEXT_ROUTES[request.task], request.inputs);
+      return text;
+    },
+
+    async generateImages(request: ImageRequest): Promise<GeneratedImage[]> {
+      const { images } = await post<{ images: GeneratedImage[] }>('image', request);
+      return images;
+    },
+
+    async generateSpeech(request: SpeechRequest): Promise<string | null> {
+      const { audio } = await post<{ audio: string | null }>('speech', request);
+      return audio;
+    },
+  };
+};
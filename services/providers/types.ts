@@ -0,0 +1,75 @@
+import type { Schema } from "@google/genai";
+
+export type AspectRatio = '9:16' | '16:9' | '1:1' | '3:4' | '4:3';
+
+/**
+ * What a text request is for. Backends that don't run a real model (the mock)
+ * use it to decide which canned response to return.
+ */
+export type TextTask = 'scene' | 'verse' | 'safe-rewrite' | 'dialogue';
+
+/** What a text prompt is built from; see `services/textPrompts.ts`. */
+export type TextInputs =
+  | { task: 'scene'; reference: string; characters: Record<string, string> }
+  | { task: 'verse'; reference: string; language: string }
+  | { task: 'safe-rewrite'; scenePrompt: string; flaggedTerms: string[] }
+  | { task: 'dialogue'; verseText: string; characterNames: string[] };
+
+export interface TextRequest {
+  task: TextTask;
+  prompt: string;
+  /** When set, the backend must answer with JSON matching this schema. */
+  responseSchema?: Schema;
+  /**
+   * The inputs `prompt` and `responseSchema` were built from. The proxy sends only these,
+   * and the API server builds the prompt again, so clients can't send prompts of their own.
+   */
+  inputs: TextInputs;
+}
+
+/** An image the generated one must stay visually consistent with. */
+export interface ReferenceImage {
+  /** Base64 encoded image bytes. */
+  data: string;
+  mimeType: string;
+}
+
+/** A generated image. */
+export interface GeneratedImage {
+  /** Base64 encoded image bytes. */
+  data: string;
+  /** E.g. 'image/jpeg'; image-conditioned calls may return PNGs. */
+  mimeType: string;
+}
+
+export interface ImageRequest {
+  prompt: string;
+  aspectRatio: AspectRatio;
+  numberOfImages?: number;
+  /** What the image should avoid. */
+  negativePrompt?: string;
+  /**
+   * When set, the image is generated by an image-conditioned model that receives these
+   * images before the prompt. The prompt should say what each one is.
+   */
+  referenceImages?: ReferenceImage[];
+}
+
+export interface SpeechRequest {
+  text: string;
+  voiceName: string;
+}
+
+/**
+ * A generation backend. Every call in `geminiService.ts` goes through the
+ * active provider, so the app can run against Gemini or fully offline.
+ */
+export interface GenerationProvider {
+  readonly id: string;
+  /** Returns the raw text produced by the model. */
+  generateText(request: TextRequest): Promise<string>;
+  /** Returns the generated images with their MIME types. May be empty when blocked. */
+  generateImages(request: ImageRequest): Promise<GeneratedImage[]>;
+  /** Returns base64 encoded 16-bit mono PCM at 24 kHz, or null when no audio came back. */
+  generateSpeech(request: SpeechRequest): Promise<string | null>;
+}
@@ -0,0 +1,124 @@
+// Keeps scene prompts past the image model's safety filter: a local check for risky terms, then model rewrites.
+import { generateImageVariants, rewritePromptSafely, type ImageOptions } from "./geminiService";
+import { classifyError } from "./errors";
+import type { AspectRatio } from "./providers";
+
+export const DEFAULT_RISKY_TERMS = [
+  'sangue', 'sangrento', 'arma', 'espada', 'lança', 'flecha', 'morte', 'morto', 'matar', 'assassinato',
+  'ferida', 'ferido', 'cadáver', 'luta', 'batalha', 'guerra', 'violência', 'nudez', 'nu', 'nua',
+];
+
+/** Rewrites allowed per image, counting the one made after the local check. */
+export const MAX_SAFE_REWRITES = 2;
+
+const STORAGE_KEY = 'gerador.riskyTerms';
+
+/** Lowercase without accents, so "Lança" matches "lanca". */
+const normalize = (text: string) => text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+
+/** The risky terms configured in this browser, or the defaults. */
+export const getRiskyTerms = (): string[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : DEFAULT_RISKY_TERMS;
+  } catch {
+    return DEFAULT_RISKY_TERMS;
+  }
+};
+
+/**
+ * Saves the risky terms for this browser. Blank and repeated terms are dropped.
+ * @returns The saved list.
+ */
+export const setRiskyTerms = (terms: string[]): string[] => {
+  const cleaned = [...new Set(terms.map((term) => term.trim().toLowerCase()).filter(Boolean))];
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(cleaned));
+  return cleaned;
+};
+
+export const resetRiskyTerms = (): string[] => {
+  localStorage.removeItem(STORAGE_KEY);
+  return DEFAULT_RISKY_TERMS;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Finds the risky terms a prompt contains, as whole words (plurals included), ignoring case and accents.
+ * @param prompt - The scene prompt.
+ * @param terms - The terms to look for; defaults to the configured ones.
+ * @returns The terms found, in list order.
+ */
+export const findRiskyTerms = (prompt: string, terms: string[] = getRiskyTerms()): string[] => {
+  const text = normalize(prompt);
+  return terms.filter((term) =>
+    new RegExp(`(?<!\\p{L})${escapeRegExp(normalize(term))}s?(?!\\p{L})`, 'u').test(text)
+  );
+};
+
+export interface PromptRewrite {
+  original: string;
+  rewritten: string;
+  /** Terms the local check found in the original prompt. */
+  flaggedTerms: string[];
+  /** Whether the image model blocked at least one version of the prompt. */
+  wasBlocked: boolean;
+  /** How many rewrites it took. */
+  attempts: number;
+}
+
+export interface SafeImageOptions extends ImageOptions {
+  /** Defaults to `MAX_SAFE_REWRITES`. */
+  maxRewrites?: number;
+  /** Defaults to the configured terms. */
+  riskyTerms?: string[];
+}
+
+export interface SafeImageResult {
+  /** The images as data URLs. */
+  images: string[];
+  /** The prompt the images were generated from. */
+  prompt: string;
+  /** Set when the prompt had to be rewritten. */
+  rewrite: PromptRewrite | null;
+}
+
+/**
+ * Generates image variants, softening the prompt first when it contains risky terms and again
+ * every time the image model blocks it, up to `maxRewrites` rewrites.
+ * @param prompt - The scene prompt.
+ * @param aspectRatio - The desired aspect ratio.
+ * @param numberOfImages - How many variants to generate.
+ * @param options - Reference images, art style and rewrite settings.
+ * @throws {GenerationError} The safety error once the rewrites run out, or any other failure.
+ */
+export const generateSafeImageVariants = async (
+  prompt: string,
+  aspectRatio: AspectRatio,
+  numberOfImages: number,
+  { maxRewrites = MAX_SAFE_REWRITES, riskyTerms = getRiskyTerms(), ...imageOptions }: SafeImageOptions = {}
+): Promise<SafeImageResult> => {
+  const flaggedTerms = findRiskyTerms(prompt, riskyTerms);
+  let current = prompt;
+  let attempts = 0;
+  let wasBlocked = false;
+
+  if (flaggedTerms.length > 0 && maxRewrites > 0) {
+    current = await rewritePromptSafely(current, flaggedTerms);
+    attempts++;
+  }
+
+  for (;;) {
+    try {
+      const images = await generateImageVariants(current, aspectRatio, numberOfImages, imageOptions);
+      const rewrite = attempts > 0 ? { original: prompt, rewritten: current, flaggedTerms, wasBlocked, attempts } : null;
+      return { images, prompt: current, rewrite };
+    } catch (err) {
+      if (classifyError(err).kind !== 'safety' || attempts >= maxRewrites) throw err;
+      console.warn(`Image blocked by the safety filter, rewriting the prompt (${attempts + 1}/${maxRewrites}).`);
+      wasBlocked = true;
+      current = await rewritePromptSafely(current, findRiskyTerms(current, riskyTerms));
+      attempts++;
+    }
+  }
+};
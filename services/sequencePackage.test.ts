@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { buildPackageFiles } from './sequencePackage';
+import { createProject, createVerse, type Project } from './projectStore';
+import { DEFAULT_STYLE_PRESET } from './stylePresets';
+
+const project = (changes: Partial<Project> = {}): Project => ({
+  ...createProject('Samuel', {}, {
+    aspectRatio: '16:9',
+    style: DEFAULT_STYLE_PRESET,
+    lockedCharacters: [],
+    characterPortraits: {},
+    characterVoices: {},
+  }),
+  ...changes,
+});
+
+describe('buildPackageFiles', () => {
+  it('names each image after its MIME type', async () => {
+    const base = project();
+    const jpeg = { ...createVerse(base.id, '1 Samuel 3:1', 0), image: 'data:image/jpeg;base64,/9j/' };
+    const png = { ...createVerse(base.id, '1 Samuel 3:2', 1), image: 'data:image/png;base64,iVBORw==' };
+    const names = (await buildPackageFiles({ ...base, verses: [jpeg, png] })).map((entry) => entry.name);
+    expect(names).toContain('images/001_1_samuel_3_1.jpg');
+    expect(names).toContain('images/002_1_samuel_3_2.png');
+  });
+
+  it('gives portraits of names that differ only in case their own files', async () => {
+    const portrait = 'data:image/png;base64,iVBORw==';
+    const files = await buildPackageFiles(project({
+      characterDescriptions: { Eli: 'sacerdote idoso', eli: 'outro Eli' },
+      characterPortraits: { Eli: portrait, eli: portrait },
+    }));
+    const names = files.map((entry) => entry.name);
+    expect(names).toContain('characters/eli.png');
+    expect(names).toContain('characters/eli_2.png');
+    const manifest = JSON.parse(files[0].data as string);
+    expect(manifest.characters.map((character: { portrait: string }) => character.portrait)).toEqual(['characters/eli.png', 'characters/eli_2.png']);
+  });
+});
@@ -0,0 +1,154 @@
+// Packs a whole project into one ZIP for editors: scene images, narration WAVs, verse texts,
+// scene prompts and a manifest.json describing how everything was generated.
+import { base64ToBytes, parseDataUrl } from "./base64";
+import { createWavBlob, getPcmDuration } from "./audio";
+import { createZip, type ZipEntry } from "./zip";
+import { imageExtension } from "./download";
+import type { NarrationTextSource, Project, ProjectVerse } from "./projectStore";
+import type { StylePreset } from "./stylePresets";
+
+/** Bumped whenever the manifest layout changes incompatibly. */
+export const PACKAGE_VERSION = 1;
+
+export interface PackageManifest {
+  format: 'gerador-cenas-biblicas';
+  version: number;
+  exportedAt: string;
+  project: { id: string; name: string; createdAt: string; updatedAt: string };
+  aspectRatio: string;
+  style: Omit<StylePreset, 'builtIn' | 'label'>;
+  characters: { name: string; description: string; locked: boolean; portrait: string | null }[];
+  /** In sequence order. File paths are relative to the root of the archive; null when missing. */
+  verses: {
+    position: number;
+    reference: string;
+    aspectRatio: string;
+    /** Id of the style the scene was generated in. */
+    style: string;
+    referenceCharacters: string[];
+    updatedAt: string;
+    image: string | null;
+    prompt: string | null;
+    text: string | null;
+    /** Where `text` came from; 'ai' text was recited by the model and is not quoted scripture. Null when unknown. */
+    textSource: NarrationTextSource | null;
+    /** The translation `text` was taken from. */
+    translation: string | null;
+    audio: string | null;
+    narration: {
+      language: string;
+      voice: string;
+      durationSeconds: number;
+      /** Speaker of each line, for dramatized narrations. */
+      lines?: { speaker: string; text: string; voice: string }[];
+    } | null;
+  }[];
+}
+
+/** "Gênesis 1:3" → "gênesis_1_3"; accents are kept, the archive names are UTF-8. */
+const toFileName = (text: string) => text.trim().replace(/[\\/:*?"<>|\s]+/g, '_').toLowerCase();
+
+/** Appends `_2`, `_3`… to a file name already taken, e.g. by another character whose name differs only in case. */
+const uniqueFileName = (name: string, taken: Set<string>): string => {
+  let unique = name;
+  for (let suffix = 2; taken.has(unique); suffix++) unique = `${name}_${suffix}`;
+  taken.add(unique);
+  return unique;
+};
+
+/** The archive name, from the project name. */
+export const packageFileName = (project: Project) => `${toFileName(project.name) || 'projeto'}.zip`;
+
+const iso = (timestamp: number) => new Date(timestamp).toISOString();
+
+const imageEntry = (dataUrl: string, path: string): ZipEntry => ({
+  name: `${path}.${imageExtension(dataUrl)}`,
+  data: base64ToBytes(parseDataUrl(dataUrl).data),
+});
+
+const styleSummary = ({ id, name, suffix, negativePrompt }: StylePreset) => ({ id, name, suffix, negativePrompt });
+
+/**
+ * Lists the files of a project's package, manifest first.
+ * Verses are numbered by position (`001_gênesis_1_1.jpg`), so files sort in sequence order.
+ */
+export const buildPackageFiles = async (project: Project): Promise<ZipEntry[]> => {
+  const entries: ZipEntry[] = [];
+  const add = (entry: ZipEntry, modified: number) => {
+    entries.push({ ...entry, modified: new Date(modified) });
+    return entry.name;
+  };
+  const digits = Math.max(3, String(project.verses.length).length);
+
+  const portraitNames = new Set<string>();
+  const characters = Object.entries(project.characterDescriptions).map(([name, description]) => {
+    const portrait = project.characterPortraits[name];
+    const fileName = portrait ? uniqueFileName(toFileName(name) || 'personagem', portraitNames) : '';
+    return {
+      name,
+      description,
+      locked: project.lockedCharacters.includes(name),
+      portrait: portrait ? add(imageEntry(portrait, `characters/${fileName}`), project.updatedAt) : null,
+    };
+  });
+
+  const verses: PackageManifest['verses'] = [];
+  for (const [index, verse] of project.verses.entries()) {
+    const base = `${String(index + 1).padStart(digits, '0')}_${toFileName(verse.reference)}`;
+    verses.push(await packVerse(verse, base, index + 1, project, add));
+  }
+
+  const manifest: PackageManifest = {
+    format: 'gerador-cenas-biblicas',
+    version: PACKAGE_VERSION,
+    exportedAt: new Date().toISOString(),
+    project: { id: project.id, name: project.name, createdAt: iso(project.createdAt), updatedAt: iso(project.updatedAt) },
+    aspectRatio: project.aspectRatio,
+    style: styleSummary(project.style),
+    characters,
+    verses,
+  };
+  // The manifest goes first, so tools that peek at the archive find it without reading the media.
+  entries.unshift({ name: 'manifest.json', data: JSON.stringify(manifest, null, 2) });
+  return entries;
+};
+
+/** Builds the ZIP package of a project. */
+export const createSequencePackage = async (project: Project): Promise<Blob> => createZip(await buildPackageFiles(project));
+
+const packVerse = async (
+  verse: ProjectVerse,
+  base: string,
+  position: number,
+  project: Project,
+  add: (entry: ZipEntry, modified: number) => string
+): Promise<PackageManifest['verses'][number]> => {
+  const { narration } = verse;
+  const image = verse.image ? add(imageEntry(verse.image, `images/${base}`), verse.updatedAt) : null;
+  const prompt = verse.scenePrompt.trim() ? add({ name: `prompts/${base}.txt`, data: verse.scenePrompt }, verse.updatedAt) : null;
+  const text = narration?.text.trim() ? add({ name: `texts/${base}.txt`, data: narration.text }, verse.updatedAt) : null;
+  const audio = narration
+    ? add({ name: `audio/${base}.wav`, data: new Uint8Array(await createWavBlob(narration.audioBase64).arrayBuffer()) }, verse.updatedAt)
+    : null;
+
+  return {
+    position,
+    reference: verse.reference,
+    aspectRatio: verse.aspectRatio ?? project.aspectRatio,
+    style: (verse.style ?? project.style).id,
+    referenceCharacters: verse.referenceCharacters ?? [],
+    updatedAt: iso(verse.updatedAt),
+    image,
+    prompt,
+    text,
+    textSource: narration?.textSource ?? null,
+    translation: narration?.translation ?? null,
+    audio,
+    narration: narration && {
+      language: narration.language,
+      voice: narration.voice?.voiceName ?? narration.voiceType,
+      durationSeconds: Math.round(getPcmDuration(narration.audioBase64) * 100) / 100,
+      lines: narration.lines?.map(({ speaker, text, voiceName }) => ({ speaker, text, voice: voiceName })),
+    },
+  };
+};
@@ -0,0 +1,96 @@
+// Art style presets: the built-in looks plus the ones users save in this browser.
+import { deleteRecords, getAllRecords, putRecords, STORES } from "./db";
+import { t, type MessageKey } from "./i18n";
+
+export interface StylePreset {
+  id: string;
+  name: string;
+  /** Appended to every scene prompt, starting with ", ". */
+  suffix: string;
+  /** What the image model should avoid for this style. */
+  negativePrompt: string;
+  /** Built-in presets can't be edited or deleted. */
+  builtIn?: boolean;
+  /** The name of a built-in preset in the interface language. */
+  label?: MessageKey;
+}
+
+export const BUILT_IN_STYLE_PRESETS: StylePreset[] = [
+  {
+    id: 'pixar',
+    name: 'Pixar 3D',
+    label: 'style.builtIn.pixar',
+    suffix: ', no estilo de um desenho da Pixar, personagens expressivos, iluminação cinematográfica, 3D, 4K, alto detalhe',
+    negativePrompt: 'fotorrealismo, traços 2D, baixa resolução, texto, marcas d\'água',
+    builtIn: true,
+  },
+  {
+    id: 'watercolor',
+    name: 'Aquarela de livro infantil',
+    label: 'style.builtIn.watercolor',
+    suffix: ', ilustração em aquarela de livro infantil, pinceladas suaves, papel texturizado, cores pastel, bordas delicadas, atmosfera acolhedora',
+    negativePrompt: '3D, fotorrealismo, contornos duros, cores saturadas demais, texto',
+    builtIn: true,
+  },
+  {
+    id: 'cartoon',
+    name: 'Desenho 2D plano',
+    label: 'style.builtIn.cartoon',
+    suffix: ', desenho animado 2D plano, formas simples, contornos limpos, cores chapadas e vibrantes, sem gradientes, estilo de animação infantil',
+    negativePrompt: '3D, sombras realistas, texturas fotográficas, excesso de detalhes, texto',
+    builtIn: true,
+  },
+  {
+    id: 'claymation',
+    name: 'Massinha (claymation)',
+    label: 'style.builtIn.claymation',
+    suffix: ', animação em massinha (claymation), personagens de argila modelados à mão, marcas de dedos sutis, cenário em miniatura, iluminação de estúdio suave',
+    negativePrompt: 'desenho 2D, fotorrealismo, superfícies lisas de plástico, texto',
+    builtIn: true,
+  },
+  {
+    id: 'stained-glass',
+    name: 'Vitral',
+    label: 'style.builtIn.stainedGlass',
+    suffix: ', vitral de catedral, peças de vidro colorido unidas por contornos de chumbo, luz atravessando o vidro, composição simétrica, cores ricas como joias',
+    negativePrompt: '3D, fotorrealismo, sombras suaves, gradientes de pintura digital, texto',
+    builtIn: true,
+  },
+];
+
+export const DEFAULT_STYLE_PRESET = BUILT_IN_STYLE_PRESETS[0];
+
+/** Returns the built-in presets followed by the user's, oldest first. */
+export const listStylePresets = async (): Promise<StylePreset[]> => {
+  try {
+    const saved = await getAllRecords<StylePreset & { createdAt: number }>(STORES.stylePresets);
+    return [...BUILT_IN_STYLE_PRESETS, ...saved.sort((a, b) => a.createdAt - b.createdAt)];
+  } catch (err) {
+    console.error("Failed to load style presets:", err);
+    return BUILT_IN_STYLE_PRESETS;
+  }
+};
+
+/**
+ * Saves a new user preset.
+ * @returns The saved preset.
+ */
+export const saveStylePreset = async (preset: Omit<StylePreset, 'id' | 'builtIn'>): Promise<StylePreset> => {
+  if (!preset.name.trim() || !preset.suffix.trim()) {
+    throw new Error(t('errors.styleIncomplete'));
+  }
+  const suffix = preset.suffix.trim();
+  const saved: StylePreset = {
+    id: crypto.randomUUID(),
+    name: preset.name.trim(),
+    suffix: suffix.startsWith(',') ? suffix : `, ${suffix}`,
+    negativePrompt: preset.negativePrompt.trim(),
+  };
+  await putRecords(STORES.stylePresets, [{ ...saved, createdAt: Date.now() }]);
+  return saved;
+};
+
+export const deleteStylePreset = async (id: string): Promise<void> => {
+  await deleteRecords(STORES.stylePresets, id);
+};
+
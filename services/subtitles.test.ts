@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { createCaptions, findActiveCue, offsetCaptions, toSrt, toWebVtt } from './subtitles';
+
+describe('createCaptions', () => {
+  it('gives each sentence its own cue, timed by length, ending with the narration', () => {
+    const cues = createCaptions('No princípio. Criou Deus os céus e a terra.', 10);
+    expect(cues.map((cue) => cue.lines)).toEqual([['No princípio.'], ['Criou Deus os céus e a terra.']]);
+    expect(cues[0].start).toBe(0);
+    expect(cues[0].end).toBeCloseTo((13 / 42) * 10);
+    expect(cues[1].start).toBe(cues[0].end);
+    expect(cues[1].end).toBe(10);
+  });
+
+  it('splits long sentences at clauses and wraps lines to the limit', () => {
+    const text = 'And God said, Let there be light in the firmament of the heaven, to divide the day from the night; and let them be for signs.';
+    const cues = createCaptions(text, 8, { maxLineLength: 20, maxLines: 2 });
+    expect(cues.length).toBeGreaterThan(1);
+    for (const cue of cues) {
+      expect(cue.lines.length).toBeLessThanOrEqual(2);
+      cue.lines.forEach((line) => expect(line.length).toBeLessThanOrEqual(20));
+    }
+    expect(cues.flatMap((cue) => cue.lines).join(' ')).toBe(text);
+  });
+
+  it('returns no cues without text or duration', () => {
+    expect(createCaptions('   ', 5)).toEqual([]);
+    expect(createCaptions('Jesus chorou.', 0)).toEqual([]);
+  });
+});
+
+describe('cue timing', () => {
+  const cues = [
+    { start: 0, end: 1.5, lines: ['Jesus wept.'] },
+    { start: 1.5, end: 3661.0005, lines: ['Then said the Jews,', 'Behold how he loved him!'] },
+  ];
+
+  it('finds the cue showing at a time, with end times exclusive', () => {
+    expect(findActiveCue(cues, 1.5)).toBe(cues[1]);
+    expect(findActiveCue(cues, 4000)).toBeNull();
+    expect(offsetCaptions(cues, 10)[0]).toMatchObject({ start: 10, end: 11.5 });
+  });
+
+  it('formats SRT with commas and numbered cues', () => {
+    expect(toSrt(cues)).toBe(
+      '1\n00:00:00,000 --> 00:00:01,500\nJesus wept.\n\n' +
+      '2\n00:00:01,500 --> 01:01:01,001\nThen said the Jews,\nBehold how he loved him!\n'
+    );
+  });
+
+  it('formats WebVTT with a header and dots', () => {
+    expect(toWebVtt(cues.slice(0, 1))).toBe('WEBVTT\n\n00:00:00.000 --> 00:00:01.500\nJesus wept.\n');
+  });
+});
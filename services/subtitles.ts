@@ -0,0 +1,135 @@
+// Caption cues for narrations, timed against the audio length, with SRT and WebVTT output.
+
+export interface CaptionCue {
+  /** Start time in seconds. */
+  start: number;
+  /** End time in seconds. */
+  end: number;
+  /** The cue's text, already wrapped into lines. */
+  lines: string[];
+}
+
+export interface CaptionOptions {
+  /** Maximum characters per line; 42 is the usual broadcast limit. */
+  maxLineLength?: number;
+  /** Maximum lines per cue. */
+  maxLines?: number;
+}
+
+const DEFAULT_MAX_LINE_LENGTH = 42;
+const DEFAULT_MAX_LINES = 2;
+
+// Sentence ends: . ! ? … optionally followed by closing quotes or brackets.
+const SENTENCE_BOUNDARY = /(?<=[.!?…]["'”’»)\]]*)\s+/;
+// Clause ends: , ; : and dashes.
+const CLAUSE_BOUNDARY = /(?<=[,;:])\s+|\s+(?=[—–]\s)/;
+
+/** Greedily wraps words into lines of at most `maxLineLength` characters. A single longer word gets its own line. */
+const wrapWords = (text: string, maxLineLength: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (line && line.length + 1 + word.length > maxLineLength) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+/**
+ * Splits text into pieces that each fit in one cue: whole sentences where possible,
+ * then clauses, then groups of lines when a clause is still too long.
+ */
+const splitIntoCueTexts = (text: string, maxLineLength: number, maxLines: number): string[][] => {
+  const fits = (piece: string) => wrapWords(piece, maxLineLength).length <= maxLines;
+  const cues: string[][] = [];
+
+  const addPiece = (piece: string) => {
+    const lines = wrapWords(piece, maxLineLength);
+    for (let i = 0; i < lines.length; i += maxLines) {
+      cues.push(lines.slice(i, i + maxLines));
+    }
+  };
+
+  for (const sentence of text.trim().split(SENTENCE_BOUNDARY).filter(Boolean)) {
+    if (fits(sentence)) {
+      cues.push(wrapWords(sentence, maxLineLength));
+      continue;
+    }
+    // Join neighbouring clauses while they still fit in one cue.
+    let current = '';
+    for (const clause of sentence.split(CLAUSE_BOUNDARY).filter(Boolean)) {
+      const joined = current ? `${current} ${clause}` : clause;
+      if (fits(joined)) {
+        current = joined;
+      } else {
+        if (current) addPiece(current);
+        current = clause;
+      }
+    }
+    if (current) addPiece(current);
+  }
+  return cues;
+};
+
+/**
+ * Splits narrated text into caption cues spread across the narration. Each cue lasts in
+ * proportion to its number of characters, which tracks speech closely enough for captions.
+ * @param text - The narrated text.
+ * @param duration - Length of the narration in seconds.
+ * @param options - Line length and line count limits.
+ * @returns The cues, covering the whole narration.
+ */
+export const createCaptions = (text: string, duration: number, options: CaptionOptions = {}): CaptionCue[] => {
+  const maxLineLength = options.maxLineLength ?? DEFAULT_MAX_LINE_LENGTH;
+  const maxLines = options.maxLines ?? DEFAULT_MAX_LINES;
+  const cueTexts = splitIntoCueTexts(text, maxLineLength, maxLines);
+  const totalChars = cueTexts.reduce((total, lines) => total + lines.join(' ').length, 0);
+  if (totalChars === 0 || duration <= 0) return [];
+
+  let start = 0;
+  return cueTexts.map((lines, index) => {
+    const end = index === cueTexts.length - 1
+      ? duration
+      : start + (lines.join(' ').length / totalChars) * duration;
+    const cue = { start, end, lines };
+    start = end;
+    return cue;
+  });
+};
+
+/** Moves cues later by `offset` seconds, e.g. to place a verse's captions within a whole sequence. */
+export const offsetCaptions = (cues: CaptionCue[], offset: number): CaptionCue[] =>
+  cues.map((cue) => ({ ...cue, start: cue.start + offset, end: cue.end + offset }));
+
+/** The cue showing at `time`, if any. */
+export const findActiveCue = (cues: CaptionCue[], time: number): CaptionCue | null =>
+  cues.find((cue) => time >= cue.start && time < cue.end) ?? null;
+
+const formatTimestamp = (seconds: number, decimalSeparator: ',' | '.') => {
+  const totalMs = Math.round(seconds * 1000);
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${decimalSeparator}${pad(ms, 3)}`;
+};
+
+/** Formats cues as a SubRip (.srt) file. */
+export const toSrt = (cues: CaptionCue[]): string =>
+  cues
+    .map((cue, index) =>
+      `${index + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.lines.join('\n')}\n`
+    )
+    .join('\n');
+
+/** Formats cues as a WebVTT (.vtt) file. */
+export const toWebVtt = (cues: CaptionCue[]): string =>
+  `WEBVTT\n\n${cues
+    .map((cue) => `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.lines.join('\n')}\n`)
+    .join('\n')}`;
@@ -0,0 +1,238 @@
+// Renders a sequence of scenes and narrations to a WebM video in the browser (canvas + MediaRecorder).
+import { getPcmDuration, pcmToAudioBuffer } from "./audio";
+import { findActiveCue, offsetCaptions, type CaptionCue } from "./subtitles";
+import type { AspectRatio } from "./providers";
+import { t } from "./i18n";
+
+export interface VideoClip {
+  /** The scene as a data URL. */
+  image: string;
+  /** Base64 encoded 24 kHz PCM narration, or null for a silent scene. */
+  narration: string | null;
+  /** Caption cues timed from the start of this clip's narration. */
+  captions?: CaptionCue[];
+}
+
+export interface VideoExportOptions {
+  aspectRatio: AspectRatio;
+  /** Slow pan and zoom across each scene. */
+  kenBurns: boolean;
+  /** Length of the crossfade between scenes in seconds; 0 cuts directly. */
+  crossfadeSeconds: number;
+  /** How long scenes without narration stay on screen, in seconds. */
+  silentClipSeconds: number;
+  /** Draw the clips' captions onto the video. */
+  burnCaptions?: boolean;
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+interface TimedClip {
+  image: HTMLImageElement;
+  narration: string | null;
+  captions: CaptionCue[];
+  start: number;
+  duration: number;
+}
+
+const FPS = 30;
+const LONG_SIDE = 1920;
+const KEN_BURNS_ZOOM = 0.12;
+const RECORDER_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+
+/** Output size for an aspect ratio such as "9:16", with the long side at 1920 px (1080p). */
+export const getVideoSize = (aspectRatio: AspectRatio): { width: number; height: number } => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  const scale = LONG_SIDE / Math.max(w, h);
+  // Encoders want even dimensions.
+  return { width: Math.round((w * scale) / 2) * 2, height: Math.round((h * scale) / 2) * 2 };
+};
+
+/** Seconds each clip stays on screen: its narration length, or the silent duration. */
+export const getClipDuration = (clip: VideoClip, silentClipSeconds: number): number =>
+  clip.narration ? getPcmDuration(clip.narration) : silentClipSeconds;
+
+/**
+ * Places every clip's captions on the sequence timeline, e.g. for an SRT file to go with the video.
+ * @param clips - The clips, in order.
+ * @param silentClipSeconds - Duration of clips without narration.
+ */
+export const buildSequenceCaptions = (clips: VideoClip[], silentClipSeconds: number): CaptionCue[] => {
+  let start = 0;
+  return clips.flatMap((clip) => {
+    const cues = offsetCaptions(clip.captions ?? [], start);
+    start += getClipDuration(clip, silentClipSeconds);
+    return cues;
+  });
+};
+
+/** Whether this browser can record WebM from a canvas. */
+export const isVideoExportSupported = (): boolean =>
+  typeof MediaRecorder !== 'undefined' && RECORDER_TYPES.some((type) => MediaRecorder.isTypeSupported(type));
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(t('errors.videoImageLoad')));
+    image.src = src;
+  });
+
+/**
+ * Draws a scene covering the whole canvas.
+ * @param progress - How far into the clip we are, from 0 to 1; drives the Ken Burns motion.
+ * @param index - The clip index; alternates zoom and pan direction between scenes.
+ */
+const drawScene = (
+  context: CanvasRenderingContext2D,
+  image: HTMLImageElement,
+  progress: number,
+  index: number,
+  kenBurns: boolean
+) => {
+  const { width, height } = context.canvas;
+  const cover = Math.max(width / image.width, height / image.height);
+  const zoomIn = index % 2 === 0;
+  const zoom = kenBurns ? 1 + KEN_BURNS_ZOOM * (zoomIn ? progress : 1 - progress) : 1;
+  const drawWidth = image.width * cover * zoom;
+  const drawHeight = image.height * cover * zoom;
+  // Pan from one side towards the other within the zoomed slack, changing side every scene.
+  const pan = kenBurns ? (index % 4 < 2 ? progress : 1 - progress) * 0.6 + 0.2 : 0.5;
+  const x = -(drawWidth - width) * pan;
+  const y = -(drawHeight - height) * 0.5;
+  context.drawImage(image, x, y, drawWidth, drawHeight);
+};
+
+/** Draws caption lines centered above the bottom of the frame, clear of the app overlays on 9:16 feeds. */
+const drawCaption = (context: CanvasRenderingContext2D, lines: string[]) => {
+  const { width, height } = context.canvas;
+  const fontSize = Math.round(Math.min(width, height) * 0.045);
+  const lineHeight = fontSize * 1.3;
+  const bottomMargin = height > width ? height * 0.2 : height * 0.08;
+  context.font = `600 ${fontSize}px sans-serif`;
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+  const boxWidth = Math.max(...lines.map((line) => context.measureText(line).width)) + fontSize;
+  const boxHeight = lines.length * lineHeight + fontSize * 0.5;
+  const boxTop = height - bottomMargin - boxHeight;
+  context.fillStyle = 'rgba(0, 0, 0, 0.6)';
+  context.fillRect((width - boxWidth) / 2, boxTop, boxWidth, boxHeight);
+  context.fillStyle = '#fff';
+  lines.forEach((line, index) => {
+    context.fillText(line, width / 2, boxTop + fontSize * 0.25 + lineHeight * (index + 0.5));
+  });
+};
+
+/**
+ * Renders the clips, in order, to a WebM video. Rendering runs in real time, so the export
+ * takes as long as the video and the tab should stay visible.
+ * @param clips - The scenes with their narrations.
+ * @param options - Format, motion and transition settings.
+ * @returns A promise that resolves to the WebM file.
+ */
+export const exportVideo = async (clips: VideoClip[], options: VideoExportOptions): Promise<Blob> => {
+  if (clips.length === 0) {
+    throw new Error(t('errors.videoEmpty'));
+  }
+  if (!isVideoExportSupported()) {
+    throw new Error(t('errors.videoUnsupported'));
+  }
+
+  const images = await Promise.all(clips.map((clip) => loadImage(clip.image)));
+  let cursor = 0;
+  const timeline: TimedClip[] = clips.map((clip, index) => {
+    const duration = getClipDuration(clip, options.silentClipSeconds);
+    const timed = { image: images[index], narration: clip.narration, captions: clip.captions ?? [], start: cursor, duration };
+    cursor += duration;
+    return timed;
+  });
+  const totalDuration = cursor;
+  // A fade can't be longer than half of the shortest scene.
+  const crossfade = Math.min(options.crossfadeSeconds, ...timeline.map((clip) => clip.duration / 2));
+
+  const { width, height } = getVideoSize(options.aspectRatio);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error(t('errors.videoCanvas'));
+  }
+
+  const audioContext = new AudioContext();
+  const audioDestination = audioContext.createMediaStreamDestination();
+  const stream = new MediaStream([
+    ...canvas.captureStream(FPS).getVideoTracks(),
+    ...audioDestination.stream.getAudioTracks(),
+  ]);
+  const mimeType = RECORDER_TYPES.find((type) => MediaRecorder.isTypeSupported(type))!;
+  const recorder = new MediaRecorder(stream, { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+
+  const drawAt = (time: number) => {
+    const found = timeline.findIndex((clip) => time < clip.start + clip.duration);
+    const index = found === -1 ? timeline.length - 1 : found;
+    const clip = timeline[index];
+    const local = Math.min(time - clip.start, clip.duration);
+    context.globalAlpha = 1;
+    context.fillStyle = '#000';
+    context.fillRect(0, 0, width, height);
+    drawScene(context, clip.image, local / clip.duration, index, options.kenBurns);
+    const next = timeline[index + 1];
+    const fadeStart = clip.duration - crossfade;
+    if (next && crossfade > 0 && local > fadeStart) {
+      context.globalAlpha = (local - fadeStart) / crossfade;
+      drawScene(context, next.image, 0, index + 1, options.kenBurns);
+      context.globalAlpha = 1;
+    }
+    const cue = options.burnCaptions ? findActiveCue(clip.captions, local) : null;
+    if (cue) drawCaption(context, cue.lines);
+  };
+
+  try {
+    await audioContext.resume();
+    drawAt(0);
+    const stopped = new Promise<void>((resolve) => {
+      recorder.onstop = () => resolve();
+    });
+    // A short lead-in lets the recorder start before the first narration plays.
+    const startTime = audioContext.currentTime + 0.2;
+    timeline.forEach((clip) => {
+      if (!clip.narration) return;
+      const source = audioContext.createBufferSource();
+      source.buffer = pcmToAudioBuffer(audioContext, clip.narration);
+      source.connect(audioDestination);
+      source.start(startTime + clip.start);
+    });
+    recorder.start(1000);
+
+    await new Promise<void>((resolve, reject) => {
+      const tick = () => {
+        if (options.signal?.aborted) {
+          reject(new Error(t('errors.videoCancelled')));
+          return;
+        }
+        const elapsed = Math.max(0, audioContext.currentTime - startTime);
+        drawAt(Math.min(elapsed, totalDuration));
+        options.onProgress?.(Math.min(elapsed / totalDuration, 1));
+        if (elapsed >= totalDuration) {
+          resolve();
+        } else {
+          requestAnimationFrame(tick);
+        }
+      };
+      requestAnimationFrame(tick);
+    });
+
+    recorder.stop();
+    await stopped;
+    return new Blob(chunks, { type: 'video/webm' });
+  } finally {
+    if (recorder.state !== 'inactive') recorder.stop();
+    stream.getTracks().forEach((track) => track.stop());
+    await audioContext.close();
+  }
+};
@@ -0,0 +1,146 @@
+// The speech model's prebuilt voices, delivery styles and speaking rates, plus the voice presets saved in this browser.
+import { deleteRecords, getAllRecords, putRecords, STORES } from "./db";
+import { t, type MessageKey } from "./i18n";
+
+export interface VoiceInfo {
+  /** The prebuilt voice name sent to the speech model. */
+  name: string;
+  /** How the voice sounds. */
+  description: MessageKey;
+}
+
+/** The prebuilt voices of the Gemini speech model. */
+export const PREBUILT_VOICES: VoiceInfo[] = [
+  { name: 'Puck', description: 'voiceTone.upbeat' },
+  { name: 'Charon', description: 'voiceTone.informativeDeep' },
+  { name: 'Kore', description: 'voiceTone.firm' },
+  { name: 'Fenrir', description: 'voiceTone.excitable' },
+  { name: 'Aoede', description: 'voiceTone.breezy' },
+  { name: 'Leda', description: 'voiceTone.youthful' },
+  { name: 'Orus', description: 'voiceTone.firmDeep' },
+  { name: 'Zephyr', description: 'voiceTone.bright' },
+  { name: 'Callirrhoe', description: 'voiceTone.easygoing' },
+  { name: 'Autonoe', description: 'voiceTone.bright' },
+  { name: 'Enceladus', description: 'voiceTone.breathy' },
+  { name: 'Iapetus', description: 'voiceTone.clear' },
+  { name: 'Umbriel', description: 'voiceTone.easygoing' },
+  { name: 'Algieba', description: 'voiceTone.smooth' },
+  { name: 'Despina', description: 'voiceTone.smooth' },
+  { name: 'Erinome', description: 'voiceTone.clear' },
+  { name: 'Algenib', description: 'voiceTone.gravelly' },
+  { name: 'Rasalgethi', description: 'voiceTone.informative' },
+  { name: 'Laomedeia', description: 'voiceTone.upbeat' },
+  { name: 'Achernar', description: 'voiceTone.soft' },
+  { name: 'Alnilam', description: 'voiceTone.firm' },
+  { name: 'Schedar', description: 'voiceTone.even' },
+  { name: 'Gacrux', description: 'voiceTone.mature' },
+  { name: 'Pulcherrima', description: 'voiceTone.forward' },
+  { name: 'Achird', description: 'voiceTone.friendly' },
+  { name: 'Zubenelgenubi', description: 'voiceTone.casual' },
+  { name: 'Vindemiatrix', description: 'voiceTone.gentle' },
+  { name: 'Sadachbia', description: 'voiceTone.lively' },
+  { name: 'Sadaltager', description: 'voiceTone.knowledgeable' },
+  { name: 'Sulafat', description: 'voiceTone.warm' },
+];
+
+export type VoiceStyle = 'neutral' | 'calm' | 'reverent' | 'excited' | 'child';
+
+export const VOICE_STYLES: { id: VoiceStyle; name: MessageKey; instruction: string }[] = [
+  { id: 'neutral', name: 'voiceStyle.neutral', instruction: '' },
+  { id: 'calm', name: 'voiceStyle.calm', instruction: 'com voz calma e serena' },
+  { id: 'reverent', name: 'voiceStyle.reverent', instruction: 'com voz reverente e solene, como numa leitura litúrgica' },
+  { id: 'excited', name: 'voiceStyle.excited', instruction: 'como um contador de histórias animado, com entusiasmo e expressividade' },
+  { id: 'child', name: 'voiceStyle.child', instruction: 'em tom de criança, com uma voz doce e clara' },
+];
+
+/** Speaking rates offered in the UI, as a multiple of the voice's natural pace. */
+export const SPEAKING_RATES = [0.75, 0.9, 1, 1.1, 1.25];
+
+export interface VoiceSettings {
+  voiceName: string;
+  style: VoiceStyle;
+  /** Multiple of the natural pace, applied to the generated audio (see `changePcmTempo`). */
+  rate: number;
+}
+
+/** The voice new narrations start with, for each narration language. */
+export const DEFAULT_VOICE_BY_LANGUAGE: Record<string, string> = {
+  'pt-BR': 'Puck',
+  'en-US': 'Charon',
+  'es-ES': 'Kore',
+  'fr-FR': 'Aoede',
+  'de-DE': 'Orus',
+};
+
+/** Short sentence used to preview voices, for each narration language. */
+const PREVIEW_TEXTS: Record<string, string> = {
+  'pt-BR': 'No princípio criou Deus os céus e a terra.',
+  'en-US': 'In the beginning God created the heaven and the earth.',
+  'es-ES': 'En el principio creó Dios los cielos y la tierra.',
+  'fr-FR': 'Au commencement, Dieu créa les cieux et la terre.',
+  'de-DE': 'Am Anfang schuf Gott Himmel und Erde.',
+};
+
+export const getPreviewText = (language: string): string => PREVIEW_TEXTS[language] ?? PREVIEW_TEXTS['pt-BR'];
+
+export const defaultVoiceSettings = (language: string): VoiceSettings => ({
+  voiceName: DEFAULT_VOICE_BY_LANGUAGE[language] ?? DEFAULT_VOICE_BY_LANGUAGE['pt-BR'],
+  style: 'neutral',
+  rate: 1,
+});
+
+/**
+ * Prefixes the text with a delivery instruction for the style. The speech model follows
+ * natural-language directions; with the neutral style the text is sent as is. The rate isn't
+ * asked for: the model follows it loosely, so it is applied to the audio afterwards instead.
+ * @param text - The text to narrate.
+ * @param settings - The delivery settings.
+ */
+export const buildSpeechPrompt = (text: string, { style }: VoiceSettings): string => {
+  const instruction = VOICE_STYLES.find((option) => option.id === style)?.instruction;
+  return instruction ? `Leia ${instruction}: ${text}` : text;
+};
+
+export interface VoicePreset extends VoiceSettings {
+  id: string;
+  name: string;
+  /** Built-in presets can't be deleted. */
+  builtIn?: boolean;
+  /** The name of a built-in preset in the interface language. */
+  label?: MessageKey;
+}
+
+/** The two voices the app offered before the catalog. */
+export const BUILT_IN_VOICE_PRESETS: VoicePreset[] = [
+  { id: 'adulta', name: 'Adulta', label: 'voice.builtIn.adulta', voiceName: 'Puck', style: 'neutral', rate: 1, builtIn: true },
+  { id: 'infantil', name: 'Infantil', label: 'voice.builtIn.infantil', voiceName: 'Kore', style: 'child', rate: 1, builtIn: true },
+];
+
+/** Returns the built-in presets followed by the user's, oldest first. */
+export const listVoicePresets = async (): Promise<VoicePreset[]> => {
+  try {
+    const saved = await getAllRecords<VoicePreset & { createdAt: number }>(STORES.voicePresets);
+    return [...BUILT_IN_VOICE_PRESETS, ...saved.sort((a, b) => a.createdAt - b.createdAt)];
+  } catch (err) {
+    console.error("Failed to load voice presets:", err);
+    return BUILT_IN_VOICE_PRESETS;
+  }
+};
+
+/**
+ * Saves the current voice settings under a name, so narrators sound the same across episodes.
+ * @returns The saved preset.
+ */
+export const saveVoicePreset = async (name: string, settings: VoiceSettings): Promise<VoicePreset> => {
+  if (!name.trim()) {
+    throw new Error(t('errors.voicePresetName'));
+  }
+  const { voiceName, style, rate } = settings;
+  const saved: VoicePreset = { id: crypto.randomUUID(), name: name.trim(), voiceName, style, rate };
+  await putRecords(STORES.voicePresets, [{ ...saved, createdAt: Date.now() }]);
+  return saved;
+};
+
+export const deleteVoicePreset = async (id: string): Promise<void> => {
+  await deleteRecords(STORES.voicePresets, id);
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { createZip } from './zip';
+
+const modified = new Date(2024, 2, 15, 13, 45, 30);
+
+const readZip = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  return { bytes, view: new DataView(bytes.buffer) };
+};
+
+describe('createZip', () => {
+  it('writes a stored entry with its CRC-32, sizes, UTF-8 name and DOS time', async () => {
+    const { bytes, view } = await readZip(createZip([{ name: 'Gênesis.txt', data: '123456789', modified }]));
+    const name = new TextEncoder().encode('Gênesis.txt');
+
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint16(6, true)).toBe(0x0800);
+    expect(view.getUint16(8, true)).toBe(0);
+    expect(view.getUint16(10, true)).toBe((13 << 11) | (45 << 5) | 15);
+    expect(view.getUint16(12, true)).toBe(((2024 - 1980) << 9) | (3 << 5) | 15);
+    // The CRC-32 check value of "123456789".
+    expect(view.getUint32(14, true)).toBe(0xcbf43926);
+    expect(view.getUint32(18, true)).toBe(9);
+    expect(view.getUint32(22, true)).toBe(9);
+    expect(view.getUint16(26, true)).toBe(name.length);
+    expect(bytes.slice(30, 30 + name.length)).toEqual(name);
+    expect(new TextDecoder().decode(bytes.slice(30 + name.length, 39 + name.length))).toBe('123456789');
+  });
+
+  it('points the central directory at every local header', async () => {
+    const entries = [
+      { name: 'manifest.json', data: '{}', modified },
+      { name: 'images/001.jpg', data: new Uint8Array([0xff, 0xd8, 0xff, 0xd9]), modified },
+    ];
+    const { bytes, view } = await readZip(createZip(entries));
+
+    const endOffset = bytes.length - 22;
+    expect(view.getUint32(endOffset, true)).toBe(0x06054b50);
+    expect(view.getUint16(endOffset + 10, true)).toBe(2);
+    const centralOffset = view.getUint32(endOffset + 16, true);
+    expect(centralOffset + view.getUint32(endOffset + 12, true)).toBe(endOffset);
+
+    let header = centralOffset;
+    for (const entry of entries) {
+      expect(view.getUint32(header, true)).toBe(0x02014b50);
+      const nameLength = view.getUint16(header + 28, true);
+      const local = view.getUint32(header + 42, true);
+      expect(view.getUint32(local, true)).toBe(0x04034b50);
+      expect(view.getUint32(local + 14, true)).toBe(view.getUint32(header + 16, true));
+      expect(new TextDecoder().decode(bytes.slice(local + 30, local + 30 + nameLength))).toBe(entry.name);
+      header += 46 + nameLength;
+    }
+  });
+
+  it('writes a valid empty archive', async () => {
+    const { bytes, view } = await readZip(createZip([]));
+    expect(bytes.length).toBe(22);
+    expect(view.getUint32(0, true)).toBe(0x06054b50);
+  });
+});
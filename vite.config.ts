@@ -2,17 +2,27 @@ import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ mode, isSsrBuild }) => {
     const env = loadEnv(mode, '.', '');
+    // Through the API server the key stays on the server and is left out of the bundle.
+    const apiKey = env.GENERATION_PROVIDER === 'proxy' ? undefined : env.GEMINI_API_KEY;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': `http://localhost:${env.API_SERVER_PORT || 8787}`,
+        },
       },
       plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      // The CLI and the API server share dist-ssr, so one build must not wipe the other.
+      build: isSsrBuild ? { copyPublicDir: false, emptyOutDir: false } : undefined,
+      // The CLI and the API server (SSR builds) read these from their own environment at run time.
+      define: isSsrBuild ? {} : {
+        'process.env.API_KEY': JSON.stringify(apiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(apiKey),
+        'process.env.GENERATION_PROVIDER': JSON.stringify(env.GENERATION_PROVIDER),
+        'process.env.API_PROXY_URL': JSON.stringify(env.API_PROXY_URL)
       },
       resolve: {
         alias: {